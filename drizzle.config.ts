@@ -2,7 +2,7 @@ import { defineConfig } from 'drizzle-kit';
 
 export default defineConfig({
   schema: './src/db/schema.ts',
-  out: './drizzle',
+  out: './migrations',
   dialect: 'sqlite',
   dbCredentials: {
     url: 'file:./sqlite.db',
@@ -0,0 +1,8 @@
+import { defineConfig } from 'drizzle-kit';
+
+// Schema for the optional PostgreSQL task store (STORAGE_BACKEND=postgres)
+export default defineConfig({
+  schema: './src/db/pg/schema.ts',
+  out: './migrations/pg',
+  dialect: 'postgresql',
+});
@@ -0,0 +1,15 @@
+DROP TABLE IF EXISTS `webhook_deliveries`;
+--> statement-breakpoint
+DROP TABLE IF EXISTS `webhook_subscriptions`;
+--> statement-breakpoint
+DROP TABLE IF EXISTS `task_comments`;
+--> statement-breakpoint
+DROP TABLE IF EXISTS `task_events`;
+--> statement-breakpoint
+DROP TABLE IF EXISTS `sla_policies`;
+--> statement-breakpoint
+DROP TABLE IF EXISTS `workflows`;
+--> statement-breakpoint
+DROP TABLE IF EXISTS `idempotency_keys`;
+--> statement-breakpoint
+DROP TABLE IF EXISTS `tasks`;
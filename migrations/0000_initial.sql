@@ -0,0 +1,99 @@
+CREATE TABLE `idempotency_keys` (
+	`key` text PRIMARY KEY NOT NULL,
+	`response_payload` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `sla_policies` (
+	`id` text PRIMARY KEY NOT NULL,
+	`tenant_id` text NOT NULL,
+	`workspace_id` text NOT NULL,
+	`priority` text NOT NULL,
+	`resolve_within_seconds` integer NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_sla_workspace_priority` ON `sla_policies` (`tenant_id`,`workspace_id`,`priority`);--> statement-breakpoint
+CREATE TABLE `task_comments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`task_id` text NOT NULL,
+	`author_id` text NOT NULL,
+	`body` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`deleted_at` integer,
+	FOREIGN KEY (`task_id`) REFERENCES `tasks`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_comments_task_created` ON `task_comments` (`task_id`,`created_at`);--> statement-breakpoint
+CREATE TABLE `task_events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`task_id` text NOT NULL,
+	`event_type` text NOT NULL,
+	`payload` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`dispatched_at` integer,
+	FOREIGN KEY (`task_id`) REFERENCES `tasks`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_events_task_id` ON `task_events` (`task_id`);--> statement-breakpoint
+CREATE INDEX `idx_events_created_at` ON `task_events` (`created_at`);--> statement-breakpoint
+CREATE INDEX `idx_events_dispatched_at` ON `task_events` (`dispatched_at`);--> statement-breakpoint
+CREATE TABLE `tasks` (
+	`id` text PRIMARY KEY NOT NULL,
+	`tenant_id` text NOT NULL,
+	`workspace_id` text NOT NULL,
+	`title` text NOT NULL,
+	`priority` text DEFAULT 'MEDIUM' NOT NULL,
+	`state` text DEFAULT 'NEW' NOT NULL,
+	`assignee_id` text,
+	`version` integer DEFAULT 1 NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`deleted_at` integer,
+	`due_at` integer,
+	`overdue_notified_at` integer,
+	`sla_breached_at` integer
+);
+--> statement-breakpoint
+CREATE INDEX `idx_tasks_workspace_state` ON `tasks` (`workspace_id`,`state`);--> statement-breakpoint
+CREATE INDEX `idx_tasks_due_at` ON `tasks` (`due_at`);--> statement-breakpoint
+CREATE INDEX `idx_tasks_workspace_assignee` ON `tasks` (`workspace_id`,`assignee_id`);--> statement-breakpoint
+CREATE TABLE `webhook_deliveries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`event_id` text NOT NULL,
+	`subscription_id` text NOT NULL,
+	`status` text DEFAULT 'PENDING' NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`next_attempt_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`last_error` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`event_id`) REFERENCES `task_events`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`subscription_id`) REFERENCES `webhook_subscriptions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_deliveries_status_next_attempt` ON `webhook_deliveries` (`status`,`next_attempt_at`);--> statement-breakpoint
+CREATE TABLE `webhook_subscriptions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`tenant_id` text NOT NULL,
+	`url` text NOT NULL,
+	`secret` text NOT NULL,
+	`event_types` text,
+	`active` integer DEFAULT true NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_webhooks_tenant` ON `webhook_subscriptions` (`tenant_id`);--> statement-breakpoint
+CREATE TABLE `workflows` (
+	`id` text PRIMARY KEY NOT NULL,
+	`tenant_id` text NOT NULL,
+	`workspace_id` text NOT NULL,
+	`definition` text NOT NULL,
+	`version` integer DEFAULT 1 NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_workflows_tenant_workspace` ON `workflows` (`tenant_id`,`workspace_id`);
\ No newline at end of file
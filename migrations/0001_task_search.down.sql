@@ -0,0 +1,7 @@
+DROP TRIGGER IF EXISTS `tasks_fts_update`;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS `tasks_fts_delete`;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS `tasks_fts_insert`;
+--> statement-breakpoint
+DROP TABLE IF EXISTS `tasks_fts`;
@@ -0,0 +1,17 @@
+-- FTS5 index over task titles (drizzle cannot model virtual tables)
+CREATE VIRTUAL TABLE `tasks_fts` USING fts5(title, content='tasks', content_rowid='rowid');
+--> statement-breakpoint
+CREATE TRIGGER `tasks_fts_insert` AFTER INSERT ON `tasks` BEGIN
+	INSERT INTO tasks_fts(rowid, title) VALUES (new.rowid, new.title);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `tasks_fts_delete` AFTER DELETE ON `tasks` BEGIN
+	INSERT INTO tasks_fts(tasks_fts, rowid, title) VALUES ('delete', old.rowid, old.title);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `tasks_fts_update` AFTER UPDATE OF title ON `tasks` BEGIN
+	INSERT INTO tasks_fts(tasks_fts, rowid, title) VALUES ('delete', old.rowid, old.title);
+	INSERT INTO tasks_fts(rowid, title) VALUES (new.rowid, new.title);
+END;
+--> statement-breakpoint
+INSERT INTO tasks_fts(tasks_fts) VALUES ('rebuild');
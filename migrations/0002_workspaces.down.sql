@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS `workspace_members`;
+--> statement-breakpoint
+DROP TABLE IF EXISTS `workspaces`;
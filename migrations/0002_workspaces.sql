@@ -0,0 +1,28 @@
+CREATE TABLE `workspace_members` (
+	`tenant_id` text NOT NULL,
+	`workspace_id` text NOT NULL,
+	`user_id` text NOT NULL,
+	`role` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	PRIMARY KEY(`tenant_id`, `workspace_id`, `user_id`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_members_user` ON `workspace_members` (`tenant_id`,`user_id`);--> statement-breakpoint
+CREATE TABLE `workspaces` (
+	`id` text NOT NULL,
+	`tenant_id` text NOT NULL,
+	`name` text NOT NULL,
+	`settings` text DEFAULT '{}' NOT NULL,
+	`archived` integer DEFAULT false NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	PRIMARY KEY(`tenant_id`, `id`)
+);
+--> statement-breakpoint
+-- Backfill: every workspace that was created implicitly by its tasks
+INSERT INTO `workspaces` (`id`, `tenant_id`, `name`)
+SELECT DISTINCT `workspace_id`, `tenant_id`, `workspace_id` FROM `tasks`;
+--> statement-breakpoint
+-- Backfill: current assignees become agents of their workspace
+INSERT OR IGNORE INTO `workspace_members` (`tenant_id`, `workspace_id`, `user_id`, `role`)
+SELECT DISTINCT `tenant_id`, `workspace_id`, `assignee_id`, 'agent' FROM `tasks` WHERE `assignee_id` IS NOT NULL;
@@ -0,0 +1,7 @@
+DROP TRIGGER IF EXISTS `task_events_seq`;
+--> statement-breakpoint
+DROP INDEX IF EXISTS `idx_events_seq`;
+--> statement-breakpoint
+ALTER TABLE `task_events` DROP COLUMN `seq`;
+--> statement-breakpoint
+DROP TABLE IF EXISTS `consumer_offsets`;
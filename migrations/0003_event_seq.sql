@@ -0,0 +1,17 @@
+CREATE TABLE `consumer_offsets` (
+	`tenant_id` text NOT NULL,
+	`name` text NOT NULL,
+	`seq` integer NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	PRIMARY KEY(`tenant_id`, `name`)
+);
+--> statement-breakpoint
+ALTER TABLE `task_events` ADD `seq` integer;--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_events_seq` ON `task_events` (`seq`);--> statement-breakpoint
+-- Backfill: existing events keep their insertion order
+UPDATE `task_events` SET `seq` = rowid;
+--> statement-breakpoint
+-- Every writer gets the next seq inside its own write transaction, so seqs never go backwards
+CREATE TRIGGER `task_events_seq` AFTER INSERT ON `task_events` WHEN NEW.`seq` IS NULL BEGIN
+  UPDATE `task_events` SET `seq` = (SELECT coalesce(max(`seq`), 0) + 1 FROM `task_events`) WHERE rowid = NEW.rowid;
+END;
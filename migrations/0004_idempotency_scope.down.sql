@@ -0,0 +1,7 @@
+DROP TABLE IF EXISTS `idempotency_keys`;
+--> statement-breakpoint
+CREATE TABLE `idempotency_keys` (
+	`key` text PRIMARY KEY NOT NULL,
+	`response_payload` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
@@ -0,0 +1,18 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_idempotency_keys` (
+	`tenant_id` text NOT NULL,
+	`scope` text NOT NULL,
+	`key` text NOT NULL,
+	`request_hash` text NOT NULL,
+	`status_code` integer,
+	`response_payload` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`expires_at` integer NOT NULL,
+	PRIMARY KEY(`tenant_id`, `scope`, `key`)
+);
+--> statement-breakpoint
+-- Existing keys carry no tenant or request hash and cannot be replayed safely; they are dropped
+DROP TABLE `idempotency_keys`;--> statement-breakpoint
+ALTER TABLE `__new_idempotency_keys` RENAME TO `idempotency_keys`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE INDEX `idx_idempotency_expires_at` ON `idempotency_keys` (`expires_at`);
\ No newline at end of file
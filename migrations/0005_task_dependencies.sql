@@ -0,0 +1,12 @@
+CREATE TABLE `task_dependencies` (
+	`tenant_id` text NOT NULL,
+	`workspace_id` text NOT NULL,
+	`blocker_id` text NOT NULL,
+	`blocked_id` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	PRIMARY KEY(`blocker_id`, `blocked_id`),
+	FOREIGN KEY (`blocker_id`) REFERENCES `tasks`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`blocked_id`) REFERENCES `tasks`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `idx_dependencies_blocked` ON `task_dependencies` (`blocked_id`);
\ No newline at end of file
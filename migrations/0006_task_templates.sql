@@ -0,0 +1,18 @@
+CREATE TABLE `task_templates` (
+	`id` text PRIMARY KEY NOT NULL,
+	`tenant_id` text NOT NULL,
+	`workspace_id` text NOT NULL,
+	`title_pattern` text NOT NULL,
+	`priority` text NOT NULL,
+	`assignee_id` text,
+	`recurrence` text NOT NULL,
+	`active` integer DEFAULT true NOT NULL,
+	`next_run_at` integer,
+	`last_run_at` integer,
+	`last_task_id` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_templates_workspace` ON `task_templates` (`tenant_id`,`workspace_id`);--> statement-breakpoint
+CREATE INDEX `idx_templates_next_run` ON `task_templates` (`next_run_at`);
\ No newline at end of file
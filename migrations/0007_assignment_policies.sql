@@ -0,0 +1,12 @@
+CREATE TABLE `assignment_policies` (
+	`id` text PRIMARY KEY NOT NULL,
+	`tenant_id` text NOT NULL,
+	`workspace_id` text NOT NULL,
+	`definition` text NOT NULL,
+	`rotation` text DEFAULT '{}' NOT NULL,
+	`version` integer DEFAULT 1 NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_assignment_policies_tenant_workspace` ON `assignment_policies` (`tenant_id`,`workspace_id`);
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `task_handoffs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`tenant_id` text NOT NULL,
+	`workspace_id` text NOT NULL,
+	`task_id` text NOT NULL,
+	`from_user_id` text NOT NULL,
+	`to_user_id` text NOT NULL,
+	`note` text,
+	`status` text DEFAULT 'PENDING' NOT NULL,
+	`resolved_by` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`resolved_at` integer,
+	FOREIGN KEY (`task_id`) REFERENCES `tasks`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_handoffs_task_pending` ON `task_handoffs` (`task_id`) WHERE status = 'PENDING';
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE `tasks` DROP COLUMN `custom_fields`;
+--> statement-breakpoint
+ALTER TABLE `tasks` DROP COLUMN `labels`;
+--> statement-breakpoint
+DROP TABLE IF EXISTS `task_field_definitions`;
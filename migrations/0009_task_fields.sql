@@ -0,0 +1,13 @@
+CREATE TABLE `task_field_definitions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`tenant_id` text NOT NULL,
+	`workspace_id` text NOT NULL,
+	`definition` text NOT NULL,
+	`version` integer DEFAULT 1 NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_task_field_definitions_tenant_workspace` ON `task_field_definitions` (`tenant_id`,`workspace_id`);--> statement-breakpoint
+ALTER TABLE `tasks` ADD `labels` text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE `tasks` ADD `custom_fields` text DEFAULT '{}' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,21 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_webhook_deliveries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`event_id` text NOT NULL,
+	`subscription_id` text NOT NULL,
+	`status` text DEFAULT 'PENDING' NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`next_attempt_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`last_error` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`event_id`) REFERENCES `task_events`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`subscription_id`) REFERENCES `webhook_subscriptions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+-- Deliveries of events that only exist in PostgreSQL cannot reference task_events and are dropped
+INSERT INTO `__new_webhook_deliveries`("id", "event_id", "subscription_id", "status", "attempts", "next_attempt_at", "last_error", "created_at", "updated_at") SELECT "id", "event_id", "subscription_id", "status", "attempts", "next_attempt_at", "last_error", "created_at", "updated_at" FROM `webhook_deliveries` WHERE "event_id" IN (SELECT "id" FROM `task_events`);--> statement-breakpoint
+DROP TABLE `webhook_deliveries`;--> statement-breakpoint
+ALTER TABLE `__new_webhook_deliveries` RENAME TO `webhook_deliveries`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE INDEX `idx_deliveries_status_next_attempt` ON `webhook_deliveries` (`status`,`next_attempt_at`);
\ No newline at end of file
@@ -0,0 +1,26 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_webhook_deliveries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`event_id` text NOT NULL,
+	`subscription_id` text NOT NULL,
+	`event_seq` integer NOT NULL,
+	`task_id` text NOT NULL,
+	`event_type` text NOT NULL,
+	`payload` text NOT NULL,
+	`event_created_at` integer NOT NULL,
+	`status` text DEFAULT 'PENDING' NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`next_attempt_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`last_error` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`subscription_id`) REFERENCES `webhook_subscriptions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+-- Existing deliveries copy their event from task_events
+INSERT INTO `__new_webhook_deliveries`("id", "event_id", "subscription_id", "event_seq", "task_id", "event_type", "payload", "event_created_at", "status", "attempts", "next_attempt_at", "last_error", "created_at", "updated_at") SELECT d."id", d."event_id", d."subscription_id", e."seq", e."task_id", e."event_type", e."payload", e."created_at", d."status", d."attempts", d."next_attempt_at", d."last_error", d."created_at", d."updated_at" FROM `webhook_deliveries` d INNER JOIN `task_events` e ON e."id" = d."event_id";--> statement-breakpoint
+DROP TABLE `webhook_deliveries`;--> statement-breakpoint
+ALTER TABLE `__new_webhook_deliveries` RENAME TO `webhook_deliveries`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE INDEX `idx_deliveries_status_next_attempt` ON `webhook_deliveries` (`status`,`next_attempt_at`);--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_deliveries_event_subscription` ON `webhook_deliveries` (`event_id`,`subscription_id`);
\ No newline at end of file
@@ -0,0 +1,4 @@
+DROP TABLE IF EXISTS "task_dependencies";--> statement-breakpoint
+DROP TABLE IF EXISTS "task_comments";--> statement-breakpoint
+DROP TABLE IF EXISTS "task_events";--> statement-breakpoint
+DROP TABLE IF EXISTS "tasks";
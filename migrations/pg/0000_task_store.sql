@@ -0,0 +1,58 @@
+CREATE TABLE "task_comments" (
+	"id" text PRIMARY KEY NOT NULL,
+	"task_id" text NOT NULL,
+	"author_id" text NOT NULL,
+	"body" text NOT NULL,
+	"created_at" bigint DEFAULT extract(epoch from now())::bigint NOT NULL,
+	"updated_at" bigint DEFAULT extract(epoch from now())::bigint NOT NULL,
+	"deleted_at" bigint
+);
+--> statement-breakpoint
+CREATE TABLE "task_dependencies" (
+	"tenant_id" text NOT NULL,
+	"workspace_id" text NOT NULL,
+	"blocker_id" text NOT NULL,
+	"blocked_id" text NOT NULL,
+	"created_at" bigint DEFAULT extract(epoch from now())::bigint NOT NULL,
+	CONSTRAINT "task_dependencies_blocker_id_blocked_id_pk" PRIMARY KEY("blocker_id","blocked_id")
+);
+--> statement-breakpoint
+CREATE TABLE "task_events" (
+	"id" text PRIMARY KEY NOT NULL,
+	"task_id" text NOT NULL,
+	"event_type" text NOT NULL,
+	"payload" jsonb NOT NULL,
+	"created_at" bigint DEFAULT extract(epoch from now())::bigint NOT NULL,
+	"dispatched_at" bigint,
+	"seq" bigserial NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tasks" (
+	"id" text PRIMARY KEY NOT NULL,
+	"tenant_id" text NOT NULL,
+	"workspace_id" text NOT NULL,
+	"title" text NOT NULL,
+	"priority" text DEFAULT 'MEDIUM' NOT NULL,
+	"state" text DEFAULT 'NEW' NOT NULL,
+	"assignee_id" text,
+	"version" integer DEFAULT 1 NOT NULL,
+	"created_at" bigint DEFAULT extract(epoch from now())::bigint NOT NULL,
+	"updated_at" bigint DEFAULT extract(epoch from now())::bigint NOT NULL,
+	"deleted_at" bigint,
+	"due_at" bigint,
+	"overdue_notified_at" bigint,
+	"sla_breached_at" bigint
+);
+--> statement-breakpoint
+ALTER TABLE "task_comments" ADD CONSTRAINT "task_comments_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "task_dependencies" ADD CONSTRAINT "task_dependencies_blocker_id_tasks_id_fk" FOREIGN KEY ("blocker_id") REFERENCES "public"."tasks"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "task_dependencies" ADD CONSTRAINT "task_dependencies_blocked_id_tasks_id_fk" FOREIGN KEY ("blocked_id") REFERENCES "public"."tasks"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "task_events" ADD CONSTRAINT "task_events_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_comments_task_created" ON "task_comments" USING btree ("task_id","created_at");--> statement-breakpoint
+CREATE INDEX "idx_dependencies_blocked" ON "task_dependencies" USING btree ("blocked_id");--> statement-breakpoint
+CREATE INDEX "idx_events_task_id" ON "task_events" USING btree ("task_id");--> statement-breakpoint
+CREATE INDEX "idx_events_created_at" ON "task_events" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "idx_events_seq" ON "task_events" USING btree ("seq");--> statement-breakpoint
+CREATE INDEX "idx_tasks_workspace_state" ON "tasks" USING btree ("workspace_id","state");--> statement-breakpoint
+CREATE INDEX "idx_tasks_due_at" ON "tasks" USING btree ("due_at");--> statement-breakpoint
+CREATE INDEX "idx_tasks_workspace_assignee" ON "tasks" USING btree ("workspace_id","assignee_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "tasks" DROP COLUMN IF EXISTS "custom_fields";--> statement-breakpoint
+ALTER TABLE "tasks" DROP COLUMN IF EXISTS "labels";
\ No newline at end of file
@@ -0,0 +1 @@
+DROP TABLE IF EXISTS "task_handoffs";
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "task_handoffs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"tenant_id" text NOT NULL,
+	"workspace_id" text NOT NULL,
+	"task_id" text NOT NULL,
+	"from_user_id" text NOT NULL,
+	"to_user_id" text NOT NULL,
+	"note" text,
+	"status" text DEFAULT 'PENDING' NOT NULL,
+	"resolved_by" text,
+	"created_at" bigint DEFAULT extract(epoch from now())::bigint NOT NULL,
+	"resolved_at" bigint
+);
+--> statement-breakpoint
+ALTER TABLE "task_handoffs" ADD CONSTRAINT "task_handoffs_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_handoffs_task_pending" ON "task_handoffs" USING btree ("task_id") WHERE status = 'PENDING';
\ No newline at end of file
@@ -0,0 +1,4 @@
+DROP TRIGGER IF EXISTS task_events_seq ON task_events;--> statement-breakpoint
+DROP FUNCTION IF EXISTS task_events_assign_seq();--> statement-breakpoint
+ALTER TABLE "task_events" ALTER COLUMN "seq" SET DEFAULT nextval('task_events_seq_seq');--> statement-breakpoint
+ALTER TABLE "task_events" ALTER COLUMN "seq" SET NOT NULL;
@@ -0,0 +1,13 @@
+ALTER TABLE "task_events" ALTER COLUMN "seq" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "task_events" ALTER COLUMN "seq" DROP NOT NULL;--> statement-breakpoint
+-- Seqs are drawn when the inserting transaction commits, one committer at a time, so they follow commit order:
+-- a reader that has seen seq n never finds a smaller one later. The sequence of the former bigserial stays in use.
+CREATE FUNCTION task_events_assign_seq() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(7240021);
+  UPDATE task_events SET seq = nextval('task_events_seq_seq') WHERE id = NEW.id;
+  RETURN NULL;
+END
+$$;--> statement-breakpoint
+CREATE CONSTRAINT TRIGGER task_events_seq AFTER INSERT ON task_events
+  DEFERRABLE INITIALLY DEFERRED FOR EACH ROW EXECUTE FUNCTION task_events_assign_seq();
@@ -1,11 +1,31 @@
 import express from 'express';
 import { TaskController } from './controllers/taskController';
-import { db } from './db';
-import { taskEvents } from './db/schema';
-import { sql } from 'drizzle-orm';
+import { WebhookController } from './controllers/webhookController';
+import { WorkflowController } from './controllers/workflowController';
+import { CommentController } from './controllers/commentController';
+import { DependencyController } from './controllers/dependencyController';
+import { SlaController } from './controllers/slaController';
+import { WorkspaceController } from './controllers/workspaceController';
+import { EventController } from './controllers/eventController';
+import { AnalyticsController } from './controllers/analyticsController';
+import { OpenApiController } from './controllers/openApiController';
+import { TemplateController } from './controllers/templateController';
+import { AssignmentPolicyController } from './controllers/assignmentPolicyController';
+import { TaskFieldsController } from './controllers/taskFieldsController';
+import { HandoffController } from './controllers/handoffController';
+import { authenticate, loadAuthConfig } from './middleware/auth';
+import { workspaceAccess } from './middleware/workspace';
+import { idempotency } from './middleware/idempotency';
+import { asyncHandler, errorHandler, routeNotFound } from './middleware/errors';
+import { validateResponses } from './middleware/responseValidation';
+import { loadLimitsConfig, rateLimit } from './middleware/rateLimit';
 
 export const app = express();
+// Task imports may be large in every form; parsed first, so the default JSON limit below does not apply to them
+const IMPORT_BODY_LIMIT = '10mb';
+app.use('/v1/workspaces/:workspaceId/tasks/import', express.json({ limit: IMPORT_BODY_LIMIT }));
 app.use(express.json());
+app.use(express.text({ type: ['text/csv', 'application/x-ndjson'], limit: IMPORT_BODY_LIMIT }));
 
 // Log Requests
 app.use((req, res, next) => {
@@ -21,45 +41,110 @@ app.get('/', (req, res) => {
 // Routes
 const router = express.Router();
 
-router.post('/workspaces/:workspaceId/tasks', TaskController.create);
-router.post('/workspaces/:workspaceId/tasks/:taskId/assign', TaskController.assign);
-router.post('/workspaces/:workspaceId/tasks/:taskId/transition', TaskController.transition);
-router.get('/workspaces/:workspaceId/tasks/:taskId', TaskController.get);
-router.get('/workspaces/:workspaceId/tasks', TaskController.list);
-
-// Health Check
+// Health Check (unauthenticated)
 router.get('/health', (req, res) => {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-// Events Endpoint
-router.get('/events', async (req, res) => {
-    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
-    const rawEvents = await db.select().from(taskEvents).orderBy(sql`${taskEvents.createdAt} DESC`).limit(limit).all();
-
-    // Normalize to snake_case
-    const events = rawEvents.map(e => ({
-        id: e.id,
-        task_id: e.taskId,
-        event_type: e.eventType,
-        payload: e.payload,
-        created_at: e.createdAt
-    }));
-
-    res.json(events);
-});
+// API contract (unauthenticated); see src/openapi
+router.get('/openapi.json', OpenApiController.document);
+router.get('/docs', OpenApiController.docs);
+
+// Everything below requires a verified caller (see AUTH_MODE)
+router.use(authenticate(loadAuthConfig()));
+// Per-tenant token buckets by route group (see TENANT_LIMITS); also resolves the tenant's quotas
+router.use(rateLimit({ config: loadLimitsConfig() }));
+// Idempotency-Key replay for every mutation, scoped to the caller's tenant
+router.use(idempotency());
+// Contract checks wrap the idempotency recorder, so a bad response is never stored
+if (process.env.VALIDATE_RESPONSES === 'true') router.use(validateResponses());
+
+router.post('/workspaces', asyncHandler(WorkspaceController.create));
+router.get('/workspaces', asyncHandler(WorkspaceController.list));
+
+// Workspace administration stays open to tenant managers and archived workspaces
+const workspaceAdmin = workspaceAccess({ allowTenantManagers: true, allowArchived: true });
+router.get('/workspaces/:workspaceId', workspaceAdmin, asyncHandler(WorkspaceController.get));
+router.patch('/workspaces/:workspaceId', workspaceAdmin, asyncHandler(WorkspaceController.update));
+router.get('/workspaces/:workspaceId/members', workspaceAdmin, asyncHandler(WorkspaceController.listMembers));
+router.put('/workspaces/:workspaceId/members/:userId', workspaceAdmin, asyncHandler(WorkspaceController.putMember));
+router.delete('/workspaces/:workspaceId/members/:userId', workspaceAdmin, asyncHandler(WorkspaceController.removeMember));
+
+// Everything else inside a workspace requires membership; req.auth.role becomes the member's role
+router.use('/workspaces/:workspaceId', workspaceAccess());
+
+router.post('/workspaces/:workspaceId/tasks', asyncHandler(TaskController.create));
+router.post('/workspaces/:workspaceId/tasks\\:bulk', asyncHandler(TaskController.bulk));
+router.post('/workspaces/:workspaceId/tasks/import', asyncHandler(TaskController.importTasks));
+router.get('/workspaces/:workspaceId/tasks/export', asyncHandler(TaskController.exportTasks));
+router.post('/workspaces/:workspaceId/tasks/:taskId/assign', asyncHandler(TaskController.assign));
+router.post('/workspaces/:workspaceId/tasks/:taskId/auto-assign', asyncHandler(TaskController.autoAssign));
+router.post('/workspaces/:workspaceId/tasks/:taskId/transition', asyncHandler(TaskController.transition));
+router.post('/workspaces/:workspaceId/tasks/:taskId/unassign', asyncHandler(TaskController.unassign));
+router.post('/workspaces/:workspaceId/tasks/:taskId/release', asyncHandler(TaskController.release));
+router.post('/workspaces/:workspaceId/tasks/:taskId/reopen', asyncHandler(TaskController.reopen));
+router.get('/workspaces/:workspaceId/tasks/:taskId', asyncHandler(TaskController.get));
+router.get('/workspaces/:workspaceId/tasks/:taskId/history', asyncHandler(TaskController.history));
+router.patch('/workspaces/:workspaceId/tasks/:taskId', asyncHandler(TaskController.update));
+router.delete('/workspaces/:workspaceId/tasks/:taskId', asyncHandler(TaskController.remove));
+
+router.post('/workspaces/:workspaceId/tasks/:taskId/comments', asyncHandler(CommentController.create));
+router.get('/workspaces/:workspaceId/tasks/:taskId/comments', asyncHandler(CommentController.list));
+router.patch('/workspaces/:workspaceId/tasks/:taskId/comments/:commentId', asyncHandler(CommentController.update));
+router.delete('/workspaces/:workspaceId/tasks/:taskId/comments/:commentId', asyncHandler(CommentController.remove));
+router.get('/workspaces/:workspaceId/tasks', asyncHandler(TaskController.list));
+
+router.post('/workspaces/:workspaceId/tasks/:taskId/handoff', asyncHandler(HandoffController.request));
+router.get('/workspaces/:workspaceId/tasks/:taskId/handoff', asyncHandler(HandoffController.get));
+router.post('/workspaces/:workspaceId/tasks/:taskId/handoff/accept', asyncHandler(HandoffController.accept));
+router.post('/workspaces/:workspaceId/tasks/:taskId/handoff/decline', asyncHandler(HandoffController.decline));
+router.delete('/workspaces/:workspaceId/tasks/:taskId/handoff', asyncHandler(HandoffController.cancel));
+
+router.get('/workspaces/:workspaceId/tasks/:taskId/dependencies', asyncHandler(DependencyController.list));
+router.post('/workspaces/:workspaceId/tasks/:taskId/dependencies', asyncHandler(DependencyController.create));
+router.delete('/workspaces/:workspaceId/tasks/:taskId/dependencies/:blockerId', asyncHandler(DependencyController.remove));
+
+router.get('/workspaces/:workspaceId/workflow', asyncHandler(WorkflowController.get));
+router.put('/workspaces/:workspaceId/workflow', asyncHandler(WorkflowController.put));
+router.delete('/workspaces/:workspaceId/workflow', asyncHandler(WorkflowController.remove));
+
+router.get('/workspaces/:workspaceId/assignment-policy', asyncHandler(AssignmentPolicyController.get));
+router.put('/workspaces/:workspaceId/assignment-policy', asyncHandler(AssignmentPolicyController.put));
+router.delete('/workspaces/:workspaceId/assignment-policy', asyncHandler(AssignmentPolicyController.remove));
+
+router.get('/workspaces/:workspaceId/task-fields', asyncHandler(TaskFieldsController.get));
+router.put('/workspaces/:workspaceId/task-fields', asyncHandler(TaskFieldsController.put));
+router.delete('/workspaces/:workspaceId/task-fields', asyncHandler(TaskFieldsController.remove));
+
+router.get('/workspaces/:workspaceId/templates', asyncHandler(TemplateController.list));
+router.post('/workspaces/:workspaceId/templates', asyncHandler(TemplateController.create));
+router.get('/workspaces/:workspaceId/templates/:templateId', asyncHandler(TemplateController.get));
+router.patch('/workspaces/:workspaceId/templates/:templateId', asyncHandler(TemplateController.update));
+router.delete('/workspaces/:workspaceId/templates/:templateId', asyncHandler(TemplateController.remove));
+router.get('/workspaces/:workspaceId/templates/:templateId/preview', asyncHandler(TemplateController.preview));
+
+router.get('/workspaces/:workspaceId/sla-policies', asyncHandler(SlaController.list));
+router.put('/workspaces/:workspaceId/sla-policies/:priority', asyncHandler(SlaController.put));
+router.delete('/workspaces/:workspaceId/sla-policies/:priority', asyncHandler(SlaController.remove));
+
+router.get('/workspaces/:workspaceId/events/stream', asyncHandler(EventController.stream));
+
+router.get('/workspaces/:workspaceId/analytics', asyncHandler(AnalyticsController.get));
+
+router.post('/webhooks', asyncHandler(WebhookController.create));
+router.get('/webhooks', asyncHandler(WebhookController.list));
+router.delete('/webhooks/:webhookId', asyncHandler(WebhookController.remove));
+router.get('/webhooks/:webhookId/deliveries', asyncHandler(WebhookController.deliveries));
+
+// Tenant changelog and consumer offsets
+router.get('/events', asyncHandler(EventController.list));
+router.get('/consumers/:name/offset', asyncHandler(EventController.getOffset));
+router.put('/consumers/:name/offset', asyncHandler(EventController.putOffset));
 
 app.use('/v1', router);
 
-// Catch-all 404
-app.use((req, res) => {
-    console.log(`!!! 404 NOT FOUND: ${req.method} ${req.url}`);
-    res.status(404).json({
-        error: 'Route not found',
-        path: req.url,
-        method: req.method,
-        suggestion: 'Ensure you are using the /v1 prefix'
-    });
-});
+// Catch-all 404, then every error as application/problem+json
+app.use(routeNotFound);
+app.use(errorHandler);
 
 export default app;
@@ -0,0 +1,34 @@
+import { migrateDown, migrateUp, migrationStatus } from '../db/migrate';
+
+const [command = 'status', arg] = process.argv.slice(2);
+
+switch (command) {
+  case 'status': {
+    for (const m of migrationStatus()) {
+      const state = m.appliedAt ? `applied ${new Date(m.appliedAt * 1000).toISOString()}` : 'pending';
+      console.log(`${m.tag.padEnd(32)} ${state}${m.changed ? '  (file changed since applied)' : ''}`);
+    }
+    break;
+  }
+
+  case 'up': {
+    const tags = migrateUp();
+    console.log(tags.length ? `Applied: ${tags.join(', ')}` : 'Nothing to apply');
+    break;
+  }
+
+  case 'down': {
+    const steps = arg ? parseInt(arg) : 1;
+    if (isNaN(steps) || steps < 1) {
+      console.error('Usage: migrate down [steps]');
+      process.exit(1);
+    }
+    const tags = migrateDown(steps);
+    console.log(tags.length ? `Reverted: ${tags.join(', ')}` : 'Nothing to revert');
+    break;
+  }
+
+  default:
+    console.error('Usage: migrate status|up|down [steps]');
+    process.exit(1);
+}
@@ -0,0 +1,37 @@
+import { loadStorageConfig, openTaskStore } from '../repositories/backend';
+import { TaskHistory } from '../domain/history';
+
+const PAGE_SIZE = 500;
+
+// Replays every task's events and compares the result with its row; exits 1 on any mismatch
+async function main() {
+  const store = await openTaskStore(loadStorageConfig());
+
+  let checked = 0;
+  let inconsistent = 0;
+  let afterId: string | undefined;
+
+  for (;;) {
+    const page = await store.scan({ afterId, limit: PAGE_SIZE });
+    for (const task of page) {
+      const problems = TaskHistory.verify(await store.events(task.id), task);
+      checked++;
+      if (problems.length === 0) continue;
+
+      inconsistent++;
+      console.log(`${task.id} (tenant ${task.tenantId})`);
+      for (const problem of problems) console.log(`  - ${problem}`);
+    }
+
+    if (page.length < PAGE_SIZE) break;
+    afterId = page[page.length - 1].id;
+  }
+
+  console.log(`Checked ${checked} tasks: ${inconsistent ? `${inconsistent} inconsistent` : 'all consistent'}`);
+  process.exit(inconsistent ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
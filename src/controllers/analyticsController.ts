@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import { taskStore } from '../repositories/backend';
+import { WorkflowRepository } from '../repositories/workflowRepository';
+import { AnalyticsRange, bucketStartOf } from '../repositories/taskStore';
+import { BadRequestError, ForbiddenError } from '../domain/errors';
+import { analyticsQuerySchema, AnalyticsResponse } from '../schemas/analytics';
+
+const workflowRepo = new WorkflowRepository();
+
+const DEFAULT_RANGE_SECONDS = 30 * 86_400;
+const MAX_RANGE_SECONDS = 366 * 86_400;
+
+export class AnalyticsController {
+
+  /**
+   * Workspace metrics over [from, to): state/priority distribution of tasks
+   * created in the range, created/completed counts per day or week, lead and
+   * cycle time percentiles, and per-assignee load. Defaults to the last 30 days.
+   */
+  static async get(req: Request, res: Response) {
+    const { tenantId, role } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can view analytics');
+
+    const query = analyticsQuerySchema.parse(req.query);
+    const to = query.to ?? Math.floor(Date.now() / 1000);
+    const from = query.from ?? to - DEFAULT_RANGE_SECONDS;
+
+    if (from >= to) throw new BadRequestError('invalid_range', 'from must be before to');
+    if (to - from > MAX_RANGE_SECONDS) throw new BadRequestError('invalid_range', 'Range cannot exceed 366 days');
+
+    const range: AnalyticsRange = { from, to, bucket: query.bucket, startState: query.start_state, doneState: query.done_state };
+
+    const workflow = await workflowRepo.resolve(workspaceId, tenantId);
+    const { distribution, created, completed, leadTime, cycleTime, assignees } = await taskStore().analytics(workspaceId, tenantId, range, workflow);
+
+    const byState: Record<string, number> = {};
+    const byPriority: Record<string, number> = {};
+    for (const row of distribution) {
+      byState[row.state] = (byState[row.state] ?? 0) + row.count;
+      byPriority[row.priority] = (byPriority[row.priority] ?? 0) + row.count;
+    }
+
+    // Every bucket in the range, including empty ones
+    const createdAt = new Map(created.map(r => [r.start, r.count]));
+    const completedAt = new Map(completed.map(r => [r.start, r.count]));
+    const throughput = [];
+    const step = query.bucket === 'day' ? 86_400 : 7 * 86_400;
+    for (let start = bucketStartOf(from, query.bucket); start < to; start += step) {
+      throughput.push({ start, created: createdAt.get(start) ?? 0, completed: completedAt.get(start) ?? 0 });
+    }
+
+    const body: AnalyticsResponse = {
+      workspace_id: workspaceId,
+      from,
+      to,
+      bucket: query.bucket,
+      total: distribution.reduce((sum, r) => sum + r.count, 0),
+      by_state: byState,
+      by_priority: byPriority,
+      throughput,
+      lead_time: leadTime,
+      cycle_time: cycleTime,
+      assignees: assignees.map(a => ({ assignee_id: a.assigneeId, open: a.open, completed: a.completed })),
+    };
+    res.json(body);
+  }
+}
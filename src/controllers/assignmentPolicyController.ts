@@ -0,0 +1,79 @@
+import { Request, Response } from 'express';
+import { AssignmentPolicyRepository, StoredAssignmentPolicy } from '../repositories/assignmentPolicyRepository';
+import { WorkspaceRepository } from '../repositories/workspaceRepository';
+import { AssignmentDomain, AssignmentPolicy } from '../domain/assignment';
+import { BadRequestError, ForbiddenError, NotFoundError, ValidationError } from '../domain/errors';
+import { AssignmentPolicyResponse, putAssignmentPolicySchema } from '../schemas/assignment';
+
+const policyRepo = new AssignmentPolicyRepository();
+const workspaceRepo = new WorkspaceRepository();
+
+export class AssignmentPolicyController {
+
+  private static mapPolicy(row: StoredAssignmentPolicy): AssignmentPolicyResponse {
+    return {
+      workspace_id: row.workspaceId,
+      auto_assign_on_create: row.definition.autoAssignOnCreate,
+      rules: row.definition.rules.map(rule => ({
+        name: rule.name,
+        when: rule.when.priorities ? { priority: rule.when.priorities } : {},
+        strategy: rule.strategy,
+        pool: rule.pool,
+      })),
+      version: row.version,
+      updated_at: row.updatedAt,
+    };
+  }
+
+  static async get(req: Request, res: Response) {
+    const { tenantId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    const row = await policyRepo.findByWorkspace(workspaceId, tenantId);
+    if (!row) throw new NotFoundError('assignment_policy_not_found', 'Workspace has no assignment policy');
+    res.json(AssignmentPolicyController.mapPolicy(row));
+  }
+
+  static async put(req: Request, res: Response) {
+    const { tenantId, role } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can change assignment policies');
+
+    const body = putAssignmentPolicySchema.parse(req.body);
+    const definition: AssignmentPolicy = {
+      autoAssignOnCreate: body.auto_assign_on_create,
+      rules: body.rules.map(rule => ({
+        name: rule.name,
+        when: rule.when.priority ? { priorities: rule.when.priority } : {},
+        strategy: rule.strategy,
+        pool: rule.pool,
+      })),
+    };
+
+    const errors = AssignmentDomain.validate(definition);
+    if (errors.length > 0) {
+      throw new ValidationError(errors.map(message => ({ path: 'rules', message })), 'Invalid assignment policy');
+    }
+
+    // Pools may only name members; someone who leaves later is skipped when picking
+    const members = new Set((await workspaceRepo.listMembers(workspaceId, tenantId)).map(m => m.userId));
+    const strangers = [...new Set(definition.rules.flatMap(rule => rule.pool))].filter(userId => !members.has(userId));
+    if (strangers.length > 0) {
+      throw new BadRequestError('invalid_assignee', 'Pools may only list members of this workspace', { user_ids: strangers });
+    }
+
+    const row = await policyRepo.upsert(workspaceId, tenantId, definition);
+    res.json(AssignmentPolicyController.mapPolicy(row));
+  }
+
+  static async remove(req: Request, res: Response) {
+    const { tenantId, role } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can change assignment policies');
+
+    await policyRepo.delete(workspaceId, tenantId);
+    res.status(204).send();
+  }
+}
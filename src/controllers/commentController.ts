@@ -0,0 +1,86 @@
+import { Request, Response } from 'express';
+import { taskStore } from '../repositories/backend';
+import { TaskComment } from '../repositories/taskStore';
+import { BadRequestError, ForbiddenError, NotFoundError, TaskNotFoundError } from '../domain/errors';
+import { commentBodySchema, CommentResponse, listCommentsQuerySchema } from '../schemas/comment';
+
+export class CommentController {
+
+  private static mapComment(comment: TaskComment): CommentResponse {
+    return {
+      comment_id: comment.id,
+      task_id: comment.taskId,
+      author_id: comment.authorId,
+      body: comment.body,
+      created_at: comment.createdAt,
+      updated_at: comment.updatedAt,
+    };
+  }
+
+  // Same tenant/workspace isolation as TaskController.get
+  private static async loadTask(req: Request) {
+    const task = await taskStore().findById(req.params.taskId as string, req.auth.tenantId);
+    if (!task || task.workspaceId !== req.params.workspaceId) throw new TaskNotFoundError();
+    return task;
+  }
+
+  private static async loadComment(req: Request, taskId: string) {
+    const comment = await taskStore().findComment(req.params.commentId as string, taskId);
+    if (!comment) throw new NotFoundError('comment_not_found', 'Comment not found');
+    return comment;
+  }
+
+  static async create(req: Request, res: Response) {
+    const { userId } = req.auth;
+
+    if (!userId) throw new BadRequestError('missing_user', 'X-User-Id header required');
+
+    const body = commentBodySchema.parse(req.body);
+
+    const task = await CommentController.loadTask(req);
+
+    const comment = await taskStore().createComment(task.id, userId, body.body);
+    res.status(201).json(CommentController.mapComment(comment));
+  }
+
+  static async update(req: Request, res: Response) {
+    const { userId } = req.auth;
+
+    const body = commentBodySchema.parse(req.body);
+
+    const task = await CommentController.loadTask(req);
+    const existing = await CommentController.loadComment(req, task.id);
+
+    if (existing.authorId !== userId) throw new ForbiddenError('Only the author can edit a comment');
+
+    const comment = await taskStore().updateComment(existing.id, task.id, body.body, userId);
+    res.json(CommentController.mapComment(comment));
+  }
+
+  static async remove(req: Request, res: Response) {
+    const { userId, role } = req.auth;
+
+    const task = await CommentController.loadTask(req);
+    const existing = await CommentController.loadComment(req, task.id);
+
+    // Authors remove their own comments; managers moderate any
+    if (existing.authorId !== userId && role !== 'manager') {
+      throw new ForbiddenError('Only the author or a manager can delete a comment');
+    }
+
+    await taskStore().deleteComment(existing.id, task.id, userId);
+    res.status(204).send();
+  }
+
+  static async list(req: Request, res: Response) {
+    const query = listCommentsQuerySchema.parse(req.query);
+
+    const task = await CommentController.loadTask(req);
+
+    const result = await taskStore().listComments(task.id, query);
+    res.json({
+      data: result.data.map(c => CommentController.mapComment(c)),
+      next_cursor: result.nextCursor
+    });
+  }
+}
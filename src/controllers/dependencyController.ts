@@ -0,0 +1,70 @@
+import { Request, Response } from 'express';
+import { taskStore } from '../repositories/backend';
+import { WorkflowRepository } from '../repositories/workflowRepository';
+import { DependencyTask } from '../repositories/taskStore';
+import { TaskDomain } from '../domain/task';
+import { ForbiddenError, TaskNotFoundError } from '../domain/errors';
+import { DependencyResponse, linkDependencySchema } from '../schemas/dependency';
+
+const workflowRepo = new WorkflowRepository();
+
+export class DependencyController {
+
+  private static mapDependency(dep: DependencyTask): DependencyResponse {
+    return {
+      task_id: dep.taskId,
+      title: dep.title,
+      state: dep.state,
+      finished: !dep.open,
+    };
+  }
+
+  // Same tenant/workspace isolation as TaskController.get
+  private static async loadTask(req: Request) {
+    const task = await taskStore().findById(req.params.taskId as string, req.auth.tenantId);
+    if (!task || task.workspaceId !== req.params.workspaceId) throw new TaskNotFoundError();
+    return task;
+  }
+
+  static async list(req: Request, res: Response) {
+    const task = await DependencyController.loadTask(req);
+
+    const workflow = await workflowRepo.resolve(task.workspaceId, req.auth.tenantId);
+    const { blockedBy, blocking } = await taskStore().listDependencies(task.id, req.auth.tenantId, workflow);
+    res.json({
+      task_id: task.id,
+      blocked_by: blockedBy.map(d => DependencyController.mapDependency(d)),
+      blocking: blocking.map(d => DependencyController.mapDependency(d)),
+    });
+  }
+
+  // The task in the path becomes blocked by `blocker_id`
+  static async create(req: Request, res: Response) {
+    const { tenantId, role, userId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    const body = linkDependencySchema.parse(req.body);
+
+    const task = await DependencyController.loadTask(req);
+
+    if (!TaskDomain.canUpdate(role, task.assigneeId, userId)) {
+      throw new ForbiddenError('Only manager or the assignee can change dependencies');
+    }
+
+    const dependency = await taskStore().linkDependency(task.id, body.blocker_id, tenantId, workspaceId);
+    res.status(201).json({ task_id: dependency.blockedId, blocker_id: dependency.blockerId, created_at: dependency.createdAt });
+  }
+
+  static async remove(req: Request, res: Response) {
+    const { tenantId, role, userId } = req.auth;
+
+    const task = await DependencyController.loadTask(req);
+
+    if (!TaskDomain.canUpdate(role, task.assigneeId, userId)) {
+      throw new ForbiddenError('Only manager or the assignee can change dependencies');
+    }
+
+    await taskStore().unlinkDependency(task.id, req.params.blockerId as string, tenantId);
+    res.status(204).send();
+  }
+}
@@ -0,0 +1,187 @@
+import { Request, Response } from 'express';
+import { EventRepository, StoredConsumerOffset } from '../repositories/eventRepository';
+import { WorkspaceRepository } from '../repositories/workspaceRepository';
+import { taskStore } from '../repositories/backend';
+import { FeedEvent } from '../repositories/taskStore';
+import { outboxNotifier } from '../events/outboxNotifier';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../domain/errors';
+import {
+  consumerNameSchema, ConsumerOffsetResponse, EventResponse, feedQuerySchema, lastEventIdSchema, putOffsetSchema,
+} from '../schemas/event';
+
+const eventRepo = new EventRepository();
+const workspaceRepo = new WorkspaceRepository();
+
+const STREAM_BATCH_SIZE = 100;
+const HEARTBEAT_MS = 15_000;
+
+export class EventController {
+
+  private static mapEvent(event: FeedEvent): EventResponse {
+    return {
+      seq: event.seq,
+      id: event.id,
+      task_id: event.taskId,
+      workspace_id: event.workspaceId,
+      event_type: event.eventType,
+      payload: event.payload,
+      created_at: event.createdAt,
+    };
+  }
+
+  private static mapOffset(offset: StoredConsumerOffset): ConsumerOffsetResponse {
+    return {
+      name: offset.name,
+      seq: offset.seq,
+      updated_at: offset.updatedAt,
+    };
+  }
+
+  private static formatEvent(event: FeedEvent) {
+    return `id: ${event.seq}\nevent: ${event.eventType}\ndata: ${JSON.stringify(EventController.mapEvent(event))}\n\n`;
+  }
+
+  /**
+   * The tenant's changelog, oldest first. Callers resume by passing the
+   * returned `next_after_seq` as `after_seq`. Tenant managers see every
+   * workspace; everyone else only the workspaces they belong to.
+   */
+  static async list(req: Request, res: Response) {
+    const { tenantId, role, userId } = req.auth;
+
+    const query = feedQuerySchema.parse(req.query);
+
+    const memberships = role === 'manager' || !userId ? undefined : await workspaceRepo.listForUser(tenantId, userId);
+
+    const result = await taskStore().tenantEvents(tenantId, {
+      afterSeq: query.after_seq,
+      eventTypes: query.event_type,
+      taskId: query.task_id,
+      workspaceId: query.workspace_id,
+      workspaceIds: memberships?.map(m => m.workspace.id),
+      limit: query.limit,
+    });
+
+    res.json({
+      data: result.data.map(e => EventController.mapEvent(e)),
+      next_after_seq: result.nextAfterSeq,
+    });
+  }
+
+  static async getOffset(req: Request, res: Response) {
+    const { tenantId } = req.auth;
+    const name = consumerNameSchema.parse(req.params.name);
+
+    const offset = await eventRepo.findOffset(tenantId, name);
+    if (!offset) throw new NotFoundError('consumer_offset_not_found', 'Consumer offset not found');
+
+    res.json(EventController.mapOffset(offset));
+  }
+
+  // Offsets may move backwards to replay, but never past the end of the changelog
+  static async putOffset(req: Request, res: Response) {
+    const { tenantId, role } = req.auth;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can move consumer offsets');
+
+    const name = consumerNameSchema.parse(req.params.name);
+    const body = putOffsetSchema.parse(req.body);
+
+    if (body.seq > await taskStore().latestSeq()) {
+      throw new BadRequestError('seq_out_of_range', 'seq is beyond the latest event');
+    }
+
+    const offset = await eventRepo.putOffset(tenantId, name, body.seq);
+    res.json(EventController.mapOffset(offset));
+  }
+
+  /**
+   * Server-Sent Events stream of the workspace's outbox. The SSE `id` is the
+   * event's seq, so a reconnecting client sending `Last-Event-ID` (or
+   * `?last_event_id=` where headers can't be set) resumes without gaps.
+   */
+  static async stream(req: Request, res: Response) {
+    const { tenantId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    const resumeFrom = req.headers['last-event-id'] ?? req.query.last_event_id;
+    const parsed = lastEventIdSchema.safeParse(resumeFrom);
+    if (resumeFrom !== undefined && !parsed.success) {
+      throw new BadRequestError('invalid_last_event_id', 'Last-Event-ID must be an event id from this stream');
+    }
+
+    let position = parsed.success ? parsed.data : await taskStore().latestSeq();
+    let pumping = false;
+    let pending = false;
+    let closed = false;
+
+    // Resolves once a full socket buffer has flushed, or the client has gone
+    const drained = () => new Promise<void>(resolve => {
+      const done = () => {
+        res.off('drain', done);
+        res.off('close', done);
+        resolve();
+      };
+      res.on('drain', done);
+      res.on('close', done);
+    });
+
+    // Sends everything after `position`, pausing while a slow client catches up
+    // so its backlog stays in the store rather than in memory; signals arriving
+    // mid-pump trigger another pass
+    const pump = async () => {
+      if (pumping) {
+        pending = true;
+        return;
+      }
+      pumping = true;
+      try {
+        do {
+          pending = false;
+          let batch;
+          do {
+            batch = await taskStore().workspaceEvents(workspaceId, tenantId, position, STREAM_BATCH_SIZE);
+            for (const event of batch) {
+              if (closed) return;
+              const flushed = res.write(EventController.formatEvent(event));
+              position = event.seq;
+              if (!flushed) await drained();
+            }
+          } while (batch.length === STREAM_BATCH_SIZE);
+        } while (pending && !closed);
+      } catch (e) {
+        console.error('!!! Event stream failed:', e);
+        res.end();
+      } finally {
+        pumping = false;
+      }
+    };
+
+    const onCommitted = () => { void pump(); };
+
+    // The heartbeat keeps proxies from timing out and picks up events committed by other processes
+    const heartbeat = setInterval(() => {
+      // A client still catching up has no use for a heartbeat
+      if (!res.writableNeedDrain) res.write(': heartbeat\n\n');
+      void pump();
+    }, HEARTBEAT_MS);
+
+    res.on('close', () => {
+      closed = true;
+      clearInterval(heartbeat);
+      outboxNotifier.off('committed', onCommitted);
+    });
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+    res.write('retry: 3000\n\n');
+
+    outboxNotifier.on('committed', onCommitted);
+    await pump();
+  }
+}
@@ -0,0 +1,126 @@
+import { Request, Response } from 'express';
+import { taskStore } from '../repositories/backend';
+import { TaskHandoff } from '../repositories/taskStore';
+import { WorkflowRepository } from '../repositories/workflowRepository';
+import { WorkspaceRepository } from '../repositories/workspaceRepository';
+import { TaskDomain } from '../domain/task';
+import { WorkflowDomain } from '../domain/workflow';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError, TaskNotFoundError } from '../domain/errors';
+import { HandoffResponse, requestHandoffSchema } from '../schemas/handoff';
+
+const workflowRepo = new WorkflowRepository();
+const workspaceRepo = new WorkspaceRepository();
+
+/**
+ * Agent-to-agent handoffs: the assigned agent asks to pass a task on, and a
+ * manager accepts (reassigning it with TaskHandedOff) or declines. The asking
+ * agent may withdraw while it is pending.
+ */
+export class HandoffController {
+
+  private static mapHandoff(handoff: TaskHandoff): HandoffResponse {
+    return {
+      handoff_id: handoff.id,
+      task_id: handoff.taskId,
+      from_user_id: handoff.fromUserId,
+      to_user_id: handoff.toUserId,
+      note: handoff.note,
+      status: handoff.status,
+      resolved_by: handoff.resolvedBy,
+      created_at: handoff.createdAt,
+      resolved_at: handoff.resolvedAt,
+    };
+  }
+
+  // Same tenant/workspace isolation as TaskController.get
+  private static async loadTask(req: Request) {
+    const task = await taskStore().findById(req.params.taskId as string, req.auth.tenantId);
+    if (!task || task.workspaceId !== req.params.workspaceId) throw new TaskNotFoundError();
+    return task;
+  }
+
+  private static async loadPending(taskId: string) {
+    const handoff = await taskStore().findPendingHandoff(taskId);
+    if (!handoff) throw new NotFoundError('handoff_not_found', 'Task has no pending handoff');
+    return handoff;
+  }
+
+  static async request(req: Request, res: Response) {
+    const { tenantId, role, userId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    const body = requestHandoffSchema.parse(req.body);
+
+    const task = await HandoffController.loadTask(req);
+
+    if (!TaskDomain.canHandBack(role, task.assigneeId, userId)) {
+      throw new ForbiddenError('Only the assigned agent can hand off a task');
+    }
+
+    const workflow = await workflowRepo.resolve(workspaceId, tenantId);
+    if (WorkflowDomain.isTerminal(workflow, task.state)) {
+      throw new ConflictError('task_terminal', 'Task in a terminal state cannot be handed off');
+    }
+
+    const target = await workspaceRepo.findMember(workspaceId, tenantId, body.to_user_id);
+    if (!target || target.role !== 'agent' || target.userId === userId) {
+      throw new BadRequestError('invalid_assignee', 'Tasks can only be handed off to another agent of this workspace');
+    }
+
+    const handoff = await taskStore().requestHandoff(task, userId!, body.to_user_id, body.note ?? null);
+    res.status(201).json(HandoffController.mapHandoff(handoff));
+  }
+
+  static async get(req: Request, res: Response) {
+    const task = await HandoffController.loadTask(req);
+    const handoff = await HandoffController.loadPending(task.id);
+    res.json(HandoffController.mapHandoff(handoff));
+  }
+
+  static async accept(req: Request, res: Response) {
+    const { tenantId, role, userId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+    const ifMatchVersion = parseInt(req.headers['if-match-version'] as string);
+    if (isNaN(ifMatchVersion)) throw new BadRequestError('missing_version', 'If-Match-Version header required');
+
+    if (!TaskDomain.canDecideHandoff(role)) throw new ForbiddenError('Only manager can accept handoffs');
+
+    const task = await HandoffController.loadTask(req);
+    const handoff = await HandoffController.loadPending(task.id);
+
+    if (!await workspaceRepo.findMember(workspaceId, tenantId, handoff.toUserId)) {
+      throw new BadRequestError('invalid_assignee', 'Assignee is not a member of this workspace');
+    }
+
+    // The store checks the asking agent still holds the task at this version
+    const workflow = await workflowRepo.resolve(workspaceId, tenantId);
+    const result = await taskStore().acceptHandoff(handoff, ifMatchVersion, workflow, userId);
+
+    res.json(result);
+  }
+
+  static async decline(req: Request, res: Response) {
+    const { role, userId } = req.auth;
+
+    if (!TaskDomain.canDecideHandoff(role)) throw new ForbiddenError('Only manager can decline handoffs');
+
+    const task = await HandoffController.loadTask(req);
+    const handoff = await HandoffController.loadPending(task.id);
+
+    const declined = await taskStore().resolveHandoff(handoff, 'DECLINED', userId);
+    res.json(HandoffController.mapHandoff(declined));
+  }
+
+  // The asking agent withdraws
+  static async cancel(req: Request, res: Response) {
+    const { userId } = req.auth;
+
+    const task = await HandoffController.loadTask(req);
+    const handoff = await HandoffController.loadPending(task.id);
+
+    if (handoff.fromUserId !== userId) throw new ForbiddenError('Only the agent who asked can withdraw a handoff');
+
+    const cancelled = await taskStore().resolveHandoff(handoff, 'CANCELLED', null);
+    res.json(HandoffController.mapHandoff(cancelled));
+  }
+}
@@ -0,0 +1,30 @@
+import { Request, Response } from 'express';
+import { buildOpenApiDocument } from '../openapi/document';
+
+let document: ReturnType<typeof buildOpenApiDocument> | undefined;
+
+// Renders openapi.json (relative to /v1/docs) with Redoc loaded from its CDN
+const DOCS_HTML = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Task Workflow API</title>
+</head>
+<body>
+  <redoc spec-url="openapi.json"></redoc>
+  <script src="https://cdn.redoc.ly/redoc/v2.5.0/bundles/redoc.standalone.js"></script>
+</body>
+</html>
+`;
+
+export class OpenApiController {
+
+  static document(req: Request, res: Response) {
+    document ??= buildOpenApiDocument(); // The schemas are static, so build once
+    res.json(document);
+  }
+
+  static docs(req: Request, res: Response) {
+    res.type('html').send(DOCS_HTML);
+  }
+}
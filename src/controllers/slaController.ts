@@ -0,0 +1,53 @@
+import { Request, Response } from 'express';
+import { SlaRepository, StoredSlaPolicy } from '../repositories/slaRepository';
+import { ForbiddenError } from '../domain/errors';
+import { putSlaPolicySchema, SlaPolicyResponse } from '../schemas/sla';
+import { taskPrioritySchema } from '../schemas/task';
+
+const slaRepo = new SlaRepository();
+
+export class SlaController {
+
+  private static mapPolicy(policy: StoredSlaPolicy): SlaPolicyResponse {
+    return {
+      policy_id: policy.id,
+      workspace_id: policy.workspaceId,
+      priority: policy.priority,
+      resolve_within_seconds: policy.resolveWithinSeconds,
+      updated_at: policy.updatedAt,
+    };
+  }
+
+  static async list(req: Request, res: Response) {
+    const { tenantId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    const policies = await slaRepo.listPolicies(workspaceId, tenantId);
+    res.json(policies.map(p => SlaController.mapPolicy(p)));
+  }
+
+  static async put(req: Request, res: Response) {
+    const { tenantId, role } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can change SLA policies');
+
+    const priority = taskPrioritySchema.parse(req.params.priority);
+    const body = putSlaPolicySchema.parse(req.body);
+
+    const policy = await slaRepo.upsertPolicy(workspaceId, tenantId, priority, body.resolve_within_seconds);
+    res.json(SlaController.mapPolicy(policy));
+  }
+
+  static async remove(req: Request, res: Response) {
+    const { tenantId, role } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can change SLA policies');
+
+    const priority = taskPrioritySchema.parse(req.params.priority);
+
+    await slaRepo.deletePolicy(workspaceId, tenantId, priority);
+    res.status(204).send();
+  }
+}
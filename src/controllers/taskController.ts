@@ -1,28 +1,51 @@
 import { Request, Response } from 'express';
-import { TaskRepository } from '../repositories/taskRepository';
-import { TaskDomain, TaskState, UserRole } from '../domain/task';
+import { AutoAssignment, BulkOperation, NewTask, OpenTaskQuota, StoredTask, TaskEvent } from '../repositories/taskStore';
+import { taskStore } from '../repositories/backend';
+import { WorkflowRepository } from '../repositories/workflowRepository';
+import { WorkspaceRepository } from '../repositories/workspaceRepository';
+import { AssignmentPolicyRepository } from '../repositories/assignmentPolicyRepository';
+import { AutoAssigner } from '../repositories/autoAssigner';
+import { TaskFieldsRepository } from '../repositories/taskFieldsRepository';
+import { TaskDomain, TaskState } from '../domain/task';
+import { WorkflowDefinition } from '../domain/workflow';
+import { CustomFieldValue, CustomFieldValues, TaskFieldsDomain } from '../domain/fields';
+import { AsOf, TaskHistory } from '../domain/history';
+import { parseCsv, toCsvRow } from '../lib/csv';
+import { BadRequestError, ConflictError, ForbiddenError, TaskNotFoundError, ValidationError, ValidationIssue } from '../domain/errors';
+import {
+  assignTaskSchema, bulkTaskSchema, createTaskSchema, exportQuerySchema, getTaskQuerySchema, importQuerySchema,
+  importTaskSchema, listTasksQuerySchema, taskHistoryQuerySchema, TaskResponse, transitionTaskSchema, updateTaskSchema,
+} from '../schemas/task';
+import { customFieldFilterSchema, taskFieldValuesSchema } from '../schemas/fields';
 import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
 
-const taskRepo = new TaskRepository();
+const workflowRepo = new WorkflowRepository();
+const workspaceRepo = new WorkspaceRepository();
+const policyRepo = new AssignmentPolicyRepository();
+const fieldsRepo = new TaskFieldsRepository();
 
-// Validation Schemas
-const createTaskSchema = z.object({
-  title: z.string().min(1).max(120),
-  priority: z.enum(['LOW', 'MEDIUM', 'HIGH']).default('MEDIUM'),
-});
+const MAX_IMPORT_ROWS = 10_000;
+const EXPORT_PAGE_SIZE = 500;
+const TIMELINE_LENGTH = 20; // Same as a current read
 
-const assignTaskSchema = z.object({
-  assignee_id: z.string().min(1),
-});
+// CSV export columns, in order; the timeline (when requested) is appended as JSON
+const EXPORT_COLUMNS = [
+  'task_id', 'tenant_id', 'workspace_id', 'title', 'priority', 'state', 'assignee_id',
+  'version', 'created_at', 'updated_at', 'deleted_at', 'due_at', 'comment_count',
+] as const;
 
-const transitionTaskSchema = z.object({
-  to_state: z.enum(['IN_PROGRESS', 'DONE', 'CANCELLED']),
-});
+// Import rows before validation; `error` marks a row that could not even be parsed
+type ImportRow = { input?: unknown, error?: string };
+
+// CSV import cells holding JSON rather than plain text
+const JSON_IMPORT_COLUMNS = ['labels', 'custom_fields'];
+
+type FieldValues = { labels?: string[], custom_fields?: Record<string, CustomFieldValue | null> };
 
 export class TaskController {
 
-  private static mapTask(task: any) {
+  private static mapTask(task: StoredTask & { timeline?: TaskEvent[] }): TaskResponse {
     return {
       task_id: task.id,
       tenant_id: task.tenantId,
@@ -34,154 +57,598 @@ export class TaskController {
       version: task.version,
       created_at: task.createdAt,
       updated_at: task.updatedAt,
-      timeline: task.timeline ? task.timeline.map((e: any) => ({
+      deleted_at: task.deletedAt ?? null,
+      due_at: task.dueAt ?? null,
+      comment_count: task.commentCount ?? 0,
+      labels: task.labels ?? [],
+      custom_fields: task.customFields ?? {},
+      timeline: task.timeline?.map(e => ({
         id: e.id,
         task_id: e.taskId,
         event_type: e.eventType,
         payload: e.payload,
         created_at: e.createdAt
-      })) : undefined
+      }))
     };
   }
 
-  static async create(req: Request, res: Response) {
-    try {
-      const tenantId = req.headers['x-tenant-id'] as string;
-      const role = req.headers['x-role'] as string;
-      const idempotencyKey = req.headers['idempotency-key'] as string;
-      const workspaceId = req.params.workspaceId as string;
+  // Same tenant/workspace isolation for every single-task endpoint
+  private static async loadTask(req: Request) {
+    const task = await taskStore().findById(req.params.taskId as string, req.auth.tenantId);
+    if (!task || task.workspaceId !== req.params.workspaceId) throw new TaskNotFoundError();
+    return task;
+  }
 
-      if (!tenantId) return res.status(400).json({ error: 'X-Tenant-Id header required' });
+  // `v12` is a version; a bare number is Unix seconds, anything else must be an ISO 8601 timestamp
+  private static parseAsOf(raw: string): AsOf {
+    const version = /^v(\d+)$/.exec(raw);
+    if (version) return { version: Number(version[1]) };
+    if (/^\d+$/.test(raw)) return { at: Number(raw) };
 
-      const body = createTaskSchema.parse(req.body);
+    const ms = /^\d{4}-\d{2}-\d{2}/.test(raw) ? Date.parse(raw) : NaN;
+    if (isNaN(ms)) throw new BadRequestError('invalid_as_of', 'as_of must be Unix seconds, an ISO 8601 timestamp or v<version>');
+    return { at: Math.floor(ms / 1000) };
+  }
 
-      const task = await taskRepo.create({
-        id: uuidv4(),
-        tenantId,
-        workspaceId,
-        title: body.title,
-        priority: body.priority,
-        state: 'NEW',
-        assigneeId: null,
-      }, idempotencyKey);
+  // The caller's open-task quota (see middleware/rateLimit.ts), enforced by the store
+  private static openTaskQuota(req: Request, workflow: WorkflowDefinition): OpenTaskQuota | null {
+    const max = req.limits.quotas.maxOpenTasksPerWorkspace;
+    return max === null ? null : { maxOpenTasks: max, terminalStates: workflow.terminalStates };
+  }
+
+  private static expectedVersion(req: Request) {
+    const version = parseInt(req.headers['if-match-version'] as string);
+    if (isNaN(version)) throw new BadRequestError('missing_version', 'If-Match-Version header required');
+    return version;
+  }
 
-      res.status(201).json(task);
-    } catch (e: any) {
-      if (e instanceof z.ZodError) return res.status(400).json({ error: e.issues });
-      res.status(500).json({ error: e.message });
+  /**
+   * Checks labels and custom field values against the workspace definitions,
+   * with a zod schema generated from them. User fields must name members.
+   * Returns the issues of each item in order, reading the definitions once.
+   */
+  private static async fieldValueIssues(workspaceId: string, tenantId: string, items: FieldValues[]): Promise<ValidationIssue[][]> {
+    if (items.every(values => values.labels === undefined && values.custom_fields === undefined)) return items.map(() => []);
+
+    const definition = await fieldsRepo.resolve(workspaceId, tenantId);
+    const memberIds = definition.fields.some(field => field.type === 'user')
+      ? new Set((await workspaceRepo.listMembers(workspaceId, tenantId)).map(m => m.userId))
+      : new Set<string>();
+
+    const schema = taskFieldValuesSchema(definition, memberIds);
+    return items.map(values => {
+      const parsed = schema.safeParse({ labels: values.labels, custom_fields: values.custom_fields });
+      return parsed.success ? [] : ValidationError.fromZod(parsed.error).issues;
+    });
+  }
+
+  private static async checkFieldValues(workspaceId: string, tenantId: string, values: FieldValues) {
+    const [issues] = await TaskController.fieldValueIssues(workspaceId, tenantId, [values]);
+    if (issues.length > 0) throw new ValidationError(issues);
+  }
+
+  // `cf.<key>=<value>` query parameters, typed by the workspace field definitions
+  private static async customFieldFilters(req: Request, workspaceId: string, tenantId: string) {
+    const raw = Object.fromEntries(Object.entries(req.query).filter(([name]) => name.startsWith('cf.')));
+    if (Object.keys(raw).length === 0) return undefined;
+
+    const parsed = customFieldFilterSchema(await fieldsRepo.resolve(workspaceId, tenantId)).parse(raw);
+
+    const filters: CustomFieldValues = {};
+    for (const [name, value] of Object.entries(parsed)) {
+      if (value !== undefined) filters[name.slice('cf.'.length)] = value as CustomFieldValue;
     }
+    return filters;
+  }
+
+  static async create(req: Request, res: Response) {
+    const { tenantId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    const body = createTaskSchema.parse(req.body);
+    await TaskController.checkFieldValues(workspaceId, tenantId, body);
+    const workflow = await workflowRepo.resolve(workspaceId, tenantId);
+    const assigner = await AutoAssigner.onCreate(workspaceId, tenantId, workflow);
+
+    const task = await taskStore().create({
+      id: uuidv4(),
+      tenantId,
+      workspaceId,
+      title: body.title,
+      priority: body.priority,
+      state: workflow.initialState,
+      assigneeId: null,
+      dueAt: body.due_at ?? null,
+      labels: body.labels,
+      customFields: body.custom_fields,
+      assignment: await assigner?.pick(body),
+    }, req.auth.userId, TaskController.openTaskQuota(req, workflow));
+
+    res.status(201).json(task);
   }
 
   static async assign(req: Request, res: Response) {
-    try {
-      const role = req.headers['x-role'] as UserRole;
-      const tenantId = req.headers['x-tenant-id'] as string;
-      const ifMatchVersion = parseInt(req.headers['if-match-version'] as string);
-      const taskId = req.params.taskId as string;
-      const workspaceId = req.params.workspaceId as string;
+    const { tenantId, role, userId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+    const ifMatchVersion = TaskController.expectedVersion(req);
 
-      if (!tenantId) return res.status(400).json({ error: 'X-Tenant-Id header required' });
-      if (isNaN(ifMatchVersion)) return res.status(400).json({ error: 'If-Match-Version header required' });
+    const body = assignTaskSchema.parse(req.body);
 
-      const body = assignTaskSchema.parse(req.body);
+    if (role !== 'manager') throw new ForbiddenError('Only manager can assign tasks');
 
-      if (role !== 'manager') {
-          return res.status(403).json({ error: 'Only manager can assign tasks' });
-      }
+    const task = await TaskController.loadTask(req);
 
-      // Check task existence and workspace/tenant isolation
-      const task = await taskRepo.findById(taskId, tenantId);
-      if (!task) return res.status(404).json({ error: 'Task not found' });
-      if (task.workspaceId !== workspaceId) return res.status(404).json({ error: 'Task not found in this workspace' });
+    // Only members of the task's workspace can be assigned
+    if (!await workspaceRepo.findMember(workspaceId, tenantId, body.assignee_id)) {
+      throw new BadRequestError('invalid_assignee', 'Assignee is not a member of this workspace');
+    }
 
-      const result = await taskRepo.assign(taskId, body.assignee_id, ifMatchVersion);
-      res.json(result);
+    const workflow = await workflowRepo.resolve(workspaceId, tenantId);
+    const result = await taskStore().assign(task.id, body.assignee_id, ifMatchVersion, workflow, userId);
+    res.json(result);
+  }
 
-    } catch (e: any) {
-      if (e instanceof z.ZodError) return res.status(400).json({ error: e.issues });
-      if (e.message === 'TaskNotFound') return res.status(404).json({ error: 'Task not found' });
-      if (e.message === 'VersionMismatch') return res.status(409).json({ error: 'Version mismatch' });
-      if (e.message === 'InvalidState') return res.status(409).json({ error: 'Task state allows assignment only in NEW or IN_PROGRESS' });
+  // Assigns by the workspace assignment policy, as if the task had just been created
+  static async autoAssign(req: Request, res: Response) {
+    const { tenantId, role, userId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+    const ifMatchVersion = TaskController.expectedVersion(req);
 
-      res.status(500).json({ error: e.message });
-    }
+    if (role !== 'manager') throw new ForbiddenError('Only manager can assign tasks');
+
+    const task = await TaskController.loadTask(req);
+
+    const policy = await policyRepo.findByWorkspace(workspaceId, tenantId);
+    if (!policy) throw new ConflictError('no_assignment_policy', 'Workspace has no assignment policy');
+
+    const workflow = await workflowRepo.resolve(workspaceId, tenantId);
+    const picked = await (await AutoAssigner.forPolicy(policy, workflow)).pick(task);
+    if (!picked) throw new ConflictError('no_eligible_assignee', 'No assignment rule matches this task with a member left in its pool');
+
+    const result = await taskStore().assign(task.id, picked.assigneeId, ifMatchVersion, workflow, userId, { rule: picked.rule });
+    res.json({ ...result, assignee_id: picked.assigneeId, rule: picked.rule.name });
   }
 
   static async transition(req: Request, res: Response) {
-    try {
-      const role = req.headers['x-role'] as UserRole;
-      const tenantId = req.headers['x-tenant-id'] as string;
-      const currentUserId = req.headers['x-user-id'] as string;
-      const ifMatchVersion = parseInt(req.headers['if-match-version'] as string);
-      const taskId = req.params.taskId as string;
-      const workspaceId = req.params.workspaceId as string;
+    const { tenantId, role, userId: currentUserId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+    const ifMatchVersion = TaskController.expectedVersion(req);
+
+    const body = transitionTaskSchema.parse(req.body);
+
+    const task = await TaskController.loadTask(req);
+
+    const workflow = await workflowRepo.resolve(workspaceId, tenantId);
+    if (!workflow.states.includes(body.to_state)) {
+      throw new BadRequestError('unknown_state', `Unknown state '${body.to_state}' for this workspace workflow`);
+    }
+
+    // Clean Arch check
+    const isValid = TaskDomain.validateTransition(
+      task.state as TaskState,
+      body.to_state as TaskState,
+      role,
+      task.assigneeId,
+      currentUserId,
+      workflow
+    );
+
+    if (!isValid) throw new ConflictError('invalid_transition', 'Invalid transition or unauthorized');
+
+    const result = await taskStore().transition(task.id, body.to_state as TaskState, ifMatchVersion, workflow, currentUserId);
+    res.json(result);
+  }
+
+  static async unassign(req: Request, res: Response) {
+    const { tenantId, role, userId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+    const ifMatchVersion = TaskController.expectedVersion(req);
+
+    if (!TaskDomain.canUnassign(role)) throw new ForbiddenError('Only manager can unassign tasks');
+
+    const task = await TaskController.loadTask(req);
+
+    const workflow = await workflowRepo.resolve(workspaceId, tenantId);
+    const result = await taskStore().unassign(task.id, ifMatchVersion, workflow, userId);
+    res.json(result);
+  }
+
+  // The assigned agent gives the task back: unassigned, in the initial state
+  static async release(req: Request, res: Response) {
+    const { tenantId, role, userId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+    const ifMatchVersion = TaskController.expectedVersion(req);
+
+    const task = await TaskController.loadTask(req);
+
+    if (!TaskDomain.canHandBack(role, task.assigneeId, userId)) {
+      throw new ForbiddenError('Only the assigned agent can release a task');
+    }
+
+    const workflow = await workflowRepo.resolve(workspaceId, tenantId);
+    const result = await taskStore().release(task.id, ifMatchVersion, workflow, userId);
+    res.json(result);
+  }
+
+  static async reopen(req: Request, res: Response) {
+    const { tenantId, role, userId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+    const ifMatchVersion = TaskController.expectedVersion(req);
+
+    if (!TaskDomain.canReopen(role)) throw new ForbiddenError('Only manager can reopen tasks');
 
-      if (!tenantId) return res.status(400).json({ error: 'X-Tenant-Id header required' });
-      if (isNaN(ifMatchVersion)) return res.status(400).json({ error: 'If-Match-Version header required' });
+    const task = await TaskController.loadTask(req);
 
-      const body = transitionTaskSchema.parse(req.body);
+    const workflow = await workflowRepo.resolve(workspaceId, tenantId);
+    const result = await taskStore().reopen(task.id, ifMatchVersion, workflow, userId, TaskController.openTaskQuota(req, workflow));
+    res.json(result);
+  }
+
+  static async update(req: Request, res: Response) {
+    const { tenantId, role, userId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+    const ifMatchVersion = TaskController.expectedVersion(req);
+
+    const body = updateTaskSchema.parse(req.body);
+
+    const task = await TaskController.loadTask(req);
 
-      // Retrieve task to Validated Transitions
-      const task = await taskRepo.findById(taskId, tenantId);
-      if (!task) return res.status(404).json({ error: 'Task not found' });
+    if (!TaskDomain.canUpdate(role, task.assigneeId, userId)) {
+      throw new ForbiddenError('Only manager or the assignee can update tasks');
+    }
+
+    await TaskController.checkFieldValues(workspaceId, tenantId, body);
+
+    const result = await taskStore().update(task.id, {
+      title: body.title,
+      priority: body.priority,
+      dueAt: body.due_at,
+      labels: body.labels,
+      customFields: body.custom_fields && TaskFieldsDomain.mergeValues(task.customFields, body.custom_fields),
+    }, ifMatchVersion, userId);
+    res.json(result);
+  }
 
-      // Workspace check
-      if (task.workspaceId !== workspaceId) {
-          return res.status(404).json({ error: 'Task not found in this workspace' });
+  static async remove(req: Request, res: Response) {
+    const { tenantId, role, userId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+    const ifMatchVersion = TaskController.expectedVersion(req);
+
+    if (!TaskDomain.canDelete(role)) throw new ForbiddenError('Only manager can delete tasks');
+
+    const task = await TaskController.loadTask(req);
+
+    const workflow = await workflowRepo.resolve(workspaceId, tenantId);
+    const result = await taskStore().delete(task.id, ifMatchVersion, workflow, userId);
+    res.json(result);
+  }
+
+  static async bulk(req: Request, res: Response) {
+    const { tenantId, role, userId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    const body = bulkTaskSchema.parse(req.body);
+
+    // Labels and custom fields are checked like on a single create or update, before anything runs
+    const fieldIssues = await TaskController.fieldValueIssues(workspaceId, tenantId,
+      body.operations.map(o => o.op === 'create' || o.op === 'update' ? o : {}));
+    const issues = fieldIssues.flatMap((list, index) => list.map(issue => ({ ...issue, path: `operations.${index}.${issue.path}` })));
+    if (issues.length > 0) throw new ValidationError(issues);
+
+    const workflow = await workflowRepo.resolve(workspaceId, tenantId);
+    const assigner = await AutoAssigner.onCreate(workspaceId, tenantId, workflow);
+
+    // Picks happen up front, in order; the store records each with its create
+    const assignments = new Map<number, AutoAssignment | null>();
+    for (const [index, o] of body.operations.entries()) {
+      if (assigner && o.op === 'create') assignments.set(index, await assigner.pick(o));
+    }
+
+    const operations: BulkOperation[] = body.operations.map((o, index) => {
+      switch (o.op) {
+        case 'create': return {
+          op: 'create', title: o.title, priority: o.priority, dueAt: o.due_at ?? null, labels: o.labels, customFields: o.custom_fields, assignment: assignments.get(index),
+        };
+        case 'assign': return { op: 'assign', taskId: o.task_id, version: o.version, assigneeId: o.assignee_id };
+        case 'transition': return { op: 'transition', taskId: o.task_id, version: o.version, toState: o.to_state };
+        case 'update': return {
+          op: 'update', taskId: o.task_id, version: o.version, changes: { title: o.title, priority: o.priority, dueAt: o.due_at, labels: o.labels }, customFieldChanges: o.custom_fields,
+        };
       }
+    });
+
+    const members = await workspaceRepo.listMembers(workspaceId, tenantId);
+    const memberIds = new Set(members.map(m => m.userId));
+
+    const quota = TaskController.openTaskQuota(req, workflow);
+    const result = await taskStore().bulk(operations, { tenantId, workspaceId, role, userId, workflow, memberIds, quota }, body.mode);
+
+    // An atomic batch that rolled back changed nothing
+    res.status(result.committed ? 200 : 422).json({ mode: body.mode, ...result });
+  }
+
+  /**
+   * Accepts `text/csv` (header row required), `application/x-ndjson` or a
+   * JSON array. Every row is validated like a single create; with any invalid
+   * row nothing is written. `?dry_run=true` only reports.
+   */
+  static async importTasks(req: Request, res: Response) {
+    const { tenantId, role, userId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can import tasks');
+
+    const query = importQuerySchema.parse(req.query);
+    const dryRun = query.dry_run === 'true';
+
+    const rows = TaskController.parseImport(req);
+    if (rows.length === 0) throw new BadRequestError('invalid_import', 'No rows to import');
+    if (rows.length > MAX_IMPORT_ROWS) throw new BadRequestError('invalid_import', `At most ${MAX_IMPORT_ROWS} rows per import`);
+
+    const parsedRows: { row: number, data: z.infer<typeof importTaskSchema> }[] = [];
+    const errors: { row: number, errors: ValidationIssue[] }[] = [];
+    rows.forEach((row, index) => {
+      if (row.error) return errors.push({ row: index + 1, errors: [{ path: '', message: row.error }] });
+      const parsed = importTaskSchema.safeParse(row.input);
+      if (parsed.success) parsedRows.push({ row: index + 1, data: parsed.data });
+      else errors.push({ row: index + 1, errors: ValidationError.fromZod(parsed.error).issues });
+    });
+
+    // Rows that parse still need labels and custom fields the workspace defines
+    const fieldIssues = await TaskController.fieldValueIssues(workspaceId, tenantId, parsedRows.map(r => r.data));
+    const valid = parsedRows.filter((r, i) => fieldIssues[i].length === 0).map(r => r.data);
+    parsedRows.forEach((r, i) => {
+      if (fieldIssues[i].length > 0) errors.push({ row: r.row, errors: fieldIssues[i] });
+    });
+    errors.sort((a, b) => a.row - b.row);
+
+    const report = { dry_run: dryRun, total: rows.length, valid: valid.length, errors };
+    if (dryRun) return res.json(report);
+    if (errors.length > 0) return res.status(422).json({ ...report, imported: 0 });
+
+    const workflow = await workflowRepo.resolve(workspaceId, tenantId);
+    const assigner = await AutoAssigner.onCreate(workspaceId, tenantId, workflow);
+
+    const newTasks: NewTask[] = [];
+    for (const body of valid) {
+      newTasks.push({
+        id: uuidv4(),
+        tenantId,
+        workspaceId,
+        title: body.title,
+        priority: body.priority,
+        state: workflow.initialState,
+        assigneeId: null,
+        dueAt: body.due_at ?? null,
+        labels: body.labels,
+        customFields: body.custom_fields,
+        assignment: await assigner?.pick(body),
+      });
+    }
+
+    const created = await taskStore().importTasks(newTasks, userId, TaskController.openTaskQuota(req, workflow));
+    res.status(201).json({ ...report, imported: created.length, task_ids: created.map(t => t.task_id) });
+  }
 
-      // Clean Arch check
-      const isValid = TaskDomain.validateTransition(
-        task.state as TaskState,
-        body.to_state as TaskState,
-        role,
-        task.assigneeId,
-        currentUserId
-      );
-
-      if (!isValid) {
-        return res.status(409).json({ error: 'Invalid transition or unauthorized' });
+  private static parseImport(req: Request): ImportRow[] {
+    if (req.is('text/csv')) {
+      let records: string[][];
+      try {
+        records = parseCsv(typeof req.body === 'string' ? req.body : '');
+      } catch (e: any) {
+        throw new BadRequestError('invalid_import', e.message);
       }
+      if (records.length === 0) return [];
+
+      const header = records[0].map(h => h.trim());
+      if (!header.includes('title')) throw new BadRequestError('invalid_import', 'CSV header must include a title column');
+
+      return records.slice(1).map(record => {
+        const input: Record<string, unknown> = {};
+        header.forEach((column, i) => {
+          const value = record[i];
+          if (value === undefined || value === '') return; // Empty cells fall back to defaults
+          // due_at is numeric and some columns are JSON; anything that is not stays a string and fails validation
+          if (column === 'due_at' && /^-?\d+$/.test(value)) input[column] = Number(value);
+          else if (JSON_IMPORT_COLUMNS.includes(column)) input[column] = TaskController.parseJsonCell(value);
+          else input[column] = value;
+        });
+        return { input };
+      });
+    }
+
+    if (req.is('application/x-ndjson')) {
+      const lines = (typeof req.body === 'string' ? req.body : '').split(/\r?\n/).filter(line => line.trim());
+      return lines.map(line => {
+        try {
+          return { input: JSON.parse(line) };
+        } catch {
+          return { error: 'Invalid JSON' };
+        }
+      });
+    }
+
+    const body = Array.isArray(req.body) ? req.body : req.body?.tasks;
+    if (!Array.isArray(body)) {
+      throw new BadRequestError('invalid_import', 'Expected text/csv, application/x-ndjson or a JSON array of tasks');
+    }
+    return body.map(input => ({ input }));
+  }
+
+  private static parseJsonCell(value: string): unknown {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+
+  // Streams the workspace's tasks page by page instead of buffering the whole export.
+  // A failure after the first chunk can only cut the response (see errorHandler).
+  static async exportTasks(req: Request, res: Response) {
+    const { tenantId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    const query = exportQuerySchema.parse(req.query);
+    const includeTimeline = query.include_timeline === 'true';
+
+    res.status(200);
+    res.type(query.format === 'csv' ? 'text/csv' : 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="${workspaceId}-tasks.${query.format === 'csv' ? 'csv' : 'ndjson'}"`);
+
+    // Waits out backpressure; a client that disconnects instead ends the wait (and the loop, on res.destroyed)
+    const write = async (chunk: string) => {
+      if (res.write(chunk) || res.destroyed) return;
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          res.off('drain', done);
+          res.off('close', done);
+          resolve();
+        };
+        res.on('drain', done);
+        res.on('close', done);
+      });
+    };
+
+    if (query.format === 'csv') {
+      await write(toCsvRow(includeTimeline ? [...EXPORT_COLUMNS, 'timeline'] : [...EXPORT_COLUMNS]));
+    }
 
-      const result = await taskRepo.transition(taskId, body.to_state as TaskState, ifMatchVersion);
-      res.json(result);
+    let afterId: string | undefined;
+    while (!res.destroyed) {
+      const page = await taskStore().exportPage(workspaceId, tenantId, {
+        afterId,
+        limit: EXPORT_PAGE_SIZE,
+        includeDeleted: query.include_deleted === 'true',
+      });
+      if (page.length === 0) break;
+
+      const timelines = includeTimeline ? await taskStore().timelines(page.map(t => t.id)) : null;
+
+      let chunk = '';
+      for (const task of page) {
+        const mapped = TaskController.mapTask({ ...task, timeline: timelines?.get(task.id) });
+        if (query.format === 'csv') {
+          const values: unknown[] = EXPORT_COLUMNS.map(column => mapped[column]);
+          if (includeTimeline) values.push(JSON.stringify(mapped.timeline));
+          chunk += toCsvRow(values);
+        } else {
+          chunk += JSON.stringify(mapped) + '\n';
+        }
+      }
+      await write(chunk);
 
-    } catch (e: any) {
-       if (e instanceof z.ZodError) return res.status(400).json({ error: e.issues });
-       if (e.message === 'VersionMismatch') return res.status(409).json({ error: 'Version mismatch' });
-       res.status(500).json({ error: e.message });
+      afterId = page[page.length - 1].id;
+      if (page.length < EXPORT_PAGE_SIZE) break;
     }
+
+    res.end();
   }
 
   static async get(req: Request, res: Response) {
-    const tenantId = req.headers['x-tenant-id'] as string;
+    const { tenantId } = req.auth;
     const workspaceId = req.params.workspaceId as string;
     const taskId = req.params.taskId as string;
 
-    if (!tenantId) return res.status(400).json({ error: 'X-Tenant-Id header required' });
+    const query = getTaskQuerySchema.parse(req.query);
+    const includeDeleted = query.include_deleted === 'true';
+    const asOf = query.as_of !== undefined ? TaskController.parseAsOf(query.as_of) : null;
 
-    const task = await taskRepo.findById(taskId, tenantId);
-    if (!task || task.workspaceId !== workspaceId) {
-        return res.status(404).json({ error: 'Task not found' });
-    }
+    // A past state needs the current row only for isolation, even if it is deleted by now
+    const task = await taskStore().findById(taskId, tenantId, { includeDeleted: includeDeleted || asOf !== null });
+    if (!task || task.workspaceId !== workspaceId) throw new TaskNotFoundError();
+
+    if (!asOf) return res.json(TaskController.mapTask(task));
 
-    res.json(TaskController.mapTask(task));
+    const events = TaskHistory.until(await taskStore().events(taskId), asOf);
+    const replayed = TaskHistory.replay(events);
+    if (!replayed || (replayed.task.deletedAt !== null && !includeDeleted)) throw new TaskNotFoundError();
+
+    res.json(TaskController.mapTask({
+      ...replayed.task,
+      commentCount: replayed.commentCount,
+      timeline: events.slice(-TIMELINE_LENGTH).reverse(),
+    }));
   }
 
-  static async list(req: Request, res: Response) {
-    const tenantId = req.headers['x-tenant-id'] as string;
+  // The task's complete change log, oldest first
+  static async history(req: Request, res: Response) {
+    const { tenantId } = req.auth;
     const workspaceId = req.params.workspaceId as string;
-    const { state, assignee_id, limit, cursor } = req.query;
+    const taskId = req.params.taskId as string;
+
+    const query = taskHistoryQuerySchema.parse(req.query);
+    const task = await taskStore().findById(taskId, tenantId, { includeDeleted: query.include_deleted === 'true' });
+    if (!task || task.workspaceId !== workspaceId) throw new TaskNotFoundError();
+
+    const afterSeq = query.cursor !== undefined ? TaskController.decodeHistoryCursor(query.cursor) : undefined;
+    const events = await taskStore().events(taskId, { afterSeq, limit: query.limit + 1 });
+    const page = events.slice(0, query.limit);
+
+    res.json({
+      data: page.map(e => {
+        const change = TaskHistory.isChange(e.payload) ? e.payload : null;
+        const note = TaskHistory.isNote(e.payload) ? e.payload : null;
+        return {
+          id: e.id,
+          seq: e.seq!,
+          event_type: e.eventType,
+          actor_id: (change ?? note)?.actorId ?? null,
+          version: change?.version ?? null,
+          payload: e.payload,
+          created_at: e.createdAt,
+        };
+      }),
+      next_cursor: events.length > query.limit
+        ? Buffer.from(JSON.stringify({ seq: page[page.length - 1].seq })).toString('base64url')
+        : null,
+    });
+  }
 
-    if (!tenantId) return res.status(400).json({ error: 'X-Tenant-Id header required' });
+  // Opaque to clients: base64url JSON of the last event's seq
+  private static decodeHistoryCursor(raw: string): number {
+    try {
+      const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+      if (!Number.isInteger(cursor.seq)) throw new Error();
+      return cursor.seq;
+    } catch {
+      throw new BadRequestError('invalid_cursor', 'Invalid cursor');
+    }
+  }
 
-    const results = await taskRepo.list(workspaceId, tenantId, {
-        state: state as string,
-        assigneeId: assignee_id as string,
-        limit: limit ? parseInt(limit as string) : 20,
-        cursor: cursor as string
+  static async list(req: Request, res: Response) {
+    const { tenantId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    const query = listTasksQuerySchema.parse(req.query);
+    const overdue = query.overdue === 'true';
+    const workflow = overdue ? await workflowRepo.resolve(workspaceId, tenantId) : null;
+    const customFields = await TaskController.customFieldFilters(req, workspaceId, tenantId);
+
+    const result = await taskStore().list(workspaceId, tenantId, {
+        states: query.state,
+        priorities: query.priority,
+        assigneeIds: query.assignee_id,
+        labels: query.label,
+        customFields,
+        createdAfter: query.created_after,
+        createdBefore: query.created_before,
+        updatedAfter: query.updated_after,
+        updatedBefore: query.updated_before,
+        search: query.q,
+        sort: query.sort,
+        order: query.order,
+        limit: query.limit,
+        cursor: query.cursor,
+        includeDeleted: query.include_deleted === 'true',
+        dueBefore: query.due_before,
+        overdue,
+        terminalStates: workflow?.terminalStates
     });
 
-    res.json(results.map(t => TaskController.mapTask(t)));
+    res.json({
+      data: result.data.map(t => TaskController.mapTask(t)),
+      next_cursor: result.nextCursor
+    });
   }
 }
@@ -0,0 +1,79 @@
+import { Request, Response } from 'express';
+import { TaskFieldsRepository } from '../repositories/taskFieldsRepository';
+import { EMPTY_TASK_FIELDS, TaskFieldsDefinition, TaskFieldsDomain } from '../domain/fields';
+import { ConflictError, ForbiddenError, ValidationError } from '../domain/errors';
+import { putTaskFieldsSchema, TaskFieldsResponse } from '../schemas/fields';
+import { taskStore } from '../repositories/backend';
+
+const fieldsRepo = new TaskFieldsRepository();
+
+export class TaskFieldsController {
+
+  private static mapFields(def: TaskFieldsDefinition, meta: { version: number, updatedAt: number } | null): TaskFieldsResponse {
+    return {
+      labels: def.labels,
+      fields: def.fields,
+      version: meta?.version ?? null,
+      updated_at: meta?.updatedAt ?? null,
+    };
+  }
+
+  // Refuses definitions that would strand labels or custom field values live tasks still carry
+  private static async assertValuesCovered(workspaceId: string, tenantId: string, next: TaskFieldsDefinition) {
+    const current = await fieldsRepo.resolve(workspaceId, tenantId);
+    const dropped = TaskFieldsDomain.dropped(current, next);
+
+    const labels = dropped.labels.length > 0 ? await taskStore().labelsInUse(workspaceId, tenantId, dropped.labels) : [];
+    if (labels.length > 0) {
+      throw new ConflictError('labels_in_use', `Tasks still carry labels the definitions would drop: ${labels.join(', ')}`, { labels });
+    }
+
+    const fields = dropped.fields.size > 0 ? await taskStore().fieldsInUse(workspaceId, tenantId, dropped.fields) : [];
+    if (fields.length > 0) {
+      throw new ConflictError('fields_in_use', `Tasks still hold values the definitions would drop: ${fields.join(', ')}`, { fields });
+    }
+  }
+
+  static async get(req: Request, res: Response) {
+    const { tenantId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    const row = await fieldsRepo.findByWorkspace(workspaceId, tenantId);
+    res.json(row
+      ? TaskFieldsController.mapFields(row.definition, row)
+      : TaskFieldsController.mapFields(EMPTY_TASK_FIELDS, null));
+  }
+
+  static async put(req: Request, res: Response) {
+    const { tenantId, role } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can change labels and custom fields');
+
+    const body = putTaskFieldsSchema.parse(req.body);
+    const definition: TaskFieldsDefinition = { labels: body.labels, fields: body.fields };
+
+    const errors = TaskFieldsDomain.validate(definition);
+    if (errors.length > 0) {
+      throw new ValidationError(errors.map(message => ({ path: '', message })), 'Invalid label or custom field definitions');
+    }
+
+    await TaskFieldsController.assertValuesCovered(workspaceId, tenantId, definition);
+
+    const row = await fieldsRepo.upsert(workspaceId, tenantId, definition);
+    res.json(TaskFieldsController.mapFields(row.definition, row));
+  }
+
+  static async remove(req: Request, res: Response) {
+    const { tenantId, role } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can change labels and custom fields');
+
+    // Same guard as put: dropping every definition must not strand values
+    await TaskFieldsController.assertValuesCovered(workspaceId, tenantId, EMPTY_TASK_FIELDS);
+
+    await fieldsRepo.delete(workspaceId, tenantId);
+    res.status(204).send();
+  }
+}
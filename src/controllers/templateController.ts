@@ -0,0 +1,142 @@
+import { Request, Response } from 'express';
+import { TaskTemplate, TemplateFields, TemplateRepository } from '../repositories/templateRepository';
+import { WorkspaceRepository } from '../repositories/workspaceRepository';
+import { RecurrenceDomain } from '../domain/recurrence';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../domain/errors';
+import { createTemplateSchema, previewQuerySchema, TemplateResponse, updateTemplateSchema } from '../schemas/template';
+import { v4 as uuidv4 } from 'uuid';
+
+const templateRepo = new TemplateRepository();
+const workspaceRepo = new WorkspaceRepository();
+
+export class TemplateController {
+
+  private static mapTemplate(template: TaskTemplate): TemplateResponse {
+    return {
+      template_id: template.id,
+      workspace_id: template.workspaceId,
+      title_pattern: template.titlePattern,
+      recurrence: template.recurrence,
+      priority: template.priority,
+      assignee_id: template.assigneeId,
+      active: template.active,
+      next_run_at: template.nextRunAt,
+      last_run_at: template.lastRunAt,
+      last_task_id: template.lastTaskId,
+      created_at: template.createdAt,
+      updated_at: template.updatedAt,
+    };
+  }
+
+  private static async loadTemplate(req: Request) {
+    const template = await templateRepo.findById(req.params.templateId as string, req.params.workspaceId as string, req.auth.tenantId);
+    if (!template) throw new NotFoundError('template_not_found', 'Template not found');
+    return template;
+  }
+
+  // Only members of the workspace can be the default assignee
+  private static async checkAssignee(req: Request, assigneeId: string | null | undefined) {
+    if (!assigneeId) return;
+    if (!await workspaceRepo.findMember(req.params.workspaceId as string, req.auth.tenantId, assigneeId)) {
+      throw new BadRequestError('invalid_assignee', 'Assignee is not a member of this workspace');
+    }
+  }
+
+  // The first run after now, or null while paused
+  private static nextRunAt(recurrence: string, active: boolean) {
+    if (!active) return null;
+    return RecurrenceDomain.next(RecurrenceDomain.parse(recurrence), Math.floor(Date.now() / 1000));
+  }
+
+  static async create(req: Request, res: Response) {
+    const { tenantId, role } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can manage templates');
+
+    const body = createTemplateSchema.parse(req.body);
+    await TemplateController.checkAssignee(req, body.assignee_id);
+
+    const template = await templateRepo.create({
+      id: uuidv4(),
+      tenantId,
+      workspaceId,
+      titlePattern: body.title_pattern,
+      priority: body.priority,
+      assigneeId: body.assignee_id ?? null,
+      recurrence: body.recurrence,
+      active: body.active,
+      nextRunAt: TemplateController.nextRunAt(body.recurrence, body.active),
+    });
+
+    res.status(201).json(TemplateController.mapTemplate(template));
+  }
+
+  static async list(req: Request, res: Response) {
+    const { tenantId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    const templates = await templateRepo.list(workspaceId, tenantId);
+    res.json(templates.map(t => TemplateController.mapTemplate(t)));
+  }
+
+  static async get(req: Request, res: Response) {
+    const template = await TemplateController.loadTemplate(req);
+    res.json(TemplateController.mapTemplate(template));
+  }
+
+  static async update(req: Request, res: Response) {
+    const { tenantId, role } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can manage templates');
+
+    const body = updateTemplateSchema.parse(req.body);
+    const template = await TemplateController.loadTemplate(req);
+    await TemplateController.checkAssignee(req, body.assignee_id);
+
+    const changes: Partial<TemplateFields> = {
+      titlePattern: body.title_pattern,
+      priority: body.priority,
+      assigneeId: body.assignee_id,
+      recurrence: body.recurrence,
+      active: body.active,
+    };
+
+    // A new schedule, pausing or resuming restarts the schedule from now
+    const recurrence = body.recurrence ?? template.recurrence;
+    const active = body.active ?? template.active;
+    if (recurrence !== template.recurrence || active !== template.active) {
+      changes.nextRunAt = TemplateController.nextRunAt(recurrence, active);
+    }
+
+    const updated = await templateRepo.update(template.id, workspaceId, tenantId, changes);
+    res.json(TemplateController.mapTemplate(updated));
+  }
+
+  static async remove(req: Request, res: Response) {
+    const { tenantId, role } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can manage templates');
+
+    await templateRepo.delete(req.params.templateId as string, workspaceId, tenantId);
+    res.status(204).send();
+  }
+
+  // The next `count` runs and the titles their tasks will get
+  static async preview(req: Request, res: Response) {
+    const query = previewQuerySchema.parse(req.query);
+    const template = await TemplateController.loadTemplate(req);
+
+    // Start at the scheduled run, which may be due but not yet picked up
+    const after = template.nextRunAt !== null ? template.nextRunAt - 1 : Math.floor(Date.now() / 1000);
+    const runs = RecurrenceDomain.upcoming(RecurrenceDomain.parse(template.recurrence), after, query.count);
+
+    res.json({
+      template_id: template.id,
+      active: template.active,
+      runs: runs.map(at => ({ at, title: RecurrenceDomain.renderTitle(template.titlePattern, at) })),
+    });
+  }
+}
@@ -0,0 +1,75 @@
+import { Request, Response } from 'express';
+import { StoredWebhookSubscription, WebhookRepository } from '../repositories/webhookRepository';
+import { ForbiddenError, NotFoundError } from '../domain/errors';
+import { createWebhookSchema, WebhookResponse } from '../schemas/webhook';
+import { v4 as uuidv4 } from 'uuid';
+import { randomBytes } from 'crypto';
+
+const webhookRepo = new WebhookRepository();
+
+export class WebhookController {
+
+  private static mapWebhook(sub: StoredWebhookSubscription): WebhookResponse {
+    return {
+      webhook_id: sub.id,
+      tenant_id: sub.tenantId,
+      url: sub.url,
+      event_types: sub.eventTypes ?? null,
+      created_at: sub.createdAt,
+    };
+  }
+
+  static async create(req: Request, res: Response) {
+    const { tenantId, role } = req.auth;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can manage webhooks');
+
+    const body = createWebhookSchema.parse(req.body);
+
+    const sub = await webhookRepo.create({
+      id: uuidv4(),
+      tenantId,
+      url: body.url,
+      secret: body.secret ?? randomBytes(32).toString('hex'),
+      eventTypes: body.event_types ?? null,
+    });
+
+    // The secret is only ever returned once, at registration
+    res.status(201).json({ ...WebhookController.mapWebhook(sub), secret: sub.secret });
+  }
+
+  static async list(req: Request, res: Response) {
+    const { tenantId } = req.auth;
+
+    const subs = await webhookRepo.listByTenant(tenantId);
+    res.json(subs.map(s => WebhookController.mapWebhook(s)));
+  }
+
+  static async remove(req: Request, res: Response) {
+    const { tenantId, role } = req.auth;
+    const webhookId = req.params.webhookId as string;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can manage webhooks');
+
+    await webhookRepo.deactivate(webhookId, tenantId);
+    res.status(204).send();
+  }
+
+  static async deliveries(req: Request, res: Response) {
+    const { tenantId } = req.auth;
+    const webhookId = req.params.webhookId as string;
+
+    if (!await webhookRepo.findById(webhookId, tenantId)) throw new NotFoundError('webhook_not_found', 'Webhook not found');
+
+    const rows = await webhookRepo.listDeliveries(webhookId, tenantId);
+    res.json(rows.map(d => ({
+      id: d.id,
+      event_id: d.eventId,
+      status: d.status,
+      attempts: d.attempts,
+      next_attempt_at: d.nextAttemptAt,
+      last_error: d.lastError,
+      updated_at: d.updatedAt,
+    })));
+  }
+}
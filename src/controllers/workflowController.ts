@@ -0,0 +1,81 @@
+import { Request, Response } from 'express';
+import { WorkflowRepository } from '../repositories/workflowRepository';
+import { DEFAULT_WORKFLOW, WorkflowDefinition, WorkflowDomain } from '../domain/workflow';
+import { ConflictError, ForbiddenError, ValidationError } from '../domain/errors';
+import { taskStore } from '../repositories/backend';
+import { putWorkflowSchema, WorkflowResponse } from '../schemas/workflow';
+
+const workflowRepo = new WorkflowRepository();
+
+export class WorkflowController {
+
+  private static mapWorkflow(def: WorkflowDefinition, meta: { version: number, updatedAt: number } | null): WorkflowResponse {
+    return {
+      states: def.states,
+      initial_state: def.initialState,
+      terminal_states: def.terminalStates,
+      cancel_states: def.cancelStates ?? [],
+      transitions: def.transitions,
+      is_default: meta === null,
+      version: meta?.version ?? null,
+      updated_at: meta?.updatedAt ?? null,
+    };
+  }
+
+  // Refuses to drop states that live tasks are currently in
+  private static async assertStatesCovered(workspaceId: string, tenantId: string, states: string[]) {
+    const inUse = await taskStore().statesInUse(workspaceId, tenantId, states);
+    if (inUse.length > 0) {
+      throw new ConflictError('states_in_use', `Tasks are still in states the workflow would drop: ${inUse.join(', ')}`, { states: inUse });
+    }
+  }
+
+  static async get(req: Request, res: Response) {
+    const { tenantId } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    const row = await workflowRepo.findByWorkspace(workspaceId, tenantId);
+    res.json(row
+      ? WorkflowController.mapWorkflow(row.definition, row)
+      : WorkflowController.mapWorkflow(DEFAULT_WORKFLOW, null));
+  }
+
+  static async put(req: Request, res: Response) {
+    const { tenantId, role } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can change workflows');
+
+    const body = putWorkflowSchema.parse(req.body);
+    const definition: WorkflowDefinition = {
+      states: body.states,
+      initialState: body.initial_state,
+      terminalStates: body.terminal_states,
+      cancelStates: body.cancel_states,
+      transitions: body.transitions,
+    };
+
+    const errors = WorkflowDomain.validate(definition);
+    if (errors.length > 0) {
+      throw new ValidationError(errors.map(message => ({ path: '', message })), 'Invalid workflow definition');
+    }
+
+    await WorkflowController.assertStatesCovered(workspaceId, tenantId, definition.states);
+
+    const row = await workflowRepo.upsert(workspaceId, tenantId, definition);
+    res.json(WorkflowController.mapWorkflow(row.definition, row));
+  }
+
+  static async remove(req: Request, res: Response) {
+    const { tenantId, role } = req.auth;
+    const workspaceId = req.params.workspaceId as string;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can change workflows');
+
+    // Same guard as put: falling back to the default must not strand tasks
+    await WorkflowController.assertStatesCovered(workspaceId, tenantId, DEFAULT_WORKFLOW.states);
+
+    await workflowRepo.delete(workspaceId, tenantId);
+    res.status(204).send();
+  }
+}
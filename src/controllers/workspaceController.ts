@@ -0,0 +1,113 @@
+import { Request, Response } from 'express';
+import { StoredMember, WorkspaceRepository } from '../repositories/workspaceRepository';
+import { Workspace } from '../middleware/workspace';
+import { UserRole } from '../domain/task';
+import { BadRequestError, ConflictError, ForbiddenError } from '../domain/errors';
+import {
+  createWorkspaceSchema, MemberResponse, putMemberSchema, updateWorkspaceSchema, WorkspaceResponse,
+} from '../schemas/workspace';
+import { v4 as uuidv4 } from 'uuid';
+
+const workspaceRepo = new WorkspaceRepository();
+
+export class WorkspaceController {
+
+  private static mapWorkspace(workspace: Workspace, role: UserRole): WorkspaceResponse {
+    return {
+      workspace_id: workspace.id,
+      tenant_id: workspace.tenantId,
+      name: workspace.name,
+      settings: workspace.settings,
+      archived: workspace.archived,
+      role,
+      created_at: workspace.createdAt,
+      updated_at: workspace.updatedAt,
+    };
+  }
+
+  private static mapMember(member: StoredMember): MemberResponse {
+    return {
+      user_id: member.userId,
+      workspace_id: member.workspaceId,
+      role: member.role,
+      created_at: member.createdAt,
+    };
+  }
+
+  static async create(req: Request, res: Response) {
+    const { tenantId, role, userId } = req.auth;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can create workspaces');
+    if (!userId) throw new BadRequestError('missing_user', 'A user identity is required to create a workspace');
+
+    const body = createWorkspaceSchema.parse(req.body);
+
+    const workspace = await workspaceRepo.create({
+      id: body.workspace_id ?? uuidv4(),
+      tenantId,
+      name: body.name,
+      settings: body.settings ?? {},
+    }, userId);
+
+    res.status(201).json(WorkspaceController.mapWorkspace(workspace, 'manager'));
+  }
+
+  static async list(req: Request, res: Response) {
+    const { tenantId, userId } = req.auth;
+
+    const rows = userId ? await workspaceRepo.listForUser(tenantId, userId) : [];
+    res.json(rows.map(r => WorkspaceController.mapWorkspace(r.workspace, r.role)));
+  }
+
+  // The workspace and role are resolved by the workspaceAccess middleware
+  static async get(req: Request, res: Response) {
+    res.json(WorkspaceController.mapWorkspace(req.workspace, req.auth.role));
+  }
+
+  static async update(req: Request, res: Response) {
+    const { tenantId, role } = req.auth;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can change workspaces');
+
+    const body = updateWorkspaceSchema.parse(req.body);
+
+    const workspace = await workspaceRepo.update(req.workspace.id, tenantId, body);
+    res.json(WorkspaceController.mapWorkspace(workspace, role));
+  }
+
+  static async listMembers(req: Request, res: Response) {
+    const { tenantId } = req.auth;
+
+    const members = await workspaceRepo.listMembers(req.workspace.id, tenantId);
+    res.json(members.map(m => WorkspaceController.mapMember(m)));
+  }
+
+  static async putMember(req: Request, res: Response) {
+    const { tenantId, role } = req.auth;
+    const memberId = req.params.userId as string;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can change members');
+
+    const body = putMemberSchema.parse(req.body);
+
+    const existing = await workspaceRepo.findMember(req.workspace.id, tenantId, memberId);
+    if (existing?.role === 'manager' && body.role !== 'manager') {
+      // Demoting is a removal of manager rights; the same last-manager rule applies
+      const managers = (await workspaceRepo.listMembers(req.workspace.id, tenantId)).filter(m => m.role === 'manager');
+      if (managers.length <= 1) throw new ConflictError('last_manager', 'A workspace needs at least one manager');
+    }
+
+    const member = await workspaceRepo.upsertMember(req.workspace.id, tenantId, memberId, body.role);
+    res.status(existing ? 200 : 201).json(WorkspaceController.mapMember(member));
+  }
+
+  static async removeMember(req: Request, res: Response) {
+    const { tenantId, role } = req.auth;
+    const memberId = req.params.userId as string;
+
+    if (role !== 'manager') throw new ForbiddenError('Only manager can change members');
+
+    await workspaceRepo.removeMember(req.workspace.id, tenantId, memberId);
+    res.status(204).send();
+  }
+}
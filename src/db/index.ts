@@ -5,3 +5,6 @@ import * as schema from './schema';
 const dbPath = process.env.DB_PATH ?? 'sqlite.db';
 export const sqlite = new Database(dbPath);
 export const db = drizzle(sqlite, { schema });
+
+// Transaction handle passed to db.transaction callbacks
+export type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
@@ -0,0 +1,113 @@
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import { sqlite } from './index';
+
+/**
+ * Applies the SQL migrations in `migrations/` (generated by `drizzle-kit
+ * generate`, ordered by `meta/_journal.json`) and records them in the
+ * `schema_migrations` table. Each `<tag>.sql` may have a hand-written
+ * `<tag>.down.sql` used by `down`.
+ *
+ * Runs hold an IMMEDIATE transaction, so only one process migrates at a time;
+ * others wait on SQLite's busy timeout and then see the work already done.
+ */
+
+export const MIGRATIONS_DIR = process.env.MIGRATIONS_DIR ?? join(process.cwd(), 'migrations');
+
+export interface Migration {
+  tag: string;
+  up: string;
+  down: string | null;
+  checksum: string;
+}
+
+export interface MigrationStatus {
+  tag: string;
+  appliedAt: number | null;
+  changed: boolean; // Applied file no longer matches what was run
+}
+
+function ensureMigrationsTable() {
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      tag TEXT PRIMARY KEY,
+      checksum TEXT NOT NULL,
+      applied_at INTEGER NOT NULL DEFAULT (unixepoch())
+    )
+  `);
+}
+
+export function loadMigrations(dir = MIGRATIONS_DIR): Migration[] {
+  const journal = JSON.parse(readFileSync(join(dir, 'meta', '_journal.json'), 'utf8'));
+
+  return [...journal.entries]
+    .sort((a: any, b: any) => a.idx - b.idx)
+    .map((entry: any) => {
+      const up = readFileSync(join(dir, `${entry.tag}.sql`), 'utf8');
+      const downPath = join(dir, `${entry.tag}.down.sql`);
+      return {
+        tag: entry.tag,
+        up,
+        down: existsSync(downPath) ? readFileSync(downPath, 'utf8') : null,
+        checksum: createHash('sha256').update(up).digest('hex'),
+      };
+    });
+}
+
+function applied(): Map<string, { checksum: string, appliedAt: number }> {
+  const rows = sqlite.prepare('SELECT tag, checksum, applied_at FROM schema_migrations').all() as any[];
+  return new Map(rows.map(r => [r.tag, { checksum: r.checksum, appliedAt: r.applied_at }]));
+}
+
+function runScript(script: string) {
+  for (const statement of script.split('--> statement-breakpoint')) {
+    if (statement.trim()) sqlite.exec(statement);
+  }
+}
+
+export function migrationStatus(migrations = loadMigrations()): MigrationStatus[] {
+  ensureMigrationsTable();
+  const done = applied();
+
+  return migrations.map(m => ({
+    tag: m.tag,
+    appliedAt: done.get(m.tag)?.appliedAt ?? null,
+    changed: done.has(m.tag) && done.get(m.tag)!.checksum !== m.checksum,
+  }));
+}
+
+// Applies every pending migration in order; returns the tags applied
+export function migrateUp(migrations = loadMigrations()): string[] {
+  ensureMigrationsTable();
+
+  return sqlite.transaction(() => {
+    const done = applied();
+    const pending = migrations.filter(m => !done.has(m.tag));
+
+    for (const m of pending) {
+      runScript(m.up);
+      sqlite.prepare('INSERT INTO schema_migrations (tag, checksum) VALUES (?, ?)').run(m.tag, m.checksum);
+    }
+
+    return pending.map(m => m.tag);
+  }).immediate();
+}
+
+// Reverts the most recently applied migrations; returns the tags reverted
+export function migrateDown(steps = 1, migrations = loadMigrations()): string[] {
+  ensureMigrationsTable();
+
+  return sqlite.transaction(() => {
+    const done = applied();
+    const toRevert = migrations.filter(m => done.has(m.tag)).reverse().slice(0, steps);
+
+    for (const m of toRevert) {
+      if (m.down === null) throw new Error(`Migration ${m.tag} has no ${m.tag}.down.sql`);
+      runScript(m.down);
+      sqlite.prepare('DELETE FROM schema_migrations WHERE tag = ?').run(m.tag);
+    }
+
+    return toRevert.map(m => m.tag);
+  }).immediate();
+}
@@ -0,0 +1,14 @@
+import { Pool } from 'pg';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import * as schema from './schema';
+
+// Any drizzle Postgres driver (node-postgres in production, PGlite in tests)
+export type PgDb = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Transaction handle passed to db.transaction callbacks
+export type PgTx = Parameters<Parameters<PgDb['transaction']>[0]>[0];
+
+export function connectPg(connectionString: string): PgDb {
+  return drizzle(new Pool({ connectionString }), { schema });
+}
@@ -0,0 +1,48 @@
+import { join } from 'path';
+import { sql } from 'drizzle-orm';
+import { pgTable, text, bigint } from 'drizzle-orm/pg-core';
+import { loadMigrations, MIGRATIONS_DIR } from '../migrate';
+import { PgDb } from './index';
+
+/**
+ * Applies `migrations/pg/` (same journal layout as the SQLite migrations) and
+ * records them in `schema_migrations`. Instances starting together serialize
+ * on a transaction-scoped advisory lock.
+ */
+
+export const PG_MIGRATIONS_DIR = join(MIGRATIONS_DIR, 'pg');
+
+// Arbitrary, but fixed: every instance must take the same lock
+const MIGRATION_LOCK_ID = 7_240_018;
+
+const schemaMigrations = pgTable('schema_migrations', {
+  tag: text('tag').primaryKey(),
+  checksum: text('checksum').notNull(),
+  appliedAt: bigint('applied_at', { mode: 'number' }).notNull(),
+});
+
+// Applies every pending migration in order; returns the tags applied
+export async function migratePgUp(db: PgDb, migrations = loadMigrations(PG_MIGRATIONS_DIR)): Promise<string[]> {
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(${MIGRATION_LOCK_ID})`);
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        tag TEXT PRIMARY KEY,
+        checksum TEXT NOT NULL,
+        applied_at BIGINT NOT NULL
+      )
+    `);
+
+    const done = new Set((await tx.select({ tag: schemaMigrations.tag }).from(schemaMigrations)).map(r => r.tag));
+    const pending = migrations.filter(m => !done.has(m.tag));
+
+    for (const m of pending) {
+      for (const statement of m.up.split('--> statement-breakpoint')) {
+        if (statement.trim()) await tx.execute(sql.raw(statement));
+      }
+      await tx.insert(schemaMigrations).values({ tag: m.tag, checksum: m.checksum, appliedAt: Math.floor(Date.now() / 1000) });
+    }
+
+    return pending.map(m => m.tag);
+  });
+}
@@ -0,0 +1,94 @@
+import { pgTable, text, integer, bigint, jsonb, index, uniqueIndex, primaryKey } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import type { CustomFieldValues } from '../../domain/fields';
+
+/**
+ * PostgreSQL mirror of the task tables in ../schema.ts, used by
+ * PgTaskRepository. Timestamps stay Unix seconds so both backends return
+ * the same shapes.
+ */
+
+const unixNow = sql`extract(epoch from now())::bigint`;
+const unixSeconds = (name: string) => bigint(name, { mode: 'number' });
+
+// --- Tasks Table ---
+export const tasks = pgTable('tasks', {
+  id: text('id').primaryKey(), // UUID
+  tenantId: text('tenant_id').notNull(),
+  workspaceId: text('workspace_id').notNull(),
+  title: text('title').notNull(),
+  priority: text('priority', { enum: ['LOW', 'MEDIUM', 'HIGH'] }).default('MEDIUM').notNull(),
+  state: text('state').default('NEW').notNull(),
+  assigneeId: text('assignee_id'),
+  version: integer('version').default(1).notNull(), // Optimistic locking
+  createdAt: unixSeconds('created_at').default(unixNow).notNull(),
+  updatedAt: unixSeconds('updated_at').default(unixNow).notNull(),
+  deletedAt: unixSeconds('deleted_at'),
+  dueAt: unixSeconds('due_at'),
+  overdueNotifiedAt: unixSeconds('overdue_notified_at'),
+  slaBreachedAt: unixSeconds('sla_breached_at'),
+  labels: jsonb('labels').$type<string[]>().default([]).notNull(),
+  customFields: jsonb('custom_fields').$type<CustomFieldValues>().default({}).notNull(),
+}, (table) => ({
+  workspaceStateIdx: index('idx_tasks_workspace_state').on(table.workspaceId, table.state),
+  dueAtIdx: index('idx_tasks_due_at').on(table.dueAt),
+  workspaceAssigneeIdx: index('idx_tasks_workspace_assignee').on(table.workspaceId, table.assigneeId),
+}));
+
+// --- Outbox / Audit Events Table ---
+export const taskEvents = pgTable('task_events', {
+  id: text('id').primaryKey(), // UUID
+  taskId: text('task_id').notNull().references(() => tasks.id),
+  eventType: text('event_type').notNull(),
+  payload: jsonb('payload').notNull(),
+  createdAt: unixSeconds('created_at').default(unixNow).notNull(),
+  dispatchedAt: unixSeconds('dispatched_at'),
+  seq: bigint('seq', { mode: 'number' }), // Drawn at commit by the task_events_seq trigger, so seqs follow commit order like SQLite's
+}, (table) => ({
+  taskIdIdx: index('idx_events_task_id').on(table.taskId),
+  createdAtIdx: index('idx_events_created_at').on(table.createdAt),
+  seqIdx: index('idx_events_seq').on(table.seq),
+}));
+
+// --- Task Comments Table ---
+export const taskComments = pgTable('task_comments', {
+  id: text('id').primaryKey(), // UUID
+  taskId: text('task_id').notNull().references(() => tasks.id),
+  authorId: text('author_id').notNull(),
+  body: text('body').notNull(),
+  createdAt: unixSeconds('created_at').default(unixNow).notNull(),
+  updatedAt: unixSeconds('updated_at').default(unixNow).notNull(),
+  deletedAt: unixSeconds('deleted_at'),
+}, (table) => ({
+  taskCreatedIdx: index('idx_comments_task_created').on(table.taskId, table.createdAt),
+}));
+
+// --- Task Dependencies Table (blocker must finish before blocked can start) ---
+export const taskDependencies = pgTable('task_dependencies', {
+  tenantId: text('tenant_id').notNull(),
+  workspaceId: text('workspace_id').notNull(),
+  blockerId: text('blocker_id').notNull().references(() => tasks.id),
+  blockedId: text('blocked_id').notNull().references(() => tasks.id),
+  createdAt: unixSeconds('created_at').default(unixNow).notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.blockerId, table.blockedId] }),
+  blockedIdx: index('idx_dependencies_blocked').on(table.blockedId),
+}));
+
+// --- Task Handoffs Table (an agent asks to pass a task to another agent; a manager decides) ---
+export const taskHandoffs = pgTable('task_handoffs', {
+  id: text('id').primaryKey(), // UUID
+  tenantId: text('tenant_id').notNull(),
+  workspaceId: text('workspace_id').notNull(),
+  taskId: text('task_id').notNull().references(() => tasks.id),
+  fromUserId: text('from_user_id').notNull(),
+  toUserId: text('to_user_id').notNull(),
+  note: text('note'),
+  status: text('status', { enum: ['PENDING', 'ACCEPTED', 'DECLINED', 'CANCELLED'] }).default('PENDING').notNull(),
+  resolvedBy: text('resolved_by'),
+  createdAt: unixSeconds('created_at').default(unixNow).notNull(),
+  resolvedAt: unixSeconds('resolved_at'),
+}, (table) => ({
+  // At most one pending handoff per task
+  pendingIdx: uniqueIndex('idx_handoffs_task_pending').on(table.taskId).where(sql`status = 'PENDING'`),
+}));
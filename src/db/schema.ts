@@ -1,5 +1,8 @@
-import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, index, uniqueIndex, primaryKey } from 'drizzle-orm/sqlite-core';
 import { sql } from 'drizzle-orm';
+import type { WorkflowDefinition } from '../domain/workflow';
+import type { AssignmentPolicy } from '../domain/assignment';
+import type { CustomFieldValues, TaskFieldsDefinition } from '../domain/fields';
 
 // --- Tasks Table ---
 export const tasks = sqliteTable('tasks', {
@@ -8,13 +11,20 @@ export const tasks = sqliteTable('tasks', {
   workspaceId: text('workspace_id').notNull(),
   title: text('title').notNull(), // Max 120 chars check in app logic
   priority: text('priority', { enum: ['LOW', 'MEDIUM', 'HIGH'] }).default('MEDIUM').notNull(),
-  state: text('state', { enum: ['NEW', 'IN_PROGRESS', 'DONE', 'CANCELLED'] }).default('NEW').notNull(),
+  state: text('state').default('NEW').notNull(), // Valid values come from the workspace workflow
   assigneeId: text('assignee_id'), // Nullable
   version: integer('version').default(1).notNull(), // Optimistic locking
   createdAt: integer('created_at').default(sql`(unixepoch())`).notNull(),
   updatedAt: integer('updated_at').default(sql`(unixepoch())`).notNull(),
+  deletedAt: integer('deleted_at'), // Soft delete marker
+  dueAt: integer('due_at'), // Nullable, Unix seconds
+  overdueNotifiedAt: integer('overdue_notified_at'), // Set by the deadline scanner once TaskOverdue is emitted
+  slaBreachedAt: integer('sla_breached_at'), // Set by the deadline scanner once SlaBreached is emitted
+  labels: text('labels', { mode: 'json' }).$type<string[]>().default(sql`'[]'`).notNull(), // From the workspace label set
+  customFields: text('custom_fields', { mode: 'json' }).$type<CustomFieldValues>().default(sql`'{}'`).notNull(), // Keyed by field definition
 }, (table) => ({
   workspaceStateIdx: index('idx_tasks_workspace_state').on(table.workspaceId, table.state),
+  dueAtIdx: index('idx_tasks_due_at').on(table.dueAt),
   workspaceAssigneeIdx: index('idx_tasks_workspace_assignee').on(table.workspaceId, table.assigneeId),
 }));
 
@@ -25,14 +35,213 @@ export const taskEvents = sqliteTable('task_events', {
   eventType: text('event_type').notNull(), // TaskCreated, TaskAssigned, TaskStateChanged
   payload: text('payload', { mode: 'json' }).notNull(), // JSON snapshot/delta
   createdAt: integer('created_at').default(sql`(unixepoch())`).notNull(),
+  dispatchedAt: integer('dispatched_at'), // Set once the relay has fanned the event out to webhooks
+  seq: integer('seq'), // Monotonic changelog position, assigned on insert by the task_events_seq trigger
 }, (table) => ({
   taskIdIdx: index('idx_events_task_id').on(table.taskId),
   createdAtIdx: index('idx_events_created_at').on(table.createdAt),
+  dispatchedAtIdx: index('idx_events_dispatched_at').on(table.dispatchedAt),
+  seqIdx: uniqueIndex('idx_events_seq').on(table.seq),
 }));
 
 // --- Idempotency Keys Table ---
 export const idempotencyKeys = sqliteTable('idempotency_keys', {
-  key: text('key').primaryKey(),
-  responsePayload: text('response_payload', { mode: 'json' }).notNull(),
-  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
-});
+  tenantId: text('tenant_id').notNull(),
+  scope: text('scope').notNull(), // Method and path, e.g. "POST /v1/workspaces/ws_1/tasks"
+  key: text('key').notNull(),
+  requestHash: text('request_hash').notNull(), // sha256 of the canonical request body
+  statusCode: integer('status_code'), // Null while the first request is still running
+  responsePayload: text('response_payload', { mode: 'json' }),
+  createdAt: integer('created_at').default(sql`(unixepoch())`).notNull(),
+  expiresAt: integer('expires_at').notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.tenantId, table.scope, table.key] }),
+  expiresAtIdx: index('idx_idempotency_expires_at').on(table.expiresAt),
+}));
+
+// --- Webhook Subscriptions Table ---
+export const webhookSubscriptions = sqliteTable('webhook_subscriptions', {
+  id: text('id').primaryKey(), // UUID
+  tenantId: text('tenant_id').notNull(),
+  url: text('url').notNull(),
+  secret: text('secret').notNull(), // HMAC signing secret
+  eventTypes: text('event_types', { mode: 'json' }).$type<string[]>(), // Null = all events
+  active: integer('active', { mode: 'boolean' }).default(true).notNull(),
+  createdAt: integer('created_at').default(sql`(unixepoch())`).notNull(),
+}, (table) => ({
+  tenantIdx: index('idx_webhooks_tenant').on(table.tenantId),
+}));
+
+// --- Webhook Deliveries Table (one row per event x subscription) ---
+// Carries a copy of the event, which may live in another database (see repositories/backend.ts)
+export const webhookDeliveries = sqliteTable('webhook_deliveries', {
+  id: text('id').primaryKey(), // UUID
+  eventId: text('event_id').notNull(),
+  subscriptionId: text('subscription_id').notNull().references(() => webhookSubscriptions.id),
+  eventSeq: integer('event_seq').notNull(), // Deliveries to one subscription go out in this order
+  taskId: text('task_id').notNull(),
+  eventType: text('event_type').notNull(),
+  payload: text('payload', { mode: 'json' }).notNull(),
+  eventCreatedAt: integer('event_created_at').notNull(),
+  status: text('status', { enum: ['PENDING', 'DELIVERED', 'DEAD'] }).default('PENDING').notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  nextAttemptAt: integer('next_attempt_at').default(sql`(unixepoch())`).notNull(),
+  lastError: text('last_error'),
+  createdAt: integer('created_at').default(sql`(unixepoch())`).notNull(),
+  updatedAt: integer('updated_at').default(sql`(unixepoch())`).notNull(),
+}, (table) => ({
+  statusNextAttemptIdx: index('idx_deliveries_status_next_attempt').on(table.status, table.nextAttemptAt),
+  eventSubscriptionIdx: uniqueIndex('idx_deliveries_event_subscription').on(table.eventId, table.subscriptionId),
+}));
+
+// --- Workflow Definitions Table (one per workspace; absent = default workflow) ---
+export const workflows = sqliteTable('workflows', {
+  id: text('id').primaryKey(), // UUID
+  tenantId: text('tenant_id').notNull(),
+  workspaceId: text('workspace_id').notNull(),
+  definition: text('definition', { mode: 'json' }).$type<WorkflowDefinition>().notNull(),
+  version: integer('version').default(1).notNull(),
+  createdAt: integer('created_at').default(sql`(unixepoch())`).notNull(),
+  updatedAt: integer('updated_at').default(sql`(unixepoch())`).notNull(),
+}, (table) => ({
+  tenantWorkspaceIdx: uniqueIndex('idx_workflows_tenant_workspace').on(table.tenantId, table.workspaceId),
+}));
+
+// --- Task Field Definitions Table (labels and custom fields, per workspace) ---
+export const taskFieldDefinitions = sqliteTable('task_field_definitions', {
+  id: text('id').primaryKey(), // UUID
+  tenantId: text('tenant_id').notNull(),
+  workspaceId: text('workspace_id').notNull(),
+  definition: text('definition', { mode: 'json' }).$type<TaskFieldsDefinition>().notNull(),
+  version: integer('version').default(1).notNull(),
+  createdAt: integer('created_at').default(sql`(unixepoch())`).notNull(),
+  updatedAt: integer('updated_at').default(sql`(unixepoch())`).notNull(),
+}, (table) => ({
+  tenantWorkspaceIdx: uniqueIndex('idx_task_field_definitions_tenant_workspace').on(table.tenantId, table.workspaceId),
+}));
+
+// --- Task Comments Table ---
+export const taskComments = sqliteTable('task_comments', {
+  id: text('id').primaryKey(), // UUID
+  taskId: text('task_id').notNull().references(() => tasks.id),
+  authorId: text('author_id').notNull(),
+  body: text('body').notNull(), // Max 5000 chars check in app logic
+  createdAt: integer('created_at').default(sql`(unixepoch())`).notNull(),
+  updatedAt: integer('updated_at').default(sql`(unixepoch())`).notNull(),
+  deletedAt: integer('deleted_at'), // Soft delete marker
+}, (table) => ({
+  taskCreatedIdx: index('idx_comments_task_created').on(table.taskId, table.createdAt),
+}));
+
+// --- Task Dependencies Table (blocker must finish before blocked can start) ---
+export const taskDependencies = sqliteTable('task_dependencies', {
+  tenantId: text('tenant_id').notNull(),
+  workspaceId: text('workspace_id').notNull(),
+  blockerId: text('blocker_id').notNull().references(() => tasks.id),
+  blockedId: text('blocked_id').notNull().references(() => tasks.id),
+  createdAt: integer('created_at').default(sql`(unixepoch())`).notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.blockerId, table.blockedId] }),
+  blockedIdx: index('idx_dependencies_blocked').on(table.blockedId),
+}));
+
+// --- Task Handoffs Table (an agent asks to pass a task to another agent; a manager decides) ---
+export const taskHandoffs = sqliteTable('task_handoffs', {
+  id: text('id').primaryKey(), // UUID
+  tenantId: text('tenant_id').notNull(),
+  workspaceId: text('workspace_id').notNull(),
+  taskId: text('task_id').notNull().references(() => tasks.id),
+  fromUserId: text('from_user_id').notNull(), // The assignee asking
+  toUserId: text('to_user_id').notNull(),
+  note: text('note'),
+  status: text('status', { enum: ['PENDING', 'ACCEPTED', 'DECLINED', 'CANCELLED'] }).default('PENDING').notNull(),
+  resolvedBy: text('resolved_by'), // Manager who accepted or declined; null when cancelled
+  createdAt: integer('created_at').default(sql`(unixepoch())`).notNull(),
+  resolvedAt: integer('resolved_at'),
+}, (table) => ({
+  // At most one pending handoff per task
+  pendingIdx: uniqueIndex('idx_handoffs_task_pending').on(table.taskId).where(sql`status = 'PENDING'`),
+}));
+
+// --- SLA Policies Table (per workspace and priority) ---
+export const slaPolicies = sqliteTable('sla_policies', {
+  id: text('id').primaryKey(), // UUID
+  tenantId: text('tenant_id').notNull(),
+  workspaceId: text('workspace_id').notNull(),
+  priority: text('priority', { enum: ['LOW', 'MEDIUM', 'HIGH'] }).notNull(),
+  resolveWithinSeconds: integer('resolve_within_seconds').notNull(), // Creation -> terminal state
+  createdAt: integer('created_at').default(sql`(unixepoch())`).notNull(),
+  updatedAt: integer('updated_at').default(sql`(unixepoch())`).notNull(),
+}, (table) => ({
+  workspacePriorityIdx: uniqueIndex('idx_sla_workspace_priority').on(table.tenantId, table.workspaceId, table.priority),
+}));
+
+// --- Workspaces Table (IDs are unique per tenant) ---
+export const workspaces = sqliteTable('workspaces', {
+  id: text('id').notNull(),
+  tenantId: text('tenant_id').notNull(),
+  name: text('name').notNull(),
+  settings: text('settings', { mode: 'json' }).$type<Record<string, unknown>>().default({}).notNull(),
+  archived: integer('archived', { mode: 'boolean' }).default(false).notNull(),
+  createdAt: integer('created_at').default(sql`(unixepoch())`).notNull(),
+  updatedAt: integer('updated_at').default(sql`(unixepoch())`).notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.tenantId, table.id] }),
+}));
+
+// --- Workspace Members Table (per-workspace roles) ---
+export const workspaceMembers = sqliteTable('workspace_members', {
+  tenantId: text('tenant_id').notNull(),
+  workspaceId: text('workspace_id').notNull(),
+  userId: text('user_id').notNull(),
+  role: text('role', { enum: ['agent', 'manager'] }).notNull(),
+  createdAt: integer('created_at').default(sql`(unixepoch())`).notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.tenantId, table.workspaceId, table.userId] }),
+  userIdx: index('idx_members_user').on(table.tenantId, table.userId),
+}));
+
+// --- Consumer Offsets Table (last processed event seq per named feed consumer) ---
+export const consumerOffsets = sqliteTable('consumer_offsets', {
+  tenantId: text('tenant_id').notNull(),
+  name: text('name').notNull(),
+  seq: integer('seq').notNull(),
+  updatedAt: integer('updated_at').default(sql`(unixepoch())`).notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.tenantId, table.name] }),
+}));
+
+// --- Task Templates Table (recurring tasks spawned by the template scheduler) ---
+export const taskTemplates = sqliteTable('task_templates', {
+  id: text('id').primaryKey(), // UUID
+  tenantId: text('tenant_id').notNull(),
+  workspaceId: text('workspace_id').notNull(),
+  titlePattern: text('title_pattern').notNull(), // May contain {date}, {week}, ... placeholders
+  priority: text('priority', { enum: ['LOW', 'MEDIUM', 'HIGH'] }).notNull(),
+  assigneeId: text('assignee_id'), // Default assignee; spawned unassigned if no longer a member
+  recurrence: text('recurrence').notNull(), // 5-field cron expression, UTC
+  active: integer('active', { mode: 'boolean' }).default(true).notNull(),
+  nextRunAt: integer('next_run_at'), // Null while paused or once the schedule has no more runs
+  lastRunAt: integer('last_run_at'),
+  lastTaskId: text('last_task_id'),
+  createdAt: integer('created_at').default(sql`(unixepoch())`).notNull(),
+  updatedAt: integer('updated_at').default(sql`(unixepoch())`).notNull(),
+}, (table) => ({
+  workspaceIdx: index('idx_templates_workspace').on(table.tenantId, table.workspaceId),
+  dueIdx: index('idx_templates_next_run').on(table.nextRunAt),
+}));
+
+// --- Assignment Policies Table (at most one per workspace) ---
+export const assignmentPolicies = sqliteTable('assignment_policies', {
+  id: text('id').primaryKey(), // UUID
+  tenantId: text('tenant_id').notNull(),
+  workspaceId: text('workspace_id').notNull(),
+  definition: text('definition', { mode: 'json' }).$type<AssignmentPolicy>().notNull(),
+  // Last user picked by each round-robin rule, by rule name
+  rotation: text('rotation', { mode: 'json' }).$type<Record<string, string>>().default(sql`'{}'`).notNull(),
+  version: integer('version').default(1).notNull(),
+  createdAt: integer('created_at').default(sql`(unixepoch())`).notNull(),
+  updatedAt: integer('updated_at').default(sql`(unixepoch())`).notNull(),
+}, (table) => ({
+  tenantWorkspaceIdx: uniqueIndex('idx_assignment_policies_tenant_workspace').on(table.tenantId, table.workspaceId),
+}));
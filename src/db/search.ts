@@ -0,0 +1,14 @@
+// Helpers for the tasks_fts index created in migrations/0001_task_search.sql
+
+/**
+ * Turns free text into a safe FTS5 query: every word becomes a quoted prefix
+ * term and all terms must match. Returns null when there is nothing to search.
+ */
+export function toMatchQuery(text: string): string | null {
+  const terms = text.split(/\s+/)
+    .map(t => t.replace(/"/g, ''))
+    .filter(t => t.length > 0)
+    .map(t => `"${t}"*`);
+
+  return terms.length > 0 ? terms.join(' ') : null;
+}
@@ -0,0 +1,51 @@
+import { Task, TaskPriority, TaskState } from './task';
+import { WorkflowDefinition } from './workflow';
+
+export type AssignmentStrategy = 'round_robin' | 'least_loaded';
+
+export interface AssignmentRule {
+  name: string; // Recorded in the TaskAssigned payload
+  when: { priorities?: TaskPriority[] }; // Empty: matches every task
+  strategy: AssignmentStrategy;
+  pool: string[]; // User IDs, in rotation (and tie-break) order
+}
+
+export interface AssignmentPolicy {
+  autoAssignOnCreate: boolean;
+  rules: AssignmentRule[]; // First match wins
+}
+
+export class AssignmentDomain {
+  static validate(policy: AssignmentPolicy): string[] {
+    const errors: string[] = [];
+
+    const names = new Set<string>();
+    for (const rule of policy.rules) {
+      if (names.has(rule.name)) errors.push(`duplicate rule name '${rule.name}'`);
+      names.add(rule.name);
+      if (new Set(rule.pool).size !== rule.pool.length) errors.push(`rule '${rule.name}' lists a user twice`);
+    }
+
+    return errors;
+  }
+
+  static matches(rule: AssignmentRule, task: Pick<Task, 'priority'>): boolean {
+    return !rule.when.priorities || rule.when.priorities.includes(task.priority);
+  }
+
+  // The pool member after the last one picked; starts over when that one has left the pool
+  static nextInRotation(pool: string[], lastAssigneeId: string | null): string {
+    const index = lastAssigneeId === null ? -1 : pool.indexOf(lastAssigneeId);
+    return pool[(index + 1) % pool.length];
+  }
+
+  // Fewest tasks in progress; ties go to the member listed first
+  static leastLoaded(pool: string[], loads: ReadonlyMap<string, number>): string {
+    return pool.reduce((best, userId) => (loads.get(userId) ?? 0) < (loads.get(best) ?? 0) ? userId : best);
+  }
+
+  // States that count as work in progress: open and past the initial state
+  static loadStates(workflow: WorkflowDefinition): TaskState[] {
+    return workflow.states.filter(s => s !== workflow.initialState && !workflow.terminalStates.includes(s));
+  }
+}
@@ -0,0 +1,99 @@
+import { z } from 'zod';
+
+/**
+ * Base class for errors that are safe to show to the client. `code` is a
+ * stable, machine-readable identifier; `extensions` become extra members of
+ * the problem+json body (see middleware/errors.ts).
+ */
+export class AppError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly extensions: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(code: string, message: string, extensions: Record<string, unknown> = {}) {
+    super(400, code, message, extensions);
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message: string) {
+    super(401, 'unauthorized', message);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string) {
+    super(403, 'forbidden', message);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(code: string, message: string, extensions: Record<string, unknown> = {}) {
+    super(404, code, message, extensions);
+  }
+}
+
+export class TaskNotFoundError extends NotFoundError {
+  constructor() {
+    super('task_not_found', 'Task not found');
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(code: string, message: string, extensions: Record<string, unknown> = {}) {
+    super(409, code, message, extensions);
+  }
+}
+
+// Carries the task's current version and state so the client can refetch or retry
+export class VersionConflictError extends ConflictError {
+  constructor(readonly currentVersion: number, readonly currentState: string) {
+    super('version_conflict', 'Version mismatch', { current_version: currentVersion, current_state: currentState });
+  }
+}
+
+export class BlockedTaskError extends ConflictError {
+  constructor(readonly blockers: string[]) {
+    super('task_blocked', 'Task is blocked by unfinished tasks', { blockers });
+  }
+}
+
+// The caller used up a rate limit; the middleware also sets Retry-After
+export class RateLimitedError extends AppError {
+  constructor(readonly retryAfter: number, group: string) {
+    super(429, 'rate_limited', `Too many ${group} requests`, { retry_after: retryAfter });
+  }
+}
+
+// A hard cap of the tenant was reached; retrying only helps once usage drops
+export class QuotaExceededError extends AppError {
+  constructor(quota: string, limit: number) {
+    super(429, 'quota_exceeded', `Quota ${quota} of ${limit} reached`, { quota, limit });
+  }
+}
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export class ValidationError extends AppError {
+  constructor(readonly issues: ValidationIssue[], message = 'Request validation failed') {
+    super(400, 'validation_failed', message, { errors: issues });
+  }
+
+  static fromZod(error: z.ZodError): ValidationError {
+    return new ValidationError(error.issues.map(issue => ({
+      path: issue.path.map(String).join('.'),
+      message: issue.message,
+    })));
+  }
+}
@@ -0,0 +1,70 @@
+export type CustomFieldType = 'string' | 'number' | 'date' | 'enum' | 'user';
+
+export interface CustomFieldDefinition {
+  key: string; // As in `custom_fields` and the `cf.<key>` list filter
+  type: CustomFieldType;
+  options?: string[]; // enum only
+}
+
+// Per workspace: the labels tasks may carry and the custom fields they may set
+export interface TaskFieldsDefinition {
+  labels: string[];
+  fields: CustomFieldDefinition[];
+}
+
+// Strings for string, date (YYYY-MM-DD), enum and user (member ID) fields
+export type CustomFieldValue = string | number;
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export const EMPTY_TASK_FIELDS: TaskFieldsDefinition = { labels: [], fields: [] };
+
+export class TaskFieldsDomain {
+  static validate(definition: TaskFieldsDefinition): string[] {
+    const errors: string[] = [];
+
+    if (new Set(definition.labels).size !== definition.labels.length) errors.push('labels must be unique');
+
+    const keys = new Set<string>();
+    for (const field of definition.fields) {
+      if (keys.has(field.key)) errors.push(`duplicate field key '${field.key}'`);
+      keys.add(field.key);
+
+      if (field.type === 'enum') {
+        if (!field.options?.length) errors.push(`enum field '${field.key}' needs options`);
+        else if (new Set(field.options).size !== field.options.length) errors.push(`enum field '${field.key}' lists an option twice`);
+      } else if (field.options) {
+        errors.push(`only enum fields take options ('${field.key}' is ${field.type})`);
+      }
+    }
+
+    return errors;
+  }
+
+  // Values a new definition could no longer accept: labels it drops, and per field key the values it drops (null: all of them)
+  static dropped(current: TaskFieldsDefinition, next: TaskFieldsDefinition): { labels: string[], fields: Map<string, string[] | null> } {
+    const labels = current.labels.filter(label => !next.labels.includes(label));
+
+    const fields = new Map<string, string[] | null>();
+    for (const field of current.fields) {
+      const kept = next.fields.find(f => f.key === field.key);
+      if (!kept || kept.type !== field.type) {
+        fields.set(field.key, null);
+      } else if (field.type === 'enum') {
+        const options = field.options!.filter(option => !kept.options!.includes(option));
+        if (options.length) fields.set(field.key, options);
+      }
+    }
+
+    return { labels, fields };
+  }
+
+  // PATCH semantics for custom fields: given keys replace, null removes
+  static mergeValues(current: CustomFieldValues, changes: Record<string, CustomFieldValue | null>): CustomFieldValues {
+    const merged: CustomFieldValues = { ...current };
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) delete merged[key];
+      else merged[key] = value;
+    }
+    return merged;
+  }
+}
@@ -0,0 +1,167 @@
+import { Task } from './task';
+
+// The task fields an event snapshot records (everything a client can see)
+const SNAPSHOT_FIELDS = [
+  'id', 'tenantId', 'workspaceId', 'title', 'priority', 'state', 'assigneeId',
+  'version', 'createdAt', 'updatedAt', 'deletedAt', 'dueAt', 'labels', 'customFields',
+] as const satisfies readonly (keyof Task)[];
+
+// Fields that events written before they existed do not carry
+const SNAPSHOT_DEFAULTS: Partial<Record<keyof Task, unknown>> = { labels: [], customFields: {} };
+
+const TIMESTAMP_FIELDS: readonly string[] = ['createdAt', 'updatedAt'];
+
+// How events written before snapshots existed changed the task
+const LEGACY_DELTAS: Record<string, (payload: any, createdAt: number) => Partial<Task>> = {
+  TaskAssigned: (payload) => ({ assigneeId: payload.assigneeId }),
+  TaskStateChanged: (payload) => ({ state: payload.to }),
+  TaskUpdated: (payload) => Object.fromEntries(Object.entries(payload.changes ?? {}).map(([field, change]: [string, any]) => [field, change.after])),
+  TaskDeleted: (payload, createdAt) => ({ deletedAt: payload.changes?.deletedAt?.after ?? createdAt }),
+};
+
+/**
+ * Payload fields shared by every event that changes a task row. `after` is
+ * the complete task as written, so any version can be rebuilt from the log.
+ * Events written before snapshots existed only carry their own deltas.
+ */
+export interface TaskChange {
+  actorId: string | null; // null for the system (e.g. the template scheduler)
+  version: number; // Resulting version, same as after.version
+  before: Task | null; // null on TaskCreated
+  after: Task;
+}
+
+/**
+ * Payload fields shared by the other events (comments, handoff requests,
+ * unblocking, deadlines): the task as it stood when the event was written.
+ * Replay skips them, since the version does not move.
+ */
+export interface TaskNote {
+  actorId: string | null; // null for the system (e.g. the deadline scanner)
+  snapshot: Task;
+}
+
+export interface HistoryEvent {
+  eventType: string;
+  payload: unknown;
+  createdAt: number;
+}
+
+export interface ReplayedTask {
+  task: Task;
+  commentCount: number;
+  // False while the state comes from pre-snapshot events, whose timestamps are only approximate
+  exact: boolean;
+}
+
+// Either a version or a point in time (Unix seconds), both inclusive
+export type AsOf = { version: number } | { at: number };
+
+export class TaskHistory {
+  static snapshot(row: Task): Task {
+    const snapshot = {} as Record<string, unknown>;
+    for (const field of SNAPSHOT_FIELDS) snapshot[field] = row[field] ?? SNAPSHOT_DEFAULTS[field] ?? null;
+    return snapshot as unknown as Task;
+  }
+
+  // `extra` keeps the event-specific fields consumers already rely on (assigneeId, from/to, changes)
+  static change(before: Task | null, after: Task, actorId: string | null, extra: object = {}): TaskChange {
+    return { ...extra, actorId, version: after.version, before: before && TaskHistory.snapshot(before), after: TaskHistory.snapshot(after) };
+  }
+
+  static isChange(payload: unknown): payload is TaskChange {
+    return typeof payload === 'object' && payload !== null && 'after' in payload && typeof (payload as TaskChange).after === 'object';
+  }
+
+  static note(task: Task, actorId: string | null, extra: object = {}): TaskNote {
+    return { ...extra, actorId, snapshot: TaskHistory.snapshot(task) };
+  }
+
+  static isNote(payload: unknown): payload is TaskNote {
+    return typeof payload === 'object' && payload !== null && 'snapshot' in payload && typeof (payload as TaskNote).snapshot === 'object';
+  }
+
+  // The task after `event`; events that do not touch the task row leave it as is
+  static apply(current: ReplayedTask | null, event: HistoryEvent): ReplayedTask | null {
+    const { eventType, createdAt } = event;
+    const payload = event.payload as any;
+
+    if (TaskHistory.isChange(payload)) {
+      return { task: TaskHistory.snapshot(payload.after), commentCount: current?.commentCount ?? 0, exact: true };
+    }
+
+    if (eventType === 'TaskCreated') {
+      const task = TaskHistory.snapshot({ ...payload, version: 1, createdAt, updatedAt: createdAt, deletedAt: null });
+      return { task, commentCount: 0, exact: false };
+    }
+    if (!current) return null;
+
+    if (eventType === 'CommentAdded') return { ...current, commentCount: current.commentCount + 1 };
+    if (eventType === 'CommentDeleted') return { ...current, commentCount: current.commentCount - 1 };
+
+    if (!Object.hasOwn(LEGACY_DELTAS, eventType)) return current;
+
+    const delta = LEGACY_DELTAS[eventType](payload, createdAt);
+    const task = { ...current.task, ...delta, version: current.task.version + 1, updatedAt: createdAt };
+    return { task, commentCount: current.commentCount, exact: false };
+  }
+
+  // The events (in log order) up to and including `asOf`
+  static until<E extends HistoryEvent>(events: E[], asOf: AsOf): E[] {
+    let state: ReplayedTask | null = null;
+    let count = 0;
+    for (const event of events) {
+      if ('at' in asOf && event.createdAt > asOf.at) break;
+      state = TaskHistory.apply(state, event);
+      if ('version' in asOf && state && state.task.version > asOf.version) break;
+      count++;
+    }
+    return events.slice(0, count);
+  }
+
+  // Replays events (in log order), optionally up to `asOf`; null if the task did not exist yet
+  static replay(events: HistoryEvent[], asOf?: AsOf): ReplayedTask | null {
+    return (asOf ? TaskHistory.until(events, asOf) : events)
+      .reduce<ReplayedTask | null>((state, event) => TaskHistory.apply(state, event), null);
+  }
+
+  /**
+   * Consistency check: every change must continue from the previous state
+   * with the next version, and the replayed task must equal the stored row.
+   * Returns one message per problem; empty when the history is sound.
+   */
+  static verify(events: HistoryEvent[], row: Task & { commentCount: number }): string[] {
+    const problems: string[] = [];
+    let state: ReplayedTask | null = null;
+
+    for (const event of events) {
+      const payload = event.payload;
+      if (TaskHistory.isChange(payload)) {
+        const expectedVersion = (state?.task.version ?? 0) + 1;
+        if (payload.after.version !== expectedVersion) {
+          problems.push(`${event.eventType} wrote version ${payload.after.version}, expected ${expectedVersion}`);
+        }
+        const drift = TaskHistory.differences(payload.before, state?.task ?? null, !(state?.exact ?? true));
+        if (drift.length) problems.push(`${event.eventType} v${payload.after.version} does not continue from the previous state (${drift.join(', ')})`);
+      }
+      state = TaskHistory.apply(state, event);
+    }
+
+    if (!state) return [...problems, 'No TaskCreated event'];
+
+    const drift = TaskHistory.differences(state.task, TaskHistory.snapshot(row), !state.exact);
+    if (drift.length) problems.push(`Replayed task differs from the stored row (${drift.join(', ')})`);
+    if (state.commentCount !== row.commentCount) {
+      problems.push(`Replayed comment count ${state.commentCount} differs from the stored ${row.commentCount}`);
+    }
+    return problems;
+  }
+
+  private static differences(a: Task | null, b: Task | null, ignoreTimestamps: boolean): string[] {
+    if (!a || !b) return a === b ? [] : ['missing state'];
+    return SNAPSHOT_FIELDS
+      .filter(field => !(ignoreTimestamps && TIMESTAMP_FIELDS.includes(field)))
+      .filter(field => JSON.stringify(a[field] ?? null) !== JSON.stringify(b[field] ?? null))
+      .map(field => `${field}: ${JSON.stringify(a[field] ?? null)} != ${JSON.stringify(b[field] ?? null)}`);
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Five-field cron expressions (`minute hour day-of-month month day-of-week`),
+ * evaluated in UTC. Fields accept `*`, numbers, ranges `a-b`, steps (`a-b/n`,
+ * or `*` followed by `/n`), lists `a,b` and JAN-DEC / SUN-SAT names. Like
+ * cron, when both day-of-month and day-of-week are restricted a day matching
+ * either runs; a field starting with `*` (so `*` followed by `/n` too) is not
+ * restricted and must match as well.
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>; // 0 = Sunday
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 1', // Mondays, like ISO weeks
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  { name: 'day-of-week', min: 0, max: 7, names: DAY_NAMES }, // 7 is Sunday too
+];
+
+// Long enough for a Feb 29 that must also be a given weekday
+const MAX_LOOKAHEAD_SECONDS = 28 * 366 * 24 * 60 * 60;
+
+// Title placeholders, rendered from the occurrence time (UTC)
+const PLACEHOLDERS: Record<string, (d: Date) => string> = {
+  date: d => d.toISOString().slice(0, 10),
+  time: d => d.toISOString().slice(11, 16),
+  year: d => String(d.getUTCFullYear()),
+  month: d => String(d.getUTCMonth() + 1).padStart(2, '0'),
+  day: d => String(d.getUTCDate()).padStart(2, '0'),
+  week: d => String(isoWeek(d)).padStart(2, '0'),
+};
+
+function isoWeek(d: Date): number {
+  // The ISO week is the week of the nearest Thursday
+  const thursday = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  return Math.ceil(((thursday.getTime() - yearStart) / 86_400_000 + 1) / 7);
+}
+
+function parseField(raw: string, field: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+  const value = (token: string) => {
+    const named = field.names?.indexOf(token.toUpperCase()) ?? -1;
+    const n = named >= 0 ? named + field.min : /^\d+$/.test(token) ? Number(token) : NaN;
+    if (!(n >= field.min && n <= field.max)) throw new Error(`Invalid ${field.name} value '${token}'`);
+    return n;
+  };
+
+  for (const part of raw.split(',')) {
+    const [range, stepRaw] = part.split('/');
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid ${field.name} step '${part}'`);
+
+    let [from, to] = [field.min, field.max];
+    if (range !== '*') {
+      const [start, end] = range.split('-');
+      from = value(start);
+      to = end === undefined ? (stepRaw === undefined ? from : field.max) : value(end);
+      if (from > to) throw new Error(`Invalid ${field.name} range '${range}'`);
+    }
+    for (let n = from; n <= to; n += step) values.add(n);
+  }
+
+  return values;
+}
+
+export class RecurrenceDomain {
+  // Throws an Error whose message is safe to return to the client
+  static parse(expression: string): CronSchedule {
+    const fields = (ALIASES[expression.trim().toLowerCase()] ?? expression).trim().split(/\s+/);
+    if (fields.length !== 5) throw new Error('Recurrence must be a 5-field cron expression or an alias like @weekly');
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((raw, i) => parseField(raw, FIELDS[i]));
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+    return {
+      minutes, hours, daysOfMonth, months, daysOfWeek,
+      dayOfMonthRestricted: !fields[2].startsWith('*'),
+      dayOfWeekRestricted: !fields[4].startsWith('*'),
+    };
+  }
+
+  // The first run strictly after `after` (Unix seconds), or null if it never runs again
+  static next(schedule: CronSchedule, after: number): number | null {
+    const d = new Date((Math.floor(after / 60) + 1) * 60_000);
+    const limit = (after + MAX_LOOKAHEAD_SECONDS) * 1000;
+
+    while (d.getTime() <= limit) {
+      if (!schedule.months.has(d.getUTCMonth() + 1)) {
+        d.setUTCMonth(d.getUTCMonth() + 1, 1);
+        d.setUTCHours(0, 0, 0, 0);
+      } else if (!RecurrenceDomain.dayMatches(schedule, d)) {
+        d.setUTCDate(d.getUTCDate() + 1);
+        d.setUTCHours(0, 0, 0, 0);
+      } else if (!schedule.hours.has(d.getUTCHours())) {
+        d.setUTCHours(d.getUTCHours() + 1, 0, 0, 0);
+      } else if (!schedule.minutes.has(d.getUTCMinutes())) {
+        d.setUTCMinutes(d.getUTCMinutes() + 1, 0, 0);
+      } else {
+        return d.getTime() / 1000;
+      }
+    }
+
+    return null;
+  }
+
+  static upcoming(schedule: CronSchedule, after: number, count: number): number[] {
+    const runs: number[] = [];
+    for (let at = RecurrenceDomain.next(schedule, after); at !== null && runs.length < count; at = RecurrenceDomain.next(schedule, at)) {
+      runs.push(at);
+    }
+    return runs;
+  }
+
+  // The latest run at or before `now`, starting from a run that is already due
+  static latestDue(schedule: CronSchedule, due: number, now: number): number {
+    let latest = due;
+    for (let at = RecurrenceDomain.next(schedule, due); at !== null && at <= now; at = RecurrenceDomain.next(schedule, at)) {
+      latest = at;
+    }
+    return latest;
+  }
+
+  // One message per unknown placeholder; empty when the pattern is valid
+  static validateTitlePattern(pattern: string): string[] {
+    return [...pattern.matchAll(/\{(\w+)\}/g)]
+      .filter(m => !Object.hasOwn(PLACEHOLDERS, m[1]))
+      .map(m => `Unknown placeholder '{${m[1]}}'; use ${Object.keys(PLACEHOLDERS).map(p => `{${p}}`).join(', ')}`);
+  }
+
+  static renderTitle(pattern: string, at: number): string {
+    const d = new Date(at * 1000);
+    return pattern.replace(/\{(\w+)\}/g, (match, name: string) => Object.hasOwn(PLACEHOLDERS, name) ? PLACEHOLDERS[name](d) : match);
+  }
+
+  private static dayMatches(schedule: CronSchedule, d: Date): boolean {
+    const dom = schedule.daysOfMonth.has(d.getUTCDate());
+    const dow = schedule.daysOfWeek.has(d.getUTCDay());
+    if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return dom || dow;
+    return dom && dow;
+  }
+}
@@ -1,5 +1,8 @@
+import { DEFAULT_WORKFLOW, WorkflowDefinition, WorkflowDomain } from './workflow';
+import { CustomFieldValues } from './fields';
 
-export type TaskState = 'NEW' | 'IN_PROGRESS' | 'DONE' | 'CANCELLED';
+// States are defined per workspace workflow; see DEFAULT_WORKFLOW for the built-in set
+export type TaskState = string;
 export type TaskPriority = 'LOW' | 'MEDIUM' | 'HIGH';
 export type UserRole = 'agent' | 'manager';
 
@@ -14,55 +17,101 @@ export interface Task {
   version: number;
   createdAt: number;
   updatedAt: number;
+  deletedAt: number | null;
+  dueAt: number | null;
+  labels: string[];
+  customFields: CustomFieldValues;
 }
 
+// Fields a client may change after creation via PATCH
+export type TaskEditableFields = Pick<Task, 'title' | 'priority' | 'dueAt' | 'labels' | 'customFields'>;
+
+export type FieldChanges = Record<string, { before: unknown, after: unknown }>;
+
 export class TaskDomain {
   static validateTransition(
     currentState: TaskState,
     toState: TaskState,
     role: UserRole,
     assigneeId: string | null,
-    currentUserId: string // The ID of the user performing the action
+    currentUserId: string | null, // The ID of the user performing the action
+    workflow: WorkflowDefinition = DEFAULT_WORKFLOW
   ): boolean {
 
-    // 1. Common State Machine Rules
-    const allowed: Record<TaskState, TaskState[]> = {
-      NEW: ['IN_PROGRESS', 'CANCELLED'],
-      IN_PROGRESS: ['DONE', 'CANCELLED'],
-      DONE: [],
-      CANCELLED: []
-    };
-
-    if (!allowed[currentState].includes(toState)) {
+    // 1. Workflow State Machine Rules
+    const transition = WorkflowDomain.findTransition(workflow, currentState, toState);
+    if (!transition) {
       return false;
     }
 
     // 2. Role-based Rules
-    if (role === 'manager') {
-       // Manager can only Cancel (from NEW or IN_PROGRESS)
-       return toState === 'CANCELLED';
+    if (!transition.roles.includes(role)) {
+      return false;
     }
 
     if (role === 'agent') {
       // Agent must be the assignee
-      if (assigneeId !== currentUserId) {
-        return false;
-      }
+      return assigneeId !== null && assigneeId === currentUserId;
+    }
 
-      // agent can: move NEW -> IN_PROGRESS
-      if (currentState === 'NEW' && toState === 'IN_PROGRESS') return true;
+    return role === 'manager';
+  }
 
-      // agent can: move IN_PROGRESS -> DONE
-      if (currentState === 'IN_PROGRESS' && toState === 'DONE') return true;
+  /**
+   * Whether moving into `toState` means work on the task has started or
+   * finished, which unfinished blockers forbid. Going back to the initial
+   * state or into one of the workflow's cancel states is allowed.
+   */
+  static requiresUnblocked(toState: TaskState, workflow: WorkflowDefinition = DEFAULT_WORKFLOW): boolean {
+    return toState !== workflow.initialState && !WorkflowDomain.isCancel(workflow, toState);
+  }
 
-      return false;
-    }
+  static canAssign(state: TaskState, role: UserRole, workflow: WorkflowDefinition = DEFAULT_WORKFLOW): boolean {
+    if (role !== 'manager') return false;
+    return !WorkflowDomain.isTerminal(workflow, state);
+  }
 
-    return false;
+  static canUnassign(role: UserRole): boolean {
+    return role === 'manager';
   }
 
-  static canAssign(state: TaskState, role: UserRole): boolean {
-    if (role !== 'manager') return false;
-    return state === 'NEW' || state === 'IN_PROGRESS';
+  // Releasing a task or asking to hand it off: only the agent holding it
+  static canHandBack(role: UserRole, assigneeId: string | null, currentUserId: string | null): boolean {
+    return role === 'agent' && assigneeId !== null && assigneeId === currentUserId;
+  }
+
+  // Accepting or declining a handoff is a manager's call
+  static canDecideHandoff(role: UserRole): boolean {
+    return role === 'manager';
+  }
+
+  // Terminal tasks go back to the initial state on a manager's word only
+  static canReopen(role: UserRole): boolean {
+    return role === 'manager';
+  }
+
+  // Manager, or the agent currently assigned to the task
+  static canUpdate(role: UserRole, assigneeId: string | null, currentUserId: string | null): boolean {
+    if (role === 'manager') return true;
+    return assigneeId !== null && assigneeId === currentUserId;
+  }
+
+  static canDelete(role: UserRole): boolean {
+    return role === 'manager';
+  }
+
+  // Field-level before/after for every key in `changes` that differs from `current` (labels and custom fields by value)
+  static diff<T extends object>(current: T, changes: Partial<T>): FieldChanges {
+    const result: FieldChanges = {};
+    for (const key of Object.keys(changes) as (keyof T)[]) {
+      if (changes[key] === undefined || JSON.stringify(changes[key]) === JSON.stringify(current[key])) continue;
+      result[key as string] = { before: current[key], after: changes[key] };
+    }
+    return result;
+  }
+
+  // The `after` side of a diff, as a partial task
+  static applyDiff<T extends object>(diff: FieldChanges): Partial<T> {
+    return Object.fromEntries(Object.entries(diff).map(([key, change]) => [key, change.after])) as Partial<T>;
   }
 }
@@ -0,0 +1,78 @@
+import { UserRole } from './task';
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  roles: UserRole[];
+}
+
+export interface WorkflowDefinition {
+  states: string[];
+  initialState: string;
+  terminalStates: string[];
+  cancelStates?: string[]; // Terminal states that abandon the work rather than finish it
+  transitions: WorkflowTransition[];
+}
+
+// Used by every workspace that has not stored its own workflow
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  states: ['NEW', 'IN_PROGRESS', 'DONE', 'CANCELLED'],
+  initialState: 'NEW',
+  terminalStates: ['DONE', 'CANCELLED'],
+  cancelStates: ['CANCELLED'],
+  transitions: [
+    { from: 'NEW', to: 'IN_PROGRESS', roles: ['agent'] },
+    { from: 'IN_PROGRESS', to: 'DONE', roles: ['agent'] },
+    { from: 'NEW', to: 'CANCELLED', roles: ['manager'] },
+    { from: 'IN_PROGRESS', to: 'CANCELLED', roles: ['manager'] },
+  ],
+};
+
+export class WorkflowDomain {
+  /**
+   * Returns the structural problems with a definition, or an empty array if
+   * it is usable.
+   */
+  static validate(def: WorkflowDefinition): string[] {
+    const errors: string[] = [];
+    const states = new Set(def.states);
+
+    if (states.size !== def.states.length) errors.push('states must be unique');
+    if (!states.has(def.initialState)) errors.push(`initial_state '${def.initialState}' is not a declared state`);
+    if (def.terminalStates.includes(def.initialState)) errors.push('initial_state cannot be terminal');
+
+    for (const s of def.terminalStates) {
+      if (!states.has(s)) errors.push(`terminal state '${s}' is not a declared state`);
+    }
+
+    for (const s of def.cancelStates ?? []) {
+      if (!def.terminalStates.includes(s)) errors.push(`cancel state '${s}' is not a terminal state`);
+    }
+
+    const seen = new Set<string>();
+    for (const t of def.transitions) {
+      if (!states.has(t.from)) errors.push(`transition from unknown state '${t.from}'`);
+      if (!states.has(t.to)) errors.push(`transition to unknown state '${t.to}'`);
+      if (t.from === t.to) errors.push(`transition '${t.from}' -> '${t.to}' is a self-loop`);
+      if (def.terminalStates.includes(t.from)) errors.push(`terminal state '${t.from}' cannot have outgoing transitions`);
+
+      const key = `${t.from}->${t.to}`;
+      if (seen.has(key)) errors.push(`duplicate transition '${t.from}' -> '${t.to}'`);
+      seen.add(key);
+    }
+
+    return errors;
+  }
+
+  static findTransition(def: WorkflowDefinition, from: string, to: string): WorkflowTransition | undefined {
+    return def.transitions.find(t => t.from === from && t.to === to);
+  }
+
+  static isTerminal(def: WorkflowDefinition, state: string): boolean {
+    return def.terminalStates.includes(state);
+  }
+
+  static isCancel(def: WorkflowDefinition, state: string): boolean {
+    return def.cancelStates?.includes(state) ?? false;
+  }
+}
@@ -0,0 +1,17 @@
+import { EventEmitter } from 'events';
+import { db, Tx } from '../db';
+
+/**
+ * In-process signal that rows were committed to `task_events`. Listeners
+ * re-read the outbox from their own position, so a coalesced or missed
+ * signal only delays delivery; it never loses events.
+ */
+export const outboxNotifier = new EventEmitter();
+outboxNotifier.setMaxListeners(0); // One listener per open stream
+
+// db.transaction for writers that insert outbox events; signals after commit
+export function outboxTransaction<T>(fn: (tx: Tx) => T): T {
+  const result = db.transaction(fn);
+  outboxNotifier.emit('committed');
+  return result;
+}
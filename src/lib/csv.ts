@@ -0,0 +1,61 @@
+/**
+ * Minimal RFC 4180 support: comma-separated, double-quoted fields with `""`
+ * escapes, CRLF or LF line endings.
+ */
+
+// Quotes a field only when it contains a delimiter, quote or line break
+function escapeField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' ? value : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvRow(values: unknown[]): string {
+  return values.map(escapeField).join(',') + '\r\n';
+}
+
+// Returns every record as an array of fields; blank lines are skipped
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = 0;
+
+  // Ignore a UTF-8 byte order mark left by spreadsheet exports
+  if (text.charCodeAt(0) === 0xfeff) i = 1;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0] !== '') records.push(record);
+    record = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === '') quoted = true;
+    else if (ch === ',') { record.push(field); field = ''; }
+    else if (ch === '\n') endRecord();
+    else if (ch === '\r') { if (text[i + 1] !== '\n') endRecord(); }
+    else field += ch;
+  }
+
+  if (quoted) throw new Error('Unterminated quoted field');
+  if (field !== '' || record.length > 0) endRecord();
+
+  return records;
+}
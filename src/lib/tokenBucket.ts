@@ -0,0 +1,66 @@
+export interface TokenBucketRule {
+  capacity: number; // Burst size, and the most tokens a bucket holds
+  refillPerSecond: number;
+}
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number; // Unix milliseconds
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  remaining: number; // Whole tokens left after this request
+  resetSeconds: number; // Until the bucket is full again
+  retryAfterSeconds: number; // Until the request could succeed; 0 when allowed
+}
+
+// Refills the bucket for the time passed, then takes `cost` tokens if it has them
+export function takeTokens(state: BucketState | undefined, rule: TokenBucketRule, now: number, cost = 1): { state: BucketState, result: TakeResult } {
+  const elapsed = state ? Math.max(0, now - state.updatedAt) / 1000 : 0;
+  const available = state ? Math.min(rule.capacity, state.tokens + elapsed * rule.refillPerSecond) : rule.capacity;
+  const allowed = available >= cost;
+  const tokens = allowed ? available - cost : available;
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.ceil((rule.capacity - tokens) / rule.refillPerSecond),
+      retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((cost - tokens) / rule.refillPerSecond)),
+    },
+  };
+}
+
+/**
+ * Where buckets live. The in-memory store only limits a single process; a
+ * shared store (e.g. Redis) has to apply takeTokens atomically per key.
+ */
+export interface RateLimitStore {
+  take(key: string, rule: TokenBucketRule, now: number, cost?: number): Promise<TakeResult>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, BucketState & { rule: TokenBucketRule }>();
+
+  // Past this many keys, buckets that have refilled completely are dropped
+  constructor(private readonly maxKeys = 10_000) {}
+
+  async take(key: string, rule: TokenBucketRule, now: number, cost = 1) {
+    if (this.buckets.size >= this.maxKeys && !this.buckets.has(key)) this.sweep(now);
+
+    const { state, result } = takeTokens(this.buckets.get(key), rule, now, cost);
+    this.buckets.set(key, { ...state, rule });
+    return result;
+  }
+
+  // A full bucket is the same as no bucket
+  private sweep(now: number) {
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) / 1000 * bucket.rule.refillPerSecond >= bucket.rule.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHmac, createPublicKey, timingSafeEqual, verify, KeyObject } from 'crypto';
+import { readFileSync } from 'fs';
+import { UserRole } from '../domain/task';
+import { UnauthorizedError } from '../domain/errors';
+
+export interface AuthContext {
+  tenantId: string;
+  userId: string | null;
+  role: UserRole;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth: AuthContext;
+    }
+  }
+}
+
+export interface AuthConfig {
+  mode: 'jwt' | 'headers';
+  hmacSecret?: string;       // HS256
+  publicKey?: KeyObject;     // RS256
+  issuer?: string;
+  audience?: string;
+  clockSkewSeconds: number;
+}
+
+export function loadAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig {
+  const mode = env.AUTH_MODE ?? 'jwt';
+  if (mode !== 'jwt' && mode !== 'headers') throw new Error(`Unknown AUTH_MODE '${mode}'`);
+
+  const keyPath = env.AUTH_JWT_PUBLIC_KEY_FILE;
+  const config: AuthConfig = {
+    mode,
+    hmacSecret: env.AUTH_JWT_SECRET || undefined,
+    publicKey: keyPath ? createPublicKey(readFileSync(keyPath)) : undefined,
+    issuer: env.AUTH_JWT_ISSUER || undefined,
+    audience: env.AUTH_JWT_AUDIENCE || undefined,
+    clockSkewSeconds: 30,
+  };
+
+  if (mode === 'jwt' && !config.hmacSecret && !config.publicKey) {
+    throw new Error('AUTH_JWT_SECRET or AUTH_JWT_PUBLIC_KEY_FILE is required when AUTH_MODE=jwt');
+  }
+
+  return config;
+}
+
+const ROLES: UserRole[] = ['agent', 'manager'];
+
+function decodeSegment(segment: string): any {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+/**
+ * Verifies a compact JWS (HS256 or RS256) and returns the auth context it
+ * carries. Throws an Error whose message is safe to return to the client.
+ */
+export function verifyToken(token: string, config: AuthConfig, now = Math.floor(Date.now() / 1000)): AuthContext {
+  const parts = token.split('.');
+  if (parts.length !== 3) throw new Error('Malformed token');
+
+  const [headerSeg, payloadSeg, signatureSeg] = parts;
+  let header: any, claims: any;
+  try {
+    header = decodeSegment(headerSeg);
+    claims = decodeSegment(payloadSeg);
+  } catch {
+    throw new Error('Malformed token');
+  }
+
+  const signingInput = `${headerSeg}.${payloadSeg}`;
+  const signature = Buffer.from(signatureSeg, 'base64url');
+
+  // The algorithm must match a configured key; never trust 'none' or a downgrade
+  if (header.alg === 'HS256' && config.hmacSecret) {
+    const expected = createHmac('sha256', config.hmacSecret).update(signingInput).digest();
+    if (expected.length !== signature.length || !timingSafeEqual(expected, signature)) {
+      throw new Error('Invalid token signature');
+    }
+  } else if (header.alg === 'RS256' && config.publicKey) {
+    if (!verify('RSA-SHA256', Buffer.from(signingInput), config.publicKey, signature)) {
+      throw new Error('Invalid token signature');
+    }
+  } else {
+    throw new Error('Unsupported token algorithm');
+  }
+
+  // A token without exp would never expire
+  if (typeof claims.exp !== 'number') throw new Error('Token missing exp claim');
+  if (now > claims.exp + config.clockSkewSeconds) throw new Error('Token expired');
+  if (typeof claims.nbf === 'number' && now < claims.nbf - config.clockSkewSeconds) throw new Error('Token not yet valid');
+  if (config.issuer && claims.iss !== config.issuer) throw new Error('Invalid token issuer');
+  if (config.audience) {
+    const aud = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!aud.includes(config.audience)) throw new Error('Invalid token audience');
+  }
+
+  if (typeof claims.sub !== 'string' || !claims.sub) throw new Error('Token missing sub claim');
+  if (typeof claims.tenant_id !== 'string' || !claims.tenant_id) throw new Error('Token missing tenant_id claim');
+
+  const roles: unknown[] = Array.isArray(claims.roles) ? claims.roles : [claims.role];
+  const granted = ROLES.filter(r => roles.includes(r));
+  if (granted.length === 0) throw new Error('Token grants no known role');
+
+  return {
+    tenantId: claims.tenant_id,
+    userId: claims.sub,
+    // Manager is the broader role when a token carries both
+    role: granted.includes('manager') ? 'manager' : 'agent',
+  };
+}
+
+// Dev mode: trust X-Tenant-Id / X-Role / X-User-Id as sent by the client
+function fromHeaders(req: Request): AuthContext {
+  const tenantId = req.headers['x-tenant-id'] as string;
+  const role = (req.headers['x-role'] as string | undefined) ?? 'agent';
+
+  if (!tenantId) throw new Error('X-Tenant-Id header required');
+  if (!ROLES.includes(role as UserRole)) throw new Error(`Unknown role '${role}'`);
+
+  return {
+    tenantId,
+    userId: (req.headers['x-user-id'] as string) || null,
+    role: role as UserRole,
+  };
+}
+
+export function authenticate(config: AuthConfig) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (config.mode === 'headers') {
+        req.auth = fromHeaders(req);
+        return next();
+      }
+
+      const header = req.headers.authorization;
+      if (!header || !header.startsWith('Bearer ')) throw new Error('Bearer token required');
+
+      req.auth = verifyToken(header.slice('Bearer '.length).trim(), config);
+      next();
+    } catch (e: any) {
+      res.set('WWW-Authenticate', 'Bearer');
+      next(new UnauthorizedError(e.message));
+    }
+  };
+}
@@ -0,0 +1,61 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { STATUS_CODES } from 'http';
+import { z } from 'zod';
+import { AppError, BadRequestError, NotFoundError, ValidationError } from '../domain/errors';
+
+// Maps anything a handler throws to an AppError; unknown errors become an opaque 500
+function toAppError(err: any): AppError {
+  if (err instanceof AppError) return err;
+  if (err instanceof z.ZodError) return ValidationError.fromZod(err);
+
+  // Raised by the express.json / express.text body parsers
+  if (err?.type === 'entity.parse.failed') return new BadRequestError('malformed_body', 'Request body could not be parsed');
+  if (err?.type === 'entity.too.large') return new AppError(413, 'payload_too_large', 'Request body is too large');
+
+  return new AppError(500, 'internal_error', 'Internal server error');
+}
+
+/**
+ * Forwards a rejected handler promise (or a synchronous throw) to next(), so
+ * controllers can simply throw an AppError.
+ */
+export function asyncHandler(handler: (req: Request, res: Response, next: NextFunction) => unknown): RequestHandler {
+  return (req, res, next) => {
+    try {
+      Promise.resolve(handler(req, res, next)).catch(next);
+    } catch (e) {
+      next(e);
+    }
+  };
+}
+
+// Catch-all for unmatched routes; registered after every router
+export function routeNotFound(req: Request, res: Response, next: NextFunction) {
+  console.log(`!!! 404 NOT FOUND: ${req.method} ${req.url}`);
+  next(new NotFoundError('route_not_found', 'Route not found', {
+    method: req.method,
+    suggestion: 'Ensure you are using the /v1 prefix',
+  }));
+}
+
+/**
+ * Renders every error as RFC 7807 `application/problem+json`. `code` is the
+ * stable identifier clients should branch on; `detail` is for humans.
+ */
+export function errorHandler(err: any, req: Request, res: Response, next: NextFunction) {
+  // Streaming responses (SSE, exports) can only be cut off at this point
+  if (res.headersSent) return next(err);
+
+  const error = toAppError(err);
+  if (error.status >= 500) console.error(`!!! ${req.method} ${req.url} failed:`, err);
+
+  res.status(error.status).type('application/problem+json').json({
+    type: `/problems/${error.code}`,
+    title: STATUS_CODES[error.status] ?? 'Error',
+    status: error.status,
+    detail: error.message,
+    instance: req.originalUrl,
+    code: error.code,
+    ...error.extensions,
+  });
+}
@@ -0,0 +1,106 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { IdempotencyRepository, IdempotencyKeyRef } from '../repositories/idempotencyRepository';
+import { AppError, BadRequestError, ConflictError } from '../domain/errors';
+
+export const DEFAULT_IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+const MAX_KEY_LENGTH = 255;
+
+export interface IdempotencyOptions {
+  ttlSeconds?: number;
+  // An unfinished claim older than this is treated as abandoned
+  lockTimeoutSeconds?: number;
+  clock?: () => number; // Unix seconds
+}
+
+const repo = new IdempotencyRepository();
+
+// JSON with sorted object keys, so field order does not change the hash
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value).sort()
+      .filter(k => (value as Record<string, unknown>)[k] !== undefined)
+      .map(k => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// The body and the expected version together identify what the client asked for
+export function requestFingerprint(req: Request): string {
+  const payload = canonicalJson({ body: req.body ?? null, if_match_version: req.headers['if-match-version'] ?? null });
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+/**
+ * Honours `Idempotency-Key` on every mutating request. Keys are scoped by
+ * tenant, method and path. The first response (status and body) is stored
+ * and replayed for retries; reusing a key with a different request is a 422.
+ * 5xx responses are not stored, so the client can retry with the same key.
+ */
+export function idempotency(options: IdempotencyOptions = {}) {
+  const ttlSeconds = options.ttlSeconds ?? DEFAULT_IDEMPOTENCY_TTL_SECONDS;
+  const lockTimeoutSeconds = options.lockTimeoutSeconds ?? 60;
+  const clock = options.clock ?? (() => Math.floor(Date.now() / 1000));
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.headers['idempotency-key'];
+    if (key === undefined || req.method === 'GET' || req.method === 'HEAD') return next();
+
+    try {
+      if (typeof key !== 'string' || !key || key.length > MAX_KEY_LENGTH) {
+        throw new BadRequestError('invalid_idempotency_key', `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters`);
+      }
+
+      const ref: IdempotencyKeyRef = { tenantId: req.auth.tenantId, scope: `${req.method} ${req.baseUrl}${req.path}`, key };
+      const requestHash = requestFingerprint(req);
+      const now = clock();
+
+      const existing = await repo.reserve(ref, requestHash, now, now + ttlSeconds, now - lockTimeoutSeconds);
+      if (existing) {
+        if (existing.requestHash !== requestHash) {
+          throw new AppError(422, 'idempotency_key_reused', 'Idempotency-Key was already used with a different request');
+        }
+        if (existing.statusCode === null) {
+          throw new ConflictError('idempotency_key_in_progress', 'A request with this Idempotency-Key is still in progress');
+        }
+
+        res.set('Idempotent-Replayed', 'true').status(existing.statusCode);
+        return existing.responsePayload === null ? res.send() : res.json(existing.responsePayload);
+      }
+
+      // Record the response just before it is written. res.json ends in
+      // res.send, which also covers bodiless replies such as 204.
+      let payload: unknown = null;
+      let settled = false;
+
+      const json = res.json.bind(res);
+      res.json = (body: unknown) => {
+        payload = body;
+        return json(body);
+      };
+
+      const send = res.send.bind(res);
+      res.send = (body?: unknown) => {
+        if (!settled) {
+          settled = true;
+          const stored = res.statusCode < 500 ? repo.complete(ref, res.statusCode, payload ?? null) : repo.release(ref);
+          stored.catch((e) => console.error('!!! Failed to record idempotent response:', e));
+        }
+        return send(body);
+      };
+
+      // Errors that never reached res.send (or aborted requests) free the key
+      res.on('close', () => {
+        if (settled) return;
+        settled = true;
+        repo.release(ref).catch((e) => console.error('!!! Failed to release idempotency key:', e));
+      });
+
+      next();
+    } catch (e) {
+      next(e);
+    }
+  };
+}
@@ -0,0 +1,145 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { MemoryRateLimitStore, RateLimitStore, TakeResult } from '../lib/tokenBucket';
+import { RateLimitedError } from '../domain/errors';
+
+export type RouteGroup = 'read' | 'write' | 'bulk' | 'events';
+
+const ROUTE_GROUPS: RouteGroup[] = ['read', 'write', 'bulk', 'events'];
+
+const ruleSchema = z.strictObject({
+  capacity: z.number().int().positive(),
+  refillPerSecond: z.number().positive(),
+  // One bucket per tenant, or one per user of the tenant
+  per: z.enum(['tenant', 'user']).default('tenant'),
+});
+
+const limitsSchema = z.strictObject({
+  // null turns a group's limit off
+  rates: z.partialRecord(z.enum(ROUTE_GROUPS), ruleSchema.nullable()).default({}),
+  quotas: z.strictObject({
+    maxOpenTasksPerWorkspace: z.number().int().positive().nullable().optional(),
+  }).default({}),
+});
+
+const limitsConfigSchema = z.strictObject({
+  defaults: limitsSchema.optional(),
+  tenants: z.record(z.string(), limitsSchema).default({}),
+});
+
+export type RateLimitRule = z.infer<typeof ruleSchema>;
+
+export interface TenantLimits {
+  rates: Partial<Record<RouteGroup, RateLimitRule>>;
+  quotas: { maxOpenTasksPerWorkspace: number | null };
+}
+
+export type LimitsConfig = z.infer<typeof limitsConfigSchema>;
+
+declare global {
+  namespace Express {
+    interface Request {
+      limits: TenantLimits;
+    }
+  }
+}
+
+// What every tenant gets unless TENANT_LIMITS says otherwise
+export const DEFAULT_LIMITS: TenantLimits = {
+  rates: {
+    read: { capacity: 300, refillPerSecond: 50, per: 'tenant' },
+    write: { capacity: 100, refillPerSecond: 20, per: 'tenant' },
+    bulk: { capacity: 10, refillPerSecond: 0.5, per: 'tenant' },
+    events: { capacity: 60, refillPerSecond: 10, per: 'tenant' },
+  },
+  quotas: { maxOpenTasksPerWorkspace: 10_000 },
+};
+
+// TENANT_LIMITS is JSON: { "defaults": {...}, "tenants": { "<tenantId>": {...} } }
+export function loadLimitsConfig(env: NodeJS.ProcessEnv = process.env): LimitsConfig {
+  if (!env.TENANT_LIMITS) return { tenants: {} };
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(env.TENANT_LIMITS);
+  } catch {
+    throw new Error('TENANT_LIMITS is not valid JSON');
+  }
+
+  const parsed = limitsConfigSchema.safeParse(raw);
+  if (!parsed.success) throw new Error(`Invalid TENANT_LIMITS: ${z.prettifyError(parsed.error)}`);
+  return parsed.data;
+}
+
+// Built-in defaults, then the configured defaults, then the tenant's own settings; per group and per quota
+export function limitsFor(config: LimitsConfig, tenantId: string): TenantLimits {
+  const layers = [config.defaults, Object.hasOwn(config.tenants, tenantId) ? config.tenants[tenantId] : undefined];
+
+  const rates: Partial<Record<RouteGroup, RateLimitRule | null>> = { ...DEFAULT_LIMITS.rates };
+  const quotas: Record<string, number | null | undefined> = { ...DEFAULT_LIMITS.quotas };
+  for (const layer of layers) {
+    if (!layer) continue;
+    Object.assign(rates, layer.rates);
+    Object.assign(quotas, Object.fromEntries(Object.entries(layer.quotas).filter(([, v]) => v !== undefined)));
+  }
+
+  return {
+    rates: Object.fromEntries(Object.entries(rates).filter(([, rule]) => rule !== null)),
+    quotas: { maxOpenTasksPerWorkspace: quotas.maxOpenTasksPerWorkspace ?? null },
+  };
+}
+
+// `path` is relative to /v1
+export function routeGroup(method: string, path: string): RouteGroup {
+  if (path.startsWith('/events') || path.startsWith('/consumers/') || /^\/workspaces\/[^/]+\/events\//.test(path)) return 'events';
+  if (/^\/workspaces\/[^/]+\/tasks(:bulk|\/import|\/export)$/.test(path)) return 'bulk';
+  return method === 'GET' || method === 'HEAD' ? 'read' : 'write';
+}
+
+function setHeaders(res: Response, rule: RateLimitRule, result: TakeResult) {
+  res.set('RateLimit-Limit', String(rule.capacity));
+  res.set('RateLimit-Remaining', String(result.remaining));
+  res.set('RateLimit-Reset', String(result.resetSeconds));
+}
+
+export interface RateLimitOptions {
+  config?: LimitsConfig;
+  store?: RateLimitStore;
+  clock?: () => number; // Unix milliseconds
+}
+
+/**
+ * Token-bucket rate limiting per tenant (or per user) and route group, after
+ * authentication. Every response carries RateLimit-* headers; a request
+ * over the limit is a 429 with Retry-After. Also exposes the caller's
+ * quotas as `req.limits` for the create paths.
+ */
+export function rateLimit(options: RateLimitOptions = {}) {
+  const config = options.config ?? { tenants: {} };
+  const store = options.store ?? new MemoryRateLimitStore();
+  const clock = options.clock ?? (() => Date.now());
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { tenantId, userId } = req.auth;
+      req.limits = limitsFor(config, tenantId);
+
+      const group = routeGroup(req.method, req.path);
+      const rule = req.limits.rates[group];
+      if (!rule) return next();
+
+      // Callers without a user id share the tenant's bucket
+      const key = rule.per === 'user' && userId ? `${tenantId}:user:${userId}:${group}` : `${tenantId}:${group}`;
+      const result = await store.take(key, rule, clock());
+      setHeaders(res, rule, result);
+
+      if (!result.allowed) {
+        res.set('Retry-After', String(result.retryAfterSeconds));
+        throw new RateLimitedError(result.retryAfterSeconds, group);
+      }
+      next();
+    } catch (e) {
+      next(e);
+    }
+  };
+}
@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError, ValidationError } from '../domain/errors';
+import { findRoute } from '../openapi/routes';
+import { problemSchema } from '../schemas/common';
+
+/**
+ * Checks every JSON response of a documented route against its declared
+ * schema and turns a mismatch (or an undeclared status) into a 500
+ * `response_validation_failed`. Meant for tests (VALIDATE_RESPONSES=true);
+ * routes outside openapi/routes.ts pass through unchecked.
+ */
+export function validateResponses() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    // req.path is relative to the router mount point (/v1) only at this point
+    const route = findRoute(req.method, req.path);
+    if (!route) return next();
+
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      const declared = route.responses[res.statusCode];
+      const schema = declared?.schema ?? (res.statusCode >= 400 ? problemSchema : undefined);
+      if (!schema) {
+        throw new AppError(500, 'response_validation_failed', `${res.statusCode} is not a documented response of ${route.operationId}`);
+      }
+
+      // Validate what the client receives, e.g. without undefined members
+      const result = schema.safeParse(body === undefined ? undefined : JSON.parse(JSON.stringify(body)));
+      if (!result.success) {
+        throw new AppError(500, 'response_validation_failed', `Response does not match the ${route.operationId} ${res.statusCode} schema`, {
+          errors: ValidationError.fromZod(result.error).issues,
+        });
+      }
+
+      return json(body);
+    };
+    next();
+  };
+}
@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction } from 'express';
+import { WorkspaceRepository } from '../repositories/workspaceRepository';
+import { workspaces } from '../db/schema';
+import { ConflictError, ForbiddenError, NotFoundError } from '../domain/errors';
+
+export type Workspace = typeof workspaces.$inferSelect;
+
+declare global {
+  namespace Express {
+    interface Request {
+      workspace: Workspace;
+    }
+  }
+}
+
+const workspaceRepo = new WorkspaceRepository();
+
+export interface WorkspaceAccessOptions {
+  // Tenant-level managers may administer workspaces they are not members of
+  allowTenantManagers?: boolean;
+  // Writes are otherwise refused while the workspace is archived
+  allowArchived?: boolean;
+}
+
+/**
+ * Resolves `:workspaceId` for the authenticated tenant and replaces
+ * `req.auth.role` with the caller's membership role in that workspace.
+ */
+export function workspaceAccess(options: WorkspaceAccessOptions = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { tenantId, userId, role } = req.auth;
+      const workspaceId = req.params.workspaceId as string;
+
+      const workspace = await workspaceRepo.findById(workspaceId, tenantId);
+      if (!workspace) throw new NotFoundError('workspace_not_found', 'Workspace not found');
+
+      const member = userId ? await workspaceRepo.findMember(workspaceId, tenantId, userId) : null;
+      if (member) {
+        req.auth = { ...req.auth, role: member.role };
+      } else if (!(options.allowTenantManagers && role === 'manager')) {
+        throw new ForbiddenError('Not a member of this workspace');
+      }
+
+      if (workspace.archived && !options.allowArchived && req.method !== 'GET' && req.method !== 'HEAD') {
+        throw new ConflictError('workspace_archived', 'Workspace is archived');
+      }
+
+      req.workspace = workspace;
+      next();
+    } catch (e) {
+      next(e);
+    }
+  };
+}
@@ -0,0 +1,152 @@
+import { z } from 'zod';
+import { problemSchema, requestSchemas, responseSchemas } from '../schemas/common';
+import { API_ROUTES, ApiResponse, ApiRoute, pathParams } from './routes';
+
+type JsonSchema = Record<string, unknown>;
+type Io = 'input' | 'output';
+
+const COMPONENT_URI = (id: string) => `#/components/schemas/${id}`;
+
+function stripMeta({ $schema, $id, ...schema }: JsonSchema): JsonSchema {
+  return schema;
+}
+
+// A $ref when the schema is a named component, otherwise the schema inline
+function schemaFor(schema: z.ZodType, io: Io): JsonSchema {
+  const id = (io === 'input' ? requestSchemas : responseSchemas).get(schema)?.id;
+  if (id) return { $ref: COMPONENT_URI(id) };
+  return stripMeta(z.toJSONSchema(schema, { io, unrepresentable: 'any' }) as JsonSchema);
+}
+
+function components(registry: typeof requestSchemas, io: Io): Record<string, JsonSchema> {
+  const { schemas } = z.toJSONSchema(registry, { io, uri: COMPONENT_URI, unrepresentable: 'any' });
+  return Object.fromEntries(Object.entries(schemas).map(([id, schema]) => [id, stripMeta(schema as JsonSchema)]));
+}
+
+function parameters(route: ApiRoute): JsonSchema[] {
+  const params: JsonSchema[] = pathParams(route).map(name => ({
+    name, in: 'path', required: true, schema: { type: 'string' },
+  }));
+
+  if (route.query) {
+    const query = schemaFor(route.query, 'input') as { properties?: Record<string, JsonSchema>, required?: string[] };
+    for (const [name, schema] of Object.entries(query.properties ?? {})) {
+      params.push({ name, in: 'query', required: query.required?.includes(name) ?? false, schema });
+    }
+  }
+
+  if (!route.public) params.push(...['TenantId', 'Role', 'UserId'].map(p => ({ $ref: `#/components/parameters/${p}` })));
+  if (route.versioned) params.push({ $ref: '#/components/parameters/IfMatchVersion' });
+  if (!route.public && route.method !== 'get') params.push({ $ref: '#/components/parameters/IdempotencyKey' });
+
+  return params;
+}
+
+function response({ description, schema, content }: ApiResponse, status: number): JsonSchema {
+  if (content) {
+    return {
+      description,
+      content: Object.fromEntries(Object.entries(content).map(([type, s]) => [type, { schema: s ? schemaFor(s, 'output') : { type: 'string' } }])),
+    };
+  }
+  if (schema) return { description, content: { 'application/json': { schema: schemaFor(schema, 'output') } } };
+  if (status >= 400) return { description, content: { 'application/problem+json': { schema: schemaFor(problemSchema, 'output') } } };
+  return { description };
+}
+
+function operation(route: ApiRoute): JsonSchema {
+  const responses: Record<string, JsonSchema> = Object.fromEntries(
+    Object.entries(route.responses).map(([status, r]) => [status, response(r, Number(status))])
+  );
+  if (!route.public) {
+    responses['401'] ??= { $ref: '#/components/responses/Unauthorized' };
+    responses['403'] ??= { $ref: '#/components/responses/Forbidden' };
+    responses['429'] ??= { $ref: '#/components/responses/TooManyRequests' };
+  }
+  responses.default = { $ref: '#/components/responses/Problem' };
+
+  const op: JsonSchema = {
+    operationId: route.operationId,
+    summary: route.summary,
+    tags: [route.tag],
+    parameters: parameters(route),
+    responses,
+  };
+
+  if (route.body) {
+    const content: Record<string, JsonSchema> = { 'application/json': { schema: schemaFor(route.body, 'input') } };
+    for (const type of route.bodyTypes ?? []) content[type] = { schema: { type: 'string' } };
+    op.requestBody = { required: true, content };
+  }
+  if (route.public) op.security = [];
+
+  return op;
+}
+
+const problemResponse = (description: string) => ({
+  description,
+  content: { 'application/problem+json': { schema: { $ref: COMPONENT_URI('Problem') } } },
+});
+
+/**
+ * Builds the OpenAPI 3.1 document served at /v1/openapi.json from the zod
+ * schemas in src/schemas and the route table in openapi/routes.ts.
+ */
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const route of API_ROUTES) {
+    (paths[route.path] ??= {})[route.method] = operation(route);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Task Workflow API',
+      version: '1.0.0',
+      description: 'Errors are RFC 7807 `application/problem+json`; branch on `code`.',
+    },
+    servers: [{ url: '/v1' }],
+    security: [{ bearerAuth: [] }, { tenantHeaders: [] }],
+    paths,
+    components: {
+      schemas: { ...components(requestSchemas, 'input'), ...components(responseSchemas, 'output') },
+      parameters: {
+        TenantId: {
+          name: 'X-Tenant-Id', in: 'header', required: false, schema: { type: 'string' },
+          description: 'Caller tenant. Required when AUTH_MODE=headers; with a bearer token the tenant comes from the `tenant_id` claim.',
+        },
+        Role: {
+          name: 'X-Role', in: 'header', required: false, schema: { type: 'string', enum: ['agent', 'manager'] },
+          description: 'Caller role when AUTH_MODE=headers.',
+        },
+        UserId: {
+          name: 'X-User-Id', in: 'header', required: false, schema: { type: 'string' },
+          description: 'Caller user id when AUTH_MODE=headers.',
+        },
+        IfMatchVersion: {
+          name: 'If-Match-Version', in: 'header', required: true, schema: { type: 'integer' },
+          description: 'The task version the change is based on; a stale version is a 409 `version_conflict`.',
+        },
+        IdempotencyKey: {
+          name: 'Idempotency-Key', in: 'header', required: false, schema: { type: 'string', minLength: 1, maxLength: 255 },
+          description: 'Retries with the same key replay the first response for 24 hours.',
+        },
+      },
+      responses: {
+        Unauthorized: problemResponse('Missing or invalid credentials'),
+        Forbidden: problemResponse('Not a member of the workspace, or the role does not allow it'),
+        TooManyRequests: {
+          ...problemResponse('Rate limited (`rate_limited`) or a quota is used up (`quota_exceeded`)'),
+          headers: {
+            'Retry-After': { description: 'Seconds until a rate-limited request may succeed', schema: { type: 'integer' } },
+          },
+        },
+        Problem: problemResponse('Any other error'),
+      },
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+        tenantHeaders: { type: 'apiKey', in: 'header', name: 'X-Tenant-Id' },
+      },
+    },
+  };
+}
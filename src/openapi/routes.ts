@@ -0,0 +1,564 @@
+import { z } from 'zod';
+import {
+  assignTaskSchema, bulkResultSchema, bulkTaskSchema, createTaskSchema, exportQuerySchema, getTaskQuerySchema,
+  importQuerySchema, importReportSchema, importTasksSchema, listTasksQuerySchema, taskHistoryQuerySchema,
+  taskHistorySchema, taskListSchema, taskSchema, taskWriteResultSchema, transitionTaskSchema, updateTaskSchema,
+} from '../schemas/task';
+import { handoffSchema, requestHandoffSchema } from '../schemas/handoff';
+import { assignmentPolicySchema, autoAssignResultSchema, putAssignmentPolicySchema } from '../schemas/assignment';
+import { putTaskFieldsSchema, taskFieldsSchema } from '../schemas/fields';
+import {
+  createTemplateSchema, previewQuerySchema, templateListSchema, templatePreviewSchema, templateSchema, updateTemplateSchema,
+} from '../schemas/template';
+import { commentBodySchema, commentListSchema, commentSchema, listCommentsQuerySchema } from '../schemas/comment';
+import { dependencyLinkSchema, dependencyListSchema, linkDependencySchema } from '../schemas/dependency';
+import { putWorkflowSchema, workflowSchema } from '../schemas/workflow';
+import {
+  createWorkspaceSchema, memberListSchema, memberSchema, putMemberSchema, updateWorkspaceSchema, workspaceListSchema, workspaceSchema,
+} from '../schemas/workspace';
+import { createdWebhookSchema, createWebhookSchema, deliveryListSchema, webhookListSchema } from '../schemas/webhook';
+import { consumerOffsetSchema, eventFeedSchema, feedQuerySchema, putOffsetSchema, streamQuerySchema } from '../schemas/event';
+import { putSlaPolicySchema, slaPolicyListSchema, slaPolicySchema } from '../schemas/sla';
+import { analyticsQuerySchema, analyticsSchema } from '../schemas/analytics';
+
+export interface ApiResponse {
+  description: string;
+  schema?: z.ZodType; // application/json
+  // Non-JSON bodies (exports); these are documented but not validated
+  content?: Record<string, z.ZodType | null>;
+}
+
+export interface ApiRoute {
+  method: 'get' | 'post' | 'put' | 'patch' | 'delete';
+  path: string; // OpenAPI template relative to /v1, e.g. /workspaces/{workspaceId}/tasks
+  operationId: string;
+  summary: string;
+  tag: string;
+  public?: boolean; // No authentication headers
+  versioned?: boolean; // Requires If-Match-Version
+  query?: z.ZodObject;
+  body?: z.ZodType;
+  bodyTypes?: string[]; // Extra text content types the body may be sent as
+  responses: Record<number, ApiResponse>;
+}
+
+const writeResult = (description: string): ApiResponse => ({ description, schema: taskWriteResultSchema });
+const problem = (description: string): ApiResponse => ({ description });
+
+/**
+ * The documented contract. Errors are always `application/problem+json`
+ * (see middleware/errors.ts); the statuses listed here are the ones clients
+ * are expected to handle for each operation.
+ */
+export const API_ROUTES: ApiRoute[] = [
+  {
+    method: 'get', path: '/health', operationId: 'getHealth', summary: 'Health check', tag: 'System', public: true,
+    responses: { 200: { description: 'Service is up', schema: z.strictObject({ status: z.literal('ok'), timestamp: z.string() }) } },
+  },
+  {
+    method: 'post', path: '/workspaces', operationId: 'createWorkspace', summary: 'Create a workspace managed by the caller', tag: 'Workspaces',
+    body: createWorkspaceSchema,
+    responses: {
+      201: { description: 'Workspace created', schema: workspaceSchema },
+      400: problem('Invalid body or no user identity'),
+      403: problem('Caller is not a manager'),
+      409: problem('A workspace with that ID exists'),
+    },
+  },
+  {
+    method: 'get', path: '/workspaces', operationId: 'listWorkspaces', summary: 'List the caller\'s workspaces', tag: 'Workspaces',
+    responses: { 200: { description: 'Workspaces the caller is a member of, with their role', schema: workspaceListSchema } },
+  },
+  {
+    method: 'get', path: '/workspaces/{workspaceId}', operationId: 'getWorkspace', summary: 'Get a workspace', tag: 'Workspaces',
+    responses: { 200: { description: 'The workspace', schema: workspaceSchema }, 404: problem('No such workspace') },
+  },
+  {
+    method: 'patch', path: '/workspaces/{workspaceId}', operationId: 'updateWorkspace', summary: 'Rename, configure, archive or unarchive a workspace', tag: 'Workspaces',
+    body: updateWorkspaceSchema,
+    responses: {
+      200: { description: 'Workspace updated', schema: workspaceSchema },
+      400: problem('Invalid body'),
+      403: problem('Caller is not a manager'),
+      404: problem('No such workspace'),
+    },
+  },
+  {
+    method: 'get', path: '/workspaces/{workspaceId}/members', operationId: 'listMembers', summary: 'List workspace members', tag: 'Workspaces',
+    responses: { 200: { description: 'Members, oldest first', schema: memberListSchema }, 404: problem('No such workspace') },
+  },
+  {
+    method: 'put', path: '/workspaces/{workspaceId}/members/{userId}', operationId: 'putMember', summary: 'Add a member or change their role', tag: 'Workspaces',
+    body: putMemberSchema,
+    responses: {
+      200: { description: 'Role changed', schema: memberSchema },
+      201: { description: 'Member added', schema: memberSchema },
+      400: problem('Invalid body'),
+      403: problem('Caller is not a manager'),
+      404: problem('No such workspace'),
+      409: problem('Would demote the last manager'),
+    },
+  },
+  {
+    method: 'delete', path: '/workspaces/{workspaceId}/members/{userId}', operationId: 'removeMember', summary: 'Remove a member', tag: 'Workspaces',
+    responses: {
+      204: { description: 'Member removed' },
+      403: problem('Caller is not a manager'),
+      404: problem('No such workspace or member'),
+      409: problem('Would remove the last manager'),
+    },
+  },
+  {
+    method: 'post', path: '/workspaces/{workspaceId}/tasks', operationId: 'createTask', summary: 'Create a task', tag: 'Tasks',
+    body: createTaskSchema,
+    responses: { 201: writeResult('Task created in the workflow initial state, assigned when the assignment policy says so'), 400: problem('Invalid body, or a label or custom field value the workspace does not allow') },
+  },
+  {
+    method: 'get', path: '/workspaces/{workspaceId}/tasks', operationId: 'listTasks', summary: 'List and search tasks', tag: 'Tasks',
+    query: listTasksQuerySchema,
+    responses: { 200: { description: 'One page of tasks', schema: taskListSchema }, 400: problem('Invalid filter, custom field filter or cursor') },
+  },
+  {
+    method: 'post', path: '/workspaces/{workspaceId}/tasks:bulk', operationId: 'bulkTasks', summary: 'Apply up to 100 task operations', tag: 'Tasks',
+    body: bulkTaskSchema,
+    responses: {
+      200: { description: 'Per-operation results', schema: bulkResultSchema },
+      400: problem('Invalid body'),
+      422: { description: 'Atomic batch rolled back', schema: bulkResultSchema },
+    },
+  },
+  {
+    method: 'post', path: '/workspaces/{workspaceId}/tasks/import', operationId: 'importTasks', summary: 'Import tasks', tag: 'Tasks',
+    query: importQuerySchema, body: importTasksSchema, bodyTypes: ['text/csv', 'application/x-ndjson'],
+    responses: {
+      200: { description: 'Dry run report', schema: importReportSchema },
+      201: { description: 'All rows imported', schema: importReportSchema },
+      400: problem('Unreadable import'),
+      403: problem('Caller is not a manager'),
+      422: { description: 'Some rows are invalid; nothing was imported', schema: importReportSchema },
+    },
+  },
+  {
+    method: 'get', path: '/workspaces/{workspaceId}/tasks/export', operationId: 'exportTasks', summary: 'Stream every task', tag: 'Tasks',
+    query: exportQuerySchema,
+    responses: {
+      200: { description: 'One task per line', content: { 'application/x-ndjson': taskSchema, 'text/csv': null } },
+    },
+  },
+  {
+    method: 'get', path: '/workspaces/{workspaceId}/tasks/{taskId}', operationId: 'getTask', summary: 'Get a task with its timeline', tag: 'Tasks',
+    query: getTaskQuerySchema,
+    responses: {
+      200: { description: 'The task, or its state as of `as_of` rebuilt from its events', schema: taskSchema },
+      400: problem('Invalid as_of'),
+      404: problem('No such task in this workspace (at that point)'),
+    },
+  },
+  {
+    method: 'get', path: '/workspaces/{workspaceId}/tasks/{taskId}/history', operationId: 'getTaskHistory', summary: 'Page through every change of a task', tag: 'Tasks',
+    query: taskHistoryQuerySchema,
+    responses: {
+      200: { description: 'One page of events, oldest first', schema: taskHistorySchema },
+      400: problem('Invalid cursor'),
+      404: problem('No such task in this workspace'),
+    },
+  },
+  {
+    method: 'patch', path: '/workspaces/{workspaceId}/tasks/{taskId}', operationId: 'updateTask', summary: 'Edit title, priority, due date, labels or custom fields', tag: 'Tasks',
+    versioned: true, body: updateTaskSchema,
+    responses: {
+      200: writeResult('Task updated'),
+      400: problem('Invalid body or missing If-Match-Version'),
+      403: problem('Caller is neither a manager nor the assignee'),
+      404: problem('No such task in this workspace'),
+      409: problem('Version conflict'),
+    },
+  },
+  {
+    method: 'delete', path: '/workspaces/{workspaceId}/tasks/{taskId}', operationId: 'deleteTask', summary: 'Soft-delete a task', tag: 'Tasks',
+    versioned: true,
+    responses: {
+      200: writeResult('Task deleted'),
+      400: problem('Missing If-Match-Version'),
+      403: problem('Caller is not a manager'),
+      404: problem('No such task in this workspace'),
+      409: problem('Version conflict'),
+    },
+  },
+  {
+    method: 'post', path: '/workspaces/{workspaceId}/tasks/{taskId}/assign', operationId: 'assignTask', summary: 'Assign a task', tag: 'Tasks',
+    versioned: true, body: assignTaskSchema,
+    responses: {
+      200: writeResult('Task assigned'),
+      400: problem('Invalid body, assignee or missing If-Match-Version'),
+      403: problem('Caller is not a manager'),
+      404: problem('No such task in this workspace'),
+      409: problem('Version conflict or terminal task'),
+    },
+  },
+  {
+    method: 'post', path: '/workspaces/{workspaceId}/tasks/{taskId}/auto-assign', operationId: 'autoAssignTask', summary: 'Assign a task by the assignment policy', tag: 'Tasks',
+    versioned: true,
+    responses: {
+      200: { description: 'Task assigned, with the assignee and the rule that picked them', schema: autoAssignResultSchema },
+      400: problem('Missing If-Match-Version'),
+      403: problem('Caller is not a manager'),
+      404: problem('No such task in this workspace'),
+      409: problem('Version conflict, terminal task, no policy or no eligible assignee'),
+    },
+  },
+  {
+    method: 'post', path: '/workspaces/{workspaceId}/tasks/{taskId}/transition', operationId: 'transitionTask', summary: 'Move a task to another state', tag: 'Tasks',
+    versioned: true, body: transitionTaskSchema,
+    responses: {
+      200: writeResult('Task transitioned'),
+      400: problem('Invalid body, unknown state or missing If-Match-Version'),
+      404: problem('No such task in this workspace'),
+      409: problem('Version conflict, invalid transition or open blockers'),
+    },
+  },
+  {
+    method: 'post', path: '/workspaces/{workspaceId}/tasks/{taskId}/unassign', operationId: 'unassignTask', summary: 'Clear the assignee of a task', tag: 'Tasks',
+    versioned: true,
+    responses: {
+      200: writeResult('Task unassigned; its state is unchanged'),
+      400: problem('Missing If-Match-Version'),
+      403: problem('Caller is not a manager'),
+      404: problem('No such task in this workspace'),
+      409: problem('Version conflict, terminal task or no assignee'),
+    },
+  },
+  {
+    method: 'post', path: '/workspaces/{workspaceId}/tasks/{taskId}/release', operationId: 'releaseTask', summary: 'Give a task back', tag: 'Tasks',
+    versioned: true,
+    responses: {
+      200: writeResult('Task unassigned and back in the workflow initial state'),
+      400: problem('Missing If-Match-Version'),
+      403: problem('Caller is not the assigned agent'),
+      404: problem('No such task in this workspace'),
+      409: problem('Version conflict or terminal task'),
+    },
+  },
+  {
+    method: 'post', path: '/workspaces/{workspaceId}/tasks/{taskId}/reopen', operationId: 'reopenTask', summary: 'Reopen a finished or cancelled task', tag: 'Tasks',
+    versioned: true,
+    responses: {
+      200: writeResult('Task back in the workflow initial state, assignee kept'),
+      400: problem('Missing If-Match-Version'),
+      403: problem('Caller is not a manager'),
+      404: problem('No such task in this workspace'),
+      409: problem('Version conflict or task not in a terminal state'),
+    },
+  },
+  {
+    method: 'post', path: '/workspaces/{workspaceId}/tasks/{taskId}/handoff', operationId: 'requestHandoff', summary: 'Ask to hand a task off to another agent', tag: 'Handoffs',
+    body: requestHandoffSchema,
+    responses: {
+      201: { description: 'Handoff pending a manager decision', schema: handoffSchema },
+      400: problem('Invalid body or target is not another agent of the workspace'),
+      403: problem('Caller is not the assigned agent'),
+      404: problem('No such task in this workspace'),
+      409: problem('Terminal task or a handoff by the caller is already pending'),
+    },
+  },
+  {
+    method: 'get', path: '/workspaces/{workspaceId}/tasks/{taskId}/handoff', operationId: 'getHandoff', summary: 'Get the pending handoff of a task', tag: 'Handoffs',
+    responses: { 200: { description: 'The pending handoff', schema: handoffSchema }, 404: problem('No such task or no pending handoff') },
+  },
+  {
+    method: 'post', path: '/workspaces/{workspaceId}/tasks/{taskId}/handoff/accept', operationId: 'acceptHandoff', summary: 'Accept a handoff and reassign the task', tag: 'Handoffs',
+    versioned: true,
+    responses: {
+      200: writeResult('Task handed off'),
+      400: problem('Missing If-Match-Version or target no longer a member'),
+      403: problem('Caller is not a manager'),
+      404: problem('No such task or no pending handoff'),
+      409: problem('Version conflict, terminal task, the asking agent no longer holds the task or the handoff was decided meanwhile'),
+    },
+  },
+  {
+    method: 'post', path: '/workspaces/{workspaceId}/tasks/{taskId}/handoff/decline', operationId: 'declineHandoff', summary: 'Decline a handoff', tag: 'Handoffs',
+    responses: {
+      200: { description: 'Handoff declined', schema: handoffSchema },
+      403: problem('Caller is not a manager'),
+      404: problem('No such task or no pending handoff'),
+      409: problem('Handoff resolved concurrently'),
+    },
+  },
+  {
+    method: 'delete', path: '/workspaces/{workspaceId}/tasks/{taskId}/handoff', operationId: 'cancelHandoff', summary: 'Withdraw a handoff', tag: 'Handoffs',
+    responses: {
+      200: { description: 'Handoff cancelled', schema: handoffSchema },
+      403: problem('Caller is not the agent who asked'),
+      404: problem('No such task or no pending handoff'),
+      409: problem('Handoff resolved concurrently'),
+    },
+  },
+  {
+    method: 'post', path: '/workspaces/{workspaceId}/tasks/{taskId}/comments', operationId: 'createComment', summary: 'Comment on a task', tag: 'Comments',
+    body: commentBodySchema,
+    responses: {
+      201: { description: 'Comment created', schema: commentSchema },
+      400: problem('Invalid body or no user identity'),
+      404: problem('No such task in this workspace'),
+    },
+  },
+  {
+    method: 'get', path: '/workspaces/{workspaceId}/tasks/{taskId}/comments', operationId: 'listComments', summary: 'Page through the comments of a task', tag: 'Comments',
+    query: listCommentsQuerySchema,
+    responses: {
+      200: { description: 'One page of comments', schema: commentListSchema },
+      400: problem('Invalid limit or cursor'),
+      404: problem('No such task in this workspace'),
+    },
+  },
+  {
+    method: 'patch', path: '/workspaces/{workspaceId}/tasks/{taskId}/comments/{commentId}', operationId: 'updateComment', summary: 'Edit a comment', tag: 'Comments',
+    body: commentBodySchema,
+    responses: {
+      200: { description: 'Comment updated', schema: commentSchema },
+      400: problem('Invalid body'),
+      403: problem('Caller is not the author'),
+      404: problem('No such task or comment'),
+    },
+  },
+  {
+    method: 'delete', path: '/workspaces/{workspaceId}/tasks/{taskId}/comments/{commentId}', operationId: 'deleteComment', summary: 'Delete a comment', tag: 'Comments',
+    responses: {
+      204: { description: 'Comment deleted' },
+      403: problem('Caller is neither the author nor a manager'),
+      404: problem('No such task or comment'),
+    },
+  },
+  {
+    method: 'get', path: '/workspaces/{workspaceId}/tasks/{taskId}/dependencies', operationId: 'listDependencies', summary: 'List what blocks a task and what it blocks', tag: 'Dependencies',
+    responses: { 200: { description: 'Blockers and dependents', schema: dependencyListSchema }, 404: problem('No such task in this workspace') },
+  },
+  {
+    method: 'post', path: '/workspaces/{workspaceId}/tasks/{taskId}/dependencies', operationId: 'linkDependency', summary: 'Block a task by another', tag: 'Dependencies',
+    body: linkDependencySchema,
+    responses: {
+      201: { description: 'Dependency created', schema: dependencyLinkSchema },
+      400: problem('Invalid body or a task blocking itself'),
+      403: problem('Caller is neither a manager nor the assignee'),
+      404: problem('No such task or blocker in this workspace'),
+      409: problem('Dependency exists or would form a cycle'),
+    },
+  },
+  {
+    method: 'delete', path: '/workspaces/{workspaceId}/tasks/{taskId}/dependencies/{blockerId}', operationId: 'unlinkDependency', summary: 'Remove a dependency', tag: 'Dependencies',
+    responses: {
+      204: { description: 'Dependency removed' },
+      403: problem('Caller is neither a manager nor the assignee'),
+      404: problem('No such task or dependency'),
+    },
+  },
+  {
+    method: 'get', path: '/workspaces/{workspaceId}/workflow', operationId: 'getWorkflow', summary: 'Get the effective workflow', tag: 'Workflows',
+    responses: { 200: { description: 'The stored workflow, or the default one', schema: workflowSchema } },
+  },
+  {
+    method: 'put', path: '/workspaces/{workspaceId}/workflow', operationId: 'putWorkflow', summary: 'Replace the workflow', tag: 'Workflows',
+    body: putWorkflowSchema,
+    responses: {
+      200: { description: 'Workflow stored', schema: workflowSchema },
+      400: problem('Invalid body or structurally invalid workflow'),
+      403: problem('Caller is not a manager'),
+      409: problem('Tasks are in states the workflow would drop'),
+    },
+  },
+  {
+    method: 'delete', path: '/workspaces/{workspaceId}/workflow', operationId: 'deleteWorkflow', summary: 'Revert to the default workflow', tag: 'Workflows',
+    responses: {
+      204: { description: 'Workflow deleted' },
+      403: problem('Caller is not a manager'),
+      409: problem('Tasks are in states the default workflow lacks'),
+    },
+  },
+  {
+    method: 'get', path: '/workspaces/{workspaceId}/templates', operationId: 'listTemplates', summary: 'List recurring task templates', tag: 'Templates',
+    responses: { 200: { description: 'Every template of the workspace', schema: templateListSchema } },
+  },
+  {
+    method: 'post', path: '/workspaces/{workspaceId}/templates', operationId: 'createTemplate', summary: 'Create a recurring task template', tag: 'Templates',
+    body: createTemplateSchema,
+    responses: {
+      201: { description: 'Template created', schema: templateSchema },
+      400: problem('Invalid body, recurrence or assignee'),
+      403: problem('Caller is not a manager'),
+    },
+  },
+  {
+    method: 'get', path: '/workspaces/{workspaceId}/templates/{templateId}', operationId: 'getTemplate', summary: 'Get a template', tag: 'Templates',
+    responses: { 200: { description: 'The template', schema: templateSchema }, 404: problem('No such template in this workspace') },
+  },
+  {
+    method: 'patch', path: '/workspaces/{workspaceId}/templates/{templateId}', operationId: 'updateTemplate', summary: 'Edit, pause or resume a template', tag: 'Templates',
+    body: updateTemplateSchema,
+    responses: {
+      200: { description: 'Template updated', schema: templateSchema },
+      400: problem('Invalid body, recurrence or assignee'),
+      403: problem('Caller is not a manager'),
+      404: problem('No such template in this workspace'),
+    },
+  },
+  {
+    method: 'delete', path: '/workspaces/{workspaceId}/templates/{templateId}', operationId: 'deleteTemplate', summary: 'Delete a template', tag: 'Templates',
+    responses: {
+      204: { description: 'Template deleted; tasks it spawned are kept' },
+      403: problem('Caller is not a manager'),
+      404: problem('No such template in this workspace'),
+    },
+  },
+  {
+    method: 'get', path: '/workspaces/{workspaceId}/templates/{templateId}/preview', operationId: 'previewTemplate', summary: 'Preview the next runs', tag: 'Templates',
+    query: previewQuerySchema,
+    responses: { 200: { description: 'Upcoming runs with their task titles', schema: templatePreviewSchema }, 404: problem('No such template in this workspace') },
+  },
+  {
+    method: 'get', path: '/workspaces/{workspaceId}/assignment-policy', operationId: 'getAssignmentPolicy', summary: 'Get the assignment policy', tag: 'Assignment',
+    responses: { 200: { description: 'The policy', schema: assignmentPolicySchema }, 404: problem('Workspace has no assignment policy') },
+  },
+  {
+    method: 'put', path: '/workspaces/{workspaceId}/assignment-policy', operationId: 'putAssignmentPolicy', summary: 'Replace the assignment policy', tag: 'Assignment',
+    body: putAssignmentPolicySchema,
+    responses: {
+      200: { description: 'Policy stored', schema: assignmentPolicySchema },
+      400: problem('Invalid body, duplicate names or a pool user who is not a member'),
+      403: problem('Caller is not a manager'),
+    },
+  },
+  {
+    method: 'delete', path: '/workspaces/{workspaceId}/assignment-policy', operationId: 'deleteAssignmentPolicy', summary: 'Turn automatic assignment off', tag: 'Assignment',
+    responses: {
+      204: { description: 'Policy deleted' },
+      403: problem('Caller is not a manager'),
+      404: problem('Workspace has no assignment policy'),
+    },
+  },
+  {
+    method: 'get', path: '/workspaces/{workspaceId}/task-fields', operationId: 'getTaskFields', summary: 'Get the labels and custom fields tasks may carry', tag: 'Fields',
+    responses: { 200: { description: 'The definitions; empty with a null version when none are stored', schema: taskFieldsSchema } },
+  },
+  {
+    method: 'put', path: '/workspaces/{workspaceId}/task-fields', operationId: 'putTaskFields', summary: 'Replace the labels and custom field definitions', tag: 'Fields',
+    body: putTaskFieldsSchema,
+    responses: {
+      200: { description: 'Definitions stored', schema: taskFieldsSchema },
+      400: problem('Invalid body, duplicate labels or keys, or enum options on another type'),
+      403: problem('Caller is not a manager'),
+      409: problem('Tasks still carry a label or field value the definitions would drop'),
+    },
+  },
+  {
+    method: 'delete', path: '/workspaces/{workspaceId}/task-fields', operationId: 'deleteTaskFields', summary: 'Remove all labels and custom field definitions', tag: 'Fields',
+    responses: {
+      204: { description: 'Definitions deleted' },
+      403: problem('Caller is not a manager'),
+      404: problem('Workspace has no definitions'),
+      409: problem('Tasks still carry labels or custom field values'),
+    },
+  },
+  {
+    method: 'get', path: '/workspaces/{workspaceId}/sla-policies', operationId: 'listSlaPolicies', summary: 'List SLA policies', tag: 'SLA',
+    responses: { 200: { description: 'One policy per priority that has one', schema: slaPolicyListSchema } },
+  },
+  {
+    method: 'put', path: '/workspaces/{workspaceId}/sla-policies/{priority}', operationId: 'putSlaPolicy', summary: 'Set the SLA of a priority', tag: 'SLA',
+    body: putSlaPolicySchema,
+    responses: {
+      200: { description: 'Policy stored', schema: slaPolicySchema },
+      400: problem('Invalid body or priority'),
+      403: problem('Caller is not a manager'),
+    },
+  },
+  {
+    method: 'delete', path: '/workspaces/{workspaceId}/sla-policies/{priority}', operationId: 'deleteSlaPolicy', summary: 'Remove the SLA of a priority', tag: 'SLA',
+    responses: {
+      204: { description: 'Policy deleted' },
+      400: problem('Invalid priority'),
+      403: problem('Caller is not a manager'),
+      404: problem('No policy for that priority'),
+    },
+  },
+  {
+    method: 'get', path: '/workspaces/{workspaceId}/events/stream', operationId: 'streamEvents', summary: 'Stream workspace events (Server-Sent Events)', tag: 'Events',
+    query: streamQuerySchema,
+    responses: {
+      200: { description: 'One SSE message per event; the SSE id is the event seq', content: { 'text/event-stream': null } },
+      400: problem('Invalid Last-Event-ID'),
+    },
+  },
+  {
+    method: 'get', path: '/workspaces/{workspaceId}/analytics', operationId: 'getAnalytics', summary: 'Workspace metrics over a time range', tag: 'Analytics',
+    query: analyticsQuerySchema,
+    responses: {
+      200: { description: 'Distribution, throughput, lead and cycle times, and assignee load', schema: analyticsSchema },
+      400: problem('Invalid range'),
+      403: problem('Caller is not a manager'),
+    },
+  },
+  {
+    method: 'post', path: '/webhooks', operationId: 'createWebhook', summary: 'Register a webhook', tag: 'Webhooks',
+    body: createWebhookSchema,
+    responses: {
+      201: { description: 'Webhook registered; the only response carrying its secret', schema: createdWebhookSchema },
+      400: problem('Invalid body'),
+      403: problem('Caller is not a manager'),
+    },
+  },
+  {
+    method: 'get', path: '/webhooks', operationId: 'listWebhooks', summary: 'List the tenant\'s webhooks', tag: 'Webhooks',
+    responses: { 200: { description: 'Active webhooks, newest first', schema: webhookListSchema } },
+  },
+  {
+    method: 'delete', path: '/webhooks/{webhookId}', operationId: 'deleteWebhook', summary: 'Delete a webhook', tag: 'Webhooks',
+    responses: {
+      204: { description: 'Webhook deleted; its pending deliveries are dead-lettered' },
+      403: problem('Caller is not a manager'),
+      404: problem('No such webhook'),
+    },
+  },
+  {
+    method: 'get', path: '/webhooks/{webhookId}/deliveries', operationId: 'listWebhookDeliveries', summary: 'List recent deliveries of a webhook', tag: 'Webhooks',
+    responses: { 200: { description: 'Up to 100 deliveries, newest first', schema: deliveryListSchema }, 404: problem('No such webhook') },
+  },
+  {
+    method: 'get', path: '/events', operationId: 'listEvents', summary: 'Page through the tenant changelog', tag: 'Events',
+    query: feedQuerySchema,
+    responses: { 200: { description: 'Events in seq order', schema: eventFeedSchema }, 400: problem('Invalid filter') },
+  },
+  {
+    method: 'get', path: '/consumers/{name}/offset', operationId: 'getConsumerOffset', summary: 'Get a consumer offset', tag: 'Events',
+    responses: {
+      200: { description: 'The last seq the consumer processed', schema: consumerOffsetSchema },
+      400: problem('Invalid consumer name'),
+      404: problem('No offset stored under that name'),
+    },
+  },
+  {
+    method: 'put', path: '/consumers/{name}/offset', operationId: 'putConsumerOffset', summary: 'Store a consumer offset', tag: 'Events',
+    body: putOffsetSchema,
+    responses: {
+      200: { description: 'Offset stored', schema: consumerOffsetSchema },
+      400: problem('Invalid name or body, or a seq past the latest event'),
+      403: problem('Caller is not a manager'),
+    },
+  },
+];
+
+export function pathParams(route: ApiRoute): string[] {
+  return [...route.path.matchAll(/\{(\w+)\}/g)].map(m => m[1]);
+}
+
+const PATTERNS = new Map(API_ROUTES.map(route => {
+  const source = route.path.split(/\{\w+\}/).map(part => part.replace(/[.*+?^$()|[\]\\]/g, '\\$&')).join('[^/]+');
+  return [route, new RegExp(`^${source}$`)];
+}));
+
+// The documented route serving a request path (relative to /v1); literal segments win over parameters
+export function findRoute(method: string, path: string): ApiRoute | undefined {
+  return API_ROUTES
+    .filter(route => route.method === method.toLowerCase() && PATTERNS.get(route)!.test(path))
+    .sort((a, b) => pathParams(a).length - pathParams(b).length)[0];
+}
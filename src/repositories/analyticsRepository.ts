@@ -0,0 +1,164 @@
+import { db } from '../db';
+import { tasks, taskEvents } from '../db/schema';
+import { eq, and, gte, lt, isNull, isNotNull, sql } from 'drizzle-orm';
+import { isOpenTask } from './workflowRepository';
+import { AnalyticsBucket, AnalyticsRange, DurationStats, WorkspaceAnalytics, DAY, WEEK, MONDAY_OFFSET } from './taskStore';
+
+// SQL expression for the start of the UTC day or Monday-based week containing `ts`.
+// The constants are inlined: bound parameters arrive as REAL and would turn `/` into float division.
+function bucketStart(ts: unknown, bucket: AnalyticsBucket) {
+  return bucket === 'day'
+    ? sql<number>`(${ts} / ${sql.raw(String(DAY))}) * ${sql.raw(String(DAY))}`
+    : sql<number>`((${ts} - ${sql.raw(String(MONDAY_OFFSET))}) / ${sql.raw(String(WEEK))}) * ${sql.raw(String(WEEK))} + ${sql.raw(String(MONDAY_OFFSET))}`;
+}
+
+export class AnalyticsRepository {
+
+  async workspace(workspaceId: string, tenantId: string, range: AnalyticsRange): Promise<WorkspaceAnalytics> {
+    const [distribution, created, completed, durations, assignees] = await Promise.all([
+      this.distribution(workspaceId, tenantId, range),
+      this.createdPerBucket(workspaceId, tenantId, range),
+      this.completedPerBucket(workspaceId, tenantId, range),
+      this.durations(workspaceId, tenantId, range),
+      this.assigneeLoad(workspaceId, tenantId, range),
+    ]);
+
+    return { distribution, created, completed, ...durations, assignees };
+  }
+
+  // Live tasks of the workspace created within the range, by state and priority
+  async distribution(workspaceId: string, tenantId: string, range: AnalyticsRange) {
+    return await db.select({ state: tasks.state, priority: tasks.priority, count: sql<number>`count(*)` })
+      .from(tasks)
+      .where(and(
+        eq(tasks.workspaceId, workspaceId),
+        eq(tasks.tenantId, tenantId),
+        isNull(tasks.deletedAt),
+        gte(tasks.createdAt, range.from),
+        lt(tasks.createdAt, range.to)
+      ))
+      .groupBy(tasks.state, tasks.priority)
+      .all();
+  }
+
+  async createdPerBucket(workspaceId: string, tenantId: string, range: AnalyticsRange) {
+    const start = bucketStart(tasks.createdAt, range.bucket);
+    return await db.select({ start, count: sql<number>`count(*)` })
+      .from(tasks)
+      .where(and(
+        eq(tasks.workspaceId, workspaceId),
+        eq(tasks.tenantId, tenantId),
+        isNull(tasks.deletedAt),
+        gte(tasks.createdAt, range.from),
+        lt(tasks.createdAt, range.to)
+      ))
+      .groupBy(start)
+      .all();
+  }
+
+  async completedPerBucket(workspaceId: string, tenantId: string, range: AnalyticsRange) {
+    const start = bucketStart(taskEvents.createdAt, range.bucket);
+    return await db.select({ start, count: sql<number>`count(*)` })
+      .from(taskEvents)
+      .innerJoin(tasks, eq(taskEvents.taskId, tasks.id))
+      .where(this.completions(workspaceId, tenantId, range))
+      .groupBy(start)
+      .all();
+  }
+
+  /**
+   * Median and p90 (nearest rank) of lead time (created -> done) and cycle
+   * time (first entry into the start state -> done) for tasks completed
+   * within the range. Tasks that skipped the start state have no cycle time.
+   */
+  async durations(workspaceId: string, tenantId: string, range: AnalyticsRange): Promise<{ leadTime: DurationStats, cycleTime: DurationStats }> {
+    const startedAt = sql`(
+      SELECT min(s.created_at) FROM ${taskEvents} s
+      WHERE s.task_id = ${taskEvents.taskId}
+        AND s.event_type = 'TaskStateChanged'
+        AND json_extract(s.payload, '$.to') = ${range.startState}
+        AND s.created_at <= ${taskEvents.createdAt}
+    )`;
+
+    const rows = db.all<{ metric: 'lead' | 'cycle', count: number, median: number | null, p90: number | null }>(sql`
+      WITH completed AS (
+        SELECT ${taskEvents.createdAt} - ${tasks.createdAt} AS lead, ${taskEvents.createdAt} - ${startedAt} AS cycle
+        FROM ${taskEvents} INNER JOIN ${tasks} ON ${taskEvents.taskId} = ${tasks.id}
+        WHERE ${this.completions(workspaceId, tenantId, range)}
+      ),
+      ranked AS (
+        SELECT 'lead' AS metric, lead AS value, row_number() OVER (ORDER BY lead) AS rank, count(*) OVER () AS total
+        FROM completed
+        UNION ALL
+        SELECT 'cycle', cycle, row_number() OVER (ORDER BY cycle), count(*) OVER ()
+        FROM completed WHERE cycle IS NOT NULL
+      )
+      SELECT metric,
+        max(total) AS count,
+        max(CASE WHEN rank = (total * 5 + 9) / 10 THEN value END) AS median,
+        max(CASE WHEN rank = (total * 9 + 9) / 10 THEN value END) AS p90
+      FROM ranked
+      GROUP BY metric
+    `);
+
+    // Nearest-rank percentiles: the ceil(p * n)-th smallest value
+    const stats = (metric: 'lead' | 'cycle'): DurationStats => {
+      const row = rows.find(r => r.metric === metric);
+      return { count: row?.count ?? 0, median: row?.median ?? null, p90: row?.p90 ?? null };
+    };
+    return { leadTime: stats('lead'), cycleTime: stats('cycle') };
+  }
+
+  /**
+   * Per assignee: open tasks right now (their current load, regardless of the
+   * range) and tasks they hold that were completed within the range, each
+   * counted once however often it was reopened and completed again.
+   */
+  async assigneeLoad(workspaceId: string, tenantId: string, range: AnalyticsRange) {
+    const completedInRange = sql<number>`EXISTS (
+      SELECT 1 FROM ${taskEvents} e
+      WHERE e.task_id = ${tasks}.id
+        AND e.event_type = 'TaskStateChanged'
+        AND json_extract(e.payload, '$.to') = ${range.doneState}
+        AND e.created_at >= ${range.from} AND e.created_at < ${range.to}
+    )`;
+
+    return await db.select({
+      assigneeId: sql<string>`${tasks.assigneeId}`,
+      open: sql<number>`coalesce(sum(CASE WHEN ${isOpenTask} THEN 1 ELSE 0 END), 0)`,
+      completed: sql<number>`coalesce(sum(${completedInRange}), 0)`,
+    })
+      .from(tasks)
+      .where(and(
+        eq(tasks.workspaceId, workspaceId),
+        eq(tasks.tenantId, tenantId),
+        isNull(tasks.deletedAt),
+        isNotNull(tasks.assigneeId)
+      ))
+      .groupBy(tasks.assigneeId)
+      .orderBy(tasks.assigneeId)
+      .all();
+  }
+
+  // The last transition of each live workspace task into the done state within the range
+  private completions(workspaceId: string, tenantId: string, range: AnalyticsRange) {
+    return and(
+      eq(tasks.workspaceId, workspaceId),
+      eq(tasks.tenantId, tenantId),
+      isNull(tasks.deletedAt),
+      eq(taskEvents.eventType, 'TaskStateChanged'),
+      sql`json_extract(${taskEvents.payload}, '$.to') = ${range.doneState}`,
+      gte(taskEvents.createdAt, range.from),
+      lt(taskEvents.createdAt, range.to),
+      // A task reopened and completed again counts once, at its last completion
+      sql`NOT EXISTS (
+        SELECT 1 FROM ${taskEvents} later
+        WHERE later.task_id = ${taskEvents.taskId}
+          AND later.event_type = 'TaskStateChanged'
+          AND json_extract(later.payload, '$.to') = ${range.doneState}
+          AND later.seq > ${taskEvents.seq}
+          AND later.created_at < ${range.to}
+      )`
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { db } from '../db';
+import { assignmentPolicies } from '../db/schema';
+import { eq, and } from 'drizzle-orm';
+import { AssignmentDomain, AssignmentPolicy } from '../domain/assignment';
+import { NotFoundError } from '../domain/errors';
+import { v4 as uuidv4 } from 'uuid';
+
+export type StoredAssignmentPolicy = typeof assignmentPolicies.$inferSelect;
+
+export class AssignmentPolicyRepository {
+
+  async findByWorkspace(workspaceId: string, tenantId: string) {
+    const row = await db.select().from(assignmentPolicies)
+      .where(and(eq(assignmentPolicies.workspaceId, workspaceId), eq(assignmentPolicies.tenantId, tenantId)))
+      .get();
+
+    return row ?? null;
+  }
+
+  // Replacing a policy keeps the rotation of rules that keep their name
+  async upsert(workspaceId: string, tenantId: string, definition: AssignmentPolicy) {
+    return db.transaction((tx) => {
+      const existing = tx.select().from(assignmentPolicies)
+        .where(and(eq(assignmentPolicies.workspaceId, workspaceId), eq(assignmentPolicies.tenantId, tenantId)))
+        .get();
+
+      const now = Math.floor(Date.now() / 1000);
+
+      if (existing) {
+        const updated = { ...existing, definition, version: existing.version + 1, updatedAt: now };
+        tx.update(assignmentPolicies)
+          .set({ definition, version: updated.version, updatedAt: now })
+          .where(eq(assignmentPolicies.id, existing.id))
+          .run();
+        return updated;
+      }
+
+      const created = { id: uuidv4(), tenantId, workspaceId, definition, rotation: {}, version: 1, createdAt: now, updatedAt: now };
+      tx.insert(assignmentPolicies).values(created).run();
+      return created;
+    });
+  }
+
+  async delete(workspaceId: string, tenantId: string) {
+    const result = db.delete(assignmentPolicies)
+      .where(and(eq(assignmentPolicies.workspaceId, workspaceId), eq(assignmentPolicies.tenantId, tenantId)))
+      .run();
+
+    if (result.changes === 0) throw new NotFoundError('assignment_policy_not_found', 'Workspace has no assignment policy');
+  }
+
+  /**
+   * Picks the next pool member of a round-robin rule and remembers it. Read
+   * and write share one synchronous transaction, so concurrent picks never
+   * get the same turn.
+   */
+  async takeTurn(policyId: string, ruleName: string, pool: string[]): Promise<string> {
+    return db.transaction((tx) => {
+      const row = tx.select({ rotation: assignmentPolicies.rotation }).from(assignmentPolicies)
+        .where(eq(assignmentPolicies.id, policyId))
+        .get();
+      if (!row) throw new NotFoundError('assignment_policy_not_found', 'Workspace has no assignment policy');
+
+      const { rotation } = row;
+      const next = AssignmentDomain.nextInRotation(pool, Object.hasOwn(rotation, ruleName) ? rotation[ruleName] : null);
+      tx.update(assignmentPolicies)
+        .set({ rotation: { ...rotation, [ruleName]: next } })
+        .where(eq(assignmentPolicies.id, policyId))
+        .run();
+
+      return next;
+    });
+  }
+}
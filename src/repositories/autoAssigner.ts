@@ -0,0 +1,58 @@
+import { taskStore } from './backend';
+import { AssignmentPolicyRepository, StoredAssignmentPolicy } from './assignmentPolicyRepository';
+import { WorkspaceRepository } from './workspaceRepository';
+import { AutoAssignment, StoredTask } from './taskStore';
+import { AssignmentDomain } from '../domain/assignment';
+import { WorkflowDefinition } from '../domain/workflow';
+
+const policyRepo = new AssignmentPolicyRepository();
+const workspaceRepo = new WorkspaceRepository();
+
+/**
+ * Runs a workspace assignment policy. Every create path (single, bulk,
+ * import, templates) picks through `onCreate` and hands the pick to the
+ * store with the new task; `POST .../auto-assign` uses `forPolicy`.
+ */
+export class AutoAssigner {
+
+  private constructor(
+    private readonly policy: StoredAssignmentPolicy,
+    private readonly workflow: WorkflowDefinition,
+    private readonly memberIds: ReadonlySet<string>,
+  ) {}
+
+  // Null unless the workspace policy assigns new tasks
+  static async onCreate(workspaceId: string, tenantId: string, workflow: WorkflowDefinition): Promise<AutoAssigner | null> {
+    const policy = await policyRepo.findByWorkspace(workspaceId, tenantId);
+    return policy?.definition.autoAssignOnCreate ? AutoAssigner.forPolicy(policy, workflow) : null;
+  }
+
+  static async forPolicy(policy: StoredAssignmentPolicy, workflow: WorkflowDefinition): Promise<AutoAssigner> {
+    const members = await workspaceRepo.listMembers(policy.workspaceId, policy.tenantId);
+    return new AutoAssigner(policy, workflow, new Set(members.map(m => m.userId)));
+  }
+
+  /**
+   * The first rule matching the task picks from its pool, leaving out users
+   * who are no longer members. A rule whose pool has nobody left is passed
+   * over; null when no rule picks.
+   */
+  async pick(task: Pick<StoredTask, 'priority'>): Promise<AutoAssignment | null> {
+    const { workspaceId, tenantId } = this.policy;
+
+    for (const rule of this.policy.definition.rules) {
+      if (!AssignmentDomain.matches(rule, task)) continue;
+
+      const pool = rule.pool.filter(userId => this.memberIds.has(userId));
+      if (pool.length === 0) continue;
+
+      const assigneeId = rule.strategy === 'round_robin'
+        ? await policyRepo.takeTurn(this.policy.id, rule.name, pool)
+        : AssignmentDomain.leastLoaded(pool, await taskStore().workload(workspaceId, tenantId, pool, AssignmentDomain.loadStates(this.workflow)));
+
+      return { assigneeId, rule: { name: rule.name, strategy: rule.strategy } };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,44 @@
+import { TaskStore } from './taskStore';
+import { TaskRepository } from './taskRepository';
+import { PgTaskRepository } from './pgTaskRepository';
+import { connectPg } from '../db/pg';
+import { migratePgUp } from '../db/pg/migrate';
+
+export interface StorageConfig {
+  backend: 'sqlite' | 'postgres';
+  databaseUrl?: string; // Required for postgres
+}
+
+export function loadStorageConfig(env: NodeJS.ProcessEnv = process.env): StorageConfig {
+  const backend = env.STORAGE_BACKEND ?? 'sqlite';
+  if (backend !== 'sqlite' && backend !== 'postgres') throw new Error(`Unknown STORAGE_BACKEND '${backend}'`);
+
+  const config: StorageConfig = { backend, databaseUrl: env.DATABASE_URL || undefined };
+  if (backend === 'postgres' && !config.databaseUrl) {
+    throw new Error('DATABASE_URL is required when STORAGE_BACKEND=postgres');
+  }
+
+  return config;
+}
+
+// Connects (and for postgres, migrates) the configured task store. Only tasks and what hangs off them
+// move; workspaces, templates, webhooks and the rest stay in SQLite either way
+export async function openTaskStore(config: StorageConfig): Promise<TaskStore> {
+  if (config.backend === 'sqlite') return new TaskRepository();
+
+  const db = connectPg(config.databaseUrl!);
+  const applied = await migratePgUp(db);
+  if (applied.length) console.log(`Applied PostgreSQL migrations: ${applied.join(', ')}`);
+  return new PgTaskRepository(db);
+}
+
+// SQLite until server.ts (or a test) installs another store
+let current: TaskStore = new TaskRepository();
+
+export function taskStore(): TaskStore {
+  return current;
+}
+
+export function useTaskStore(store: TaskStore) {
+  current = store;
+}
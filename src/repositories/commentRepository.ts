@@ -0,0 +1,94 @@
+import { db } from '../db';
+import { outboxTransaction } from '../events/outboxNotifier';
+import { taskComments } from '../db/schema';
+import { eq, and, isNull, sql } from 'drizzle-orm';
+import { NotFoundError } from '../domain/errors';
+import { recordNoteInTx } from './eventRepository';
+import { DEFAULT_COMMENT_LIMIT, MAX_COMMENT_LIMIT, encodeCommentCursor, decodeCommentCursor } from './taskStore';
+import { v4 as uuidv4 } from 'uuid';
+
+export class CommentRepository {
+
+  async create(taskId: string, authorId: string, body: string) {
+    return outboxTransaction((tx) => {
+      const now = Math.floor(Date.now() / 1000);
+      const comment = { id: uuidv4(), taskId, authorId, body, createdAt: now, updatedAt: now, deletedAt: null };
+
+      tx.insert(taskComments).values(comment).run();
+
+      // Outbox
+      recordNoteInTx(tx, taskId, 'CommentAdded', authorId, { commentId: comment.id, authorId, body }, now);
+
+      return comment;
+    });
+  }
+
+  async findById(commentId: string, taskId: string) {
+    const comment = await db.select().from(taskComments)
+      .where(and(eq(taskComments.id, commentId), eq(taskComments.taskId, taskId), isNull(taskComments.deletedAt)))
+      .get();
+
+    return comment ?? null;
+  }
+
+  async update(commentId: string, taskId: string, body: string, actorId: string | null = null) {
+    return outboxTransaction((tx) => {
+      const comment = tx.select().from(taskComments)
+        .where(and(eq(taskComments.id, commentId), eq(taskComments.taskId, taskId), isNull(taskComments.deletedAt)))
+        .get();
+      if (!comment) throw new NotFoundError('comment_not_found', 'Comment not found');
+
+      const now = Math.floor(Date.now() / 1000);
+      tx.update(taskComments)
+        .set({ body, updatedAt: now })
+        .where(eq(taskComments.id, commentId))
+        .run();
+
+      // Outbox
+      recordNoteInTx(tx, taskId, 'CommentEdited', actorId, { commentId, changes: { body: { before: comment.body, after: body } } }, now);
+
+      return { ...comment, body, updatedAt: now };
+    });
+  }
+
+  async delete(commentId: string, taskId: string, actorId: string | null = null) {
+    return outboxTransaction((tx) => {
+      const now = Math.floor(Date.now() / 1000);
+      const result = tx.update(taskComments)
+        .set({ deletedAt: now, updatedAt: now })
+        .where(and(eq(taskComments.id, commentId), eq(taskComments.taskId, taskId), isNull(taskComments.deletedAt)))
+        .run();
+
+      if (result.changes === 0) throw new NotFoundError('comment_not_found', 'Comment not found');
+
+      // Outbox
+      recordNoteInTx(tx, taskId, 'CommentDeleted', actorId, { commentId }, now);
+    });
+  }
+
+  // Oldest first, keyset-paginated on (createdAt, id)
+  async list(taskId: string, options: { limit?: number, cursor?: string }) {
+    const conditions = [eq(taskComments.taskId, taskId), isNull(taskComments.deletedAt)];
+
+    if (options.cursor) {
+      const cursor = decodeCommentCursor(options.cursor);
+      conditions.push(sql`(${taskComments.createdAt}, ${taskComments.id}) > (${cursor.createdAt}, ${cursor.id})`);
+    }
+
+    const limit = Math.min(options.limit ?? DEFAULT_COMMENT_LIMIT, MAX_COMMENT_LIMIT);
+
+    const rows = await db.select().from(taskComments)
+      .where(and(...conditions))
+      .orderBy(sql`${taskComments.createdAt} ASC`, sql`${taskComments.id} ASC`)
+      .limit(limit + 1)
+      .all();
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      data: page,
+      nextCursor: rows.length > limit ? encodeCommentCursor({ createdAt: last.createdAt, id: last.id }) : null,
+    };
+  }
+}
@@ -0,0 +1,123 @@
+import { db, Tx } from '../db';
+import { tasks, taskDependencies } from '../db/schema';
+import { eq, and, isNull, sql } from 'drizzle-orm';
+import { isOpenTask } from './workflowRepository';
+import { BadRequestError, ConflictError, NotFoundError } from '../domain/errors';
+
+// Live blockers of the task that have not reached a terminal state yet
+export function openBlockersInTx(tx: Tx, taskId: string): string[] {
+  return tx.select({ id: tasks.id })
+    .from(taskDependencies)
+    .innerJoin(tasks, eq(taskDependencies.blockerId, tasks.id))
+    .where(and(eq(taskDependencies.blockedId, taskId), isNull(tasks.deletedAt), isOpenTask))
+    .orderBy(tasks.id)
+    .all()
+    .map(r => r.id);
+}
+
+// Open dependents of the blocker that no longer have any open blocker
+export function unblockedDependentsInTx(tx: Tx, blockerId: string): string[] {
+  const dependents = tx.select({ id: tasks.id })
+    .from(taskDependencies)
+    .innerJoin(tasks, eq(taskDependencies.blockedId, tasks.id))
+    .where(and(eq(taskDependencies.blockerId, blockerId), isNull(tasks.deletedAt), isOpenTask))
+    .all();
+
+  return dependents.map(d => d.id).filter(id => openBlockersInTx(tx, id).length === 0);
+}
+
+// Open dependents whose only open blocker is this task
+export function dependentsBlockedOnlyByInTx(tx: Tx, blockerId: string): string[] {
+  const dependents = tx.select({ id: tasks.id })
+    .from(taskDependencies)
+    .innerJoin(tasks, eq(taskDependencies.blockedId, tasks.id))
+    .where(and(eq(taskDependencies.blockerId, blockerId), isNull(tasks.deletedAt), isOpenTask))
+    .all();
+
+  return dependents.map(d => d.id).filter(id => {
+    const blockers = openBlockersInTx(tx, id);
+    return blockers.length === 1 && blockers[0] === blockerId;
+  });
+}
+
+const DEPENDENCY_COLUMNS = {
+  taskId: tasks.id,
+  title: tasks.title,
+  state: tasks.state,
+  open: sql<boolean>`CASE WHEN ${isOpenTask} THEN 1 ELSE 0 END`.mapWith(Boolean),
+};
+
+export class DependencyRepository {
+
+  /**
+   * Records that `blockedId` cannot start until `blockerId` is finished. Both
+   * tasks must be live and in the same workspace, and the new edge must not
+   * close a cycle.
+   */
+  async link(blockedId: string, blockerId: string, tenantId: string, workspaceId: string) {
+    return db.transaction((tx) => {
+      if (blockedId === blockerId) throw new BadRequestError('self_dependency', 'A task cannot block itself');
+
+      const blocker = tx.select({ id: tasks.id }).from(tasks)
+        .where(and(
+          eq(tasks.id, blockerId),
+          eq(tasks.tenantId, tenantId),
+          eq(tasks.workspaceId, workspaceId),
+          isNull(tasks.deletedAt)
+        ))
+        .get();
+      if (!blocker) throw new NotFoundError('blocker_not_found', 'Blocker task not found in this workspace');
+
+      const existing = tx.select().from(taskDependencies)
+        .where(and(eq(taskDependencies.blockerId, blockerId), eq(taskDependencies.blockedId, blockedId)))
+        .get();
+      if (existing) throw new ConflictError('dependency_exists', 'Dependency already exists');
+
+      // A cycle appears if the blocker already (transitively) waits on the blocked task
+      const cycle = tx.get<{ found: number } | undefined>(sql`
+        WITH RECURSIVE downstream(id) AS (
+          SELECT blocked_id FROM ${taskDependencies} WHERE blocker_id = ${blockedId}
+          UNION
+          SELECT d.blocked_id FROM ${taskDependencies} d JOIN downstream ON d.blocker_id = downstream.id
+        )
+        SELECT 1 AS found FROM downstream WHERE id = ${blockerId}
+      `);
+      if (cycle) throw new ConflictError('dependency_cycle', 'Dependency would create a cycle');
+
+      const dependency = { tenantId, workspaceId, blockerId, blockedId, createdAt: Math.floor(Date.now() / 1000) };
+      tx.insert(taskDependencies).values(dependency).run();
+      return dependency;
+    }, { behavior: 'immediate' });
+  }
+
+  async unlink(blockedId: string, blockerId: string, tenantId: string) {
+    const result = db.delete(taskDependencies)
+      .where(and(
+        eq(taskDependencies.blockedId, blockedId),
+        eq(taskDependencies.blockerId, blockerId),
+        eq(taskDependencies.tenantId, tenantId)
+      ))
+      .run();
+
+    if (result.changes === 0) throw new NotFoundError('dependency_not_found', 'Dependency not found');
+  }
+
+  // Live tasks this task waits on, and live tasks waiting on it
+  async list(taskId: string, tenantId: string) {
+    const blockedBy = await db.select(DEPENDENCY_COLUMNS)
+      .from(taskDependencies)
+      .innerJoin(tasks, eq(taskDependencies.blockerId, tasks.id))
+      .where(and(eq(taskDependencies.blockedId, taskId), eq(taskDependencies.tenantId, tenantId), isNull(tasks.deletedAt)))
+      .orderBy(tasks.id)
+      .all();
+
+    const blocking = await db.select(DEPENDENCY_COLUMNS)
+      .from(taskDependencies)
+      .innerJoin(tasks, eq(taskDependencies.blockedId, tasks.id))
+      .where(and(eq(taskDependencies.blockerId, taskId), eq(taskDependencies.tenantId, tenantId), isNull(tasks.deletedAt)))
+      .orderBy(tasks.id)
+      .all();
+
+    return { blockedBy, blocking };
+  }
+}
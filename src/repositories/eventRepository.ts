@@ -0,0 +1,118 @@
+import { db, Tx } from '../db';
+import { tasks, taskEvents, consumerOffsets } from '../db/schema';
+import { eq, and, gt, inArray, isNull, sql, SQL } from 'drizzle-orm';
+import { TaskHistory } from '../domain/history';
+import { TaskNotFoundError } from '../domain/errors';
+import { DEFAULT_FEED_LIMIT, EventFeedFilters } from './taskStore';
+import { v4 as uuidv4 } from 'uuid';
+
+export type StoredConsumerOffset = typeof consumerOffsets.$inferSelect;
+
+const EVENT_COLUMNS = {
+  seq: sql<number>`${taskEvents.seq}`,
+  id: taskEvents.id,
+  taskId: taskEvents.taskId,
+  workspaceId: tasks.workspaceId,
+  eventType: taskEvents.eventType,
+  payload: taskEvents.payload,
+  createdAt: taskEvents.createdAt,
+};
+
+// Outbox row for an event that leaves the task row as is, carrying the task as it stands
+export function recordNoteInTx(tx: Tx, taskId: string, eventType: string, actorId: string | null, extra: object, createdAt?: number) {
+  const task = tx.select().from(tasks).where(eq(tasks.id, taskId)).get();
+  if (!task) throw new TaskNotFoundError();
+
+  tx.insert(taskEvents).values({
+    id: uuidv4(),
+    taskId,
+    eventType,
+    payload: TaskHistory.note(task, actorId, extra),
+    createdAt,
+  }).run();
+}
+
+export class EventRepository {
+
+  // Seq of the newest event; streams without a resume point start here
+  async latestSeq() {
+    const row = await db.select({ seq: sql<number | null>`max(${taskEvents.seq})` }).from(taskEvents).get();
+    return row?.seq ?? 0;
+  }
+
+  // Events of one workspace after the given seq, in changelog order
+  async listForWorkspace(workspaceId: string, tenantId: string, afterSeq: number, limit: number) {
+    return await db.select(EVENT_COLUMNS)
+      .from(taskEvents)
+      .innerJoin(tasks, eq(taskEvents.taskId, tasks.id))
+      .where(and(
+        eq(tasks.tenantId, tenantId),
+        eq(tasks.workspaceId, workspaceId),
+        gt(taskEvents.seq, afterSeq)
+      ))
+      .orderBy(taskEvents.seq)
+      .limit(limit)
+      .all();
+  }
+
+  /**
+   * The tenant's changelog in seq order. `nextAfterSeq` is the seq to pass
+   * as `afterSeq` for the next page (unchanged when there was nothing new).
+   */
+  async listForTenant(tenantId: string, filters: EventFeedFilters) {
+    const afterSeq = filters.afterSeq ?? 0;
+    const conditions: SQL[] = [eq(tasks.tenantId, tenantId), gt(taskEvents.seq, afterSeq)];
+
+    if (filters.eventTypes?.length) conditions.push(inArray(taskEvents.eventType, filters.eventTypes));
+    if (filters.taskId) conditions.push(eq(taskEvents.taskId, filters.taskId));
+    if (filters.workspaceId) conditions.push(eq(tasks.workspaceId, filters.workspaceId));
+    if (filters.workspaceIds) conditions.push(inArray(tasks.workspaceId, filters.workspaceIds));
+
+    const data = await db.select(EVENT_COLUMNS)
+      .from(taskEvents)
+      .innerJoin(tasks, eq(taskEvents.taskId, tasks.id))
+      .where(and(...conditions))
+      .orderBy(taskEvents.seq)
+      .limit(filters.limit ?? DEFAULT_FEED_LIMIT)
+      .all();
+
+    return { data, nextAfterSeq: data.length > 0 ? data[data.length - 1].seq : afterSeq };
+  }
+
+  // Events not fanned out to webhooks yet, in seq order
+  async listUndispatched(limit: number) {
+    return await db.select({ ...EVENT_COLUMNS, tenantId: tasks.tenantId })
+      .from(taskEvents)
+      .innerJoin(tasks, eq(taskEvents.taskId, tasks.id))
+      .where(isNull(taskEvents.dispatchedAt))
+      .orderBy(taskEvents.seq)
+      .limit(limit)
+      .all();
+  }
+
+  async markDispatched(eventIds: string[], now: number) {
+    if (eventIds.length === 0) return;
+    db.update(taskEvents).set({ dispatchedAt: now }).where(inArray(taskEvents.id, eventIds)).run();
+  }
+
+  async findOffset(tenantId: string, name: string) {
+    const offset = await db.select().from(consumerOffsets)
+      .where(and(eq(consumerOffsets.tenantId, tenantId), eq(consumerOffsets.name, name)))
+      .get();
+
+    return offset ?? null;
+  }
+
+  async putOffset(tenantId: string, name: string, seq: number) {
+    const now = Math.floor(Date.now() / 1000);
+    db.insert(consumerOffsets)
+      .values({ tenantId, name, seq, updatedAt: now })
+      .onConflictDoUpdate({
+        target: [consumerOffsets.tenantId, consumerOffsets.name],
+        set: { seq, updatedAt: now },
+      })
+      .run();
+
+    return { tenantId, name, seq, updatedAt: now };
+  }
+}
@@ -0,0 +1,74 @@
+import { db } from '../db';
+import { idempotencyKeys } from '../db/schema';
+import { eq, and, or, isNull, lte, inArray, sql } from 'drizzle-orm';
+
+export interface IdempotencyKeyRef {
+  tenantId: string;
+  scope: string;
+  key: string;
+}
+
+const keyIs = (ref: IdempotencyKeyRef) => and(
+  eq(idempotencyKeys.tenantId, ref.tenantId),
+  eq(idempotencyKeys.scope, ref.scope),
+  eq(idempotencyKeys.key, ref.key)
+);
+
+export class IdempotencyRepository {
+
+  /**
+   * Claims the key for a new request. Returns null when the claim succeeded,
+   * otherwise the live record that holds the key. Expired records, and
+   * in-progress claims older than `staleBefore` (their request died), are
+   * replaced.
+   */
+  async reserve(ref: IdempotencyKeyRef, requestHash: string, now: number, expiresAt: number, staleBefore: number) {
+    return db.transaction((tx) => {
+      tx.delete(idempotencyKeys)
+        .where(and(
+          keyIs(ref),
+          or(
+            lte(idempotencyKeys.expiresAt, now),
+            and(isNull(idempotencyKeys.statusCode), lte(idempotencyKeys.createdAt, staleBefore))
+          )
+        ))
+        .run();
+
+      const result = tx.insert(idempotencyKeys)
+        .values({ ...ref, requestHash, createdAt: now, expiresAt })
+        .onConflictDoNothing()
+        .run();
+      if (result.changes === 1) return null;
+
+      return tx.select().from(idempotencyKeys).where(keyIs(ref)).get() ?? null;
+    }, { behavior: 'immediate' });
+  }
+
+  // Stores the response that later requests with the same key replay
+  async complete(ref: IdempotencyKeyRef, statusCode: number, responsePayload: unknown) {
+    db.update(idempotencyKeys)
+      .set({ statusCode, responsePayload })
+      .where(and(keyIs(ref), isNull(idempotencyKeys.statusCode)))
+      .run();
+  }
+
+  // Drops an unfinished claim so the client can retry with the same key
+  async release(ref: IdempotencyKeyRef) {
+    db.delete(idempotencyKeys)
+      .where(and(keyIs(ref), isNull(idempotencyKeys.statusCode)))
+      .run();
+  }
+
+  // Deletes up to `limit` expired keys; returns how many were removed
+  async purgeExpired(now: number, limit: number) {
+    const expired = db.select({ rowid: sql<number>`rowid` })
+      .from(idempotencyKeys)
+      .where(lte(idempotencyKeys.expiresAt, now))
+      .limit(limit);
+
+    const result = db.delete(idempotencyKeys)
+      .where(inArray(sql`rowid`, expired))
+      .run();
+    return result.changes;
+  }
+}
@@ -0,0 +1,153 @@
+import { PgDb } from '../db/pg';
+import { tasks, taskEvents } from '../db/pg/schema';
+import { eq, and, gte, lt, inArray, isNull, isNotNull, sql } from 'drizzle-orm';
+import { WorkflowDefinition } from '../domain/workflow';
+import { AnalyticsBucket, AnalyticsRange, WorkspaceAnalytics, DAY, WEEK, MONDAY_OFFSET } from './taskStore';
+
+// Start of the UTC day or Monday-based week containing `ts`; bigint division truncates like SQLite's integer division
+function bucketStart(ts: unknown, bucket: AnalyticsBucket) {
+  return bucket === 'day'
+    ? sql<number>`(${ts} / ${sql.raw(String(DAY))}) * ${sql.raw(String(DAY))}`.mapWith(Number)
+    : sql<number>`((${ts} - ${sql.raw(String(MONDAY_OFFSET))}) / ${sql.raw(String(WEEK))}) * ${sql.raw(String(WEEK))} + ${sql.raw(String(MONDAY_OFFSET))}`.mapWith(Number);
+}
+
+/**
+ * PostgreSQL counterpart of AnalyticsRepository, used by PgTaskRepository.
+ * Open tasks are judged by the workspace workflow passed in, since
+ * workflows are not stored here.
+ */
+export class PgAnalyticsRepository {
+
+  constructor(private readonly db: PgDb) {}
+
+  async workspace(workspaceId: string, tenantId: string, range: AnalyticsRange, workflow: WorkflowDefinition): Promise<WorkspaceAnalytics> {
+    const [distribution, created, completed, durations, assignees] = await Promise.all([
+      this.distribution(workspaceId, tenantId, range),
+      this.createdPerBucket(workspaceId, tenantId, range),
+      this.completedPerBucket(workspaceId, tenantId, range),
+      this.durations(workspaceId, tenantId, range),
+      this.assigneeLoad(workspaceId, tenantId, range, workflow),
+    ]);
+
+    return { distribution, created, completed, ...durations, assignees };
+  }
+
+  private async distribution(workspaceId: string, tenantId: string, range: AnalyticsRange) {
+    return await this.db.select({ state: tasks.state, priority: tasks.priority, count: sql<number>`count(*)::int` })
+      .from(tasks)
+      .where(and(
+        eq(tasks.workspaceId, workspaceId),
+        eq(tasks.tenantId, tenantId),
+        isNull(tasks.deletedAt),
+        gte(tasks.createdAt, range.from),
+        lt(tasks.createdAt, range.to)
+      ))
+      .groupBy(tasks.state, tasks.priority);
+  }
+
+  private async createdPerBucket(workspaceId: string, tenantId: string, range: AnalyticsRange) {
+    const start = bucketStart(tasks.createdAt, range.bucket);
+    return await this.db.select({ start, count: sql<number>`count(*)::int` })
+      .from(tasks)
+      .where(and(
+        eq(tasks.workspaceId, workspaceId),
+        eq(tasks.tenantId, tenantId),
+        isNull(tasks.deletedAt),
+        gte(tasks.createdAt, range.from),
+        lt(tasks.createdAt, range.to)
+      ))
+      .groupBy(start);
+  }
+
+  private async completedPerBucket(workspaceId: string, tenantId: string, range: AnalyticsRange) {
+    const start = bucketStart(taskEvents.createdAt, range.bucket);
+    return await this.db.select({ start, count: sql<number>`count(*)::int` })
+      .from(taskEvents)
+      .innerJoin(tasks, eq(taskEvents.taskId, tasks.id))
+      .where(this.completions(workspaceId, tenantId, range))
+      .groupBy(start);
+  }
+
+  // percentile_disc is the nearest-rank percentile, and skips tasks without a cycle time
+  private async durations(workspaceId: string, tenantId: string, range: AnalyticsRange) {
+    const startedAt = sql`(
+      SELECT min(s.created_at) FROM ${taskEvents} s
+      WHERE s.task_id = ${taskEvents.taskId}
+        AND s.event_type = 'TaskStateChanged'
+        AND s.payload ->> 'to' = ${range.startState}
+        AND s.created_at <= ${taskEvents.createdAt}
+    )`;
+
+    const completed = this.db.select({
+      lead: sql<number>`${taskEvents.createdAt} - ${tasks.createdAt}`.as('lead'),
+      cycle: sql<number | null>`${taskEvents.createdAt} - ${startedAt}`.as('cycle'),
+    })
+      .from(taskEvents)
+      .innerJoin(tasks, eq(taskEvents.taskId, tasks.id))
+      .where(this.completions(workspaceId, tenantId, range))
+      .as('completed');
+
+    const percentile = (p: number, column: unknown) => sql<number | null>`percentile_disc(${sql.raw(String(p))}) WITHIN GROUP (ORDER BY ${column})`.mapWith(Number);
+
+    const [row] = await this.db.select({
+      leadCount: sql<number>`count(${completed.lead})::int`,
+      leadMedian: percentile(0.5, completed.lead),
+      leadP90: percentile(0.9, completed.lead),
+      cycleCount: sql<number>`count(${completed.cycle})::int`,
+      cycleMedian: percentile(0.5, completed.cycle),
+      cycleP90: percentile(0.9, completed.cycle),
+    }).from(completed);
+
+    return {
+      leadTime: { count: row.leadCount, median: row.leadMedian, p90: row.leadP90 },
+      cycleTime: { count: row.cycleCount, median: row.cycleMedian, p90: row.cycleP90 },
+    };
+  }
+
+  private async assigneeLoad(workspaceId: string, tenantId: string, range: AnalyticsRange, workflow: WorkflowDefinition) {
+    // Each task once, however often it was reopened and completed again
+    const completedInRange = sql`(EXISTS (
+      SELECT 1 FROM ${taskEvents} e
+      WHERE e.task_id = ${tasks.id}
+        AND e.event_type = 'TaskStateChanged'
+        AND e.payload ->> 'to' = ${range.doneState}
+        AND e.created_at >= ${range.from} AND e.created_at < ${range.to}
+    ))::int`;
+
+    return await this.db.select({
+      assigneeId: sql<string>`${tasks.assigneeId}`,
+      open: sql<number>`count(*) FILTER (WHERE NOT (${inArray(tasks.state, workflow.terminalStates)}))::int`,
+      completed: sql<number>`coalesce(sum(${completedInRange}), 0)::int`,
+    })
+      .from(tasks)
+      .where(and(
+        eq(tasks.workspaceId, workspaceId),
+        eq(tasks.tenantId, tenantId),
+        isNull(tasks.deletedAt),
+        isNotNull(tasks.assigneeId)
+      ))
+      .groupBy(tasks.assigneeId)
+      .orderBy(tasks.assigneeId);
+  }
+
+  // The last transition of each live workspace task into the done state within the range
+  private completions(workspaceId: string, tenantId: string, range: AnalyticsRange) {
+    return and(
+      eq(tasks.workspaceId, workspaceId),
+      eq(tasks.tenantId, tenantId),
+      isNull(tasks.deletedAt),
+      eq(taskEvents.eventType, 'TaskStateChanged'),
+      sql`${taskEvents.payload} ->> 'to' = ${range.doneState}`,
+      gte(taskEvents.createdAt, range.from),
+      lt(taskEvents.createdAt, range.to),
+      sql`NOT EXISTS (
+        SELECT 1 FROM ${taskEvents} later
+        WHERE later.task_id = ${taskEvents.taskId}
+          AND later.event_type = 'TaskStateChanged'
+          AND later.payload ->> 'to' = ${range.doneState}
+          AND later.seq > ${taskEvents.seq}
+          AND later.created_at < ${range.to}
+      )`
+    );
+  }
+}
@@ -0,0 +1,949 @@
+import { PgDb, PgTx } from '../db/pg';
+import { tasks, taskEvents, taskComments, taskDependencies, taskHandoffs } from '../db/pg/schema';
+import { eq, and, or, count, gt, gte, inArray, isNull, lte, notInArray, sql, SQL } from 'drizzle-orm';
+import { Task, TaskDomain, TaskEditableFields, TaskState } from '../domain/task';
+import { TaskHistory } from '../domain/history';
+import { TaskFieldsDomain } from '../domain/fields';
+import { DEFAULT_WORKFLOW, WorkflowDefinition, WorkflowDomain } from '../domain/workflow';
+import { BadRequestError, BlockedTaskError, ConflictError, ForbiddenError, NotFoundError, QuotaExceededError, TaskNotFoundError, VersionConflictError } from '../domain/errors';
+import { outboxNotifier } from '../events/outboxNotifier';
+import { PgAnalyticsRepository } from './pgAnalyticsRepository';
+import {
+  TaskStore, NewTask, TaskWriteResult, TaskEvent, BulkOperation, BulkContext, BulkItemResult, TaskListFilters, TaskSortField, OpenTaskQuota,
+  TaskHandoff, HandoffStatus, HANDOFF_RESOLUTION_EVENTS, TaskComment, TaskDependency, EventFeedFilters, TerminalStatesByWorkspace, SlaPolicy, SlaBreach, AnalyticsRange,
+  DEFAULT_COMMENT_LIMIT, MAX_COMMENT_LIMIT, encodeCommentCursor, decodeCommentCursor, DEFAULT_FEED_LIMIT, bulkStatusFor, rolledBackResults, encodeCursor, decodeCursor, IMPORT_BATCH_SIZE, DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT,
+} from './taskStore';
+import { v4 as uuidv4 } from 'uuid';
+
+type PgTask = typeof tasks.$inferSelect;
+
+/**
+ * PostgreSQL implementation of TaskStore, safe for concurrent writers on one
+ * database. Writes lock the task row with SELECT ... FOR UPDATE and
+ * re-check the version in the UPDATE itself.
+ */
+export class PgTaskRepository implements TaskStore {
+
+  private readonly analyticsRepo: PgAnalyticsRepository;
+
+  constructor(private readonly db: PgDb) {
+    this.analyticsRepo = new PgAnalyticsRepository(db);
+  }
+
+  // db.transaction for writers that insert outbox events; signals after commit, like outboxTransaction
+  private async transaction<T>(fn: (tx: PgTx) => Promise<T>): Promise<T> {
+    const result = await this.db.transaction(fn);
+    outboxNotifier.emit('committed');
+    return result;
+  }
+
+  async create(task: NewTask, actorId: string | null = null, quota: OpenTaskQuota | null = null) {
+    return this.transaction(async (tx) => {
+      await this.checkQuotaInTx(tx, task, quota, 1);
+      return this.createInTx(tx, task, actorId);
+    });
+  }
+
+  async assign(taskId: string, assigneeId: string, currentVersion: number, workflow: WorkflowDefinition = DEFAULT_WORKFLOW, actorId: string | null = null, details: object = {}) {
+    return this.transaction((tx) => this.assignInTx(tx, taskId, assigneeId, currentVersion, workflow, actorId, details));
+  }
+
+  async transition(taskId: string, toState: TaskState, currentVersion: number, workflow: WorkflowDefinition = DEFAULT_WORKFLOW, actorId: string | null = null) {
+    return this.transaction((tx) => this.transitionInTx(tx, taskId, toState, currentVersion, workflow, actorId));
+  }
+
+  async update(taskId: string, changes: Partial<TaskEditableFields>, currentVersion: number, actorId: string | null = null) {
+    return this.transaction((tx) => this.updateInTx(tx, taskId, changes, currentVersion, actorId));
+  }
+
+  async delete(taskId: string, currentVersion: number, workflow: WorkflowDefinition = DEFAULT_WORKFLOW, actorId: string | null = null) {
+    return this.transaction(async (tx) => {
+      const task = await this.lockTask(tx, taskId, currentVersion);
+
+      // Taken before the delete: once it is gone, these dependents have no open blocker left
+      const released = await this.dependentsBlockedOnlyBy(tx, taskId, workflow);
+
+      const after = await this.writeVersion(tx, task, { deletedAt: Math.floor(Date.now() / 1000) });
+      await this.recordChange(tx, 'TaskDeleted', task, after, actorId, { changes: { deletedAt: { before: null, after: after.deletedAt } } });
+
+      for (const id of released) {
+        await this.recordNote(tx, id, 'UnblockedTask', actorId, { blockerId: taskId, blockerState: task.state, blockerDeleted: true }, after.updatedAt);
+      }
+
+      return { task_id: taskId, state: task.state, version: after.version };
+    });
+  }
+
+  async unassign(taskId: string, currentVersion: number, workflow: WorkflowDefinition = DEFAULT_WORKFLOW, actorId: string | null = null) {
+    return this.transaction(async (tx) => {
+      const task = await this.lockTask(tx, taskId, currentVersion);
+      if (WorkflowDomain.isTerminal(workflow, task.state)) {
+        throw new ConflictError('task_terminal', 'Task in a terminal state cannot be unassigned');
+      }
+      if (task.assigneeId === null) throw new ConflictError('task_unassigned', 'Task has no assignee');
+
+      const after = await this.writeVersion(tx, task, { assigneeId: null });
+      await this.recordChange(tx, 'TaskUnassigned', task, after, actorId, { previousAssigneeId: task.assigneeId });
+
+      return { task_id: taskId, state: after.state, version: after.version };
+    });
+  }
+
+  async release(taskId: string, currentVersion: number, workflow: WorkflowDefinition = DEFAULT_WORKFLOW, actorId: string | null = null) {
+    return this.transaction(async (tx) => {
+      const task = await this.lockTask(tx, taskId, currentVersion);
+      if (WorkflowDomain.isTerminal(workflow, task.state)) {
+        throw new ConflictError('task_terminal', 'Task in a terminal state cannot be released');
+      }
+
+      const after = await this.writeVersion(tx, task, { assigneeId: null, state: workflow.initialState });
+      await this.recordChange(tx, 'TaskReleased', task, after, actorId, { previousAssigneeId: task.assigneeId, from: task.state, to: after.state });
+
+      return { task_id: taskId, state: after.state, version: after.version };
+    });
+  }
+
+  async findPendingHandoff(taskId: string) {
+    const [handoff] = await this.db.select().from(taskHandoffs)
+      .where(and(eq(taskHandoffs.taskId, taskId), eq(taskHandoffs.status, 'PENDING')));
+
+    return handoff ?? null;
+  }
+
+  async requestHandoff(task: Pick<Task, 'id' | 'tenantId' | 'workspaceId'>, fromUserId: string, toUserId: string, note: string | null) {
+    return this.transaction(async (tx) => {
+      // Concurrent requests for the task queue on its row instead of racing for the pending slot
+      await tx.select({ id: tasks.id }).from(tasks).where(eq(tasks.id, task.id)).for('update');
+
+      const [pending] = await tx.select().from(taskHandoffs)
+        .where(and(eq(taskHandoffs.taskId, task.id), eq(taskHandoffs.status, 'PENDING')));
+
+      if (pending?.fromUserId === fromUserId) throw new ConflictError('handoff_pending', 'Task already has a pending handoff');
+      if (pending) await this.resolveHandoffInTx(tx, pending, 'CANCELLED', null);
+
+      const now = Math.floor(Date.now() / 1000);
+      const handoff: TaskHandoff = {
+        id: uuidv4(),
+        tenantId: task.tenantId,
+        workspaceId: task.workspaceId,
+        taskId: task.id,
+        fromUserId,
+        toUserId,
+        note,
+        status: 'PENDING',
+        resolvedBy: null,
+        createdAt: now,
+        resolvedAt: null,
+      };
+      await tx.insert(taskHandoffs).values(handoff);
+      await this.recordNote(tx, task.id, 'TaskHandoffRequested', fromUserId, { handoffId: handoff.id, fromUserId, toUserId, note }, now);
+
+      return handoff;
+    });
+  }
+
+  async acceptHandoff(handoff: TaskHandoff, currentVersion: number, workflow: WorkflowDefinition = DEFAULT_WORKFLOW, actorId: string | null = null) {
+    return this.transaction(async (tx) => {
+      const task = await this.lockTask(tx, handoff.taskId, currentVersion);
+      if (WorkflowDomain.isTerminal(workflow, task.state)) {
+        throw new ConflictError('task_terminal', 'Task in a terminal state cannot be assigned');
+      }
+      if (task.assigneeId !== handoff.fromUserId) throw new ConflictError('handoff_stale', 'Task is no longer held by the agent handing it off');
+
+      await this.resolveHandoffInTx(tx, handoff, 'ACCEPTED', actorId);
+      const after = await this.writeVersion(tx, task, { assigneeId: handoff.toUserId });
+      await this.recordChange(tx, 'TaskHandedOff', task, after, actorId, {
+        handoffId: handoff.id, assigneeId: handoff.toUserId, previousAssigneeId: handoff.fromUserId,
+      });
+
+      return { task_id: task.id, state: after.state, version: after.version };
+    });
+  }
+
+  async resolveHandoff(handoff: TaskHandoff, status: 'DECLINED' | 'CANCELLED', resolvedBy: string | null) {
+    return this.transaction((tx) => this.resolveHandoffInTx(tx, handoff, status, resolvedBy, resolvedBy ?? handoff.fromUserId));
+  }
+
+  private async resolveHandoffInTx(tx: PgTx, handoff: TaskHandoff, status: Exclude<HandoffStatus, 'PENDING'>, resolvedBy: string | null, actorId: string | null = resolvedBy): Promise<TaskHandoff> {
+    const now = Math.floor(Date.now() / 1000);
+    const [resolved] = await tx.update(taskHandoffs)
+      .set({ status, resolvedBy, resolvedAt: now })
+      .where(and(eq(taskHandoffs.id, handoff.id), eq(taskHandoffs.status, 'PENDING')))
+      .returning();
+
+    if (!resolved) throw new ConflictError('handoff_resolved', 'Handoff was already accepted, declined or cancelled');
+
+    const eventType = HANDOFF_RESOLUTION_EVENTS[status];
+    if (eventType) {
+      await this.recordNote(tx, handoff.taskId, eventType, actorId, { handoffId: handoff.id, fromUserId: handoff.fromUserId, toUserId: handoff.toUserId }, now);
+    }
+
+    return resolved;
+  }
+
+  async reopen(taskId: string, currentVersion: number, workflow: WorkflowDefinition = DEFAULT_WORKFLOW, actorId: string | null = null, quota: OpenTaskQuota | null = null) {
+    return this.transaction(async (tx) => {
+      const task = await this.lockTask(tx, taskId, currentVersion);
+      if (!WorkflowDomain.isTerminal(workflow, task.state)) {
+        throw new ConflictError('task_not_terminal', 'Only a task in a terminal state can be reopened');
+      }
+      await this.checkQuotaInTx(tx, task, quota, 1);
+
+      const after = await this.writeVersion(tx, task, { state: workflow.initialState });
+      await this.recordChange(tx, 'TaskReopened', task, after, actorId, { from: task.state, to: after.state });
+
+      return { task_id: taskId, state: after.state, version: after.version };
+    });
+  }
+
+  // Creates and reopens in the same workspace queue on a transaction-scoped advisory lock, so the count stays true until commit
+  private async checkQuotaInTx(tx: PgTx, task: Pick<NewTask, 'tenantId' | 'workspaceId'>, quota: OpenTaskQuota | null | undefined, adding: number) {
+    if (!quota) return;
+
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`${task.tenantId}/${task.workspaceId}`}))`);
+    const [{ n }] = await tx.select({ n: count() }).from(tasks)
+      .where(and(
+        eq(tasks.workspaceId, task.workspaceId),
+        eq(tasks.tenantId, task.tenantId),
+        isNull(tasks.deletedAt),
+        notInArray(tasks.state, quota.terminalStates)
+      ));
+
+    if (n + adding > quota.maxOpenTasks) throw new QuotaExceededError('open_tasks_per_workspace', quota.maxOpenTasks);
+  }
+
+  // Loads the live task with a row lock held until the transaction ends
+  private async lockTask(tx: PgTx, taskId: string, currentVersion: number): Promise<PgTask> {
+    const [task] = await tx.select().from(tasks)
+      .where(and(eq(tasks.id, taskId), isNull(tasks.deletedAt)))
+      .for('update');
+    if (!task) throw new TaskNotFoundError();
+
+    if (task.version !== currentVersion) throw new VersionConflictError(task.version, task.state);
+    return task;
+  }
+
+  // Bumps the version and returns the row as written; the WHERE clause still guards against a writer that skipped the lock
+  private async writeVersion(tx: PgTx, task: PgTask, changes: Partial<PgTask>): Promise<PgTask> {
+    const [updated] = await tx.update(tasks)
+      .set({ ...changes, version: task.version + 1, updatedAt: changes.updatedAt ?? Math.floor(Date.now() / 1000) })
+      .where(and(eq(tasks.id, task.id), eq(tasks.version, task.version)))
+      .returning();
+
+    if (!updated) {
+      const [current] = await tx.select({ version: tasks.version, state: tasks.state }).from(tasks).where(eq(tasks.id, task.id));
+      throw new VersionConflictError(current.version, current.state);
+    }
+    return updated;
+  }
+
+  private async recordEvent(tx: PgTx, taskId: string, eventType: string, payload: unknown, createdAt?: number) {
+    await tx.insert(taskEvents).values({ id: uuidv4(), taskId, eventType, payload, createdAt });
+  }
+
+  // An event for a change of the task row, stamped with the row's updatedAt
+  private async recordChange(tx: PgTx, eventType: string, before: Task | null, after: Task, actorId: string | null, extra: object) {
+    await this.recordEvent(tx, after.id, eventType, TaskHistory.change(before, after, actorId, extra), after.updatedAt);
+  }
+
+  // An event that leaves the task row as is, carrying the task as it stands
+  private async recordNote(tx: PgTx, taskId: string, eventType: string, actorId: string | null, extra: object, createdAt?: number) {
+    const [task] = await tx.select().from(tasks).where(eq(tasks.id, taskId));
+    if (!task) throw new TaskNotFoundError();
+
+    await this.recordEvent(tx, taskId, eventType, TaskHistory.note(task, actorId, extra), createdAt);
+  }
+
+  private async createInTx(tx: PgTx, { assignment, ...task }: NewTask, actorId: string | null): Promise<TaskWriteResult> {
+    const now = Math.floor(Date.now() / 1000);
+    const newTask: Task = { ...task, labels: task.labels ?? [], customFields: task.customFields ?? {}, version: 1, createdAt: now, updatedAt: now, deletedAt: null };
+
+    await tx.insert(tasks).values(newTask);
+    await this.recordChange(tx, 'TaskCreated', null, newTask, actorId, newTask);
+
+    // Auto-assignment, as its own version
+    if (assignment) {
+      const created = await this.lockTask(tx, task.id, 1);
+      const after = await this.writeVersion(tx, created, { assigneeId: assignment.assigneeId, updatedAt: now });
+      await this.recordChange(tx, 'TaskAssigned', created, after, actorId, { rule: assignment.rule, assigneeId: assignment.assigneeId, previousAssigneeId: null });
+      return { task_id: task.id, state: after.state, version: after.version };
+    }
+
+    return { task_id: task.id, state: task.state, version: 1 };
+  }
+
+  private async assignInTx(tx: PgTx, taskId: string, assigneeId: string, currentVersion: number, workflow: WorkflowDefinition, actorId: string | null, details: object = {}) {
+    const task = await this.lockTask(tx, taskId, currentVersion);
+
+    if (WorkflowDomain.isTerminal(workflow, task.state)) {
+      throw new ConflictError('task_terminal', 'Task in a terminal state cannot be assigned');
+    }
+
+    const after = await this.writeVersion(tx, task, { assigneeId });
+    await this.recordChange(tx, 'TaskAssigned', task, after, actorId, { ...details, assigneeId, previousAssigneeId: task.assigneeId });
+
+    return { task_id: taskId, state: task.state, version: after.version };
+  }
+
+  private async transitionInTx(tx: PgTx, taskId: string, toState: TaskState, currentVersion: number, workflow: WorkflowDefinition, actorId: string | null) {
+    const task = await this.lockTask(tx, taskId, currentVersion);
+
+    // Blockers live in the same workspace, so they share this workflow
+    if (TaskDomain.requiresUnblocked(toState, workflow)) {
+      const blockers = await this.openBlockers(tx, taskId, workflow);
+      if (blockers.length > 0) throw new BlockedTaskError(blockers);
+    }
+
+    const after = await this.writeVersion(tx, task, { state: toState });
+    await this.recordChange(tx, 'TaskStateChanged', task, after, actorId, { from: task.state, to: toState });
+
+    // Finishing (or cancelling) a blocker releases dependents with no other open blockers
+    if (WorkflowDomain.isTerminal(workflow, toState)) {
+      for (const id of await this.openDependents(tx, taskId, workflow)) {
+        if ((await this.openBlockers(tx, id, workflow)).length > 0) continue;
+        await this.recordNote(tx, id, 'UnblockedTask', actorId, { blockerId: taskId, blockerState: toState }, after.updatedAt);
+      }
+    }
+
+    return { task_id: taskId, state: toState, version: after.version };
+  }
+
+  private async openDependents(tx: PgTx, blockerId: string, workflow: WorkflowDefinition): Promise<string[]> {
+    const rows = await tx.select({ id: tasks.id })
+      .from(taskDependencies)
+      .innerJoin(tasks, eq(taskDependencies.blockedId, tasks.id))
+      .where(and(eq(taskDependencies.blockerId, blockerId), isNull(tasks.deletedAt), notInArray(tasks.state, workflow.terminalStates)));
+    return rows.map(r => r.id);
+  }
+
+  // Open dependents whose only open blocker is this task
+  private async dependentsBlockedOnlyBy(tx: PgTx, blockerId: string, workflow: WorkflowDefinition): Promise<string[]> {
+    const released: string[] = [];
+    for (const id of await this.openDependents(tx, blockerId, workflow)) {
+      const blockers = await this.openBlockers(tx, id, workflow);
+      if (blockers.length === 1 && blockers[0] === blockerId) released.push(id);
+    }
+    return released;
+  }
+
+  private async openBlockers(tx: PgTx, taskId: string, workflow: WorkflowDefinition): Promise<string[]> {
+    const rows = await tx.select({ id: tasks.id })
+      .from(taskDependencies)
+      .innerJoin(tasks, eq(taskDependencies.blockerId, tasks.id))
+      .where(and(eq(taskDependencies.blockedId, taskId), isNull(tasks.deletedAt), notInArray(tasks.state, workflow.terminalStates)))
+      .orderBy(tasks.id);
+    return rows.map(r => r.id);
+  }
+
+  private async updateInTx(tx: PgTx, taskId: string, changes: Partial<TaskEditableFields>, currentVersion: number, actorId: string | null) {
+    const task = await this.lockTask(tx, taskId, currentVersion);
+
+    const diff = TaskDomain.diff<TaskEditableFields>(task, changes);
+
+    // Nothing actually changed: keep the version and skip the event
+    if (Object.keys(diff).length === 0) {
+      return { task_id: taskId, state: task.state, version: task.version };
+    }
+
+    const after = await this.writeVersion(tx, task, {
+      ...changes,
+      // A new due date gets its own TaskOverdue event
+      ...('dueAt' in diff ? { overdueNotifiedAt: null } : {}),
+    });
+    await this.recordChange(tx, 'TaskUpdated', task, after, actorId, { changes: diff });
+
+    return { task_id: taskId, state: task.state, version: after.version };
+  }
+
+  // Same contract as TaskRepository.bulk
+  async bulk(operations: BulkOperation[], ctx: BulkContext, mode: 'atomic' | 'best_effort') {
+    const results: BulkItemResult[] = [];
+
+    if (mode === 'best_effort') {
+      for (const [index, op] of operations.entries()) {
+        try {
+          const result = await this.transaction((tx) => this.applyInTx(tx, op, ctx));
+          results.push({ index, status: 'ok', ...result });
+        } catch (e: any) {
+          results.push({ index, status: bulkStatusFor(e), error: e.message });
+        }
+      }
+      return { committed: true, results };
+    }
+
+    try {
+      await this.transaction(async (tx) => {
+        for (const [index, op] of operations.entries()) {
+          try {
+            results.push({ index, status: 'ok', ...await this.applyInTx(tx, op, ctx) });
+          } catch (e: any) {
+            results.push({ index, status: bulkStatusFor(e), error: e.message });
+            throw new Error('BulkAborted');
+          }
+        }
+      });
+      return { committed: true, results };
+    } catch (e: any) {
+      if (e.message !== 'BulkAborted') throw e;
+      return { committed: false, results: rolledBackResults(operations, results) };
+    }
+  }
+
+  async importTasks(newTasks: NewTask[], actorId: string | null = null, quota: OpenTaskQuota | null = null, batchSize = IMPORT_BATCH_SIZE) {
+    const results: TaskWriteResult[] = [];
+    for (let i = 0; i < newTasks.length; i += batchSize) {
+      const batch = newTasks.slice(i, i + batchSize);
+      results.push(...await this.transaction(async (tx) => {
+        await this.checkQuotaInTx(tx, batch[0], quota, newTasks.length - i);
+        const created: TaskWriteResult[] = [];
+        for (const task of batch) created.push(await this.createInTx(tx, task, actorId));
+        return created;
+      }));
+    }
+    return results;
+  }
+
+  private async applyInTx(tx: PgTx, op: BulkOperation, ctx: BulkContext): Promise<TaskWriteResult> {
+    if (op.op === 'create') {
+      await this.checkQuotaInTx(tx, ctx, ctx.quota, 1);
+      return this.createInTx(tx, {
+        id: uuidv4(),
+        tenantId: ctx.tenantId,
+        workspaceId: ctx.workspaceId,
+        title: op.title,
+        priority: op.priority,
+        state: ctx.workflow.initialState,
+        assigneeId: null,
+        dueAt: op.dueAt,
+        labels: op.labels,
+        customFields: op.customFields,
+        assignment: op.assignment,
+      }, ctx.userId);
+    }
+
+    // Same tenant/workspace isolation as the single-task endpoints
+    const [task] = await tx.select().from(tasks)
+      .where(and(
+        eq(tasks.id, op.taskId),
+        eq(tasks.tenantId, ctx.tenantId),
+        eq(tasks.workspaceId, ctx.workspaceId),
+        isNull(tasks.deletedAt)
+      ));
+    if (!task) throw new TaskNotFoundError();
+
+    switch (op.op) {
+      case 'assign':
+        if (ctx.role !== 'manager') throw new ForbiddenError('Only manager can assign tasks');
+        if (!ctx.memberIds.has(op.assigneeId)) throw new BadRequestError('invalid_assignee', 'Assignee is not a member of this workspace');
+        return this.assignInTx(tx, op.taskId, op.assigneeId, op.version, ctx.workflow, ctx.userId);
+
+      case 'transition': {
+        const isValid = ctx.workflow.states.includes(op.toState) && TaskDomain.validateTransition(
+          task.state,
+          op.toState,
+          ctx.role,
+          task.assigneeId,
+          ctx.userId,
+          ctx.workflow
+        );
+        if (!isValid) throw new ConflictError('invalid_transition', 'Invalid transition or unauthorized');
+        return this.transitionInTx(tx, op.taskId, op.toState, op.version, ctx.workflow, ctx.userId);
+      }
+
+      case 'update': {
+        if (!TaskDomain.canUpdate(ctx.role, task.assigneeId, ctx.userId)) throw new ForbiddenError('Only manager or the assignee can update tasks');
+        const changes = op.customFieldChanges
+          ? { ...op.changes, customFields: TaskFieldsDomain.mergeValues(task.customFields, op.customFieldChanges) }
+          : op.changes;
+        return this.updateInTx(tx, op.taskId, changes, op.version, ctx.userId);
+      }
+    }
+  }
+
+  async createComment(taskId: string, authorId: string, body: string) {
+    return this.transaction(async (tx) => {
+      const now = Math.floor(Date.now() / 1000);
+      const comment: TaskComment = { id: uuidv4(), taskId, authorId, body, createdAt: now, updatedAt: now, deletedAt: null };
+
+      await tx.insert(taskComments).values(comment);
+      await this.recordNote(tx, taskId, 'CommentAdded', authorId, { commentId: comment.id, authorId, body }, now);
+
+      return comment;
+    });
+  }
+
+  async findComment(commentId: string, taskId: string) {
+    const [comment] = await this.db.select().from(taskComments)
+      .where(and(eq(taskComments.id, commentId), eq(taskComments.taskId, taskId), isNull(taskComments.deletedAt)));
+
+    return comment ?? null;
+  }
+
+  async updateComment(commentId: string, taskId: string, body: string, actorId: string | null = null) {
+    return this.transaction(async (tx) => {
+      const [comment] = await tx.select().from(taskComments)
+        .where(and(eq(taskComments.id, commentId), eq(taskComments.taskId, taskId), isNull(taskComments.deletedAt)))
+        .for('update');
+      if (!comment) throw new NotFoundError('comment_not_found', 'Comment not found');
+
+      const now = Math.floor(Date.now() / 1000);
+      await tx.update(taskComments).set({ body, updatedAt: now }).where(eq(taskComments.id, commentId));
+      await this.recordNote(tx, taskId, 'CommentEdited', actorId, { commentId, changes: { body: { before: comment.body, after: body } } }, now);
+
+      return { ...comment, body, updatedAt: now };
+    });
+  }
+
+  async deleteComment(commentId: string, taskId: string, actorId: string | null = null) {
+    await this.transaction(async (tx) => {
+      const now = Math.floor(Date.now() / 1000);
+      const deleted = await tx.update(taskComments)
+        .set({ deletedAt: now, updatedAt: now })
+        .where(and(eq(taskComments.id, commentId), eq(taskComments.taskId, taskId), isNull(taskComments.deletedAt)))
+        .returning({ id: taskComments.id });
+
+      if (deleted.length === 0) throw new NotFoundError('comment_not_found', 'Comment not found');
+      await this.recordNote(tx, taskId, 'CommentDeleted', actorId, { commentId }, now);
+    });
+  }
+
+  async listComments(taskId: string, options: { limit?: number, cursor?: string }) {
+    const conditions = [eq(taskComments.taskId, taskId), isNull(taskComments.deletedAt)];
+
+    if (options.cursor) {
+      const cursor = decodeCommentCursor(options.cursor);
+      conditions.push(sql`(${taskComments.createdAt}, ${taskComments.id}) > (${cursor.createdAt}, ${cursor.id})`);
+    }
+
+    const limit = Math.min(options.limit ?? DEFAULT_COMMENT_LIMIT, MAX_COMMENT_LIMIT);
+
+    const rows = await this.db.select().from(taskComments)
+      .where(and(...conditions))
+      .orderBy(taskComments.createdAt, taskComments.id)
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      data: page,
+      nextCursor: rows.length > limit ? encodeCommentCursor({ createdAt: last.createdAt, id: last.id }) : null,
+    };
+  }
+
+  // Links in one workspace queue on an advisory lock, so two concurrent links cannot close a cycle together
+  async linkDependency(blockedId: string, blockerId: string, tenantId: string, workspaceId: string) {
+    return this.transaction(async (tx) => {
+      if (blockedId === blockerId) throw new BadRequestError('self_dependency', 'A task cannot block itself');
+
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`dependencies:${tenantId}/${workspaceId}`}))`);
+
+      const [blocker] = await tx.select({ id: tasks.id }).from(tasks)
+        .where(and(
+          eq(tasks.id, blockerId),
+          eq(tasks.tenantId, tenantId),
+          eq(tasks.workspaceId, workspaceId),
+          isNull(tasks.deletedAt)
+        ));
+      if (!blocker) throw new NotFoundError('blocker_not_found', 'Blocker task not found in this workspace');
+
+      const [existing] = await tx.select().from(taskDependencies)
+        .where(and(eq(taskDependencies.blockerId, blockerId), eq(taskDependencies.blockedId, blockedId)));
+      if (existing) throw new ConflictError('dependency_exists', 'Dependency already exists');
+
+      // A cycle appears if the blocker already (transitively) waits on the blocked task
+      const [cycle] = await tx.select({ id: tasks.id }).from(tasks)
+        .where(and(eq(tasks.id, blockerId), sql`${tasks.id} IN (
+          WITH RECURSIVE downstream(id) AS (
+            SELECT blocked_id FROM ${taskDependencies} WHERE blocker_id = ${blockedId}
+            UNION
+            SELECT d.blocked_id FROM ${taskDependencies} d JOIN downstream ON d.blocker_id = downstream.id
+          )
+          SELECT id FROM downstream
+        )`));
+      if (cycle) throw new ConflictError('dependency_cycle', 'Dependency would create a cycle');
+
+      const dependency: TaskDependency = { tenantId, workspaceId, blockerId, blockedId, createdAt: Math.floor(Date.now() / 1000) };
+      await tx.insert(taskDependencies).values(dependency);
+      return dependency;
+    });
+  }
+
+  async unlinkDependency(blockedId: string, blockerId: string, tenantId: string) {
+    const deleted = await this.db.delete(taskDependencies)
+      .where(and(
+        eq(taskDependencies.blockedId, blockedId),
+        eq(taskDependencies.blockerId, blockerId),
+        eq(taskDependencies.tenantId, tenantId)
+      ))
+      .returning({ blockerId: taskDependencies.blockerId });
+
+    if (deleted.length === 0) throw new NotFoundError('dependency_not_found', 'Dependency not found');
+  }
+
+  async listDependencies(taskId: string, tenantId: string, workflow: WorkflowDefinition = DEFAULT_WORKFLOW) {
+    const columns = {
+      taskId: tasks.id,
+      title: tasks.title,
+      state: tasks.state,
+      open: sql<boolean>`NOT (${inArray(tasks.state, workflow.terminalStates)})`,
+    };
+
+    const blockedBy = await this.db.select(columns)
+      .from(taskDependencies)
+      .innerJoin(tasks, eq(taskDependencies.blockerId, tasks.id))
+      .where(and(eq(taskDependencies.blockedId, taskId), eq(taskDependencies.tenantId, tenantId), isNull(tasks.deletedAt)))
+      .orderBy(tasks.id);
+
+    const blocking = await this.db.select(columns)
+      .from(taskDependencies)
+      .innerJoin(tasks, eq(taskDependencies.blockedId, tasks.id))
+      .where(and(eq(taskDependencies.blockerId, taskId), eq(taskDependencies.tenantId, tenantId), isNull(tasks.deletedAt)))
+      .orderBy(tasks.id);
+
+    return { blockedBy, blocking };
+  }
+
+  async latestSeq() {
+    const [row] = await this.db.select({ seq: sql<number | null>`max(${taskEvents.seq})`.mapWith(Number) }).from(taskEvents);
+    return row?.seq ?? 0;
+  }
+
+  async workspaceEvents(workspaceId: string, tenantId: string, afterSeq: number, limit: number) {
+    return await this.db.select(EVENT_COLUMNS)
+      .from(taskEvents)
+      .innerJoin(tasks, eq(taskEvents.taskId, tasks.id))
+      .where(and(
+        eq(tasks.tenantId, tenantId),
+        eq(tasks.workspaceId, workspaceId),
+        gt(taskEvents.seq, afterSeq)
+      ))
+      .orderBy(taskEvents.seq)
+      .limit(limit);
+  }
+
+  async tenantEvents(tenantId: string, filters: EventFeedFilters) {
+    const afterSeq = filters.afterSeq ?? 0;
+    const conditions: SQL[] = [eq(tasks.tenantId, tenantId), gt(taskEvents.seq, afterSeq)];
+
+    if (filters.eventTypes?.length) conditions.push(inArray(taskEvents.eventType, filters.eventTypes));
+    if (filters.taskId) conditions.push(eq(taskEvents.taskId, filters.taskId));
+    if (filters.workspaceId) conditions.push(eq(tasks.workspaceId, filters.workspaceId));
+    if (filters.workspaceIds) conditions.push(inArray(tasks.workspaceId, filters.workspaceIds));
+
+    const data = await this.db.select(EVENT_COLUMNS)
+      .from(taskEvents)
+      .innerJoin(tasks, eq(taskEvents.taskId, tasks.id))
+      .where(and(...conditions))
+      .orderBy(taskEvents.seq)
+      .limit(filters.limit ?? DEFAULT_FEED_LIMIT);
+
+    return { data, nextAfterSeq: data.length > 0 ? data[data.length - 1].seq : afterSeq };
+  }
+
+  async undispatchedEvents(limit: number) {
+    return await this.db.select({ ...EVENT_COLUMNS, tenantId: tasks.tenantId })
+      .from(taskEvents)
+      .innerJoin(tasks, eq(taskEvents.taskId, tasks.id))
+      .where(isNull(taskEvents.dispatchedAt))
+      .orderBy(taskEvents.seq)
+      .limit(limit);
+  }
+
+  async markDispatched(eventIds: string[], now: number) {
+    if (eventIds.length === 0) return;
+    await this.db.update(taskEvents).set({ dispatchedAt: now }).where(inArray(taskEvents.id, eventIds));
+  }
+
+  async findOverdue(now: number, limit: number, terminalStates: TerminalStatesByWorkspace) {
+    return await this.db.select({ id: tasks.id, dueAt: sql<number>`${tasks.dueAt}`.mapWith(Number) })
+      .from(tasks)
+      .where(and(
+        isNull(tasks.deletedAt),
+        isNull(tasks.overdueNotifiedAt),
+        lte(tasks.dueAt, now),
+        isOpenIn(terminalStates)
+      ))
+      .limit(limit);
+  }
+
+  async findSlaBreaches(now: number, limit: number, policies: SlaPolicy[], terminalStates: TerminalStatesByWorkspace) {
+    if (policies.length === 0) return [];
+
+    // The policies come from SQLite, so they are joined in as a derived table
+    const policy = sql`jsonb_to_recordset(${JSON.stringify(policies)}::jsonb)
+      AS p(id text, "tenantId" text, "workspaceId" text, priority text, "resolveWithinSeconds" bigint)`;
+
+    return await this.db.select({
+      id: tasks.id,
+      createdAt: tasks.createdAt,
+      priority: tasks.priority,
+      policyId: sql<string>`p.id`,
+      resolveWithinSeconds: sql<number>`p."resolveWithinSeconds"`.mapWith(Number),
+    })
+      .from(tasks)
+      .innerJoin(policy, sql`p."tenantId" = ${tasks.tenantId} AND p."workspaceId" = ${tasks.workspaceId} AND p.priority = ${tasks.priority}`)
+      .where(and(
+        isNull(tasks.deletedAt),
+        isNull(tasks.slaBreachedAt),
+        sql`${tasks.createdAt} + p."resolveWithinSeconds" <= ${now}`,
+        isOpenIn(terminalStates)
+      ))
+      .limit(limit);
+  }
+
+  // The marker guards against double-reporting if two scanners race
+  async recordOverdue(taskId: string, dueAt: number, now: number) {
+    return this.transaction(async (tx) => {
+      const marked = await tx.update(tasks)
+        .set({ overdueNotifiedAt: now })
+        .where(and(eq(tasks.id, taskId), isNull(tasks.overdueNotifiedAt)))
+        .returning({ id: tasks.id });
+      if (marked.length === 0) return false;
+
+      // The scanner acts as the system
+      await this.recordNote(tx, taskId, 'TaskOverdue', null, { dueAt, detectedAt: now });
+      return true;
+    });
+  }
+
+  async recordSlaBreach(breach: SlaBreach, now: number) {
+    return this.transaction(async (tx) => {
+      const marked = await tx.update(tasks)
+        .set({ slaBreachedAt: now })
+        .where(and(eq(tasks.id, breach.id), isNull(tasks.slaBreachedAt)))
+        .returning({ id: tasks.id });
+      if (marked.length === 0) return false;
+
+      await this.recordNote(tx, breach.id, 'SlaBreached', null, {
+        policyId: breach.policyId,
+        priority: breach.priority,
+        resolveWithinSeconds: breach.resolveWithinSeconds,
+        deadline: breach.createdAt + breach.resolveWithinSeconds,
+        detectedAt: now,
+      });
+      return true;
+    });
+  }
+
+  async statesInUse(workspaceId: string, tenantId: string, states: string[]) {
+    const rows = await this.db.selectDistinct({ state: tasks.state }).from(tasks)
+      .where(and(liveInWorkspace(workspaceId, tenantId), notInArray(tasks.state, states)));
+
+    return rows.map(r => r.state);
+  }
+
+  async labelsInUse(workspaceId: string, tenantId: string, labels: string[]) {
+    const inUse: string[] = [];
+    for (const label of labels) {
+      const [row] = await this.db.select({ id: tasks.id }).from(tasks)
+        .where(and(liveInWorkspace(workspaceId, tenantId), sql`${tasks.labels} @> ${JSON.stringify([label])}::jsonb`))
+        .limit(1);
+      if (row) inUse.push(label);
+    }
+    return inUse;
+  }
+
+  async fieldsInUse(workspaceId: string, tenantId: string, fields: Map<string, string[] | null>) {
+    const inUse: string[] = [];
+    for (const [key, values] of fields) {
+      // ->> yields NULL for a missing key and for a JSON null alike, like SQLite's json_extract
+      const value = sql`${tasks.customFields} ->> ${key}`;
+      const [row] = await this.db.select({ id: tasks.id }).from(tasks)
+        .where(and(liveInWorkspace(workspaceId, tenantId), values === null ? sql`${value} IS NOT NULL` : inArray(value, values)))
+        .limit(1);
+      if (row) inUse.push(key);
+    }
+    return inUse;
+  }
+
+  async analytics(workspaceId: string, tenantId: string, range: AnalyticsRange, workflow: WorkflowDefinition = DEFAULT_WORKFLOW) {
+    return this.analyticsRepo.workspace(workspaceId, tenantId, range, workflow);
+  }
+
+  async findById(taskId: string, tenantId: string, options: { includeDeleted?: boolean } = {}) {
+    const conditions = [eq(tasks.id, taskId), eq(tasks.tenantId, tenantId)];
+    if (!options.includeDeleted) {
+      conditions.push(isNull(tasks.deletedAt));
+    }
+
+    const [row] = await this.db.select({ task: tasks, commentCount: COMMENT_COUNT })
+      .from(tasks)
+      .where(and(...conditions));
+
+    if (!row) return null;
+
+    const events = await this.db.select().from(taskEvents)
+      .where(eq(taskEvents.taskId, taskId))
+      .orderBy(sql`${taskEvents.createdAt} DESC`, sql`${taskEvents.seq} DESC`)
+      .limit(20);
+
+    return { ...row.task, commentCount: row.commentCount, timeline: events };
+  }
+
+  async exportPage(workspaceId: string, tenantId: string, options: { afterId?: string, limit: number, includeDeleted?: boolean }) {
+    const conditions = [eq(tasks.workspaceId, workspaceId), eq(tasks.tenantId, tenantId)];
+    if (!options.includeDeleted) conditions.push(isNull(tasks.deletedAt));
+    if (options.afterId !== undefined) conditions.push(gt(tasks.id, options.afterId));
+
+    const rows = await this.db.select({ task: tasks, commentCount: COMMENT_COUNT })
+      .from(tasks)
+      .where(and(...conditions))
+      .orderBy(tasks.id)
+      .limit(options.limit);
+
+    return rows.map(r => ({ ...r.task, commentCount: r.commentCount }));
+  }
+
+  async timelines(taskIds: string[]) {
+    const timelines = new Map<string, TaskEvent[]>(taskIds.map(id => [id, []]));
+    if (taskIds.length === 0) return timelines;
+
+    const events = await this.db.select().from(taskEvents)
+      .where(inArray(taskEvents.taskId, taskIds))
+      .orderBy(taskEvents.seq);
+
+    for (const event of events) timelines.get(event.taskId)!.push(event);
+    return timelines;
+  }
+
+  async workload(workspaceId: string, tenantId: string, assigneeIds: string[], states: TaskState[]) {
+    if (assigneeIds.length === 0 || states.length === 0) return new Map<string, number>();
+
+    const rows = await this.db.select({ assigneeId: tasks.assigneeId, n: count() }).from(tasks)
+      .where(and(
+        eq(tasks.workspaceId, workspaceId),
+        eq(tasks.tenantId, tenantId),
+        isNull(tasks.deletedAt),
+        inArray(tasks.assigneeId, assigneeIds),
+        inArray(tasks.state, states)
+      ))
+      .groupBy(tasks.assigneeId);
+
+    return new Map(rows.map(r => [r.assigneeId!, r.n]));
+  }
+
+  async events(taskId: string, options: { afterSeq?: number, limit?: number } = {}) {
+    const conditions = [eq(taskEvents.taskId, taskId)];
+    if (options.afterSeq !== undefined) conditions.push(gt(taskEvents.seq, options.afterSeq));
+
+    const query = this.db.select().from(taskEvents)
+      .where(and(...conditions))
+      .orderBy(taskEvents.seq);
+    return options.limit !== undefined ? await query.limit(options.limit) : await query;
+  }
+
+  async scan(options: { afterId?: string, limit: number }) {
+    const rows = await this.db.select({ task: tasks, commentCount: COMMENT_COUNT })
+      .from(tasks)
+      .where(options.afterId !== undefined ? gt(tasks.id, options.afterId) : undefined)
+      .orderBy(tasks.id)
+      .limit(options.limit);
+
+    return rows.map(r => ({ ...r.task, commentCount: r.commentCount }));
+  }
+
+  async list(workspaceId: string, tenantId: string, filters: TaskListFilters) {
+    const conditions: SQL[] = [
+      eq(tasks.workspaceId, workspaceId),
+      eq(tasks.tenantId, tenantId)
+    ];
+
+    if (!filters.includeDeleted) conditions.push(isNull(tasks.deletedAt));
+
+    if (filters.states?.length) conditions.push(inArray(tasks.state, filters.states));
+    if (filters.priorities?.length) conditions.push(inArray(tasks.priority, filters.priorities));
+    if (filters.assigneeIds?.length) conditions.push(inArray(tasks.assigneeId, filters.assigneeIds));
+    if (filters.labels?.length) conditions.push(or(...filters.labels.map(label => sql`${tasks.labels} @> ${JSON.stringify([label])}::jsonb`))!);
+    for (const [key, value] of Object.entries(filters.customFields ?? {})) {
+      conditions.push(sql`${tasks.customFields} @> ${JSON.stringify({ [key]: value })}::jsonb`);
+    }
+
+    // Date ranges (Unix seconds, inclusive)
+    if (filters.createdAfter !== undefined) conditions.push(gte(tasks.createdAt, filters.createdAfter));
+    if (filters.createdBefore !== undefined) conditions.push(lte(tasks.createdAt, filters.createdBefore));
+    if (filters.updatedAfter !== undefined) conditions.push(gte(tasks.updatedAt, filters.updatedAfter));
+    if (filters.updatedBefore !== undefined) conditions.push(lte(tasks.updatedAt, filters.updatedBefore));
+
+    if (filters.dueBefore !== undefined) conditions.push(lte(tasks.dueAt, filters.dueBefore));
+    if (filters.overdue) {
+      conditions.push(
+        lte(tasks.dueAt, filters.now ?? Math.floor(Date.now() / 1000)),
+        notInArray(tasks.state, filters.terminalStates ?? DEFAULT_WORKFLOW.terminalStates)
+      );
+    }
+
+    // Every word must start a word of the title, like the SQLite FTS prefix query
+    for (const term of (filters.search ?? '').split(/\s+/).filter(Boolean)) {
+      conditions.push(sql`${tasks.title} ~* ${'\\m' + term.replace(/[\\^$.*+?()[\]{}|]/g, '\\$&')}`);
+    }
+
+    const sort = filters.sort ?? 'created_at';
+    const order = filters.order ?? 'desc';
+    const sortExpr = SORT_EXPRESSIONS[sort];
+    const direction = order === 'desc' ? sql`DESC` : sql`ASC`;
+
+    // Keyset pagination on (sort key, id) so ties never skip or repeat rows
+    if (filters.cursor) {
+      const cursor = decodeCursor(filters.cursor, sort, order);
+      conditions.push(order === 'desc'
+        ? sql`(${sortExpr}, ${tasks.id}) < (${cursor.key}, ${cursor.id})`
+        : sql`(${sortExpr}, ${tasks.id}) > (${cursor.key}, ${cursor.id})`);
+    }
+
+    const limit = Math.min(filters.limit ?? DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT);
+
+    const rows = await this.db.select({ task: tasks, commentCount: COMMENT_COUNT, sortKey: sql<number>`${sortExpr}`.mapWith(Number) })
+      .from(tasks)
+      .where(and(...conditions))
+      .orderBy(sql`${sortExpr} ${direction}`, sql`${tasks.id} ${direction}`)
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      data: page.map(r => ({ ...r.task, commentCount: r.commentCount })),
+      nextCursor: rows.length > limit
+        ? encodeCursor({ sort, order, key: last.sortKey, id: last.task.id })
+        : null,
+    };
+  }
+}
+
+function liveInWorkspace(workspaceId: string, tenantId: string) {
+  return and(eq(tasks.workspaceId, workspaceId), eq(tasks.tenantId, tenantId), isNull(tasks.deletedAt));
+}
+
+// Not in a terminal state of the task's workspace workflow; workspaces missing from `terminalStates` use the default
+function isOpenIn(terminalStates: TerminalStatesByWorkspace) {
+  return sql`NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements_text(COALESCE(
+      ${JSON.stringify(terminalStates)}::jsonb -> (${tasks.tenantId} || '/' || ${tasks.workspaceId}),
+      ${JSON.stringify(DEFAULT_WORKFLOW.terminalStates)}::jsonb
+    )) AS terminal(state)
+    WHERE terminal.state = ${tasks.state}
+  )`;
+}
+
+const EVENT_COLUMNS = {
+  seq: sql<number>`${taskEvents.seq}`.mapWith(Number),
+  id: taskEvents.id,
+  taskId: taskEvents.taskId,
+  workspaceId: tasks.workspaceId,
+  eventType: taskEvents.eventType,
+  payload: taskEvents.payload,
+  createdAt: taskEvents.createdAt,
+};
+
+// Correlated count of live comments; count(*) is bigint, hence the cast
+const COMMENT_COUNT = sql<number>`(
+  SELECT count(*)::int FROM ${taskComments} c
+  WHERE c.task_id = ${tasks}.id AND c.deleted_at IS NULL
+)`;
+
+const SORT_EXPRESSIONS: Record<TaskSortField, SQL> = {
+  created_at: sql`${tasks.createdAt}`,
+  updated_at: sql`${tasks.updatedAt}`,
+  priority: sql`CASE ${tasks.priority} WHEN 'HIGH' THEN 3 WHEN 'MEDIUM' THEN 2 ELSE 1 END`,
+};
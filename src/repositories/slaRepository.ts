@@ -0,0 +1,128 @@
+import { db } from '../db';
+import { outboxTransaction } from '../events/outboxNotifier';
+import { tasks, slaPolicies } from '../db/schema';
+import { eq, and, isNull, lte, sql } from 'drizzle-orm';
+import { TaskPriority } from '../domain/task';
+import { isOpenTask } from './workflowRepository';
+import { recordNoteInTx } from './eventRepository';
+import { SlaBreach } from './taskStore';
+import { NotFoundError } from '../domain/errors';
+import { v4 as uuidv4 } from 'uuid';
+
+export type StoredSlaPolicy = typeof slaPolicies.$inferSelect;
+
+export class SlaRepository {
+
+  async listPolicies(workspaceId: string, tenantId: string) {
+    return await db.select().from(slaPolicies)
+      .where(and(eq(slaPolicies.workspaceId, workspaceId), eq(slaPolicies.tenantId, tenantId)))
+      .all();
+  }
+
+  // Every workspace's policies, for the deadline scanner
+  async listAllPolicies() {
+    return await db.select().from(slaPolicies).all();
+  }
+
+  async upsertPolicy(workspaceId: string, tenantId: string, priority: TaskPriority, resolveWithinSeconds: number) {
+    const now = Math.floor(Date.now() / 1000);
+    const policy = { id: uuidv4(), tenantId, workspaceId, priority, resolveWithinSeconds, createdAt: now, updatedAt: now };
+
+    return db.insert(slaPolicies).values(policy)
+      .onConflictDoUpdate({
+        target: [slaPolicies.tenantId, slaPolicies.workspaceId, slaPolicies.priority],
+        set: { resolveWithinSeconds, updatedAt: now },
+      })
+      .returning()
+      .get();
+  }
+
+  async deletePolicy(workspaceId: string, tenantId: string, priority: TaskPriority) {
+    const result = db.delete(slaPolicies)
+      .where(and(
+        eq(slaPolicies.workspaceId, workspaceId),
+        eq(slaPolicies.tenantId, tenantId),
+        eq(slaPolicies.priority, priority)
+      ))
+      .run();
+
+    if (result.changes === 0) throw new NotFoundError('sla_policy_not_found', 'SLA policy not found');
+  }
+
+  // Open tasks whose due_at has passed and that have not been reported yet
+  async findOverdue(now: number, limit: number) {
+    // lte() never matches a NULL due_at
+    return await db.select({ id: tasks.id, dueAt: sql<number>`${tasks.dueAt}` })
+      .from(tasks)
+      .where(and(
+        isNull(tasks.deletedAt),
+        isNull(tasks.overdueNotifiedAt),
+        lte(tasks.dueAt, now),
+        isOpenTask
+      ))
+      .limit(limit)
+      .all();
+  }
+
+  // Open tasks older than their workspace's SLA for their priority, not reported yet
+  async findSlaBreaches(now: number, limit: number) {
+    return await db.select({
+      id: tasks.id,
+      createdAt: tasks.createdAt,
+      priority: tasks.priority,
+      policyId: slaPolicies.id,
+      resolveWithinSeconds: slaPolicies.resolveWithinSeconds,
+    })
+      .from(tasks)
+      .innerJoin(slaPolicies, and(
+        eq(slaPolicies.tenantId, tasks.tenantId),
+        eq(slaPolicies.workspaceId, tasks.workspaceId),
+        eq(slaPolicies.priority, tasks.priority)
+      ))
+      .where(and(
+        isNull(tasks.deletedAt),
+        isNull(tasks.slaBreachedAt),
+        sql`${tasks.createdAt} + ${slaPolicies.resolveWithinSeconds} <= ${now}`,
+        isOpenTask
+      ))
+      .limit(limit)
+      .all();
+  }
+
+  async recordOverdue(taskId: string, dueAt: number, now: number) {
+    return outboxTransaction((tx) => {
+      // The marker guards against double-reporting if two scanners race
+      const result = tx.update(tasks)
+        .set({ overdueNotifiedAt: now })
+        .where(and(eq(tasks.id, taskId), isNull(tasks.overdueNotifiedAt)))
+        .run();
+      if (result.changes === 0) return false;
+
+      // Outbox; the scanner acts as the system
+      recordNoteInTx(tx, taskId, 'TaskOverdue', null, { dueAt, detectedAt: now });
+
+      return true;
+    });
+  }
+
+  async recordSlaBreach(breach: SlaBreach, now: number) {
+    return outboxTransaction((tx) => {
+      const result = tx.update(tasks)
+        .set({ slaBreachedAt: now })
+        .where(and(eq(tasks.id, breach.id), isNull(tasks.slaBreachedAt)))
+        .run();
+      if (result.changes === 0) return false;
+
+      // Outbox
+      recordNoteInTx(tx, breach.id, 'SlaBreached', null, {
+        policyId: breach.policyId,
+        priority: breach.priority,
+        resolveWithinSeconds: breach.resolveWithinSeconds,
+        deadline: breach.createdAt + breach.resolveWithinSeconds,
+        detectedAt: now,
+      });
+
+      return true;
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import { db } from '../db';
+import { taskFieldDefinitions } from '../db/schema';
+import { eq, and } from 'drizzle-orm';
+import { EMPTY_TASK_FIELDS, TaskFieldsDefinition } from '../domain/fields';
+import { NotFoundError } from '../domain/errors';
+import { v4 as uuidv4 } from 'uuid';
+
+export class TaskFieldsRepository {
+
+  async findByWorkspace(workspaceId: string, tenantId: string) {
+    const row = await db.select().from(taskFieldDefinitions)
+      .where(and(eq(taskFieldDefinitions.workspaceId, workspaceId), eq(taskFieldDefinitions.tenantId, tenantId)))
+      .get();
+
+    return row ?? null;
+  }
+
+  // Stored definitions for the workspace; none means no labels and no custom fields
+  async resolve(workspaceId: string, tenantId: string): Promise<TaskFieldsDefinition> {
+    const row = await this.findByWorkspace(workspaceId, tenantId);
+    return row ? row.definition : EMPTY_TASK_FIELDS;
+  }
+
+  async upsert(workspaceId: string, tenantId: string, definition: TaskFieldsDefinition) {
+    return db.transaction((tx) => {
+      const existing = tx.select().from(taskFieldDefinitions)
+        .where(and(eq(taskFieldDefinitions.workspaceId, workspaceId), eq(taskFieldDefinitions.tenantId, tenantId)))
+        .get();
+
+      const now = Math.floor(Date.now() / 1000);
+
+      if (existing) {
+        const updated = { ...existing, definition, version: existing.version + 1, updatedAt: now };
+        tx.update(taskFieldDefinitions)
+          .set({ definition, version: updated.version, updatedAt: now })
+          .where(eq(taskFieldDefinitions.id, existing.id))
+          .run();
+        return updated;
+      }
+
+      const created = { id: uuidv4(), tenantId, workspaceId, definition, version: 1, createdAt: now, updatedAt: now };
+      tx.insert(taskFieldDefinitions).values(created).run();
+      return created;
+    });
+  }
+
+  async delete(workspaceId: string, tenantId: string) {
+    const result = db.delete(taskFieldDefinitions)
+      .where(and(eq(taskFieldDefinitions.workspaceId, workspaceId), eq(taskFieldDefinitions.tenantId, tenantId)))
+      .run();
+
+    if (result.changes === 0) throw new NotFoundError('task_fields_not_found', 'Workspace has no label or custom field definitions');
+  }
+}
@@ -1,158 +1,810 @@
-import { db } from '../db';
-import { tasks, taskEvents, idempotencyKeys } from '../db/schema';
-import { eq, and, sql } from 'drizzle-orm';
-import { Task, TaskDomain, TaskState, UserRole } from '../domain/task';
+import { db, Tx } from '../db';
+import { outboxTransaction } from '../events/outboxNotifier';
+import { tasks, taskEvents, taskComments, taskHandoffs } from '../db/schema';
+import { eq, and, count, gt, gte, inArray, isNull, lte, notInArray, sql, SQL } from 'drizzle-orm';
+import { toMatchQuery } from '../db/search';
+import { Task, TaskDomain, TaskEditableFields, TaskState } from '../domain/task';
+import { TaskHistory } from '../domain/history';
+import { TaskFieldsDomain } from '../domain/fields';
+import { DEFAULT_WORKFLOW, WorkflowDefinition, WorkflowDomain } from '../domain/workflow';
+import { isOpenTask } from './workflowRepository';
+import { DependencyRepository, openBlockersInTx, unblockedDependentsInTx, dependentsBlockedOnlyByInTx } from './dependencyRepository';
+import { CommentRepository } from './commentRepository';
+import { EventRepository, recordNoteInTx } from './eventRepository';
+import { SlaRepository } from './slaRepository';
+import { AnalyticsRepository } from './analyticsRepository';
+import { BadRequestError, BlockedTaskError, ConflictError, ForbiddenError, QuotaExceededError, TaskNotFoundError, VersionConflictError } from '../domain/errors';
+import {
+  TaskStore, NewTask, TaskWriteResult, TaskEvent, BulkOperation, BulkContext, BulkItemResult, TaskListFilters, TaskSortField, OpenTaskQuota,
+  TaskHandoff, HandoffStatus, HANDOFF_RESOLUTION_EVENTS, EventFeedFilters, SlaBreach, AnalyticsRange, bulkStatusFor, rolledBackResults, encodeCursor, decodeCursor, IMPORT_BATCH_SIZE, DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT,
+} from './taskStore';
 import { v4 as uuidv4 } from 'uuid';
 
-export class TaskRepository {
+type TaskRow = typeof tasks.$inferSelect;
 
-  async create(task: Omit<Task, 'createdAt' | 'updatedAt' | 'version' | 'id'> & { id: string }, idempotencyKey?: string) {
-    return db.transaction((tx) => {
-      // 1. Idempotency Check
-      if (idempotencyKey) {
-        const existing = tx.select().from(idempotencyKeys).where(eq(idempotencyKeys.key, idempotencyKey)).get();
-        if (existing) {
-          return existing.responsePayload;
-        }
+const comments = new CommentRepository();
+const dependencies = new DependencyRepository();
+const changelog = new EventRepository();
+const deadlines = new SlaRepository();
+const analytics = new AnalyticsRepository();
+
+function liveInWorkspace(workspaceId: string, tenantId: string) {
+  return and(eq(tasks.workspaceId, workspaceId), eq(tasks.tenantId, tenantId), isNull(tasks.deletedAt));
+}
+
+// SQLite implementation of TaskStore; writes run in synchronous better-sqlite3 transactions
+export class TaskRepository implements TaskStore {
+
+  async create(task: NewTask, actorId: string | null = null, quota: OpenTaskQuota | null = null) {
+    return outboxTransaction((tx) => {
+      this.checkQuotaInTx(tx, task, quota, 1);
+      return this.createInTx(tx, task, actorId);
+    });
+  }
+
+  async assign(taskId: string, assigneeId: string, currentVersion: number, workflow: WorkflowDefinition = DEFAULT_WORKFLOW, actorId: string | null = null, details: object = {}) {
+    return outboxTransaction((tx) => this.assignInTx(tx, taskId, assigneeId, currentVersion, workflow, actorId, details));
+  }
+
+  async transition(taskId: string, toState: TaskState, currentVersion: number, workflow: WorkflowDefinition = DEFAULT_WORKFLOW, actorId: string | null = null) {
+    return outboxTransaction((tx) => this.transitionInTx(tx, taskId, toState, currentVersion, workflow, actorId));
+  }
+
+  async update(taskId: string, changes: Partial<TaskEditableFields>, currentVersion: number, actorId: string | null = null) {
+    return outboxTransaction((tx) => this.updateInTx(tx, taskId, changes, currentVersion, actorId));
+  }
+
+  async unassign(taskId: string, currentVersion: number, workflow: WorkflowDefinition = DEFAULT_WORKFLOW, actorId: string | null = null) {
+    return outboxTransaction((tx) => {
+      const task = this.loadForWriteInTx(tx, taskId, currentVersion);
+      if (WorkflowDomain.isTerminal(workflow, task.state)) {
+        throw new ConflictError('task_terminal', 'Task in a terminal state cannot be unassigned');
       }
+      if (task.assigneeId === null) throw new ConflictError('task_unassigned', 'Task has no assignee');
 
-      // 2. Insert Task
-      const newTask = {
-        ...task,
-        version: 1,
-      };
+      return this.writeChangeInTx(tx, task, { assigneeId: null }, 'TaskUnassigned', actorId, { previousAssigneeId: task.assigneeId });
+    });
+  }
 
-      tx.insert(tasks).values(newTask).run();
+  async release(taskId: string, currentVersion: number, workflow: WorkflowDefinition = DEFAULT_WORKFLOW, actorId: string | null = null) {
+    return outboxTransaction((tx) => {
+      const task = this.loadForWriteInTx(tx, taskId, currentVersion);
+      if (WorkflowDomain.isTerminal(workflow, task.state)) {
+        throw new ConflictError('task_terminal', 'Task in a terminal state cannot be released');
+      }
 
-      // 3. Outbox Event
-      tx.insert(taskEvents).values({
+      const toState = workflow.initialState;
+      return this.writeChangeInTx(tx, task, { assigneeId: null, state: toState }, 'TaskReleased', actorId, {
+        previousAssigneeId: task.assigneeId, from: task.state, to: toState,
+      });
+    });
+  }
+
+  async findPendingHandoff(taskId: string) {
+    const handoff = await db.select().from(taskHandoffs)
+      .where(and(eq(taskHandoffs.taskId, taskId), eq(taskHandoffs.status, 'PENDING')))
+      .get();
+
+    return handoff ?? null;
+  }
+
+  async requestHandoff(task: Pick<Task, 'id' | 'tenantId' | 'workspaceId'>, fromUserId: string, toUserId: string, note: string | null) {
+    return outboxTransaction((tx) => {
+      const pending = tx.select().from(taskHandoffs)
+        .where(and(eq(taskHandoffs.taskId, task.id), eq(taskHandoffs.status, 'PENDING')))
+        .get();
+
+      if (pending?.fromUserId === fromUserId) throw new ConflictError('handoff_pending', 'Task already has a pending handoff');
+      if (pending) this.resolveHandoffInTx(tx, pending, 'CANCELLED', null);
+
+      const now = Math.floor(Date.now() / 1000);
+      const handoff: TaskHandoff = {
         id: uuidv4(),
+        tenantId: task.tenantId,
+        workspaceId: task.workspaceId,
         taskId: task.id,
-        eventType: 'TaskCreated',
-        payload: newTask,
-      }).run();
+        fromUserId,
+        toUserId,
+        note,
+        status: 'PENDING',
+        resolvedBy: null,
+        createdAt: now,
+        resolvedAt: null,
+      };
+      tx.insert(taskHandoffs).values(handoff).run();
 
-      const result = { task_id: task.id, state: task.state, version: 1 };
+      // Outbox
+      recordNoteInTx(tx, task.id, 'TaskHandoffRequested', fromUserId, { handoffId: handoff.id, fromUserId, toUserId, note }, now);
+
+      return handoff;
+    });
+  }
 
-      // 4. Save Idempotency Key
-      if (idempotencyKey) {
-        tx.insert(idempotencyKeys).values({
-          key: idempotencyKey,
-          responsePayload: result,
-        }).run();
+  async acceptHandoff(handoff: TaskHandoff, currentVersion: number, workflow: WorkflowDefinition = DEFAULT_WORKFLOW, actorId: string | null = null) {
+    return outboxTransaction((tx) => {
+      const task = this.loadForWriteInTx(tx, handoff.taskId, currentVersion);
+      if (WorkflowDomain.isTerminal(workflow, task.state)) {
+        throw new ConflictError('task_terminal', 'Task in a terminal state cannot be assigned');
       }
+      if (task.assigneeId !== handoff.fromUserId) throw new ConflictError('handoff_stale', 'Task is no longer held by the agent handing it off');
 
-      return result;
+      this.resolveHandoffInTx(tx, handoff, 'ACCEPTED', actorId);
+      return this.writeChangeInTx(tx, task, { assigneeId: handoff.toUserId }, 'TaskHandedOff', actorId, {
+        handoffId: handoff.id, assigneeId: handoff.toUserId, previousAssigneeId: handoff.fromUserId,
+      });
     });
   }
 
-  async assign(taskId: string, assigneeId: string, currentVersion: number) {
-    return db.transaction((tx) => {
-      const task = tx.select().from(tasks).where(eq(tasks.id, taskId)).get();
-      if (!task) throw new Error('TaskNotFound');
+  async resolveHandoff(handoff: TaskHandoff, status: 'DECLINED' | 'CANCELLED', resolvedBy: string | null) {
+    return outboxTransaction((tx) => this.resolveHandoffInTx(tx, handoff, status, resolvedBy, resolvedBy ?? handoff.fromUserId));
+  }
+
+  private resolveHandoffInTx(tx: Tx, handoff: TaskHandoff, status: Exclude<HandoffStatus, 'PENDING'>, resolvedBy: string | null, actorId: string | null = resolvedBy): TaskHandoff {
+    const now = Math.floor(Date.now() / 1000);
+    const result = tx.update(taskHandoffs)
+      .set({ status, resolvedBy, resolvedAt: now })
+      .where(and(eq(taskHandoffs.id, handoff.id), eq(taskHandoffs.status, 'PENDING')))
+      .run();
+
+    if (result.changes === 0) throw new ConflictError('handoff_resolved', 'Handoff was already accepted, declined or cancelled');
+
+    const eventType = HANDOFF_RESOLUTION_EVENTS[status];
+    if (eventType) {
+      recordNoteInTx(tx, handoff.taskId, eventType, actorId, { handoffId: handoff.id, fromUserId: handoff.fromUserId, toUserId: handoff.toUserId }, now);
+    }
+
+    return { ...handoff, status, resolvedBy, resolvedAt: now };
+  }
+
+  async reopen(taskId: string, currentVersion: number, workflow: WorkflowDefinition = DEFAULT_WORKFLOW, actorId: string | null = null, quota: OpenTaskQuota | null = null) {
+    return outboxTransaction((tx) => {
+      const task = this.loadForWriteInTx(tx, taskId, currentVersion);
+      if (!WorkflowDomain.isTerminal(workflow, task.state)) {
+        throw new ConflictError('task_not_terminal', 'Only a task in a terminal state can be reopened');
+      }
+      this.checkQuotaInTx(tx, task, quota, 1);
+
+      const toState = workflow.initialState;
+      return this.writeChangeInTx(tx, task, { state: toState }, 'TaskReopened', actorId, { from: task.state, to: toState });
+    });
+  }
+
+  // The live task a write expects to find at `currentVersion`
+  private loadForWriteInTx(tx: Tx, taskId: string, currentVersion: number): TaskRow {
+    const task = tx.select().from(tasks).where(and(eq(tasks.id, taskId), isNull(tasks.deletedAt))).get();
+    if (!task) throw new TaskNotFoundError();
+
+    if (task.version !== currentVersion) throw new VersionConflictError(task.version, task.state);
+    return task;
+  }
+
+  // Writes `changes` as the next version and records them as one `eventType` event
+  private writeChangeInTx(tx: Tx, task: TaskRow, changes: Partial<Pick<Task, 'state' | 'assigneeId'>>, eventType: string, actorId: string | null, extra: object): TaskWriteResult {
+    const now = Math.floor(Date.now() / 1000);
+    const nextVersion = task.version + 1;
+    tx.update(tasks)
+      .set({ ...changes, version: nextVersion, updatedAt: now })
+      .where(and(eq(tasks.id, task.id), eq(tasks.version, task.version)))
+      .run();
+
+    // Outbox
+    const after = { ...task, ...changes, version: nextVersion, updatedAt: now };
+    tx.insert(taskEvents).values({
+      id: uuidv4(),
+      taskId: task.id,
+      eventType,
+      payload: TaskHistory.change(task, after, actorId, extra),
+      createdAt: now,
+    }).run();
+
+    return { task_id: task.id, state: after.state, version: nextVersion };
+  }
+
+  // Writers are serialized, so the count stays true until the transaction commits
+  private checkQuotaInTx(tx: Tx, task: Pick<NewTask, 'tenantId' | 'workspaceId'>, quota: OpenTaskQuota | null | undefined, adding: number) {
+    if (!quota) return;
+
+    const open = tx.select({ n: count() }).from(tasks)
+      .where(and(
+        eq(tasks.workspaceId, task.workspaceId),
+        eq(tasks.tenantId, task.tenantId),
+        isNull(tasks.deletedAt),
+        notInArray(tasks.state, quota.terminalStates)
+      ))
+      .get()!.n;
+
+    if (open + adding > quota.maxOpenTasks) throw new QuotaExceededError('open_tasks_per_workspace', quota.maxOpenTasks);
+  }
+
+  // The *InTx methods hold the write logic so several can share one transaction (see bulk)
+  private createInTx(tx: Tx, { assignment, ...task }: NewTask, actorId: string | null): TaskWriteResult {
+    // 1. Insert Task
+    const now = Math.floor(Date.now() / 1000);
+    const newTask: Task = {
+      ...task,
+      labels: task.labels ?? [],
+      customFields: task.customFields ?? {},
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+      deletedAt: null,
+    };
+
+    tx.insert(tasks).values(newTask).run();
+
+    // 2. Outbox Event
+    tx.insert(taskEvents).values({
+      id: uuidv4(),
+      taskId: task.id,
+      eventType: 'TaskCreated',
+      payload: TaskHistory.change(null, newTask, actorId, newTask),
+      createdAt: now,
+    }).run();
+
+    // 3. Auto-assignment, as its own version
+    if (assignment) {
+      return this.writeChangeInTx(tx, this.loadForWriteInTx(tx, task.id, 1), { assigneeId: assignment.assigneeId }, 'TaskAssigned', actorId, {
+        rule: assignment.rule, assigneeId: assignment.assigneeId, previousAssigneeId: null,
+      });
+    }
+
+    return { task_id: task.id, state: task.state, version: 1 };
+  }
+
+  private assignInTx(tx: Tx, taskId: string, assigneeId: string, currentVersion: number, workflow: WorkflowDefinition, actorId: string | null, details: object = {}) {
+    const task = tx.select().from(tasks).where(and(eq(tasks.id, taskId), isNull(tasks.deletedAt))).get();
+    if (!task) throw new TaskNotFoundError();
 
-      if (task.version !== currentVersion) throw new Error('VersionMismatch');
+    if (task.version !== currentVersion) throw new VersionConflictError(task.version, task.state);
 
-      if (task.state === 'DONE' || task.state === 'CANCELLED') {
-        throw new Error('InvalidState');
+    if (WorkflowDomain.isTerminal(workflow, task.state)) {
+      throw new ConflictError('task_terminal', 'Task in a terminal state cannot be assigned');
+    }
+
+    // Update
+    const now = Math.floor(Date.now() / 1000);
+    const nextVersion = currentVersion + 1;
+    tx.update(tasks)
+      .set({
+        assigneeId,
+        version: nextVersion,
+        updatedAt: now
+      })
+      .where(and(eq(tasks.id, taskId), eq(tasks.version, currentVersion)))
+      .run();
+
+    // Outbox
+    const after = { ...task, assigneeId, version: nextVersion, updatedAt: now };
+    tx.insert(taskEvents).values({
+      id: uuidv4(),
+      taskId,
+      eventType: 'TaskAssigned',
+      payload: TaskHistory.change(task, after, actorId, { ...details, assigneeId, previousAssigneeId: task.assigneeId }),
+      createdAt: now,
+    }).run();
+
+    return { task_id: taskId, state: task.state, version: nextVersion };
+  }
+
+  private transitionInTx(tx: Tx, taskId: string, toState: TaskState, currentVersion: number, workflow: WorkflowDefinition, actorId: string | null) {
+    const task = tx.select().from(tasks).where(and(eq(tasks.id, taskId), isNull(tasks.deletedAt))).get();
+    if (!task) throw new TaskNotFoundError();
+
+    if (task.version !== currentVersion) throw new VersionConflictError(task.version, task.state);
+
+    // Checked inside the transaction so a blocker cannot reopen concurrently
+    if (TaskDomain.requiresUnblocked(toState, workflow)) {
+      const blockers = openBlockersInTx(tx, taskId);
+      if (blockers.length > 0) throw new BlockedTaskError(blockers);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const nextVersion = currentVersion + 1;
+    tx.update(tasks)
+      .set({
+        state: toState,
+        version: nextVersion,
+        updatedAt: now
+      })
+      .where(and(eq(tasks.id, taskId), eq(tasks.version, currentVersion)))
+      .run();
+
+    // Outbox
+    const after = { ...task, state: toState, version: nextVersion, updatedAt: now };
+    tx.insert(taskEvents).values({
+      id: uuidv4(),
+      taskId,
+      eventType: 'TaskStateChanged',
+      payload: TaskHistory.change(task, after, actorId, { from: task.state, to: toState }),
+      createdAt: now,
+    }).run();
+
+    // Finishing (or cancelling) a blocker releases dependents with no other open blockers
+    if (WorkflowDomain.isTerminal(workflow, toState)) {
+      for (const dependentId of unblockedDependentsInTx(tx, taskId)) {
+        recordNoteInTx(tx, dependentId, 'UnblockedTask', actorId, { blockerId: taskId, blockerState: toState }, now);
       }
+    }
 
-      // Update
+    return { task_id: taskId, state: toState, version: nextVersion };
+  }
+
+  private updateInTx(tx: Tx, taskId: string, changes: Partial<TaskEditableFields>, currentVersion: number, actorId: string | null) {
+    const task = tx.select().from(tasks).where(and(eq(tasks.id, taskId), isNull(tasks.deletedAt))).get();
+    if (!task) throw new TaskNotFoundError();
+
+    if (task.version !== currentVersion) throw new VersionConflictError(task.version, task.state);
+
+    const diff = TaskDomain.diff<TaskEditableFields>(task, changes);
+
+    // Nothing actually changed: keep the version and skip the event
+    if (Object.keys(diff).length === 0) {
+      return { task_id: taskId, state: task.state, version: task.version };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const nextVersion = currentVersion + 1;
+    tx.update(tasks)
+      .set({
+        ...changes,
+        // A new due date gets its own TaskOverdue event
+        ...('dueAt' in diff ? { overdueNotifiedAt: null } : {}),
+        version: nextVersion,
+        updatedAt: now
+      })
+      .where(and(eq(tasks.id, taskId), eq(tasks.version, currentVersion)))
+      .run();
+
+    // Outbox
+    const after = { ...task, ...TaskDomain.applyDiff(diff), version: nextVersion, updatedAt: now };
+    tx.insert(taskEvents).values({
+      id: uuidv4(),
+      taskId,
+      eventType: 'TaskUpdated',
+      payload: TaskHistory.change(task, after, actorId, { changes: diff }),
+      createdAt: now,
+    }).run();
+
+    return { task_id: taskId, state: task.state, version: nextVersion };
+  }
+
+  // Open blockers are judged by the stored workflows here, so the one passed in goes unused
+  async delete(taskId: string, currentVersion: number, _workflow: WorkflowDefinition = DEFAULT_WORKFLOW, actorId: string | null = null) {
+    return outboxTransaction((tx) => {
+      const task = tx.select().from(tasks).where(and(eq(tasks.id, taskId), isNull(tasks.deletedAt))).get();
+      if (!task) throw new TaskNotFoundError();
+
+      if (task.version !== currentVersion) throw new VersionConflictError(task.version, task.state);
+
+      // Taken before the delete: once it is gone, these dependents have no open blocker left
+      const released = dependentsBlockedOnlyByInTx(tx, taskId);
+
+      const now = Math.floor(Date.now() / 1000);
       const nextVersion = currentVersion + 1;
       tx.update(tasks)
         .set({
-          assigneeId,
+          deletedAt: now,
           version: nextVersion,
-          updatedAt: Math.floor(Date.now() / 1000)
+          updatedAt: now
         })
         .where(and(eq(tasks.id, taskId), eq(tasks.version, currentVersion)))
         .run();
 
       // Outbox
+      const after = { ...task, deletedAt: now, version: nextVersion, updatedAt: now };
       tx.insert(taskEvents).values({
         id: uuidv4(),
         taskId,
-        eventType: 'TaskAssigned',
-        payload: { assigneeId },
+        eventType: 'TaskDeleted',
+        payload: TaskHistory.change(task, after, actorId, { changes: { deletedAt: { before: null, after: now } } }),
+        createdAt: now,
       }).run();
 
+      for (const dependentId of released) {
+        recordNoteInTx(tx, dependentId, 'UnblockedTask', actorId, { blockerId: taskId, blockerState: task.state, blockerDeleted: true }, now);
+      }
+
       return { task_id: taskId, state: task.state, version: nextVersion };
     });
   }
 
-  async transition(taskId: string, toState: TaskState, currentVersion: number) {
-    return db.transaction((tx) => {
-        const task = tx.select().from(tasks).where(eq(tasks.id, taskId)).get();
-        if (!task) throw new Error('TaskNotFound');
-
-        if (task.version !== currentVersion) throw new Error('VersionMismatch');
-
-        const nextVersion = currentVersion + 1;
-        tx.update(tasks)
-          .set({
-            state: toState,
-            version: nextVersion,
-            updatedAt: Math.floor(Date.now() / 1000)
-          })
-          .where(and(eq(tasks.id, taskId), eq(tasks.version, currentVersion)))
-          .run();
-
-        // Outbox
-        tx.insert(taskEvents).values({
-          id: uuidv4(),
-          taskId,
-          eventType: 'TaskStateChanged',
-          payload: { from: task.state, to: toState },
-        }).run();
-
-        return { task_id: taskId, state: toState, version: nextVersion };
+  /**
+   * Applies a batch of operations with the same rules as the single-task
+   * endpoints. Atomic mode runs everything in one transaction and rolls back
+   * on the first failure; best-effort mode commits each operation on its own.
+   */
+  async bulk(operations: BulkOperation[], ctx: BulkContext, mode: 'atomic' | 'best_effort') {
+    const results: BulkItemResult[] = [];
+
+    if (mode === 'best_effort') {
+      operations.forEach((op, index) => {
+        try {
+          const result = outboxTransaction((tx) => this.applyInTx(tx, op, ctx));
+          results.push({ index, status: 'ok', ...result });
+        } catch (e: any) {
+          results.push({ index, status: bulkStatusFor(e), error: e.message });
+        }
+      });
+      return { committed: true, results };
+    }
+
+    try {
+      outboxTransaction((tx) => {
+        operations.forEach((op, index) => {
+          try {
+            results.push({ index, status: 'ok', ...this.applyInTx(tx, op, ctx) });
+          } catch (e: any) {
+            results.push({ index, status: bulkStatusFor(e), error: e.message });
+            throw new Error('BulkAborted');
+          }
+        });
       });
+      return { committed: true, results };
+    } catch (e: any) {
+      if (e.message !== 'BulkAborted') throw e;
+      return { committed: false, results: rolledBackResults(operations, results) };
+    }
+  }
+
+  /**
+   * Creates pre-validated tasks in transactions of `batchSize`, each task
+   * with its TaskCreated event. Earlier batches stay committed if a later one fails.
+   */
+  async importTasks(newTasks: NewTask[], actorId: string | null = null, quota: OpenTaskQuota | null = null, batchSize = IMPORT_BATCH_SIZE) {
+    const results: TaskWriteResult[] = [];
+    for (let i = 0; i < newTasks.length; i += batchSize) {
+      const batch = newTasks.slice(i, i + batchSize);
+      results.push(...outboxTransaction((tx) => {
+        this.checkQuotaInTx(tx, batch[0], quota, newTasks.length - i);
+        return batch.map(task => this.createInTx(tx, task, actorId));
+      }));
+    }
+    return results;
   }
 
-  async findById(taskId: string, tenantId: string) {
-    const task = await db.select().from(tasks)
-      .where(and(eq(tasks.id, taskId), eq(tasks.tenantId, tenantId)))
+  private applyInTx(tx: Tx, op: BulkOperation, ctx: BulkContext): TaskWriteResult {
+    if (op.op === 'create') {
+      this.checkQuotaInTx(tx, ctx, ctx.quota, 1);
+      return this.createInTx(tx, {
+        id: uuidv4(),
+        tenantId: ctx.tenantId,
+        workspaceId: ctx.workspaceId,
+        title: op.title,
+        priority: op.priority,
+        state: ctx.workflow.initialState,
+        assigneeId: null,
+        dueAt: op.dueAt,
+        labels: op.labels,
+        customFields: op.customFields,
+        assignment: op.assignment,
+      }, ctx.userId);
+    }
+
+    // Same tenant/workspace isolation as the single-task endpoints
+    const task = tx.select().from(tasks)
+      .where(and(
+        eq(tasks.id, op.taskId),
+        eq(tasks.tenantId, ctx.tenantId),
+        eq(tasks.workspaceId, ctx.workspaceId),
+        isNull(tasks.deletedAt)
+      ))
       .get();
+    if (!task) throw new TaskNotFoundError();
+
+    switch (op.op) {
+      case 'assign':
+        if (ctx.role !== 'manager') throw new ForbiddenError('Only manager can assign tasks');
+        if (!ctx.memberIds.has(op.assigneeId)) throw new BadRequestError('invalid_assignee', 'Assignee is not a member of this workspace');
+        return this.assignInTx(tx, op.taskId, op.assigneeId, op.version, ctx.workflow, ctx.userId);
+
+      case 'transition': {
+        const isValid = ctx.workflow.states.includes(op.toState) && TaskDomain.validateTransition(
+          task.state,
+          op.toState,
+          ctx.role,
+          task.assigneeId,
+          ctx.userId,
+          ctx.workflow
+        );
+        if (!isValid) throw new ConflictError('invalid_transition', 'Invalid transition or unauthorized');
+        return this.transitionInTx(tx, op.taskId, op.toState, op.version, ctx.workflow, ctx.userId);
+      }
+
+      case 'update': {
+        if (!TaskDomain.canUpdate(ctx.role, task.assigneeId, ctx.userId)) throw new ForbiddenError('Only manager or the assignee can update tasks');
+        const changes = op.customFieldChanges
+          ? { ...op.changes, customFields: TaskFieldsDomain.mergeValues(task.customFields, op.customFieldChanges) }
+          : op.changes;
+        return this.updateInTx(tx, op.taskId, changes, op.version, ctx.userId);
+      }
+    }
+  }
+
+  // Comments, dependencies, the changelog, deadlines and analytics keep their SQLite repositories
+
+  async createComment(taskId: string, authorId: string, body: string) {
+    return comments.create(taskId, authorId, body);
+  }
+
+  async findComment(commentId: string, taskId: string) {
+    return comments.findById(commentId, taskId);
+  }
+
+  async updateComment(commentId: string, taskId: string, body: string, actorId: string | null = null) {
+    return comments.update(commentId, taskId, body, actorId);
+  }
+
+  async deleteComment(commentId: string, taskId: string, actorId: string | null = null) {
+    return comments.delete(commentId, taskId, actorId);
+  }
+
+  async listComments(taskId: string, options: { limit?: number, cursor?: string }) {
+    return comments.list(taskId, options);
+  }
+
+  async linkDependency(blockedId: string, blockerId: string, tenantId: string, workspaceId: string) {
+    return dependencies.link(blockedId, blockerId, tenantId, workspaceId);
+  }
+
+  async unlinkDependency(blockedId: string, blockerId: string, tenantId: string) {
+    return dependencies.unlink(blockedId, blockerId, tenantId);
+  }
+
+  // Open-ness comes from the stored workflows, so `workflow` is not needed
+  async listDependencies(taskId: string, tenantId: string) {
+    return dependencies.list(taskId, tenantId);
+  }
+
+  async latestSeq() {
+    return changelog.latestSeq();
+  }
 
-    if (!task) return null;
+  async workspaceEvents(workspaceId: string, tenantId: string, afterSeq: number, limit: number) {
+    return changelog.listForWorkspace(workspaceId, tenantId, afterSeq, limit);
+  }
+
+  async tenantEvents(tenantId: string, filters: EventFeedFilters) {
+    return changelog.listForTenant(tenantId, filters);
+  }
+
+  async undispatchedEvents(limit: number) {
+    return changelog.listUndispatched(limit);
+  }
+
+  async markDispatched(eventIds: string[], now: number) {
+    return changelog.markDispatched(eventIds, now);
+  }
+
+  // Workflows and SLA policies are joined in SQL, so `terminalStates` and `policies` are not needed
+  async findOverdue(now: number, limit: number) {
+    return deadlines.findOverdue(now, limit);
+  }
+
+  async findSlaBreaches(now: number, limit: number) {
+    return deadlines.findSlaBreaches(now, limit);
+  }
+
+  async recordOverdue(taskId: string, dueAt: number, now: number) {
+    return deadlines.recordOverdue(taskId, dueAt, now);
+  }
+
+  async recordSlaBreach(breach: SlaBreach, now: number) {
+    return deadlines.recordSlaBreach(breach, now);
+  }
+
+  async analytics(workspaceId: string, tenantId: string, range: AnalyticsRange) {
+    return analytics.workspace(workspaceId, tenantId, range);
+  }
+
+  async statesInUse(workspaceId: string, tenantId: string, states: string[]) {
+    const rows = await db.selectDistinct({ state: tasks.state }).from(tasks)
+      .where(and(liveInWorkspace(workspaceId, tenantId), notInArray(tasks.state, states)))
+      .all();
+
+    return rows.map(r => r.state);
+  }
+
+  async labelsInUse(workspaceId: string, tenantId: string, labels: string[]) {
+    if (labels.length === 0) return [];
+
+    const rows = await db.selectDistinct({ label: sql<string>`l.value` })
+      .from(sql`${tasks}, json_each(${tasks.labels}) l`)
+      .where(and(liveInWorkspace(workspaceId, tenantId), inArray(sql`l.value`, labels)))
+      .all();
+
+    return rows.map(r => r.label);
+  }
+
+  async fieldsInUse(workspaceId: string, tenantId: string, fields: Map<string, string[] | null>) {
+    return [...fields].filter(([key, values]) => {
+      const value = sql`json_extract(${tasks.customFields}, ${`$.${key}`})`;
+      return db.select({ id: tasks.id }).from(tasks)
+        .where(and(liveInWorkspace(workspaceId, tenantId), values === null ? sql`${value} IS NOT NULL` : inArray(value, values)))
+        .limit(1)
+        .get() !== undefined;
+    }).map(([key]) => key);
+  }
+
+  async findById(taskId: string, tenantId: string, options: { includeDeleted?: boolean } = {}) {
+    const conditions = [eq(tasks.id, taskId), eq(tasks.tenantId, tenantId)];
+    if (!options.includeDeleted) {
+      conditions.push(isNull(tasks.deletedAt));
+    }
+
+    const row = await db.select({ task: tasks, commentCount: COMMENT_COUNT })
+      .from(tasks)
+      .where(and(...conditions))
+      .get();
+
+    if (!row) return null;
+    const task = { ...row.task, commentCount: row.commentCount };
 
     const events = await db.select().from(taskEvents)
       .where(eq(taskEvents.taskId, taskId))
-      .orderBy(sql`${taskEvents.createdAt} DESC`)
+      .orderBy(sql`${taskEvents.createdAt} DESC`, sql`${taskEvents.seq} DESC`)
       .limit(20)
       .all();
 
     return { ...task, timeline: events };
   }
 
-  async list(workspaceId: string, tenantId: string, filters: { state?: string, assigneeId?: string, limit?: number, cursor?: string }) {
+  // One page of the workspace's tasks in id order, for exports
+  async exportPage(workspaceId: string, tenantId: string, options: { afterId?: string, limit: number, includeDeleted?: boolean }) {
+    const conditions = [eq(tasks.workspaceId, workspaceId), eq(tasks.tenantId, tenantId)];
+    if (!options.includeDeleted) conditions.push(isNull(tasks.deletedAt));
+    if (options.afterId !== undefined) conditions.push(gt(tasks.id, options.afterId));
+
+    const rows = await db.select({ task: tasks, commentCount: COMMENT_COUNT })
+      .from(tasks)
+      .where(and(...conditions))
+      .orderBy(tasks.id)
+      .limit(options.limit)
+      .all();
+
+    return rows.map(r => ({ ...r.task, commentCount: r.commentCount }));
+  }
+
+  // Full event history of each task, oldest first
+  async timelines(taskIds: string[]) {
+    const timelines = new Map<string, TaskEvent[]>(taskIds.map(id => [id, []]));
+    if (taskIds.length === 0) return timelines;
+
+    const events = await db.select().from(taskEvents)
+      .where(inArray(taskEvents.taskId, taskIds))
+      .orderBy(taskEvents.seq)
+      .all();
+
+    for (const event of events) timelines.get(event.taskId)!.push(event);
+    return timelines;
+  }
+
+  async workload(workspaceId: string, tenantId: string, assigneeIds: string[], states: TaskState[]) {
+    if (assigneeIds.length === 0 || states.length === 0) return new Map<string, number>();
+
+    const rows = await db.select({ assigneeId: tasks.assigneeId, n: count() }).from(tasks)
+      .where(and(
+        eq(tasks.workspaceId, workspaceId),
+        eq(tasks.tenantId, tenantId),
+        isNull(tasks.deletedAt),
+        inArray(tasks.assigneeId, assigneeIds),
+        inArray(tasks.state, states)
+      ))
+      .groupBy(tasks.assigneeId)
+      .all();
+
+    return new Map(rows.map(r => [r.assigneeId!, r.n]));
+  }
+
+  async events(taskId: string, options: { afterSeq?: number, limit?: number } = {}) {
+    const conditions = [eq(taskEvents.taskId, taskId)];
+    if (options.afterSeq !== undefined) conditions.push(gt(taskEvents.seq, options.afterSeq));
+
+    const query = db.select().from(taskEvents)
+      .where(and(...conditions))
+      .orderBy(taskEvents.seq);
+    return options.limit !== undefined ? query.limit(options.limit).all() : query.all();
+  }
+
+  async scan(options: { afterId?: string, limit: number }) {
+    const rows = await db.select({ task: tasks, commentCount: COMMENT_COUNT })
+      .from(tasks)
+      .where(options.afterId !== undefined ? gt(tasks.id, options.afterId) : undefined)
+      .orderBy(tasks.id)
+      .limit(options.limit)
+      .all();
+
+    return rows.map(r => ({ ...r.task, commentCount: r.commentCount }));
+  }
+
+  async list(workspaceId: string, tenantId: string, filters: TaskListFilters) {
     const conditions = [
       eq(tasks.workspaceId, workspaceId),
       eq(tasks.tenantId, tenantId)
     ];
 
-    if (filters.state) {
-      conditions.push(eq(tasks.state, filters.state as any));
+    if (!filters.includeDeleted) {
+      conditions.push(isNull(tasks.deletedAt));
+    }
+
+    if (filters.states?.length) {
+      conditions.push(inArray(tasks.state, filters.states));
+    }
+    if (filters.priorities?.length) {
+      conditions.push(inArray(tasks.priority, filters.priorities));
+    }
+    if (filters.assigneeIds?.length) {
+      conditions.push(inArray(tasks.assigneeId, filters.assigneeIds));
+    }
+    if (filters.labels?.length) {
+      conditions.push(sql`EXISTS (SELECT 1 FROM json_each(${tasks.labels}) l WHERE ${inArray(sql`l.value`, filters.labels)})`);
+    }
+    for (const [key, value] of Object.entries(filters.customFields ?? {})) {
+      conditions.push(sql`json_extract(${tasks.customFields}, ${`$.${key}`}) = ${value}`);
+    }
+
+    // Date ranges (Unix seconds, inclusive)
+    if (filters.createdAfter !== undefined) conditions.push(gte(tasks.createdAt, filters.createdAfter));
+    if (filters.createdBefore !== undefined) conditions.push(lte(tasks.createdAt, filters.createdBefore));
+    if (filters.updatedAfter !== undefined) conditions.push(gte(tasks.updatedAt, filters.updatedAfter));
+    if (filters.updatedBefore !== undefined) conditions.push(lte(tasks.updatedAt, filters.updatedBefore));
+
+    if (filters.dueBefore !== undefined) conditions.push(lte(tasks.dueAt, filters.dueBefore));
+    if (filters.overdue) {
+      conditions.push(lte(tasks.dueAt, filters.now ?? Math.floor(Date.now() / 1000)), isOpenTask);
     }
-    if (filters.assigneeId) {
-      conditions.push(eq(tasks.assigneeId, filters.assigneeId));
+
+    // Title search through the FTS5 index
+    if (filters.search) {
+      const match = toMatchQuery(filters.search);
+      if (match) {
+        conditions.push(sql`${tasks}.rowid IN (SELECT rowid FROM tasks_fts WHERE tasks_fts MATCH ${match})`);
+      }
     }
 
-    // Cursor-based pagination (using createdAt as cursor - assuming Unix seconds)
+    const sort = filters.sort ?? 'created_at';
+    const order = filters.order ?? 'desc';
+    const sortExpr = SORT_EXPRESSIONS[sort];
+    const direction = order === 'desc' ? sql`DESC` : sql`ASC`;
+
+    // Keyset pagination on (sort key, id) so ties never skip or repeat rows
     if (filters.cursor) {
-      const cursorTimestamp = parseInt(filters.cursor);
-      if (!isNaN(cursorTimestamp)) {
-        conditions.push(sql`${tasks.createdAt} < ${cursorTimestamp}`);
-      }
+      const cursor = decodeCursor(filters.cursor, sort, order);
+
+      conditions.push(order === 'desc'
+        ? sql`(${sortExpr}, ${tasks.id}) < (${cursor.key}, ${cursor.id})`
+        : sql`(${sortExpr}, ${tasks.id}) > (${cursor.key}, ${cursor.id})`);
     }
 
-    const limit = filters.limit || 20;
+    const limit = Math.min(filters.limit ?? DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT);
 
-    return await db.select()
+    const rows = await db.select({ task: tasks, commentCount: COMMENT_COUNT, sortKey: sql<number>`${sortExpr}` })
       .from(tasks)
       .where(and(...conditions))
-      .orderBy(sql`${tasks.createdAt} DESC`)
-      .limit(limit)
+      .orderBy(sql`${sortExpr} ${direction}`, sql`${tasks.id} ${direction}`)
+      .limit(limit + 1)
       .all();
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      data: page.map(r => ({ ...r.task, commentCount: r.commentCount })),
+      nextCursor: rows.length > limit
+        ? encodeCursor({ sort, order, key: last.sortKey, id: last.task.id })
+        : null,
+    };
   }
 }
+
+// Correlated count of live comments, selected alongside each task row.
+// Columns are spelled out because drizzle renders them unqualified here.
+const COMMENT_COUNT = sql<number>`(
+  SELECT count(*) FROM ${taskComments} c
+  WHERE c.task_id = ${tasks}.id AND c.deleted_at IS NULL
+)`;
+
+const SORT_EXPRESSIONS: Record<TaskSortField, SQL> = {
+  created_at: sql`${tasks.createdAt}`,
+  updated_at: sql`${tasks.updatedAt}`,
+  priority: sql`CASE ${tasks.priority} WHEN 'HIGH' THEN 3 WHEN 'MEDIUM' THEN 2 ELSE 1 END`,
+};
@@ -0,0 +1,403 @@
+import { Task, TaskEditableFields, TaskPriority, TaskState, UserRole } from '../domain/task';
+import { WorkflowDefinition } from '../domain/workflow';
+import { CustomFieldValue, CustomFieldValues } from '../domain/fields';
+import { AssignmentStrategy } from '../domain/assignment';
+import { AppError, BadRequestError } from '../domain/errors';
+
+/**
+ * Persistence for tasks and their outbox events. Every write checks the
+ * caller's expected version and records its event, with before/after
+ * snapshots and the acting user, in the same transaction.
+ * See repositories/backend.ts for how an implementation is chosen.
+ */
+export interface TaskStore {
+  // actorId is the user making the change; null for the system. Every create path records `task.assignment` the same way
+  create(task: NewTask, actorId?: string | null, quota?: OpenTaskQuota | null): Promise<TaskWriteResult>;
+  // `details` are extra TaskAssigned payload fields, e.g. the assignment rule that picked the assignee
+  assign(taskId: string, assigneeId: string, currentVersion: number, workflow?: WorkflowDefinition, actorId?: string | null, details?: object): Promise<TaskWriteResult>;
+  transition(taskId: string, toState: TaskState, currentVersion: number, workflow?: WorkflowDefinition, actorId?: string | null): Promise<TaskWriteResult>;
+  update(taskId: string, changes: Partial<TaskEditableFields>, currentVersion: number, actorId?: string | null): Promise<TaskWriteResult>;
+  // Clears the assignee; the task keeps its state (TaskUnassigned)
+  unassign(taskId: string, currentVersion: number, workflow?: WorkflowDefinition, actorId?: string | null): Promise<TaskWriteResult>;
+  // Back to the workflow's initial state without an assignee (TaskReleased)
+  release(taskId: string, currentVersion: number, workflow?: WorkflowDefinition, actorId?: string | null): Promise<TaskWriteResult>;
+  // From a terminal state back to the initial one, keeping the assignee (TaskReopened); the task counts against the quota again
+  reopen(taskId: string, currentVersion: number, workflow?: WorkflowDefinition, actorId?: string | null, quota?: OpenTaskQuota | null): Promise<TaskWriteResult>;
+  // Dependents it was the last open blocker of get UnblockedTask
+  delete(taskId: string, currentVersion: number, workflow?: WorkflowDefinition, actorId?: string | null): Promise<TaskWriteResult>;
+  bulk(operations: BulkOperation[], ctx: BulkContext, mode: 'atomic' | 'best_effort'): Promise<{ committed: boolean, results: BulkItemResult[] }>;
+  // Each batch is checked against the quota as a whole, the first one for the entire import
+  importTasks(newTasks: NewTask[], actorId?: string | null, quota?: OpenTaskQuota | null, batchSize?: number): Promise<TaskWriteResult[]>;
+
+  // Handoffs: the assigned agent asks to pass a task on and a manager decides
+  findPendingHandoff(taskId: string): Promise<TaskHandoff | null>;
+  // Cancels a pending handoff left by an earlier assignee; one by `fromUserId` itself is a conflict
+  requestHandoff(task: Pick<Task, 'id' | 'tenantId' | 'workspaceId'>, fromUserId: string, toUserId: string, note: string | null): Promise<TaskHandoff>;
+  // Reassigns to the handoff's target, who must take over from the asking agent (TaskHandedOff), and closes the handoff in one transaction
+  acceptHandoff(handoff: TaskHandoff, currentVersion: number, workflow?: WorkflowDefinition, actorId?: string | null): Promise<TaskWriteResult>;
+  // `resolvedBy` is the deciding manager; null when the asking agent withdraws
+  resolveHandoff(handoff: TaskHandoff, status: 'DECLINED' | 'CANCELLED', resolvedBy: string | null): Promise<TaskHandoff>;
+
+  // Comments; each write records CommentAdded, CommentEdited or CommentDeleted
+  createComment(taskId: string, authorId: string, body: string): Promise<TaskComment>;
+  findComment(commentId: string, taskId: string): Promise<TaskComment | null>;
+  updateComment(commentId: string, taskId: string, body: string, actorId?: string | null): Promise<TaskComment>;
+  deleteComment(commentId: string, taskId: string, actorId?: string | null): Promise<void>;
+  // Live comments oldest first, keyset-paginated on (createdAt, id)
+  listComments(taskId: string, options: { limit?: number, cursor?: string }): Promise<{ data: TaskComment[], nextCursor: string | null }>;
+
+  // `blockedId` cannot start until `blockerId` is finished. Both must be live in the workspace, and the edge must not close a cycle
+  linkDependency(blockedId: string, blockerId: string, tenantId: string, workspaceId: string): Promise<TaskDependency>;
+  unlinkDependency(blockedId: string, blockerId: string, tenantId: string): Promise<void>;
+  // Live tasks this task waits on, and live tasks waiting on it; `workflow` is the workspace's, for stores that don't keep workflows
+  listDependencies(taskId: string, tenantId: string, workflow?: WorkflowDefinition): Promise<{ blockedBy: DependencyTask[], blocking: DependencyTask[] }>;
+
+  // The changelog: every task event in seq order
+  latestSeq(): Promise<number>;
+  workspaceEvents(workspaceId: string, tenantId: string, afterSeq: number, limit: number): Promise<FeedEvent[]>;
+  // `nextAfterSeq` is the seq to pass as `afterSeq` for the next page (unchanged when there was nothing new)
+  tenantEvents(tenantId: string, filters: EventFeedFilters): Promise<{ data: FeedEvent[], nextAfterSeq: number }>;
+  // Events the outbox relay has not fanned out yet, in seq order
+  undispatchedEvents(limit: number): Promise<OutboxEvent[]>;
+  markDispatched(eventIds: string[], now: number): Promise<void>;
+
+  // Deadline scanning. `terminalStates` and `policies` come from SQLite, for stores that don't keep workflows and SLA policies
+  // Open tasks whose due_at has passed and that have not been reported yet
+  findOverdue(now: number, limit: number, terminalStates: TerminalStatesByWorkspace): Promise<OverdueTask[]>;
+  // Open tasks older than their workspace's SLA for their priority, not reported yet
+  findSlaBreaches(now: number, limit: number, policies: SlaPolicy[], terminalStates: TerminalStatesByWorkspace): Promise<SlaBreach[]>;
+  // False when another scanner reported it first
+  recordOverdue(taskId: string, dueAt: number, now: number): Promise<boolean>;
+  recordSlaBreach(breach: SlaBreach, now: number): Promise<boolean>;
+
+  // For workflow and field definition changes, which must not strand live tasks
+  // States outside `states` that live tasks of the workspace are in
+  statesInUse(workspaceId: string, tenantId: string, states: string[]): Promise<string[]>;
+  // Those of `labels` that live tasks carry
+  labelsInUse(workspaceId: string, tenantId: string, labels: string[]): Promise<string[]>;
+  // Keys of `fields` (dropped enum options, or null for any value) that live tasks hold values for
+  fieldsInUse(workspaceId: string, tenantId: string, fields: Map<string, string[] | null>): Promise<string[]>;
+
+  analytics(workspaceId: string, tenantId: string, range: AnalyticsRange, workflow?: WorkflowDefinition): Promise<WorkspaceAnalytics>;
+
+  findById(taskId: string, tenantId: string, options?: { includeDeleted?: boolean }): Promise<TaskWithTimeline | null>;
+  list(workspaceId: string, tenantId: string, filters: TaskListFilters): Promise<{ data: StoredTask[], nextCursor: string | null }>;
+  exportPage(workspaceId: string, tenantId: string, options: { afterId?: string, limit: number, includeDeleted?: boolean }): Promise<StoredTask[]>;
+  timelines(taskIds: string[]): Promise<Map<string, TaskEvent[]>>;
+  // Live tasks per assignee among `assigneeIds` that are in one of `states`; absent means none
+  workload(workspaceId: string, tenantId: string, assigneeIds: string[], states: TaskState[]): Promise<Map<string, number>>;
+  // A task's complete event log in seq order; `limit` pages through it
+  events(taskId: string, options?: { afterSeq?: number, limit?: number }): Promise<TaskEvent[]>;
+  // Every task of every tenant in id order, deleted ones included (consistency checks)
+  scan(options: { afterId?: string, limit: number }): Promise<StoredTask[]>;
+}
+
+export type NewTask = Omit<Task, 'createdAt' | 'updatedAt' | 'deletedAt' | 'version' | 'id' | 'labels' | 'customFields'>
+  & Partial<Pick<Task, 'labels' | 'customFields'>> & { id: string, assignment?: AutoAssignment | null };
+
+// An assignee picked by the workspace assignment policy; a new task gets TaskAssigned right after TaskCreated, in the same transaction
+export interface AutoAssignment {
+  assigneeId: string;
+  rule: { name: string, strategy: AssignmentStrategy }; // Recorded in the TaskAssigned payload
+}
+
+// Hard cap on a workspace's open (not deleted, not terminal) tasks, checked in the creating transaction
+export interface OpenTaskQuota {
+  maxOpenTasks: number;
+  terminalStates: TaskState[]; // Of the workspace workflow
+}
+
+export interface TaskWriteResult {
+  task_id: string;
+  state: TaskState;
+  version: number;
+}
+
+export interface StoredTask extends Task {
+  commentCount: number;
+}
+
+export interface TaskEvent {
+  id: string;
+  taskId: string;
+  eventType: string;
+  payload: unknown;
+  createdAt: number;
+  seq: number | null;
+}
+
+export type TaskWithTimeline = StoredTask & { timeline: TaskEvent[] };
+
+export interface TaskComment {
+  id: string;
+  taskId: string;
+  authorId: string;
+  body: string;
+  createdAt: number;
+  updatedAt: number;
+  deletedAt: number | null;
+}
+
+export const DEFAULT_COMMENT_LIMIT = 20;
+export const MAX_COMMENT_LIMIT = 100;
+
+interface CommentCursor {
+  createdAt: number;
+  id: string;
+}
+
+// Opaque to clients: base64url JSON of the last comment's (createdAt, id)
+export function encodeCommentCursor(cursor: CommentCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCommentCursor(raw: string): CommentCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if (typeof cursor.createdAt !== 'number' || typeof cursor.id !== 'string') throw new Error();
+    return cursor;
+  } catch {
+    throw new BadRequestError('invalid_cursor', 'Invalid cursor');
+  }
+}
+
+export interface TaskDependency {
+  tenantId: string;
+  workspaceId: string;
+  blockerId: string;
+  blockedId: string;
+  createdAt: number;
+}
+
+export interface DependencyTask {
+  taskId: string;
+  title: string;
+  state: TaskState;
+  open: boolean; // Not in a terminal state of the workflow
+}
+
+export const DEFAULT_FEED_LIMIT = 50;
+export const MAX_FEED_LIMIT = 500;
+
+export interface EventFeedFilters {
+  afterSeq?: number;
+  eventTypes?: string[];
+  taskId?: string;
+  workspaceId?: string;
+  workspaceIds?: string[]; // Restricts the feed to these workspaces, e.g. the caller's memberships
+  limit?: number;
+}
+
+export interface FeedEvent {
+  seq: number;
+  id: string;
+  taskId: string;
+  workspaceId: string;
+  eventType: string;
+  payload: unknown;
+  createdAt: number;
+}
+
+export interface OutboxEvent extends FeedEvent {
+  tenantId: string;
+}
+
+// Terminal states of every stored workflow, keyed by `${tenantId}/${workspaceId}`; other workspaces use the default workflow
+export type TerminalStatesByWorkspace = Record<string, string[]>;
+
+export interface OverdueTask {
+  id: string;
+  dueAt: number;
+}
+
+export interface SlaPolicy {
+  id: string;
+  tenantId: string;
+  workspaceId: string;
+  priority: TaskPriority;
+  resolveWithinSeconds: number;
+}
+
+export interface SlaBreach {
+  id: string;
+  createdAt: number;
+  priority: TaskPriority;
+  policyId: string;
+  resolveWithinSeconds: number;
+}
+
+export type AnalyticsBucket = 'day' | 'week';
+
+export interface AnalyticsRange {
+  from: number; // Unix seconds, inclusive
+  to: number;   // Unix seconds, exclusive
+  bucket: AnalyticsBucket;
+  startState: string; // Work starts when a task first enters this state (cycle time)
+  doneState: string;  // Work is complete when a task enters this state
+}
+
+export interface DurationStats {
+  count: number;
+  median: number | null; // Seconds
+  p90: number | null;
+}
+
+export interface WorkspaceAnalytics {
+  // Live tasks created within the range, by state and priority
+  distribution: { state: string, priority: TaskPriority, count: number }[];
+  // Per bucket start; buckets without tasks are absent
+  created: { start: number, count: number }[];
+  completed: { start: number, count: number }[];
+  // Median and p90 (nearest rank) of lead time (created -> done) and cycle time (first entry into the start state -> done)
+  leadTime: DurationStats;
+  cycleTime: DurationStats;
+  // Open tasks right now (regardless of the range), and tasks completed within the range, per assignee
+  assignees: { assigneeId: string, open: number, completed: number }[];
+}
+
+export const DAY = 86_400;
+export const WEEK = 7 * DAY;
+export const MONDAY_OFFSET = 4 * DAY; // 1970-01-01 was a Thursday
+
+// Start of the UTC day or Monday-based week containing `ts`
+export function bucketStartOf(ts: number, bucket: AnalyticsBucket) {
+  return bucket === 'day'
+    ? Math.floor(ts / DAY) * DAY
+    : Math.floor((ts - MONDAY_OFFSET) / WEEK) * WEEK + MONDAY_OFFSET;
+}
+
+export type HandoffStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'CANCELLED';
+
+export interface TaskHandoff {
+  id: string;
+  tenantId: string;
+  workspaceId: string;
+  taskId: string;
+  fromUserId: string; // The assignee asking
+  toUserId: string;
+  note: string | null;
+  status: HandoffStatus;
+  resolvedBy: string | null; // Manager who accepted or declined; null when cancelled
+  createdAt: number;
+  resolvedAt: number | null;
+}
+
+// Outbox event per resolution; an accepted handoff is announced by TaskHandedOff
+export const HANDOFF_RESOLUTION_EVENTS: Record<Exclude<HandoffStatus, 'PENDING'>, string | null> = {
+  ACCEPTED: null,
+  DECLINED: 'TaskHandoffDeclined',
+  CANCELLED: 'TaskHandoffCancelled',
+};
+
+export type BulkOperation =
+  | { op: 'create', title: string, priority: TaskPriority, dueAt: number | null, labels?: string[], customFields?: CustomFieldValues, assignment?: AutoAssignment | null }
+  | { op: 'assign', taskId: string, version: number, assigneeId: string }
+  | { op: 'transition', taskId: string, version: number, toState: TaskState }
+  // `customFieldChanges` merge into the task's values as of the write, like PATCH; null clears a field
+  | { op: 'update', taskId: string, version: number, changes: Partial<TaskEditableFields>, customFieldChanges?: Record<string, CustomFieldValue | null> };
+
+export interface BulkContext {
+  tenantId: string;
+  workspaceId: string;
+  role: UserRole;
+  userId: string | null;
+  workflow: WorkflowDefinition;
+  // Members of the workspace, i.e. the valid assignees
+  memberIds: ReadonlySet<string>;
+  quota?: OpenTaskQuota | null;
+}
+
+export type BulkItemStatus = 'ok' | 'version_conflict' | 'invalid_transition' | 'blocked' | 'not_found' | 'forbidden' | 'invalid_assignee' | 'quota_exceeded' | 'rolled_back' | 'skipped';
+
+export interface BulkItemResult {
+  index: number;
+  status: BulkItemStatus;
+  task_id?: string;
+  state?: TaskState;
+  version?: number;
+  error?: string;
+}
+
+// Maps repository/domain errors to per-item statuses; anything else is a real failure
+const BULK_STATUSES: Record<string, BulkItemStatus> = {
+  task_not_found: 'not_found',
+  version_conflict: 'version_conflict',
+  task_terminal: 'invalid_transition',
+  invalid_transition: 'invalid_transition',
+  task_blocked: 'blocked',
+  forbidden: 'forbidden',
+  invalid_assignee: 'invalid_assignee',
+  quota_exceeded: 'quota_exceeded',
+};
+
+export function bulkStatusFor(e: unknown): BulkItemStatus {
+  const status = e instanceof AppError ? BULK_STATUSES[e.code] : undefined;
+  if (!status) throw e;
+  return status;
+}
+
+// Reported by both stores when an atomic bulk operation rolls back
+export function rolledBackResults(operations: BulkOperation[], results: BulkItemResult[]): BulkItemResult[] {
+  // Earlier successes were undone; later operations never ran
+  const failedAt = results.length - 1;
+  return operations.map((_, index): BulkItemResult => {
+    if (index < failedAt) return { index, status: 'rolled_back' };
+    if (index === failedAt) return results[failedAt];
+    return { index, status: 'skipped' };
+  });
+}
+
+export const IMPORT_BATCH_SIZE = 500;
+
+export const DEFAULT_LIST_LIMIT = 20;
+export const MAX_LIST_LIMIT = 100;
+
+export type TaskSortField = 'created_at' | 'updated_at' | 'priority';
+
+export interface TaskListFilters {
+  states?: string[];
+  priorities?: TaskPriority[];
+  assigneeIds?: string[];
+  labels?: string[]; // Tasks carrying any of them
+  customFields?: Record<string, CustomFieldValue>; // Tasks matching all of them; keys come from the field definitions
+  createdAfter?: number;
+  createdBefore?: number;
+  updatedAfter?: number;
+  updatedBefore?: number;
+  dueBefore?: number;
+  overdue?: boolean; // Past due_at and not in a terminal state
+  terminalStates?: string[]; // Of the workspace workflow, for stores that don't keep workflows
+  now?: number;
+  search?: string;
+  sort?: TaskSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+  includeDeleted?: boolean;
+}
+
+export interface ListCursor {
+  sort: TaskSortField;
+  order: 'asc' | 'desc';
+  key: number;
+  id: string;
+}
+
+// Opaque to clients: base64url JSON of the last row's sort key and id
+export function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Also rejects a cursor issued for a different sort
+export function decodeCursor(raw: string, sort: TaskSortField, order: 'asc' | 'desc'): ListCursor {
+  let cursor: ListCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestError('invalid_cursor', 'Invalid cursor');
+  }
+  if (typeof cursor?.key !== 'number' || typeof cursor.id !== 'string' || cursor.sort !== sort || cursor.order !== order) {
+    throw new BadRequestError('invalid_cursor', 'Invalid cursor');
+  }
+  return cursor;
+}
@@ -0,0 +1,90 @@
+import { db } from '../db';
+import { taskTemplates } from '../db/schema';
+import { eq, and, lte, sql } from 'drizzle-orm';
+import { NotFoundError } from '../domain/errors';
+
+export type TaskTemplate = typeof taskTemplates.$inferSelect;
+
+export type TemplateFields = Pick<TaskTemplate, 'titlePattern' | 'priority' | 'assigneeId' | 'recurrence' | 'active' | 'nextRunAt'>;
+
+export class TemplateRepository {
+
+  async create(template: TemplateFields & { id: string, tenantId: string, workspaceId: string }) {
+    const now = Math.floor(Date.now() / 1000);
+    const created: TaskTemplate = { ...template, lastRunAt: null, lastTaskId: null, createdAt: now, updatedAt: now };
+    db.insert(taskTemplates).values(created).run();
+    return created;
+  }
+
+  async findById(templateId: string, workspaceId: string, tenantId: string) {
+    const template = await db.select().from(taskTemplates)
+      .where(and(
+        eq(taskTemplates.id, templateId),
+        eq(taskTemplates.workspaceId, workspaceId),
+        eq(taskTemplates.tenantId, tenantId)
+      ))
+      .get();
+
+    return template ?? null;
+  }
+
+  async list(workspaceId: string, tenantId: string) {
+    return await db.select().from(taskTemplates)
+      .where(and(eq(taskTemplates.workspaceId, workspaceId), eq(taskTemplates.tenantId, tenantId)))
+      .orderBy(taskTemplates.createdAt, taskTemplates.id)
+      .all();
+  }
+
+  async update(templateId: string, workspaceId: string, tenantId: string, changes: Partial<TemplateFields>) {
+    const result = db.update(taskTemplates)
+      .set({ ...changes, updatedAt: Math.floor(Date.now() / 1000) })
+      .where(and(
+        eq(taskTemplates.id, templateId),
+        eq(taskTemplates.workspaceId, workspaceId),
+        eq(taskTemplates.tenantId, tenantId)
+      ))
+      .run();
+
+    if (result.changes === 0) throw new NotFoundError('template_not_found', 'Template not found');
+    return (await this.findById(templateId, workspaceId, tenantId))!;
+  }
+
+  // Tasks already spawned from the template are kept
+  async delete(templateId: string, workspaceId: string, tenantId: string) {
+    const result = db.delete(taskTemplates)
+      .where(and(
+        eq(taskTemplates.id, templateId),
+        eq(taskTemplates.workspaceId, workspaceId),
+        eq(taskTemplates.tenantId, tenantId)
+      ))
+      .run();
+
+    if (result.changes === 0) throw new NotFoundError('template_not_found', 'Template not found');
+  }
+
+  // Active templates whose next run has come, oldest first
+  async findDue(now: number, limit: number) {
+    return await db.select().from(taskTemplates)
+      .where(and(eq(taskTemplates.active, true), lte(taskTemplates.nextRunAt, now)))
+      .orderBy(taskTemplates.nextRunAt)
+      .limit(limit)
+      .all();
+  }
+
+  /**
+   * Moves the template past a run, unless someone else (another scheduler, or
+   * an edit of the template) already changed `next_run_at` since it was read.
+   */
+  async recordRun(templateId: string, dueAt: number, run: { at: number, taskId: string | null, nextRunAt: number | null }) {
+    const result = db.update(taskTemplates)
+      .set({
+        lastRunAt: run.at,
+        lastTaskId: run.taskId ?? sql`${taskTemplates.lastTaskId}`,
+        nextRunAt: run.nextRunAt,
+      })
+      .where(and(eq(taskTemplates.id, templateId), eq(taskTemplates.nextRunAt, dueAt)))
+      .run();
+
+    return result.changes > 0;
+  }
+}
@@ -0,0 +1,179 @@
+import { db } from '../db';
+import { webhookSubscriptions, webhookDeliveries } from '../db/schema';
+import { eq, and, lt, lte, notExists, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/sqlite-core';
+import { NotFoundError } from '../domain/errors';
+import { OutboxEvent } from './taskStore';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface WebhookSubscription {
+  id: string;
+  tenantId: string;
+  url: string;
+  secret: string;
+  eventTypes: string[] | null;
+}
+
+export type StoredWebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+
+export class WebhookRepository {
+
+  async create(subscription: WebhookSubscription): Promise<StoredWebhookSubscription> {
+    return db.insert(webhookSubscriptions).values(subscription).returning().get();
+  }
+
+  // Active subscriptions only, like the listing
+  async findById(id: string, tenantId: string) {
+    const sub = await db.select().from(webhookSubscriptions)
+      .where(and(
+        eq(webhookSubscriptions.id, id),
+        eq(webhookSubscriptions.tenantId, tenantId),
+        eq(webhookSubscriptions.active, true)
+      ))
+      .get();
+
+    return sub ?? null;
+  }
+
+  async listByTenant(tenantId: string) {
+    return await db.select().from(webhookSubscriptions)
+      .where(and(eq(webhookSubscriptions.tenantId, tenantId), eq(webhookSubscriptions.active, true)))
+      .orderBy(sql`${webhookSubscriptions.createdAt} DESC`)
+      .all();
+  }
+
+  // Deliveries still pending for the subscription are dead-lettered with it
+  async deactivate(id: string, tenantId: string) {
+    const now = Math.floor(Date.now() / 1000);
+    db.transaction((tx) => {
+      const result = tx.update(webhookSubscriptions)
+        .set({ active: false })
+        .where(and(
+          eq(webhookSubscriptions.id, id),
+          eq(webhookSubscriptions.tenantId, tenantId),
+          eq(webhookSubscriptions.active, true)
+        ))
+        .run();
+
+      if (result.changes === 0) throw new NotFoundError('webhook_not_found', 'Webhook not found');
+
+      tx.update(webhookDeliveries)
+        .set({ status: 'DEAD', lastError: 'Webhook deleted', updatedAt: now })
+        .where(and(eq(webhookDeliveries.subscriptionId, id), eq(webhookDeliveries.status, 'PENDING')))
+        .run();
+    });
+  }
+
+  /**
+   * Creates one delivery row per matching subscription for each event, with
+   * a copy of the event. Running it again for the same events (a relay that
+   * stopped before they were marked dispatched) creates nothing new.
+   */
+  async createDeliveries(events: OutboxEvent[], now: number) {
+    db.transaction((tx) => {
+      for (const event of events) {
+        const subscriptions = tx.select().from(webhookSubscriptions)
+          .where(and(eq(webhookSubscriptions.tenantId, event.tenantId), eq(webhookSubscriptions.active, true)))
+          .all();
+
+        for (const sub of subscriptions) {
+          if (sub.eventTypes && !sub.eventTypes.includes(event.eventType)) continue;
+
+          tx.insert(webhookDeliveries).values({
+            id: uuidv4(),
+            eventId: event.id,
+            subscriptionId: sub.id,
+            eventSeq: event.seq,
+            taskId: event.taskId,
+            eventType: event.eventType,
+            payload: event.payload,
+            eventCreatedAt: event.createdAt,
+            nextAttemptAt: now,
+          }).onConflictDoNothing().run();
+        }
+      }
+    });
+  }
+
+  /**
+   * Returns pending deliveries of active subscriptions that are due. A delivery is held back while an
+   * earlier event for the same subscription is still pending, so each
+   * endpoint receives its events in order.
+   */
+  async findDueDeliveries(now: number, limit: number) {
+    const earlier = alias(webhookDeliveries, 'earlier');
+
+    return await db.select({
+      id: webhookDeliveries.id,
+      attempts: webhookDeliveries.attempts,
+      url: webhookSubscriptions.url,
+      secret: webhookSubscriptions.secret,
+      tenantId: webhookSubscriptions.tenantId,
+      event: {
+        id: webhookDeliveries.eventId,
+        taskId: webhookDeliveries.taskId,
+        eventType: webhookDeliveries.eventType,
+        payload: webhookDeliveries.payload,
+        createdAt: webhookDeliveries.eventCreatedAt,
+      },
+    })
+      .from(webhookDeliveries)
+      .innerJoin(webhookSubscriptions, eq(webhookDeliveries.subscriptionId, webhookSubscriptions.id))
+      .where(and(
+        eq(webhookDeliveries.status, 'PENDING'),
+        eq(webhookSubscriptions.active, true),
+        lte(webhookDeliveries.nextAttemptAt, now),
+        notExists(
+          db.select({ one: sql`1` })
+            .from(earlier)
+            .where(and(
+              eq(earlier.subscriptionId, webhookDeliveries.subscriptionId),
+              eq(earlier.status, 'PENDING'),
+              lt(earlier.eventSeq, webhookDeliveries.eventSeq)
+            ))
+        )
+      ))
+      .orderBy(webhookDeliveries.eventSeq)
+      .limit(limit)
+      .all();
+  }
+
+  async markDelivered(id: string, attempts: number, now: number) {
+    db.update(webhookDeliveries)
+      .set({ status: 'DELIVERED', attempts, lastError: null, updatedAt: now })
+      .where(eq(webhookDeliveries.id, id))
+      .run();
+  }
+
+  async markFailed(id: string, attempts: number, error: string, nextAttemptAt: number | null, now: number) {
+    db.update(webhookDeliveries)
+      .set({
+        // No next attempt means retries are exhausted: dead-letter it
+        status: nextAttemptAt === null ? 'DEAD' : 'PENDING',
+        attempts,
+        lastError: error,
+        nextAttemptAt: nextAttemptAt ?? now,
+        updatedAt: now,
+      })
+      .where(eq(webhookDeliveries.id, id))
+      .run();
+  }
+
+  async listDeliveries(subscriptionId: string, tenantId: string) {
+    return await db.select({
+      id: webhookDeliveries.id,
+      eventId: webhookDeliveries.eventId,
+      status: webhookDeliveries.status,
+      attempts: webhookDeliveries.attempts,
+      nextAttemptAt: webhookDeliveries.nextAttemptAt,
+      lastError: webhookDeliveries.lastError,
+      updatedAt: webhookDeliveries.updatedAt,
+    })
+      .from(webhookDeliveries)
+      .innerJoin(webhookSubscriptions, eq(webhookDeliveries.subscriptionId, webhookSubscriptions.id))
+      .where(and(eq(webhookDeliveries.subscriptionId, subscriptionId), eq(webhookSubscriptions.tenantId, tenantId)))
+      .orderBy(sql`${webhookDeliveries.createdAt} DESC`)
+      .limit(100)
+      .all();
+  }
+}
@@ -0,0 +1,77 @@
+import { db } from '../db';
+import { tasks, workflows } from '../db/schema';
+import { eq, and, sql } from 'drizzle-orm';
+import { DEFAULT_WORKFLOW, WorkflowDefinition } from '../domain/workflow';
+import { NotFoundError } from '../domain/errors';
+import { TerminalStatesByWorkspace } from './taskStore';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * SQL condition: the task row is not in a terminal state of its workspace's
+ * workflow (stored definition, or the default when none is stored).
+ */
+export const isOpenTask = sql`${tasks.state} NOT IN (
+  SELECT value FROM json_each(COALESCE(
+    (SELECT json_extract(w.definition, '$.terminalStates') FROM ${workflows} w
+      WHERE w.tenant_id = ${tasks}.tenant_id AND w.workspace_id = ${tasks}.workspace_id),
+    ${JSON.stringify(DEFAULT_WORKFLOW.terminalStates)}
+  ))
+)`;
+
+export class WorkflowRepository {
+
+  async findByWorkspace(workspaceId: string, tenantId: string) {
+    const row = await db.select().from(workflows)
+      .where(and(eq(workflows.workspaceId, workspaceId), eq(workflows.tenantId, tenantId)))
+      .get();
+
+    return row ?? null;
+  }
+
+  // Stored workflow for the workspace, or the built-in default
+  async resolve(workspaceId: string, tenantId: string): Promise<WorkflowDefinition> {
+    const row = await this.findByWorkspace(workspaceId, tenantId);
+    return row ? row.definition : DEFAULT_WORKFLOW;
+  }
+
+  // Terminal states of every stored workflow; workspaces without one use the default
+  async terminalStatesByWorkspace(): Promise<TerminalStatesByWorkspace> {
+    const rows = await db.select().from(workflows).all();
+    return Object.fromEntries(rows.map(w => [`${w.tenantId}/${w.workspaceId}`, w.definition.terminalStates]));
+  }
+
+  async upsert(workspaceId: string, tenantId: string, definition: WorkflowDefinition) {
+    return db.transaction((tx) => {
+      const existing = tx.select().from(workflows)
+        .where(and(eq(workflows.workspaceId, workspaceId), eq(workflows.tenantId, tenantId)))
+        .get();
+
+      const now = Math.floor(Date.now() / 1000);
+
+      if (existing) {
+        const updated = { ...existing, definition, version: existing.version + 1, updatedAt: now };
+        tx.update(workflows)
+          .set({
+            definition,
+            version: updated.version,
+            updatedAt: now
+          })
+          .where(eq(workflows.id, existing.id))
+          .run();
+        return updated;
+      }
+
+      const created = { id: uuidv4(), tenantId, workspaceId, definition, version: 1, createdAt: now, updatedAt: now };
+      tx.insert(workflows).values(created).run();
+      return created;
+    });
+  }
+
+  async delete(workspaceId: string, tenantId: string) {
+    const result = db.delete(workflows)
+      .where(and(eq(workflows.workspaceId, workspaceId), eq(workflows.tenantId, tenantId)))
+      .run();
+
+    if (result.changes === 0) throw new NotFoundError('workflow_not_found', 'Workspace uses the default workflow');
+  }
+}
@@ -0,0 +1,128 @@
+import { db } from '../db';
+import { workspaces, workspaceMembers } from '../db/schema';
+import { eq, and, sql } from 'drizzle-orm';
+import { UserRole } from '../domain/task';
+import { ConflictError, NotFoundError } from '../domain/errors';
+
+export type StoredMember = typeof workspaceMembers.$inferSelect;
+
+export class WorkspaceRepository {
+
+  async create(workspace: { id: string, tenantId: string, name: string, settings: Record<string, unknown> }, creatorId: string) {
+    return db.transaction((tx) => {
+      const existing = tx.select().from(workspaces)
+        .where(and(eq(workspaces.id, workspace.id), eq(workspaces.tenantId, workspace.tenantId)))
+        .get();
+      if (existing) throw new ConflictError('workspace_exists', 'Workspace already exists');
+
+      const now = Math.floor(Date.now() / 1000);
+      const created = { ...workspace, archived: false, createdAt: now, updatedAt: now };
+      tx.insert(workspaces).values(created).run();
+
+      // The creator manages the new workspace
+      tx.insert(workspaceMembers).values({
+        tenantId: workspace.tenantId,
+        workspaceId: workspace.id,
+        userId: creatorId,
+        role: 'manager',
+      }).run();
+
+      return created;
+    });
+  }
+
+  async findById(workspaceId: string, tenantId: string) {
+    const workspace = await db.select().from(workspaces)
+      .where(and(eq(workspaces.id, workspaceId), eq(workspaces.tenantId, tenantId)))
+      .get();
+
+    return workspace ?? null;
+  }
+
+  // Every workspace of the tenant that the user belongs to, with their role
+  async listForUser(tenantId: string, userId: string) {
+    return await db.select({ workspace: workspaces, role: workspaceMembers.role })
+      .from(workspaces)
+      .innerJoin(workspaceMembers, and(
+        eq(workspaceMembers.tenantId, workspaces.tenantId),
+        eq(workspaceMembers.workspaceId, workspaces.id)
+      ))
+      .where(and(eq(workspaces.tenantId, tenantId), eq(workspaceMembers.userId, userId)))
+      .orderBy(sql`${workspaces.createdAt} DESC`)
+      .all();
+  }
+
+  async update(workspaceId: string, tenantId: string, changes: { name?: string, settings?: Record<string, unknown>, archived?: boolean }) {
+    const updated = db.update(workspaces)
+      .set({ ...changes, updatedAt: Math.floor(Date.now() / 1000) })
+      .where(and(eq(workspaces.id, workspaceId), eq(workspaces.tenantId, tenantId)))
+      .returning()
+      .get();
+
+    if (!updated) throw new NotFoundError('workspace_not_found', 'Workspace not found');
+    return updated;
+  }
+
+  async findMember(workspaceId: string, tenantId: string, userId: string) {
+    const member = await db.select().from(workspaceMembers)
+      .where(and(
+        eq(workspaceMembers.workspaceId, workspaceId),
+        eq(workspaceMembers.tenantId, tenantId),
+        eq(workspaceMembers.userId, userId)
+      ))
+      .get();
+
+    return member ?? null;
+  }
+
+  async listMembers(workspaceId: string, tenantId: string) {
+    return await db.select().from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.tenantId, tenantId)))
+      .orderBy(sql`${workspaceMembers.createdAt} ASC`)
+      .all();
+  }
+
+  async upsertMember(workspaceId: string, tenantId: string, userId: string, role: UserRole) {
+    return db.insert(workspaceMembers)
+      .values({ tenantId, workspaceId, userId, role })
+      .onConflictDoUpdate({
+        target: [workspaceMembers.tenantId, workspaceMembers.workspaceId, workspaceMembers.userId],
+        set: { role },
+      })
+      .returning()
+      .get();
+  }
+
+  async removeMember(workspaceId: string, tenantId: string, userId: string) {
+    return db.transaction((tx) => {
+      const member = tx.select().from(workspaceMembers)
+        .where(and(
+          eq(workspaceMembers.workspaceId, workspaceId),
+          eq(workspaceMembers.tenantId, tenantId),
+          eq(workspaceMembers.userId, userId)
+        ))
+        .get();
+      if (!member) throw new NotFoundError('member_not_found', 'Member not found');
+
+      // Never leave a workspace without a manager
+      if (member.role === 'manager') {
+        const managers = tx.select({ count: sql<number>`count(*)` }).from(workspaceMembers)
+          .where(and(
+            eq(workspaceMembers.workspaceId, workspaceId),
+            eq(workspaceMembers.tenantId, tenantId),
+            eq(workspaceMembers.role, 'manager')
+          ))
+          .get();
+        if (managers!.count <= 1) throw new ConflictError('last_manager', 'A workspace needs at least one manager');
+      }
+
+      tx.delete(workspaceMembers)
+        .where(and(
+          eq(workspaceMembers.workspaceId, workspaceId),
+          eq(workspaceMembers.tenantId, tenantId),
+          eq(workspaceMembers.userId, userId)
+        ))
+        .run();
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { responseSchemas, unixSeconds } from './common';
+
+const bucketSchema = z.enum(['day', 'week']);
+
+// Requests
+
+export const analyticsQuerySchema = z.object({
+  from: z.coerce.number().int().min(0).optional(), // Unix seconds, inclusive
+  to: z.coerce.number().int().min(0).optional(),   // Unix seconds, exclusive
+  bucket: bucketSchema.default('day'),
+  start_state: z.string().min(1).default('IN_PROGRESS'),
+  done_state: z.string().min(1).default('DONE'),
+});
+
+// Responses
+
+const durationStatsSchema = z.strictObject({
+  count: z.number().int(),
+  median: z.number().nullable(), // Seconds; null without samples
+  p90: z.number().nullable(),
+});
+
+export const analyticsSchema = z.strictObject({
+  workspace_id: z.string(),
+  from: unixSeconds,
+  to: unixSeconds,
+  bucket: bucketSchema,
+  total: z.number().int(),
+  by_state: z.record(z.string(), z.number().int()),
+  by_priority: z.record(z.string(), z.number().int()),
+  throughput: z.array(z.strictObject({ start: unixSeconds, created: z.number().int(), completed: z.number().int() })),
+  lead_time: durationStatsSchema,
+  cycle_time: durationStatsSchema,
+  assignees: z.array(z.strictObject({ assignee_id: z.string(), open: z.number().int(), completed: z.number().int() })),
+}).register(responseSchemas, { id: 'WorkspaceAnalytics' });
+
+export type AnalyticsResponse = z.infer<typeof analyticsSchema>;
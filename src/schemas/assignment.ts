@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { requestSchemas, responseSchemas, unixSeconds } from './common';
+import { taskPrioritySchema, taskWriteResultSchema } from './task';
+
+const strategySchema = z.enum(['round_robin', 'least_loaded']);
+
+// Requests
+
+const assignmentRuleSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9_-]{0,49}$/, 'Rule names must be lower-case letters, digits, - and _'),
+  when: z.object({
+    priority: z.array(taskPrioritySchema).min(1).optional(),
+  }).default({}),
+  strategy: strategySchema,
+  pool: z.array(z.string().min(1)).min(1).max(100),
+});
+
+export const putAssignmentPolicySchema = z.object({
+  auto_assign_on_create: z.boolean().default(true),
+  rules: z.array(assignmentRuleSchema).min(1).max(20),
+}).register(requestSchemas, { id: 'PutAssignmentPolicy' });
+
+// Responses
+
+export const assignmentPolicySchema = z.strictObject({
+  workspace_id: z.string(),
+  auto_assign_on_create: z.boolean(),
+  rules: z.array(z.strictObject({
+    name: z.string(),
+    when: z.strictObject({ priority: z.array(taskPrioritySchema).optional() }),
+    strategy: strategySchema,
+    pool: z.array(z.string()),
+  })),
+  version: z.number().int(),
+  updated_at: unixSeconds,
+}).register(responseSchemas, { id: 'AssignmentPolicy' });
+
+export type AssignmentPolicyResponse = z.infer<typeof assignmentPolicySchema>;
+
+export const autoAssignResultSchema = taskWriteResultSchema.extend({
+  assignee_id: z.string(),
+  rule: z.string(), // Name of the rule that picked the assignee
+}).register(responseSchemas, { id: 'AutoAssignResult' });
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { requestSchemas, responseSchemas, unixSeconds } from './common';
+import { MAX_COMMENT_LIMIT } from '../repositories/taskStore';
+
+// Requests
+
+export const commentBodySchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+}).register(requestSchemas, { id: 'CommentBody' });
+
+export const listCommentsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_COMMENT_LIMIT).optional(),
+  cursor: z.string().optional(),
+});
+
+// Responses
+
+export const commentSchema = z.strictObject({
+  comment_id: z.string(),
+  task_id: z.string(),
+  author_id: z.string(),
+  body: z.string(),
+  created_at: unixSeconds,
+  updated_at: unixSeconds,
+}).register(responseSchemas, { id: 'Comment' });
+
+export type CommentResponse = z.infer<typeof commentSchema>;
+
+export const commentListSchema = z.strictObject({
+  data: z.array(commentSchema), // Oldest first
+  next_cursor: z.string().nullable(),
+}).register(responseSchemas, { id: 'CommentList' });
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+/**
+ * Named schemas become `components.schemas` of the OpenAPI document (see
+ * openapi/document.ts). Requests are documented as clients send them, i.e.
+ * before defaults apply; responses exactly as the server sends them.
+ */
+export const requestSchemas = z.registry<{ id: string }>();
+export const responseSchemas = z.registry<{ id: string }>();
+
+// Comma-separated query values, e.g. ?state=NEW,IN_PROGRESS
+export const csv = <T extends z.ZodType<unknown, string>>(item: T) =>
+  z.string().transform(v => v.split(',').map(x => x.trim()).filter(Boolean)).pipe(z.array(item));
+
+export const booleanQuery = z.enum(['true', 'false']);
+
+export const unixSeconds = z.number().int();
+
+// RFC 7807 body rendered by middleware/errors.ts; codes may add extension members
+export const problemSchema = z.looseObject({
+  type: z.string(),
+  title: z.string(),
+  status: z.number().int(),
+  detail: z.string(),
+  instance: z.string(),
+  code: z.string(),
+}).register(responseSchemas, { id: 'Problem' });
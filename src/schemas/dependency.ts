@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { requestSchemas, responseSchemas, unixSeconds } from './common';
+
+// Requests
+
+export const linkDependencySchema = z.object({
+  blocker_id: z.string().min(1),
+}).register(requestSchemas, { id: 'LinkDependency' });
+
+// Responses
+
+export const dependencySchema = z.strictObject({
+  task_id: z.string(),
+  title: z.string(),
+  state: z.string(),
+  finished: z.boolean(), // In a terminal state of the workflow
+}).register(responseSchemas, { id: 'Dependency' });
+
+export type DependencyResponse = z.infer<typeof dependencySchema>;
+
+export const dependencyListSchema = z.strictObject({
+  task_id: z.string(),
+  blocked_by: z.array(dependencySchema),
+  blocking: z.array(dependencySchema),
+}).register(responseSchemas, { id: 'DependencyList' });
+
+export const dependencyLinkSchema = z.strictObject({
+  task_id: z.string(), // The blocked task
+  blocker_id: z.string(),
+  created_at: unixSeconds,
+}).register(responseSchemas, { id: 'DependencyLink' });
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { csv, requestSchemas, responseSchemas, unixSeconds } from './common';
+import { MAX_FEED_LIMIT } from '../repositories/taskStore';
+
+// Requests
+
+export const feedQuerySchema = z.object({
+  after_seq: z.coerce.number().int().min(0).optional(),
+  event_type: csv(z.string()).optional(),
+  task_id: z.string().min(1).optional(),
+  workspace_id: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_FEED_LIMIT).optional(),
+});
+
+export const consumerNameSchema = z.string().regex(/^[A-Za-z0-9_.-]{1,64}$/, 'Consumer names are 1-64 letters, digits, _ . or -');
+
+export const putOffsetSchema = z.object({
+  seq: z.number().int().min(0),
+}).register(requestSchemas, { id: 'PutConsumerOffset' });
+
+export const lastEventIdSchema = z.coerce.number().int().min(0);
+
+export const streamQuerySchema = z.object({
+  last_event_id: z.string().optional(), // For clients that cannot send Last-Event-ID
+});
+
+// Responses
+
+export const eventSchema = z.strictObject({
+  seq: z.number().int(),
+  id: z.string(),
+  task_id: z.string(),
+  workspace_id: z.string(),
+  event_type: z.string(),
+  payload: z.unknown(),
+  created_at: unixSeconds,
+}).register(responseSchemas, { id: 'Event' });
+
+export type EventResponse = z.infer<typeof eventSchema>;
+
+export const eventFeedSchema = z.strictObject({
+  data: z.array(eventSchema),
+  next_after_seq: z.number().int(), // Pass as after_seq for the next page
+}).register(responseSchemas, { id: 'EventFeed' });
+
+export const consumerOffsetSchema = z.strictObject({
+  name: z.string(),
+  seq: z.number().int(),
+  updated_at: unixSeconds,
+}).register(responseSchemas, { id: 'ConsumerOffset' });
+
+export type ConsumerOffsetResponse = z.infer<typeof consumerOffsetSchema>;
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { requestSchemas, responseSchemas } from './common';
+import { CustomFieldDefinition, TaskFieldsDefinition } from '../domain/fields';
+
+export const MAX_TASK_LABELS = 20;
+
+const labelName = z.string().regex(/^[a-z0-9][a-z0-9_-]{0,31}$/, 'Labels must be lower-case letters, digits, - and _');
+const fieldKey = z.string().regex(/^[a-z][a-z0-9_]{0,39}$/, 'Field keys must be snake_case');
+const fieldType = z.enum(['string', 'number', 'date', 'enum', 'user']);
+
+// Any value a custom field may hold; the workspace definitions narrow it per key
+export const customFieldValueSchema = z.union([z.string(), z.number()]);
+
+// Requests
+
+export const putTaskFieldsSchema = z.object({
+  labels: z.array(labelName).max(100).default([]),
+  fields: z.array(z.object({
+    key: fieldKey,
+    type: fieldType,
+    options: z.array(z.string().min(1).max(100)).min(1).max(50).optional(), // enum only
+  })).max(50).default([]),
+}).register(requestSchemas, { id: 'PutTaskFields' });
+
+// Responses
+
+export const taskFieldsSchema = z.strictObject({
+  labels: z.array(z.string()),
+  fields: z.array(z.strictObject({
+    key: z.string(),
+    type: fieldType,
+    options: z.array(z.string()).optional(),
+  })),
+  version: z.number().int().nullable(), // null: the workspace has no definitions yet
+  updated_at: z.number().int().nullable(),
+}).register(responseSchemas, { id: 'TaskFields' });
+
+export type TaskFieldsResponse = z.infer<typeof taskFieldsSchema>;
+
+// Generated from the workspace definitions
+
+function valueSchema(field: CustomFieldDefinition, memberIds: ReadonlySet<string>): z.ZodType {
+  switch (field.type) {
+    case 'string': return z.string().min(1).max(500);
+    case 'number': return z.number();
+    case 'date': return z.iso.date();
+    case 'enum': return z.enum(field.options as [string, ...string[]]);
+    case 'user': return z.string().refine(userId => memberIds.has(userId), 'Not a member of this workspace');
+  }
+}
+
+/**
+ * Labels and custom field values a task of the workspace may carry. Unknown
+ * labels and keys are rejected; null clears a custom field (on update).
+ */
+export function taskFieldValuesSchema(definition: TaskFieldsDefinition, memberIds: ReadonlySet<string>) {
+  const labels = new Set(definition.labels);
+
+  return z.object({
+    labels: z.array(z.string().refine(label => labels.has(label), 'Not a label of this workspace'))
+      .refine(list => new Set(list).size === list.length, 'Labels must be unique')
+      .optional(),
+    custom_fields: z.strictObject(Object.fromEntries(
+      definition.fields.map(field => [field.key, valueSchema(field, memberIds).nullable().optional()])
+    )).optional(),
+  });
+}
+
+// `cf.<key>=<value>` list filters: query strings, coerced to the field type
+export function customFieldFilterSchema(definition: TaskFieldsDefinition) {
+  return z.strictObject(Object.fromEntries(definition.fields.map(field => {
+    const schema = field.type === 'number' ? z.coerce.number()
+      : field.type === 'date' ? z.iso.date()
+      : field.type === 'enum' ? z.enum(field.options as [string, ...string[]])
+      : z.string().min(1);
+    return [`cf.${field.key}`, schema.optional()];
+  })));
+}
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { requestSchemas, responseSchemas, unixSeconds } from './common';
+
+// Requests
+
+export const requestHandoffSchema = z.object({
+  to_user_id: z.string().min(1), // Another agent of the workspace
+  note: z.string().trim().min(1).max(500).optional(),
+}).register(requestSchemas, { id: 'RequestHandoff' });
+
+// Responses
+
+export const handoffSchema = z.strictObject({
+  handoff_id: z.string(),
+  task_id: z.string(),
+  from_user_id: z.string(),
+  to_user_id: z.string(),
+  note: z.string().nullable(),
+  status: z.enum(['PENDING', 'ACCEPTED', 'DECLINED', 'CANCELLED']),
+  resolved_by: z.string().nullable(),
+  created_at: unixSeconds,
+  resolved_at: unixSeconds.nullable(),
+}).register(responseSchemas, { id: 'Handoff' });
+
+export type HandoffResponse = z.infer<typeof handoffSchema>;
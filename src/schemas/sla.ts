@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { requestSchemas, responseSchemas, unixSeconds } from './common';
+import { taskPrioritySchema } from './task';
+
+// Requests
+
+export const putSlaPolicySchema = z.object({
+  resolve_within_seconds: z.number().int().min(60),
+}).register(requestSchemas, { id: 'PutSlaPolicy' });
+
+// Responses
+
+export const slaPolicySchema = z.strictObject({
+  policy_id: z.string(),
+  workspace_id: z.string(),
+  priority: taskPrioritySchema,
+  resolve_within_seconds: z.number().int(),
+  updated_at: unixSeconds,
+}).register(responseSchemas, { id: 'SlaPolicy' });
+
+export type SlaPolicyResponse = z.infer<typeof slaPolicySchema>;
+
+export const slaPolicyListSchema = z.array(slaPolicySchema).register(responseSchemas, { id: 'SlaPolicyList' });
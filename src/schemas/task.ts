@@ -0,0 +1,200 @@
+import { z } from 'zod';
+import { MAX_LIST_LIMIT } from '../repositories/taskStore';
+import { booleanQuery, csv, requestSchemas, responseSchemas, unixSeconds } from './common';
+import { customFieldValueSchema, MAX_TASK_LABELS } from './fields';
+
+export const taskPrioritySchema = z.enum(['LOW', 'MEDIUM', 'HIGH']);
+
+const dueAtSchema = z.number().int().positive().nullable(); // Unix seconds
+
+// Requests
+
+const labelsSchema = z.array(z.string()).max(MAX_TASK_LABELS);
+
+// Labels and custom fields are checked against the workspace definitions by the controller
+export const createTaskSchema = z.object({
+  title: z.string().min(1).max(120),
+  priority: taskPrioritySchema.default('MEDIUM'),
+  due_at: dueAtSchema.optional(),
+  labels: labelsSchema.optional(),
+  custom_fields: z.record(z.string(), customFieldValueSchema).optional(),
+}).register(requestSchemas, { id: 'CreateTask' });
+
+export const importTaskSchema = createTaskSchema;
+
+export const assignTaskSchema = z.object({
+  assignee_id: z.string().min(1),
+}).register(requestSchemas, { id: 'AssignTask' });
+
+export const updateTaskSchema = z.object({
+  title: z.string().min(1).max(120).optional(),
+  priority: taskPrioritySchema.optional(),
+  due_at: dueAtSchema.optional(),
+  labels: labelsSchema.optional(), // Replaces the task's labels
+  custom_fields: z.record(z.string(), customFieldValueSchema.nullable()).optional(), // Merged; null clears a field
+}).strict().refine(body => Object.values(body).some(v => v !== undefined), {
+  message: 'At least one field is required',
+}).register(requestSchemas, { id: 'UpdateTask' });
+
+export const transitionTaskSchema = z.object({
+  to_state: z.string().min(1), // Checked against the workspace workflow
+}).register(requestSchemas, { id: 'TransitionTask' });
+
+export const MAX_BULK_OPERATIONS = 100;
+
+const bulkOperationSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('create'),
+    title: z.string().min(1).max(120),
+    priority: taskPrioritySchema.default('MEDIUM'),
+    due_at: dueAtSchema.optional(),
+    labels: labelsSchema.optional(),
+    custom_fields: z.record(z.string(), customFieldValueSchema).optional(),
+  }),
+  z.object({ op: z.literal('assign'), task_id: z.string().min(1), version: z.number().int(), assignee_id: z.string().min(1) }),
+  z.object({ op: z.literal('transition'), task_id: z.string().min(1), version: z.number().int(), to_state: z.string().min(1) }),
+  z.object({
+    op: z.literal('update'),
+    task_id: z.string().min(1),
+    version: z.number().int(),
+    title: z.string().min(1).max(120).optional(),
+    priority: taskPrioritySchema.optional(),
+    due_at: dueAtSchema.optional(),
+    labels: labelsSchema.optional(), // Replaces the task's labels
+    custom_fields: z.record(z.string(), customFieldValueSchema.nullable()).optional(), // Merged; null clears a field
+  }),
+]);
+
+export const bulkTaskSchema = z.object({
+  mode: z.enum(['atomic', 'best_effort']).default('best_effort'),
+  operations: z.array(bulkOperationSchema).min(1).max(MAX_BULK_OPERATIONS),
+}).register(requestSchemas, { id: 'BulkTasks' });
+
+// The JSON form of an import; CSV and NDJSON rows carry the same fields
+export const importTasksSchema = z.array(importTaskSchema).register(requestSchemas, { id: 'ImportTasks' });
+
+export const getTaskQuerySchema = z.object({
+  include_deleted: booleanQuery.optional(),
+  // Unix seconds, an ISO 8601 timestamp or `v<version>`; parsed by the controller
+  as_of: z.string().min(1).optional(),
+});
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+export const MAX_HISTORY_LIMIT = 200;
+
+export const taskHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_HISTORY_LIMIT).default(DEFAULT_HISTORY_LIMIT),
+  cursor: z.string().optional(),
+  include_deleted: booleanQuery.optional(),
+});
+
+export const listTasksQuerySchema = z.object({
+  state: csv(z.string().min(1)).optional(),
+  priority: csv(taskPrioritySchema).optional(),
+  assignee_id: csv(z.string().min(1)).optional(),
+  label: csv(z.string().min(1)).optional(), // Any of; `cf.<key>=<value>` filters are checked against the field definitions
+  created_after: z.coerce.number().int().optional(),
+  created_before: z.coerce.number().int().optional(),
+  updated_after: z.coerce.number().int().optional(),
+  updated_before: z.coerce.number().int().optional(),
+  q: z.string().max(200).optional(),
+  sort: z.enum(['created_at', 'updated_at', 'priority']).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_LIST_LIMIT).optional(),
+  cursor: z.string().optional(),
+  include_deleted: booleanQuery.optional(),
+  due_before: z.coerce.number().int().optional(),
+  overdue: booleanQuery.optional(),
+});
+
+export const importQuerySchema = z.object({
+  dry_run: booleanQuery.optional(),
+});
+
+export const exportQuerySchema = z.object({
+  format: z.enum(['csv', 'ndjson']).default('ndjson'),
+  include_timeline: booleanQuery.optional(),
+  include_deleted: booleanQuery.optional(),
+});
+
+// Responses
+
+export const taskEventSchema = z.strictObject({
+  id: z.string(),
+  task_id: z.string(),
+  event_type: z.string(),
+  payload: z.unknown(),
+  created_at: unixSeconds,
+}).register(responseSchemas, { id: 'TaskEvent' });
+
+export const taskSchema = z.strictObject({
+  task_id: z.string(),
+  tenant_id: z.string(),
+  workspace_id: z.string(),
+  title: z.string(),
+  priority: taskPrioritySchema,
+  state: z.string(),
+  assignee_id: z.string().nullable(),
+  version: z.number().int(),
+  created_at: unixSeconds,
+  updated_at: unixSeconds,
+  deleted_at: unixSeconds.nullable(),
+  due_at: unixSeconds.nullable(),
+  comment_count: z.number().int(),
+  labels: z.array(z.string()),
+  custom_fields: z.record(z.string(), customFieldValueSchema),
+  timeline: z.array(taskEventSchema).optional(), // Single-task reads and exports only
+}).register(responseSchemas, { id: 'Task' });
+
+export type TaskResponse = z.infer<typeof taskSchema>;
+
+// What every single-task write returns; `version` is the next If-Match-Version
+export const taskWriteResultSchema = z.strictObject({
+  task_id: z.string(),
+  state: z.string(),
+  version: z.number().int(),
+}).register(responseSchemas, { id: 'TaskWriteResult' });
+
+export const taskListSchema = z.strictObject({
+  data: z.array(taskSchema),
+  next_cursor: z.string().nullable(),
+}).register(responseSchemas, { id: 'TaskList' });
+
+// One entry of a task's complete change log, oldest first
+export const taskHistorySchema = z.strictObject({
+  data: z.array(z.strictObject({
+    id: z.string(),
+    seq: z.number().int(),
+    event_type: z.string(),
+    actor_id: z.string().nullable(), // null for system changes and events recorded before actors were
+    version: z.number().int().nullable(), // Resulting version; null for events that do not change the task
+    payload: z.unknown(),
+    created_at: unixSeconds,
+  })),
+  next_cursor: z.string().nullable(),
+}).register(responseSchemas, { id: 'TaskHistory' });
+
+export const bulkResultSchema = z.strictObject({
+  mode: z.enum(['atomic', 'best_effort']),
+  committed: z.boolean(),
+  results: z.array(z.strictObject({
+    index: z.number().int(),
+    status: z.enum(['ok', 'version_conflict', 'invalid_transition', 'blocked', 'not_found', 'forbidden', 'invalid_assignee', 'quota_exceeded', 'rolled_back', 'skipped']),
+    task_id: z.string().optional(),
+    state: z.string().optional(),
+    version: z.number().int().optional(),
+    error: z.string().optional(),
+  })),
+}).register(responseSchemas, { id: 'BulkResult' });
+
+export const importReportSchema = z.strictObject({
+  dry_run: z.boolean(),
+  total: z.number().int(),
+  valid: z.number().int(),
+  errors: z.array(z.strictObject({
+    row: z.number().int(), // 1-based, excluding a CSV header
+    errors: z.array(z.strictObject({ path: z.string(), message: z.string() })),
+  })),
+  imported: z.number().int().optional(), // Absent on a dry run
+  task_ids: z.array(z.string()).optional(),
+}).register(responseSchemas, { id: 'ImportReport' });
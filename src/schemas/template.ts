@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { RecurrenceDomain } from '../domain/recurrence';
+import { requestSchemas, responseSchemas, unixSeconds } from './common';
+import { taskPrioritySchema } from './task';
+
+const MAX_TITLE_LENGTH = 120; // Same limit as a task title
+
+const recurrenceSchema = z.string().min(1).max(100).superRefine((value, ctx) => {
+  try {
+    const schedule = RecurrenceDomain.parse(value);
+    if (RecurrenceDomain.next(schedule, Math.floor(Date.now() / 1000)) === null) {
+      ctx.addIssue({ code: 'custom', message: 'Recurrence never runs' });
+    }
+  } catch (e: any) {
+    ctx.addIssue({ code: 'custom', message: e.message });
+  }
+});
+
+const titlePatternSchema = z.string().min(1).max(MAX_TITLE_LENGTH).superRefine((value, ctx) => {
+  for (const message of RecurrenceDomain.validateTitlePattern(value)) ctx.addIssue({ code: 'custom', message });
+  // Placeholders render to a fixed width, so any run date will do
+  if (RecurrenceDomain.renderTitle(value, 0).length > MAX_TITLE_LENGTH) {
+    ctx.addIssue({ code: 'custom', message: `Rendered title must be at most ${MAX_TITLE_LENGTH} characters` });
+  }
+});
+
+// Requests
+
+export const createTemplateSchema = z.object({
+  title_pattern: titlePatternSchema,
+  recurrence: recurrenceSchema,
+  priority: taskPrioritySchema.default('MEDIUM'),
+  assignee_id: z.string().min(1).nullable().optional(),
+  active: z.boolean().default(true),
+}).register(requestSchemas, { id: 'CreateTemplate' });
+
+export const updateTemplateSchema = z.object({
+  title_pattern: titlePatternSchema.optional(),
+  recurrence: recurrenceSchema.optional(),
+  priority: taskPrioritySchema.optional(),
+  assignee_id: z.string().min(1).nullable().optional(),
+  active: z.boolean().optional(),
+}).strict().refine(body => Object.values(body).some(v => v !== undefined), {
+  message: 'At least one field is required',
+}).register(requestSchemas, { id: 'UpdateTemplate' });
+
+export const MAX_PREVIEW_RUNS = 50;
+
+export const previewQuerySchema = z.object({
+  count: z.coerce.number().int().min(1).max(MAX_PREVIEW_RUNS).default(5),
+});
+
+// Responses
+
+export const templateSchema = z.strictObject({
+  template_id: z.string(),
+  workspace_id: z.string(),
+  title_pattern: z.string(),
+  recurrence: z.string(),
+  priority: taskPrioritySchema,
+  assignee_id: z.string().nullable(),
+  active: z.boolean(),
+  next_run_at: unixSeconds.nullable(),
+  last_run_at: unixSeconds.nullable(),
+  last_task_id: z.string().nullable(),
+  created_at: unixSeconds,
+  updated_at: unixSeconds,
+}).register(responseSchemas, { id: 'Template' });
+
+export type TemplateResponse = z.infer<typeof templateSchema>;
+
+export const templateListSchema = z.array(templateSchema).register(responseSchemas, { id: 'TemplateList' });
+
+export const templatePreviewSchema = z.strictObject({
+  template_id: z.string(),
+  active: z.boolean(), // A paused template shows the runs it would have once resumed
+  runs: z.array(z.strictObject({ at: unixSeconds, title: z.string() })),
+}).register(responseSchemas, { id: 'TemplatePreview' });
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { requestSchemas, responseSchemas, unixSeconds } from './common';
+
+// Requests
+
+export const createWebhookSchema = z.object({
+  url: z.url({ protocol: /^https?$/ }),
+  secret: z.string().min(16).optional(),
+  event_types: z.array(z.string().min(1)).min(1).optional(),
+}).register(requestSchemas, { id: 'CreateWebhook' });
+
+// Responses
+
+export const webhookSchema = z.strictObject({
+  webhook_id: z.string(),
+  tenant_id: z.string(),
+  url: z.string(),
+  event_types: z.array(z.string()).nullable(), // null: every event
+  created_at: unixSeconds,
+}).register(responseSchemas, { id: 'Webhook' });
+
+export type WebhookResponse = z.infer<typeof webhookSchema>;
+
+// Only returned at registration
+export const createdWebhookSchema = webhookSchema.extend({
+  secret: z.string(),
+}).register(responseSchemas, { id: 'CreatedWebhook' });
+
+export const webhookListSchema = z.array(webhookSchema).register(responseSchemas, { id: 'WebhookList' });
+
+export const deliveryListSchema = z.array(z.strictObject({
+  id: z.string(),
+  event_id: z.string(),
+  status: z.enum(['PENDING', 'DELIVERED', 'DEAD']),
+  attempts: z.number().int(),
+  next_attempt_at: unixSeconds,
+  last_error: z.string().nullable(),
+  updated_at: unixSeconds,
+})).register(responseSchemas, { id: 'WebhookDeliveryList' });
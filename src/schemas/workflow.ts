@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { requestSchemas, responseSchemas, unixSeconds } from './common';
+
+const stateName = z.string().regex(/^[A-Z][A-Z0-9_]{0,31}$/, 'States must be UPPER_SNAKE_CASE');
+const roleSchema = z.enum(['agent', 'manager']);
+
+// Requests
+
+export const putWorkflowSchema = z.object({
+  states: z.array(stateName).min(2),
+  initial_state: stateName,
+  terminal_states: z.array(stateName).min(1),
+  cancel_states: z.array(stateName).default([]), // Terminal states a blocked task may still move into
+  transitions: z.array(z.object({
+    from: stateName,
+    to: stateName,
+    roles: z.array(roleSchema).min(1),
+  })).min(1),
+}).register(requestSchemas, { id: 'PutWorkflow' });
+
+// Responses
+
+export const workflowSchema = z.strictObject({
+  states: z.array(z.string()),
+  initial_state: z.string(),
+  terminal_states: z.array(z.string()),
+  cancel_states: z.array(z.string()),
+  transitions: z.array(z.strictObject({ from: z.string(), to: z.string(), roles: z.array(roleSchema) })),
+  is_default: z.boolean(), // No workflow stored; version and updated_at are null
+  version: z.number().int().nullable(),
+  updated_at: unixSeconds.nullable(),
+}).register(responseSchemas, { id: 'Workflow' });
+
+export type WorkflowResponse = z.infer<typeof workflowSchema>;
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { requestSchemas, responseSchemas, unixSeconds } from './common';
+
+const settingsSchema = z.record(z.string(), z.unknown());
+const roleSchema = z.enum(['agent', 'manager']);
+
+// Requests
+
+export const createWorkspaceSchema = z.object({
+  workspace_id: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/).optional(),
+  name: z.string().min(1).max(120),
+  settings: settingsSchema.optional(),
+}).register(requestSchemas, { id: 'CreateWorkspace' });
+
+export const updateWorkspaceSchema = z.object({
+  name: z.string().min(1).max(120).optional(),
+  settings: settingsSchema.optional(),
+  archived: z.boolean().optional(),
+}).strict().refine(body => Object.values(body).some(v => v !== undefined), {
+  message: 'At least one field is required',
+}).register(requestSchemas, { id: 'UpdateWorkspace' });
+
+export const putMemberSchema = z.object({
+  role: roleSchema,
+}).register(requestSchemas, { id: 'PutMember' });
+
+// Responses
+
+export const workspaceSchema = z.strictObject({
+  workspace_id: z.string(),
+  tenant_id: z.string(),
+  name: z.string(),
+  settings: settingsSchema,
+  archived: z.boolean(),
+  role: roleSchema, // The caller's role in the workspace
+  created_at: unixSeconds,
+  updated_at: unixSeconds,
+}).register(responseSchemas, { id: 'Workspace' });
+
+export type WorkspaceResponse = z.infer<typeof workspaceSchema>;
+
+export const workspaceListSchema = z.array(workspaceSchema).register(responseSchemas, { id: 'WorkspaceList' });
+
+export const memberSchema = z.strictObject({
+  user_id: z.string(),
+  workspace_id: z.string(),
+  role: roleSchema,
+  created_at: unixSeconds,
+}).register(responseSchemas, { id: 'Member' });
+
+export type MemberResponse = z.infer<typeof memberSchema>;
+
+export const memberListSchema = z.array(memberSchema).register(responseSchemas, { id: 'MemberList' });
@@ -1,10 +1,43 @@
 import app from './app';
+import { loadRelayConfig, OutboxRelay } from './workers/outboxRelay';
+import { DeadlineScanner } from './workers/deadlineScanner';
+import { IdempotencyPurger } from './workers/idempotencyPurger';
+import { TemplateScheduler } from './workers/templateScheduler';
+import { migrateUp } from './db/migrate';
+import { loadLimitsConfig } from './middleware/rateLimit';
+import { loadStorageConfig, openTaskStore, useTaskStore } from './repositories/backend';
 
 const PORT = 3000;
 const HOST = '127.0.0.1';
 
-app.listen(PORT, HOST, () => {
-  console.log(`========================================`);
-  console.log(`SERVER STARTED ON http://${HOST}:${PORT}`);
-  console.log(`========================================`);
+// Bring the schema up to date before serving (safe with several processes)
+const appliedMigrations = migrateUp();
+if (appliedMigrations.length) console.log(`Applied migrations: ${appliedMigrations.join(', ')}`);
+
+// Background dispatcher for task_events -> registered webhooks
+const relay = new OutboxRelay(loadRelayConfig());
+// Emits TaskOverdue / SlaBreached events
+const scanner = new DeadlineScanner();
+// Deletes Idempotency-Key records past their TTL
+const purger = new IdempotencyPurger();
+// Spawns tasks from recurring templates
+const templateScheduler = new TemplateScheduler({ limits: loadLimitsConfig() });
+
+// Tasks go to the configured backend (STORAGE_BACKEND); everything else stays in this process's SQLite file,
+// so one server per database
+openTaskStore(loadStorageConfig()).then((store) => {
+  useTaskStore(store);
+
+  app.listen(PORT, HOST, () => {
+    console.log(`========================================`);
+    console.log(`SERVER STARTED ON http://${HOST}:${PORT}`);
+    console.log(`========================================`);
+    relay.start();
+    scanner.start();
+    purger.start();
+    templateScheduler.start();
+  });
+}).catch((e) => {
+  console.error('!!! Failed to open the task store:', e);
+  process.exit(1);
 });
@@ -0,0 +1,61 @@
+import { SlaRepository } from '../repositories/slaRepository';
+import { WorkflowRepository } from '../repositories/workflowRepository';
+import { taskStore } from '../repositories/backend';
+
+export interface DeadlineScannerOptions {
+  batchSize?: number;
+  clock?: () => number; // Unix seconds
+}
+
+export class DeadlineScanner {
+  private readonly slaRepo = new SlaRepository();
+  private readonly workflowRepo = new WorkflowRepository();
+  private readonly batchSize: number;
+  private readonly clock: () => number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(options: DeadlineScannerOptions = {}) {
+    this.batchSize = options.batchSize ?? 500;
+    this.clock = options.clock ?? (() => Math.floor(Date.now() / 1000));
+  }
+
+  start(intervalMs = 60_000) {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      if (this.running) return;
+      this.tick().catch((e) => console.error('!!! Deadline scanner tick failed:', e));
+    }, intervalMs);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // One pass: emit TaskOverdue and SlaBreached events for newly late tasks
+  async tick() {
+    this.running = true;
+    try {
+      const now = this.clock();
+      let overdue = 0;
+      let breached = 0;
+
+      // Workflows and SLA policies stay in SQLite whichever store holds the tasks
+      const terminalStates = await this.workflowRepo.terminalStatesByWorkspace();
+      const policies = await this.slaRepo.listAllPolicies();
+
+      for (const task of await taskStore().findOverdue(now, this.batchSize, terminalStates)) {
+        if (await taskStore().recordOverdue(task.id, task.dueAt, now)) overdue++;
+      }
+
+      for (const breach of await taskStore().findSlaBreaches(now, this.batchSize, policies, terminalStates)) {
+        if (await taskStore().recordSlaBreach(breach, now)) breached++;
+      }
+
+      return { overdue, breached };
+    } finally {
+      this.running = false;
+    }
+  }
+}
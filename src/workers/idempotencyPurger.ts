@@ -0,0 +1,51 @@
+import { IdempotencyRepository } from '../repositories/idempotencyRepository';
+
+export interface IdempotencyPurgerOptions {
+  batchSize?: number;
+  clock?: () => number; // Unix seconds
+}
+
+export class IdempotencyPurger {
+  private readonly repo = new IdempotencyRepository();
+  private readonly batchSize: number;
+  private readonly clock: () => number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(options: IdempotencyPurgerOptions = {}) {
+    this.batchSize = options.batchSize ?? 1000;
+    this.clock = options.clock ?? (() => Math.floor(Date.now() / 1000));
+  }
+
+  start(intervalMs = 10 * 60_000) {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      if (this.running) return;
+      this.tick().catch((e) => console.error('!!! Idempotency purger tick failed:', e));
+    }, intervalMs);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // One pass: delete expired keys in batches so a backlog does not hold the write lock for long
+  async tick() {
+    this.running = true;
+    try {
+      const now = this.clock();
+      let purged = 0;
+
+      for (;;) {
+        const removed = await this.repo.purgeExpired(now, this.batchSize);
+        purged += removed;
+        if (removed < this.batchSize) break;
+      }
+
+      return { purged };
+    } finally {
+      this.running = false;
+    }
+  }
+}
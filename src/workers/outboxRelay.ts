@@ -0,0 +1,133 @@
+import { createHmac } from 'crypto';
+import { WebhookRepository } from '../repositories/webhookRepository';
+import { taskStore } from '../repositories/backend';
+
+export type WebhookSender = (url: string, init: { method: 'POST'; headers: Record<string, string>; body: string; signal: AbortSignal }) => Promise<{ ok: boolean; status: number }>;
+
+export interface OutboxRelayOptions {
+  batchSize?: number;
+  maxAttempts?: number;
+  baseDelaySeconds?: number;
+  timeoutMs?: number; // Per delivery attempt; a timeout counts as a failed attempt
+  send?: WebhookSender;
+  clock?: () => number; // Unix seconds
+}
+
+// WEBHOOK_TIMEOUT_MS overrides the per-attempt timeout
+export function loadRelayConfig(env: NodeJS.ProcessEnv = process.env): OutboxRelayOptions {
+  if (!env.WEBHOOK_TIMEOUT_MS) return {};
+
+  const timeoutMs = Number(env.WEBHOOK_TIMEOUT_MS);
+  if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) throw new Error('WEBHOOK_TIMEOUT_MS must be a positive integer');
+  return { timeoutMs };
+}
+
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export class OutboxRelay {
+  private readonly repo = new WebhookRepository();
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+  private readonly baseDelaySeconds: number;
+  private readonly timeoutMs: number;
+  private readonly send: WebhookSender;
+  private readonly clock: () => number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(options: OutboxRelayOptions = {}) {
+    this.batchSize = options.batchSize ?? 100;
+    this.maxAttempts = options.maxAttempts ?? 8;
+    this.baseDelaySeconds = options.baseDelaySeconds ?? 5;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.send = options.send ?? ((url, init) => fetch(url, init));
+    this.clock = options.clock ?? (() => Math.floor(Date.now() / 1000));
+  }
+
+  start(intervalMs = 1000) {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      // Skip the tick if the previous one is still sending
+      if (this.running) return;
+      this.tick().catch((e) => console.error('!!! Outbox relay tick failed:', e));
+    }, intervalMs);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // One pass: fan new events out to subscriptions, then attempt due deliveries
+  async tick() {
+    this.running = true;
+    try {
+      const now = this.clock();
+
+      // Deliveries are committed before the events are marked dispatched, so
+      // a crash in between fans them out again, which the delivery key dedupes
+      const events = await taskStore().undispatchedEvents(this.batchSize);
+      await this.repo.createDeliveries(events, now);
+      await taskStore().markDispatched(events.map(e => e.id), now);
+
+      // Keep going while deliveries become due: a successful send can
+      // release the next event held back behind it for the same endpoint
+      let attempted = 0;
+      for (;;) {
+        const due = await this.repo.findDueDeliveries(now, this.batchSize);
+        if (due.length === 0) break;
+
+        for (const delivery of due) {
+          await this.deliver(delivery, now);
+        }
+        attempted += due.length;
+      }
+
+      return attempted;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async deliver(delivery: Awaited<ReturnType<WebhookRepository['findDueDeliveries']>>[number], now: number) {
+    const body = JSON.stringify({
+      id: delivery.event.id,
+      tenant_id: delivery.tenantId,
+      task_id: delivery.event.taskId,
+      event_type: delivery.event.eventType,
+      payload: delivery.event.payload,
+      created_at: delivery.event.createdAt,
+    });
+
+    const attempts = delivery.attempts + 1;
+
+    try {
+      const res = await this.send(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Timestamp': String(now),
+          'X-Webhook-Signature': `sha256=${signPayload(delivery.secret, now, body)}`,
+        },
+        body,
+        // An endpoint that never answers must not hold up the relay for everyone else
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+      await this.repo.markDelivered(delivery.id, attempts, now);
+    } catch (e: any) {
+      // Exponential backoff: base, 2x base, 4x base, ... until maxAttempts
+      const nextAttemptAt = attempts >= this.maxAttempts
+        ? null
+        : now + this.baseDelaySeconds * 2 ** (attempts - 1);
+
+      const error = e?.name === 'TimeoutError' ? `Timed out after ${this.timeoutMs}ms` : e.message;
+      await this.repo.markFailed(delivery.id, attempts, error, nextAttemptAt, now);
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import { TaskTemplate, TemplateRepository } from '../repositories/templateRepository';
+import { WorkflowRepository } from '../repositories/workflowRepository';
+import { WorkspaceRepository } from '../repositories/workspaceRepository';
+import { AutoAssigner } from '../repositories/autoAssigner';
+import { taskStore } from '../repositories/backend';
+import { OpenTaskQuota } from '../repositories/taskStore';
+import { RecurrenceDomain } from '../domain/recurrence';
+import { QuotaExceededError } from '../domain/errors';
+import { LimitsConfig, limitsFor } from '../middleware/rateLimit';
+import { v5 as uuidv5 } from 'uuid';
+
+export interface TemplateSchedulerOptions {
+  batchSize?: number;
+  clock?: () => number; // Unix seconds
+  limits?: LimitsConfig; // Tenant quotas, as for the API (TENANT_LIMITS)
+}
+
+// Never change this: existing runs would get new task IDs and be created again
+const OCCURRENCE_NAMESPACE = '5b0d6f3c-2f4e-4b8a-9c41-7a1e3d9f2c60';
+
+// The task ID (and so the idempotency key) of one run of a template
+export function occurrenceTaskId(templateId: string, runAt: number): string {
+  return uuidv5(`${templateId}:${runAt}`, OCCURRENCE_NAMESPACE);
+}
+
+export class TemplateScheduler {
+  private readonly templates = new TemplateRepository();
+  private readonly workflows = new WorkflowRepository();
+  private readonly workspaces = new WorkspaceRepository();
+  private readonly batchSize: number;
+  private readonly clock: () => number;
+  private readonly limits: LimitsConfig;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(options: TemplateSchedulerOptions = {}) {
+    this.batchSize = options.batchSize ?? 100;
+    this.clock = options.clock ?? (() => Math.floor(Date.now() / 1000));
+    this.limits = options.limits ?? { tenants: {} };
+  }
+
+  start(intervalMs = 30_000) {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      if (this.running) return;
+      this.tick().catch((e) => console.error('!!! Template scheduler tick failed:', e));
+    }, intervalMs);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // One pass: spawn a task for every template whose next run has come
+  async tick() {
+    this.running = true;
+    try {
+      const now = this.clock();
+      let spawned = 0;
+
+      for (const template of await this.templates.findDue(now, this.batchSize)) {
+        if (await this.run(template, now)) spawned++;
+      }
+
+      return { spawned };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Spawns the latest due run; runs missed while the scheduler was down are
+   * skipped rather than created in a burst. Archived workspaces only advance,
+   * and so do workspaces at the tenant's open-task quota.
+   */
+  private async run(template: TaskTemplate, now: number): Promise<boolean> {
+    const schedule = RecurrenceDomain.parse(template.recurrence);
+    const runAt = RecurrenceDomain.latestDue(schedule, template.nextRunAt!, now);
+
+    const workspace = await this.workspaces.findById(template.workspaceId, template.tenantId);
+    let taskId = workspace && !workspace.archived ? occurrenceTaskId(template.id, runAt) : null;
+    let created = false;
+    try {
+      created = taskId !== null && await this.createOnce(template, taskId, runAt);
+    } catch (e) {
+      if (!(e instanceof QuotaExceededError)) throw e;
+      taskId = null;
+    }
+
+    // Crashing before this line is safe: the next tick finds the task already there
+    await this.templates.recordRun(template.id, template.nextRunAt!, {
+      at: runAt,
+      taskId,
+      nextRunAt: RecurrenceDomain.next(schedule, now),
+    });
+
+    return created;
+  }
+
+  private async createOnce(template: TaskTemplate, taskId: string, runAt: number): Promise<boolean> {
+    const store = taskStore();
+    if (await store.findById(taskId, template.tenantId, { includeDeleted: true })) return false;
+
+    const workflow = await this.workflows.resolve(template.workspaceId, template.tenantId);
+    const max = limitsFor(this.limits, template.tenantId).quotas.maxOpenTasksPerWorkspace;
+    const quota: OpenTaskQuota | null = max === null ? null : { maxOpenTasks: max, terminalStates: workflow.terminalStates };
+
+    // A default assignee who has left the workspace is dropped, not an error; without one the assignment policy applies
+    const assigneeId = template.assigneeId && await this.workspaces.findMember(template.workspaceId, template.tenantId, template.assigneeId)
+      ? template.assigneeId
+      : null;
+    const assigner = assigneeId === null ? await AutoAssigner.onCreate(template.workspaceId, template.tenantId, workflow) : null;
+
+    try {
+      await store.create({
+        id: taskId,
+        tenantId: template.tenantId,
+        workspaceId: template.workspaceId,
+        title: RecurrenceDomain.renderTitle(template.titlePattern, runAt),
+        priority: template.priority,
+        state: workflow.initialState,
+        assigneeId,
+        dueAt: null,
+        assignment: await assigner?.pick(template),
+      }, null, quota);
+      return true;
+    } catch (e) {
+      // Another scheduler created the same run first
+      if (await store.findById(taskId, template.tenantId, { includeDeleted: true })) return false;
+      throw e;
+    }
+  }
+}
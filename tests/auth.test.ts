@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { createHmac, generateKeyPairSync, sign } from 'crypto';
+import { authenticate, AuthConfig } from '../src/middleware/auth';
+import { errorHandler } from '../src/middleware/errors';
+
+const encode = (obj: object) => Buffer.from(JSON.stringify(obj)).toString('base64url');
+
+const hs256 = (claims: object, secret: string, alg = 'HS256') => {
+    const input = `${encode({ alg, typ: 'JWT' })}.${encode(claims)}`;
+    return `${input}.${createHmac('sha256', secret).update(input).digest('base64url')}`;
+};
+
+describe('Authentication middleware', () => {
+    const secret = 'test-secret-value';
+    const now = Math.floor(Date.now() / 1000);
+    const claims = { sub: 'user_1', tenant_id: 'tenant_1', role: 'manager', exp: now + 60 };
+
+    const buildApp = (config: AuthConfig) => {
+        const app = express();
+        app.use(authenticate(config));
+        app.get('/whoami', (req, res) => res.json(req.auth));
+        app.use(errorHandler);
+        return app;
+    };
+
+    const jwtApp = buildApp({ mode: 'jwt', hmacSecret: secret, clockSkewSeconds: 0, issuer: 'your-profit' });
+
+    it('should derive the context from a valid HS256 token', async () => {
+        const token = hs256({ ...claims, iss: 'your-profit' }, secret);
+        const res = await request(jwtApp).get('/whoami').set('Authorization', `Bearer ${token}`);
+
+        expect(res.status).toBe(200);
+        expect(res.body).toEqual({ tenantId: 'tenant_1', userId: 'user_1', role: 'manager' });
+    });
+
+    it('should reject missing, forged, expired, non-expiring and unsigned tokens with 401', async () => {
+        const tokens = [
+            undefined,
+            hs256({ ...claims, iss: 'your-profit' }, 'wrong-secret'),
+            hs256({ ...claims, iss: 'your-profit', exp: now - 10 }, secret),
+            hs256({ ...claims, iss: 'your-profit', exp: undefined }, secret),
+            hs256({ ...claims, iss: 'your-profit', exp: String(now + 60) }, secret),
+            hs256({ ...claims, iss: 'someone-else' }, secret),
+            `${encode({ alg: 'none' })}.${encode({ ...claims, iss: 'your-profit' })}.`,
+        ];
+
+        for (const token of tokens) {
+            const req = request(jwtApp).get('/whoami');
+            const res = token ? await req.set('Authorization', `Bearer ${token}`) : await req;
+
+            expect(res.status).toBe(401);
+            expect(res.headers['www-authenticate']).toBe('Bearer');
+            expect(res.body.code).toBe('unauthorized');
+        }
+    });
+
+    it('should ignore trusted headers in jwt mode', async () => {
+        const res = await request(jwtApp)
+            .get('/whoami')
+            .set('X-Tenant-Id', 'tenant_1')
+            .set('X-Role', 'manager');
+
+        expect(res.status).toBe(401);
+    });
+
+    it('should verify RS256 tokens against the configured public key', async () => {
+        const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+        const app = buildApp({ mode: 'jwt', publicKey, clockSkewSeconds: 0 });
+
+        const input = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode({ ...claims, roles: ['agent'], role: undefined })}`;
+        const token = `${input}.${sign('RSA-SHA256', Buffer.from(input), privateKey).toString('base64url')}`;
+
+        const res = await request(app).get('/whoami').set('Authorization', `Bearer ${token}`);
+        expect(res.status).toBe(200);
+        expect(res.body.role).toBe('agent');
+
+        // An HS256 token is refused when only an RSA key is configured
+        const downgraded = await request(app).get('/whoami').set('Authorization', `Bearer ${hs256(claims, secret)}`);
+        expect(downgraded.status).toBe(401);
+    });
+
+    it('should trust headers only in explicit dev mode', async () => {
+        const app = buildApp({ mode: 'headers', clockSkewSeconds: 0 });
+
+        const res = await request(app)
+            .get('/whoami')
+            .set('X-Tenant-Id', 'tenant_1')
+            .set('X-Role', 'agent')
+            .set('X-User-Id', 'agent_1');
+
+        expect(res.body).toEqual({ tenantId: 'tenant_1', userId: 'agent_1', role: 'agent' });
+        expect((await request(app).get('/whoami')).status).toBe(401);
+    });
+});
@@ -0,0 +1,122 @@
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { asc, eq, and, SQL } from 'drizzle-orm';
+import { db } from '../src/db';
+import * as schema from '../src/db/schema';
+import * as pgSchema from '../src/db/pg/schema';
+import { PgDb } from '../src/db/pg';
+import { migratePgUp } from '../src/db/pg/migrate';
+import { TaskHandoff, TaskStore } from '../src/repositories/taskStore';
+import { TaskRepository } from '../src/repositories/taskRepository';
+import { PgTaskRepository } from '../src/repositories/pgTaskRepository';
+
+type TaskRow = typeof schema.tasks.$inferSelect;
+type NewTaskRow = typeof schema.tasks.$inferInsert;
+type EventRow = typeof schema.taskEvents.$inferSelect;
+type NewEventRow = typeof schema.taskEvents.$inferInsert;
+
+/**
+ * A task store for suites that run once per backend, with direct access to
+ * its rows for fixtures and for checking what was stored. Everything else
+ * (workspaces, workflows, webhooks, ...) stays in SQLite for every backend.
+ */
+export interface Backend {
+    name: string;
+    open(): Promise<TaskStore>;
+    close(): Promise<void>;
+    // Empties the tables behind the store
+    reset(): Promise<void>;
+    insertTasks(rows: NewTaskRow[]): Promise<void>;
+    updateTask(taskId: string, changes: Partial<NewTaskRow>): Promise<void>;
+    tasks(filter?: { workspaceId?: string }): Promise<TaskRow[]>;
+    task(taskId: string): Promise<TaskRow | undefined>;
+    insertEvents(rows: NewEventRow[]): Promise<void>;
+    updateEvent(eventId: string, changes: Partial<NewEventRow>): Promise<void>;
+    // In seq order
+    events(filter?: { taskId?: string, eventType?: string }): Promise<EventRow[]>;
+    handoff(handoffId: string): Promise<TaskHandoff | undefined>;
+}
+
+const sqliteBackend: Backend = {
+    name: 'sqlite',
+    open: async () => new TaskRepository(),
+    close: async () => {},
+    reset: async () => {
+        await db.delete(schema.taskComments);
+        await db.delete(schema.taskDependencies);
+        await db.delete(schema.taskHandoffs);
+        await db.delete(schema.taskEvents);
+        await db.delete(schema.tasks);
+    },
+    insertTasks: async (rows) => {
+        await db.insert(schema.tasks).values(rows);
+    },
+    updateTask: async (taskId, changes) => {
+        await db.update(schema.tasks).set(changes).where(eq(schema.tasks.id, taskId));
+    },
+    tasks: async (filter = {}) => db.select().from(schema.tasks)
+        .where(filter.workspaceId ? eq(schema.tasks.workspaceId, filter.workspaceId) : undefined)
+        .all(),
+    task: async (taskId) => db.select().from(schema.tasks).where(eq(schema.tasks.id, taskId)).get(),
+    insertEvents: async (rows) => {
+        await db.insert(schema.taskEvents).values(rows);
+    },
+    updateEvent: async (eventId, changes) => {
+        await db.update(schema.taskEvents).set(changes).where(eq(schema.taskEvents.id, eventId));
+    },
+    events: async (filter = {}) => {
+        const conditions: SQL[] = [];
+        if (filter.taskId) conditions.push(eq(schema.taskEvents.taskId, filter.taskId));
+        if (filter.eventType) conditions.push(eq(schema.taskEvents.eventType, filter.eventType));
+        return db.select().from(schema.taskEvents).where(and(...conditions)).orderBy(asc(schema.taskEvents.seq)).all();
+    },
+    handoff: async (handoffId) => db.select().from(schema.taskHandoffs).where(eq(schema.taskHandoffs.id, handoffId)).get(),
+};
+
+// Embedded PostgreSQL (WASM), migrated with the same files as a real server
+let pglite: PGlite;
+let pg: PgDb;
+
+const postgresBackend: Backend = {
+    name: 'postgres',
+    open: async () => {
+        pglite = new PGlite();
+        pg = drizzle(pglite, { schema: pgSchema }) as unknown as PgDb;
+        await migratePgUp(pg);
+        return new PgTaskRepository(pg);
+    },
+    close: async () => {
+        await pglite.close();
+    },
+    reset: async () => {
+        await pg.delete(pgSchema.taskComments);
+        await pg.delete(pgSchema.taskDependencies);
+        await pg.delete(pgSchema.taskHandoffs);
+        await pg.delete(pgSchema.taskEvents);
+        await pg.delete(pgSchema.tasks);
+    },
+    insertTasks: async (rows) => {
+        await pg.insert(pgSchema.tasks).values(rows);
+    },
+    updateTask: async (taskId, changes) => {
+        await pg.update(pgSchema.tasks).set(changes).where(eq(pgSchema.tasks.id, taskId));
+    },
+    tasks: async (filter = {}) => pg.select().from(pgSchema.tasks)
+        .where(filter.workspaceId ? eq(pgSchema.tasks.workspaceId, filter.workspaceId) : undefined),
+    task: async (taskId) => (await pg.select().from(pgSchema.tasks).where(eq(pgSchema.tasks.id, taskId)))[0],
+    insertEvents: async (rows) => {
+        await pg.insert(pgSchema.taskEvents).values(rows);
+    },
+    updateEvent: async (eventId, changes) => {
+        await pg.update(pgSchema.taskEvents).set(changes).where(eq(pgSchema.taskEvents.id, eventId));
+    },
+    events: async (filter = {}) => {
+        const conditions: SQL[] = [];
+        if (filter.taskId) conditions.push(eq(pgSchema.taskEvents.taskId, filter.taskId));
+        if (filter.eventType) conditions.push(eq(pgSchema.taskEvents.eventType, filter.eventType));
+        return pg.select().from(pgSchema.taskEvents).where(and(...conditions)).orderBy(asc(pgSchema.taskEvents.seq));
+    },
+    handoff: async (handoffId) => (await pg.select().from(pgSchema.taskHandoffs).where(eq(pgSchema.taskHandoffs.id, handoffId)))[0],
+};
+
+export const backends = [sqliteBackend, postgresBackend];
@@ -0,0 +1,13 @@
+process.env.DB_PATH = ':memory:';
+// Trust X-Tenant-Id / X-Role / X-User-Id instead of verifying bearer tokens
+process.env.AUTH_MODE = 'headers';
+// Fail any documented route whose response drifts from its OpenAPI schema
+process.env.VALIDATE_RESPONSES = 'true';
+// No rate limits except for the tenants the limit tests use
+process.env.TENANT_LIMITS = JSON.stringify({
+    defaults: { rates: { read: null, write: null, bulk: null, events: null }, quotas: { maxOpenTasksPerWorkspace: null } },
+    tenants: {
+        tenant_limited: { rates: { write: { capacity: 2, refillPerSecond: 0.01, per: 'user' } } },
+        tenant_quota: { quotas: { maxOpenTasksPerWorkspace: 2 } },
+    },
+});
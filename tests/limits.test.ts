@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import app from '../src/app';
+import { sqlite, db } from '../src/db';
+import { tasks, workspaces, workspaceMembers } from '../src/db/schema';
+import { authenticate } from '../src/middleware/auth';
+import { errorHandler } from '../src/middleware/errors';
+import { LimitsConfig, limitsFor, loadLimitsConfig, rateLimit, routeGroup } from '../src/middleware/rateLimit';
+import { MemoryRateLimitStore } from '../src/lib/tokenBucket';
+import { eq } from 'drizzle-orm';
+
+describe('Rate limiting', () => {
+    const rule = { capacity: 2, refillPerSecond: 1 };
+
+    const buildApp = (config: LimitsConfig, clock: () => number) => {
+        const testApp = express();
+        testApp.use(authenticate({ mode: 'headers', clockSkewSeconds: 0 }));
+        testApp.use(rateLimit({ config, clock }));
+        testApp.get('/tasks', (req, res) => res.json({ ok: true }));
+        testApp.post('/tasks', (req, res) => res.status(201).json({ ok: true }));
+        testApp.use(errorHandler);
+        return testApp;
+    };
+
+    it('should refill buckets over time and never past their capacity', async () => {
+        const store = new MemoryRateLimitStore();
+
+        expect(await store.take('k', rule, 0)).toMatchObject({ allowed: true, remaining: 1 });
+        expect(await store.take('k', rule, 0)).toMatchObject({ allowed: true, remaining: 0, resetSeconds: 2 });
+        expect(await store.take('k', rule, 500)).toMatchObject({ allowed: false, retryAfterSeconds: 1 });
+        expect(await store.take('k', rule, 1000)).toMatchObject({ allowed: true, remaining: 0 });
+        expect(await store.take('k', rule, 60_000)).toMatchObject({ allowed: true, remaining: 1 });
+    });
+
+    it('should answer 429 with Retry-After once a tenant bucket is empty', async () => {
+        let now = 0;
+        const testApp = buildApp({ defaults: { rates: { write: { ...rule, per: 'tenant' } }, quotas: {} }, tenants: {} }, () => now);
+        const post = (userId: string) => request(testApp).post('/tasks').set('X-Tenant-Id', 'tenant_1').set('X-User-Id', userId);
+
+        const first = await post('u1');
+        expect(first.status).toBe(201);
+        expect(first.headers).toMatchObject({ 'ratelimit-limit': '2', 'ratelimit-remaining': '1', 'ratelimit-reset': '1' });
+        expect((await post('u2')).status).toBe(201);
+
+        const limited = await post('u1');
+        expect(limited.status).toBe(429);
+        expect(limited.headers['retry-after']).toBe('1');
+        expect(limited.body).toMatchObject({ code: 'rate_limited', retry_after: 1 });
+
+        // Reads have their own bucket, and other tenants their own buckets
+        expect((await request(testApp).get('/tasks').set('X-Tenant-Id', 'tenant_1')).status).toBe(200);
+        expect((await request(testApp).post('/tasks').set('X-Tenant-Id', 'tenant_2')).status).toBe(201);
+
+        now += 1000;
+        expect((await post('u1')).status).toBe(201);
+    });
+
+    it('should give every user a bucket of their own when configured per user', async () => {
+        const testApp = buildApp({ tenants: { tenant_1: { rates: { write: { ...rule, per: 'user' } }, quotas: {} } } }, () => 0);
+        const post = (userId: string) => request(testApp).post('/tasks').set('X-Tenant-Id', 'tenant_1').set('X-User-Id', userId);
+
+        expect((await post('u1')).status).toBe(201);
+        expect((await post('u1')).status).toBe(201);
+        expect((await post('u1')).status).toBe(429);
+        expect((await post('u2')).status).toBe(201);
+    });
+
+    it('should layer tenant settings over the defaults', () => {
+        const config = loadLimitsConfig({
+            TENANT_LIMITS: JSON.stringify({
+                defaults: { rates: { bulk: null }, quotas: { maxOpenTasksPerWorkspace: 500 } },
+                tenants: { big: { rates: { write: { capacity: 1000, refillPerSecond: 100 } }, quotas: { maxOpenTasksPerWorkspace: null } } },
+            }),
+        });
+
+        const small = limitsFor(config, 'small');
+        expect(small.rates.bulk).toBeUndefined();
+        expect(small.rates.write).toEqual({ capacity: 100, refillPerSecond: 20, per: 'tenant' });
+        expect(small.quotas.maxOpenTasksPerWorkspace).toBe(500);
+
+        const big = limitsFor(config, 'big');
+        expect(big.rates.write).toEqual({ capacity: 1000, refillPerSecond: 100, per: 'tenant' });
+        expect(big.quotas.maxOpenTasksPerWorkspace).toBeNull();
+
+        expect(() => loadLimitsConfig({ TENANT_LIMITS: '{"tenants":{"t":{"rates":{"write":{"capacity":0}}}}}' })).toThrow(/Invalid TENANT_LIMITS/);
+    });
+
+    it('should group routes by cost', () => {
+        expect(routeGroup('GET', '/workspaces/ws_1/tasks')).toBe('read');
+        expect(routeGroup('POST', '/workspaces/ws_1/tasks')).toBe('write');
+        expect(routeGroup('POST', '/workspaces/ws_1/tasks:bulk')).toBe('bulk');
+        expect(routeGroup('GET', '/workspaces/ws_1/tasks/export')).toBe('bulk');
+        expect(routeGroup('GET', '/workspaces/ws_1/events/stream')).toBe('events');
+        expect(routeGroup('PUT', '/consumers/feed/offset')).toBe('events');
+    });
+});
+
+describe('Limits on the API', () => {
+    const workspaceId = 'ws_1';
+
+    beforeAll(async () => {
+        for (const tenantId of ['tenant_limited', 'tenant_quota']) {
+            await db.insert(workspaces).values({ id: workspaceId, tenantId, name: workspaceId });
+            await db.insert(workspaceMembers).values([
+                { tenantId, workspaceId, userId: 'mgr_1', role: 'manager' },
+                { tenantId, workspaceId, userId: 'mgr_2', role: 'manager' },
+            ]);
+        }
+    });
+
+    afterAll(() => {
+        sqlite.close();
+    });
+
+    const create = (tenantId: string, userId = 'mgr_1', title = 'Task') => request(app)
+        .post(`/v1/workspaces/${workspaceId}/tasks`)
+        .set('X-Tenant-Id', tenantId)
+        .set('X-User-Id', userId)
+        .send({ title });
+
+    it('should rate limit writes per user for the configured tenant', async () => {
+        expect((await create('tenant_limited')).status).toBe(201);
+        expect((await create('tenant_limited')).status).toBe(201);
+
+        const limited = await create('tenant_limited');
+        expect(limited.status).toBe(429);
+        expect(limited.headers['content-type']).toMatch(/application\/problem\+json/);
+        expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+
+        expect((await create('tenant_limited', 'mgr_2')).status).toBe(201);
+    });
+
+    it('should cap open tasks per workspace on every create path and on reopen', async () => {
+        const first = await create('tenant_quota', 'mgr_1', 'One');
+        await create('tenant_quota', 'mgr_1', 'Two');
+
+        const over = await create('tenant_quota', 'mgr_1', 'Three');
+        expect(over.status).toBe(429);
+        expect(over.body).toMatchObject({ code: 'quota_exceeded', quota: 'open_tasks_per_workspace', limit: 2 });
+        expect(over.headers['retry-after']).toBeUndefined();
+
+        const imported = await request(app)
+            .post(`/v1/workspaces/${workspaceId}/tasks/import`)
+            .set('X-Tenant-Id', 'tenant_quota')
+            .set('X-User-Id', 'mgr_1')
+            .send([{ title: 'Imported' }]);
+        expect(imported.body.code).toBe('quota_exceeded');
+
+        // A cancelled task no longer counts
+        await request(app)
+            .post(`/v1/workspaces/${workspaceId}/tasks/${first.body.task_id}/transition`)
+            .set('X-Tenant-Id', 'tenant_quota')
+            .set('X-User-Id', 'mgr_1')
+            .set('If-Match-Version', '1')
+            .send({ to_state: 'CANCELLED' });
+
+        const bulk = await request(app)
+            .post(`/v1/workspaces/${workspaceId}/tasks:bulk`)
+            .set('X-Tenant-Id', 'tenant_quota')
+            .set('X-User-Id', 'mgr_1')
+            .send({ operations: [{ op: 'create', title: 'Three' }, { op: 'create', title: 'Four' }] });
+        expect(bulk.body.results.map((r: any) => r.status)).toEqual(['ok', 'quota_exceeded']);
+
+        const stored = await db.select().from(tasks).where(eq(tasks.tenantId, 'tenant_quota')).all();
+        expect(stored.map(t => t.title).sort()).toEqual(['One', 'Three', 'Two']);
+
+        // Reopening the cancelled task would make it open again
+        const reopened = await request(app)
+            .post(`/v1/workspaces/${workspaceId}/tasks/${first.body.task_id}/reopen`)
+            .set('X-Tenant-Id', 'tenant_quota')
+            .set('X-User-Id', 'mgr_1')
+            .set('If-Match-Version', '2');
+        expect(reopened.status).toBe(429);
+        expect(reopened.body.code).toBe('quota_exceeded');
+        const [cancelled] = await db.select().from(tasks).where(eq(tasks.id, first.body.task_id)).all();
+        expect(cancelled.state).toBe('CANCELLED');
+    });
+});
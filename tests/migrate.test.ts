@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { sqlite } from '../src/db';
+import { loadMigrations, migrateDown, migrateUp, migrationStatus } from '../src/db/migrate';
+
+const tables = () => (sqlite.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as { name: string }[])
+    .map(t => t.name);
+
+describe('Migrations', () => {
+    it('should have applied every migration during test setup', () => {
+        const status = migrationStatus();
+
+        expect(status.map(m => m.tag)).toEqual(loadMigrations().map(m => m.tag));
+        expect(status.every(m => m.appliedAt !== null && !m.changed)).toBe(true);
+        expect(migrateUp()).toEqual([]);
+    });
+
+    it('should revert and re-apply in order', () => {
+        const all = loadMigrations().map(m => m.tag);
+
+        expect(migrateDown(all.length)).toEqual([...all].reverse());
+        expect(tables()).not.toContain('tasks');
+        expect(migrationStatus().every(m => m.appliedAt === null)).toBe(true);
+
+        expect(migrateUp()).toEqual(all);
+        expect(tables()).toEqual(expect.arrayContaining(['tasks', 'task_events', 'tasks_fts']));
+    });
+
+    it('should flag applied migrations whose file has changed', () => {
+        const edited = loadMigrations().map((m, i) => i === 0 ? { ...m, checksum: 'edited' } : m);
+
+        expect(migrationStatus(edited)[0].changed).toBe(true);
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import app from '../src/app';
+import { asyncHandler, errorHandler } from '../src/middleware/errors';
+import { validateResponses } from '../src/middleware/responseValidation';
+
+describe('OpenAPI document', () => {
+    it('should serve an OpenAPI 3.1 document without authentication', async () => {
+        const res = await request(app).get('/v1/openapi.json');
+
+        expect(res.status).toBe(200);
+        expect(res.body.openapi).toBe('3.1.0');
+        expect(Object.keys(res.body.paths)).toEqual(expect.arrayContaining([
+            '/workspaces/{workspaceId}/tasks',
+            '/workspaces/{workspaceId}/tasks/{taskId}',
+            '/workspaces/{workspaceId}/tasks/{taskId}/assign',
+            '/workspaces/{workspaceId}/tasks/{taskId}/transition',
+            '/workspaces/{workspaceId}/tasks/{taskId}/comments',
+            '/workspaces/{workspaceId}/tasks/{taskId}/dependencies',
+            '/workspaces/{workspaceId}/workflow',
+            '/workspaces/{workspaceId}/members/{userId}',
+            '/workspaces/{workspaceId}/sla-policies/{priority}',
+            '/workspaces/{workspaceId}/events/stream',
+            '/workspaces/{workspaceId}/analytics',
+            '/webhooks/{webhookId}/deliveries',
+            '/events',
+            '/consumers/{name}/offset',
+        ]));
+        expect(Object.keys(res.body.components.schemas)).toEqual(expect.arrayContaining([
+            'CreateTask', 'AssignTask', 'TransitionTask', 'Task', 'TaskWriteResult', 'Problem',
+            'Comment', 'DependencyList', 'Workflow', 'Workspace', 'Member', 'Webhook', 'EventFeed', 'SlaPolicy', 'WorkspaceAnalytics',
+        ]));
+    });
+
+    it('should document the tenant, version and idempotency headers', async () => {
+        const { body: doc } = await request(app).get('/v1/openapi.json');
+        const headerNames = (op: any) => op.parameters
+            .map((p: any) => p.$ref ? doc.components.parameters[p.$ref.split('/').pop()] : p)
+            .filter((p: any) => p.in === 'header')
+            .map((p: any) => p.name);
+
+        const assign = doc.paths['/workspaces/{workspaceId}/tasks/{taskId}/assign'].post;
+        expect(headerNames(assign)).toEqual(expect.arrayContaining(['X-Tenant-Id', 'If-Match-Version', 'Idempotency-Key']));
+        expect(doc.components.parameters.IfMatchVersion.required).toBe(true);
+
+        // Reads are neither versioned nor idempotent
+        const get = doc.paths['/workspaces/{workspaceId}/tasks/{taskId}'].get;
+        expect(headerNames(get)).toEqual(['X-Tenant-Id', 'X-Role', 'X-User-Id']);
+    });
+
+    it('should describe request bodies as sent and responses as returned', async () => {
+        const { body: doc } = await request(app).get('/v1/openapi.json');
+        const { CreateTask, Task } = doc.components.schemas;
+
+        // priority has a default, so clients may omit it
+        expect(CreateTask.required).toEqual(['title']);
+        expect(Task.required).toEqual(expect.arrayContaining(['task_id', 'version', 'state', 'due_at']));
+        expect(Task.properties.timeline.items).toEqual({ $ref: '#/components/schemas/TaskEvent' });
+        expect(doc.paths['/workspaces/{workspaceId}/tasks'].post.requestBody.content['application/json'].schema)
+            .toEqual({ $ref: '#/components/schemas/CreateTask' });
+    });
+
+    it('should serve the docs page', async () => {
+        const res = await request(app).get('/v1/docs');
+
+        expect(res.status).toBe(200);
+        expect(res.headers['content-type']).toMatch(/text\/html/);
+        expect(res.text).toContain('spec-url="openapi.json"');
+    });
+});
+
+describe('Response validation', () => {
+    // Serves a documented path with whatever the test hands back
+    const buildApp = (status: number, body: unknown) => {
+        const testApp = express();
+        const router = express.Router();
+        router.use(validateResponses());
+        router.get('/workspaces/:workspaceId/tasks/:taskId', asyncHandler((req, res) => res.status(status).json(body)));
+        testApp.use('/v1', router);
+        testApp.use(errorHandler);
+        return testApp;
+    };
+
+    const task = {
+        task_id: 't1', tenant_id: 'tenant_1', workspace_id: 'ws_1', title: 'Task', priority: 'LOW', state: 'NEW',
+        assignee_id: null, version: 1, created_at: 1, updated_at: 1, deleted_at: null, due_at: null, comment_count: 0, labels: [], custom_fields: {},
+    };
+
+    it('should pass a response that matches its schema', async () => {
+        const res = await request(buildApp(200, task)).get('/v1/workspaces/ws_1/tasks/t1');
+
+        expect(res.status).toBe(200);
+        expect(res.body).toEqual(task);
+    });
+
+    it('should fail a response that drifts from its schema', async () => {
+        const res = await request(buildApp(200, { ...task, version: '1', extra: true })).get('/v1/workspaces/ws_1/tasks/t1');
+
+        expect(res.status).toBe(500);
+        expect(res.body.code).toBe('response_validation_failed');
+        expect(res.body.errors.map((e: any) => e.path)).toContain('version');
+    });
+
+    it('should fail an undocumented success status', async () => {
+        const res = await request(buildApp(201, task)).get('/v1/workspaces/ws_1/tasks/t1');
+
+        expect(res.status).toBe(500);
+        expect(res.body.code).toBe('response_validation_failed');
+    });
+});
@@ -1 +1,9 @@
-process.env.DB_PATH = ':memory:';
+// Must run before anything opens the database connection
+import './env';
+import { beforeAll } from 'vitest';
+import { migrateUp } from '../src/db/migrate';
+
+// Build the schema with the same migrations the server applies at startup
+beforeAll(() => {
+    migrateUp();
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import request from 'supertest';
+import app from '../src/app';
+import { db } from '../src/db';
+import * as schema from '../src/db/schema';
+import { taskStore, useTaskStore } from '../src/repositories/backend';
+import { QuotaExceededError, VersionConflictError } from '../src/domain/errors';
+import { backends } from './backends';
+import { v4 as uuidv4 } from 'uuid';
+
+// Store guarantees that the HTTP suites cannot reach; tests/task.test.ts runs the API on every store
+const workspaceId = 'ws_1';
+const tenantId = 'tenant_1';
+
+describe.each(backends)('Task store on $name', (backend) => {
+    const previous = taskStore();
+
+    beforeAll(async () => {
+        useTaskStore(await backend.open());
+
+        // Workspaces and members stay in SQLite for every backend
+        await db.delete(schema.workspaceMembers);
+        await db.delete(schema.workspaces);
+        await db.insert(schema.workspaces).values({ id: workspaceId, tenantId, name: workspaceId });
+        await db.insert(schema.workspaceMembers).values([
+            { tenantId, workspaceId, userId: 'mgr_1', role: 'manager' },
+            { tenantId, workspaceId, userId: 'agent_1', role: 'agent' },
+            { tenantId, workspaceId, userId: 'agent_2', role: 'agent' },
+        ]);
+    });
+
+    afterAll(async () => {
+        useTaskStore(previous);
+        await backend.close();
+    });
+
+    beforeEach(async () => {
+        await backend.reset();
+    });
+
+    const base = `/v1/workspaces/${workspaceId}/tasks`;
+
+    const createTask = async (fields: object = {}) => {
+        const res = await request(app)
+            .post(base)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', 'mgr_1')
+            .send({ title: 'Task', ...fields });
+        expect(res.status).toBe(201);
+        return res.body.task_id as string;
+    };
+
+    const getTask = (taskId: string, query = '') => request(app)
+        .get(`${base}/${taskId}${query}`)
+        .set('X-Tenant-Id', tenantId)
+        .set('X-User-Id', 'mgr_1');
+
+    it('should let only one of two concurrent writers with the same version win', async () => {
+        const taskId = await createTask();
+
+        // Straight at the store, past the controller's own read of the task
+        const results = await Promise.allSettled([
+            taskStore().transition(taskId, 'CANCELLED', 1),
+            taskStore().transition(taskId, 'IN_PROGRESS', 1),
+        ]);
+        expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+        const rejected = results.find(r => r.status === 'rejected') as PromiseRejectedResult;
+        expect(rejected.reason).toBeInstanceOf(VersionConflictError);
+        expect((await getTask(taskId)).body.version).toBe(2);
+    });
+
+    it('should enforce the open task quota inside the creating transaction', async () => {
+        const quota = { maxOpenTasks: 1, terminalStates: ['DONE', 'CANCELLED'] };
+        const newTask = (id: string) => ({ id, tenantId, workspaceId, title: id, priority: 'LOW' as const, state: 'NEW', assigneeId: null, dueAt: null });
+
+        const results = await Promise.allSettled([
+            taskStore().create(newTask(uuidv4()), null, quota),
+            taskStore().create(newTask(uuidv4()), null, quota),
+        ]);
+        expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+        expect((results.find(r => r.status === 'rejected') as PromiseRejectedResult).reason).toBeInstanceOf(QuotaExceededError);
+
+        await expect(taskStore().importTasks([newTask(uuidv4())], null, quota)).rejects.toBeInstanceOf(QuotaExceededError);
+    });
+
+    it('should not let two concurrent links close a cycle', async () => {
+        const a = await createTask();
+        const b = await createTask();
+
+        const results = await Promise.allSettled([
+            taskStore().linkDependency(a, b, tenantId, workspaceId),
+            taskStore().linkDependency(b, a, tenantId, workspaceId),
+        ]);
+        expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+        expect((results.find(r => r.status === 'rejected') as PromiseRejectedResult).reason).toMatchObject({ code: 'dependency_cycle' });
+    });
+
+    it('should count open work per assignee for least-loaded assignment', async () => {
+        const newTask = (assigneeId: string | null, state: string) => ({ id: uuidv4(), tenantId, workspaceId, title: 'Work', priority: 'LOW' as const, state, assigneeId, dueAt: null });
+        for (const task of [newTask('agent_1', 'IN_PROGRESS'), newTask('agent_1', 'IN_PROGRESS'), newTask('agent_1', 'DONE'), newTask('agent_2', 'NEW')]) {
+            await taskStore().create(task);
+        }
+
+        const loads = await taskStore().workload(workspaceId, tenantId, ['agent_1', 'agent_2', 'agent_3'], ['IN_PROGRESS']);
+        expect(loads.get('agent_1')).toBe(2);
+        expect(loads.get('agent_2') ?? 0).toBe(0);
+    });
+});
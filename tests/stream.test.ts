@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import app from '../src/app';
+import { sqlite, db } from '../src/db';
+import { taskStore } from '../src/repositories/backend';
+import { tasks, taskEvents, workspaces, workspaceMembers } from '../src/db/schema';
+
+interface StreamedEvent {
+    id: string;
+    event: string;
+    data: any;
+}
+
+describe('Workspace event stream', () => {
+    const tenantId = 'tenant_1';
+    let server: http.Server;
+    let baseUrl: string;
+
+    // Opens the SSE stream and resolves once `count` events have arrived
+    const readStream = (workspaceId: string, count: number, headers: Record<string, string> = {}) => {
+        let opened!: () => void;
+        const ready = new Promise<void>(resolve => { opened = resolve; });
+
+        const events = new Promise<StreamedEvent[]>((resolve, reject) => {
+            const timeout = setTimeout(() => { req.destroy(); reject(new Error('Timed out waiting for events')); }, 3000);
+            const req = http.get(`${baseUrl}/v1/workspaces/${workspaceId}/events/stream`, {
+                headers: { 'X-Tenant-Id': tenantId, 'X-User-Id': 'mgr_1', ...headers },
+            }, (res) => {
+                const received: StreamedEvent[] = [];
+                let buffer = '';
+                res.setEncoding('utf8');
+                res.on('data', (chunk: string) => {
+                    buffer += chunk;
+                    // The first frame is the retry hint, sent once the stream is subscribed
+                    if (buffer.includes('retry:')) opened();
+
+                    let end;
+                    while ((end = buffer.indexOf('\n\n')) !== -1) {
+                        const frame = buffer.slice(0, end);
+                        buffer = buffer.slice(end + 2);
+
+                        const fields = Object.fromEntries(frame.split('\n').map(line => {
+                            const at = line.indexOf(': ');
+                            return [line.slice(0, at), line.slice(at + 2)];
+                        }));
+                        if (fields.data) received.push({ id: fields.id, event: fields.event, data: JSON.parse(fields.data) });
+                    }
+
+                    if (received.length >= count) {
+                        clearTimeout(timeout);
+                        req.destroy();
+                        resolve(received);
+                    }
+                });
+            });
+            req.on('error', reject);
+        });
+
+        return { ready, events };
+    };
+
+    const createTask = (workspaceId: string, title: string) => request(app)
+        .post(`/v1/workspaces/${workspaceId}/tasks`)
+        .set('X-Tenant-Id', tenantId)
+        .set('X-User-Id', 'mgr_1')
+        .send({ title });
+
+    beforeAll(async () => {
+        server = app.listen(0);
+        await new Promise(resolve => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    beforeEach(async () => {
+        await db.delete(taskEvents);
+        await db.delete(tasks);
+        await db.delete(workspaceMembers);
+        await db.delete(workspaces);
+
+        for (const id of ['ws_1', 'ws_other']) {
+            await db.insert(workspaces).values({ id, tenantId, name: id });
+            await db.insert(workspaceMembers).values({ tenantId, workspaceId: id, userId: 'mgr_1', role: 'manager' });
+        }
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+        sqlite.close();
+    });
+
+    it('should push events for the workspace as they are committed', async () => {
+        const stream = readStream('ws_1', 2);
+        await stream.ready;
+
+        await createTask('ws_other', 'Elsewhere');
+        const created = await createTask('ws_1', 'Live');
+        await request(app)
+            .post(`/v1/workspaces/ws_1/tasks/${created.body.task_id}/transition`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', 'mgr_1')
+            .set('If-Match-Version', '1')
+            .send({ to_state: 'CANCELLED' });
+
+        const events = await stream.events;
+        expect(events.map(e => e.event)).toEqual(['TaskCreated', 'TaskStateChanged']);
+        expect(events.every(e => e.data.task_id === created.body.task_id)).toBe(true);
+    });
+
+    it('should resume after Last-Event-ID without gaps', async () => {
+        await createTask('ws_1', 'First');
+        await createTask('ws_1', 'Second');
+        await createTask('ws_1', 'Third');
+
+        const all = await readStream('ws_1', 3, { 'Last-Event-ID': '0' }).events;
+        expect(all.map(e => e.data.payload.title)).toEqual(['First', 'Second', 'Third']);
+
+        const resumed = await readStream('ws_1', 2, { 'Last-Event-ID': all[0].id }).events;
+        expect(resumed.map(e => e.data.payload.title)).toEqual(['Second', 'Third']);
+    });
+
+    it('should stop reading the backlog while a client is not keeping up', async () => {
+        // Ten batches of 32 KB events, far more than the socket buffers hold
+        const padding = 'x'.repeat(32 * 1024);
+        await db.insert(tasks).values({ id: 'task_big', tenantId, workspaceId: 'ws_1', title: 'Big', state: 'NEW', priority: 'MEDIUM', createdAt: 0, updatedAt: 0 });
+        for (let i = 0; i < 10; i++) {
+            await db.insert(taskEvents).values(Array.from({ length: 100 }, (_, j) => ({
+                id: `event_${i * 100 + j}`, taskId: 'task_big', eventType: 'TaskUpdated', payload: { n: i * 100 + j, padding }, createdAt: 0,
+            })));
+        }
+        const reads = vi.spyOn(taskStore(), 'workspaceEvents');
+
+        try {
+            let readsWhilePaused = 0;
+            const received = await new Promise<number>((resolve, reject) => {
+                const req = http.get(`${baseUrl}/v1/workspaces/ws_1/events/stream`, {
+                    headers: { 'X-Tenant-Id': tenantId, 'X-User-Id': 'mgr_1', 'Last-Event-ID': '0' },
+                }, (res) => {
+                    res.pause();
+                    setTimeout(() => {
+                        readsWhilePaused = reads.mock.calls.length;
+
+                        let count = 0;
+                        let buffer = '';
+                        res.setEncoding('utf8');
+                        res.on('data', (chunk: string) => {
+                            const frames = (buffer + chunk).split('\n\n');
+                            buffer = frames.pop()!;
+                            count += frames.filter(frame => frame.includes('\nevent: ')).length;
+                            if (count === 1000) {
+                                req.destroy();
+                                resolve(count);
+                            }
+                        });
+                        res.resume();
+                    }, 300);
+                });
+                req.on('error', reject);
+            });
+
+            // The server waited for the client instead of buffering the rest, then sent it all
+            expect(readsWhilePaused).toBeLessThan(5);
+            expect(received).toBe(1000);
+        } finally {
+            reads.mockRestore();
+        }
+    });
+
+    it('should reject malformed resume points and other tenants', async () => {
+        const bad = await request(app)
+            .get('/v1/workspaces/ws_1/events/stream')
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', 'mgr_1')
+            .set('Last-Event-ID', 'abc');
+        expect(bad.status).toBe(400);
+
+        const otherTenant = await request(app)
+            .get('/v1/workspaces/ws_1/events/stream')
+            .set('X-Tenant-Id', 'tenant_2')
+            .set('X-User-Id', 'mgr_1');
+        expect(otherTenant.status).toBe(404);
+    });
+});
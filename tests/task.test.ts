@@ -1,60 +1,61 @@
-import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
 import request from 'supertest';
 import app from '../src/app';
 import { sqlite, db } from '../src/db';
-import { tasks, taskEvents, idempotencyKeys } from '../src/db/schema';
+import { idempotencyKeys, webhookSubscriptions, webhookDeliveries, workflows, slaPolicies, workspaces, workspaceMembers, consumerOffsets, taskTemplates, assignmentPolicies, taskFieldDefinitions } from '../src/db/schema';
+import { OutboxRelay, signPayload } from '../src/workers/outboxRelay';
+import { DeadlineScanner } from '../src/workers/deadlineScanner';
+import { IdempotencyPurger } from '../src/workers/idempotencyPurger';
+import { TemplateScheduler } from '../src/workers/templateScheduler';
+import { TaskHistory } from '../src/domain/history';
+import { taskStore, useTaskStore } from '../src/repositories/backend';
+import { backends } from './backends';
+import { parseCsv } from '../src/lib/csv';
 import { v4 as uuidv4 } from 'uuid';
+import { and, eq } from 'drizzle-orm';
 
-describe('Task Workflow API', () => {
+afterAll(() => {
+    sqlite.close();
+});
+
+// Once per task store; workspaces, workflows, webhooks and the like stay in SQLite for both
+describe.each(backends)('Task Workflow API on $name', (backend) => {
     const workspaceId = 'ws_1';
     const tenantId = 'tenant_1';
+    const previous = taskStore();
+
+    beforeAll(async () => {
+        useTaskStore(await backend.open());
+    });
 
-    beforeAll(() => {
-        // Create all tables using raw SQL (no migration files needed)
-        sqlite.exec(`
-            CREATE TABLE IF NOT EXISTS tasks (
-                id TEXT PRIMARY KEY,
-                tenant_id TEXT NOT NULL,
-                workspace_id TEXT NOT NULL,
-                title TEXT NOT NULL,
-                priority TEXT NOT NULL DEFAULT 'MEDIUM',
-                state TEXT NOT NULL DEFAULT 'NEW',
-                assignee_id TEXT,
-                version INTEGER NOT NULL DEFAULT 1,
-                created_at INTEGER NOT NULL DEFAULT (unixepoch()),
-                updated_at INTEGER NOT NULL DEFAULT (unixepoch())
-            );
-
-            CREATE TABLE IF NOT EXISTS task_events (
-                id TEXT PRIMARY KEY,
-                task_id TEXT NOT NULL REFERENCES tasks(id),
-                event_type TEXT NOT NULL,
-                payload TEXT NOT NULL,
-                created_at INTEGER NOT NULL DEFAULT (unixepoch())
-            );
-
-            CREATE TABLE IF NOT EXISTS idempotency_keys (
-                key TEXT PRIMARY KEY,
-                response_payload TEXT NOT NULL,
-                created_at INTEGER NOT NULL DEFAULT (unixepoch())
-            );
-
-            CREATE INDEX IF NOT EXISTS idx_tasks_workspace_state ON tasks(workspace_id, state);
-            CREATE INDEX IF NOT EXISTS idx_tasks_workspace_assignee ON tasks(workspace_id, assignee_id);
-            CREATE INDEX IF NOT EXISTS idx_events_task_id ON task_events(task_id);
-            CREATE INDEX IF NOT EXISTS idx_events_created_at ON task_events(created_at);
-        `);
+    afterAll(async () => {
+        useTaskStore(previous);
+        await backend.close();
     });
 
     beforeEach(async () => {
         // Clean DB between tests to prevent leakage
-        await db.delete(taskEvents);
+        await backend.reset();
+        await db.delete(webhookDeliveries);
+        await db.delete(webhookSubscriptions);
         await db.delete(idempotencyKeys);
-        await db.delete(tasks);
-    });
+        await db.delete(workflows);
+        await db.delete(slaPolicies);
+        await db.delete(workspaceMembers);
+        await db.delete(workspaces);
+        await db.delete(consumerOffsets);
+        await db.delete(taskTemplates);
+        await db.delete(assignmentPolicies);
+        await db.delete(taskFieldDefinitions);
 
-    afterAll(() => {
-        sqlite.close();
+        for (const id of [workspaceId, 'ws_other']) {
+            await db.insert(workspaces).values({ id, tenantId, name: id });
+            await db.insert(workspaceMembers).values([
+                { tenantId, workspaceId: id, userId: 'mgr_1', role: 'manager' },
+                { tenantId, workspaceId: id, userId: 'agent_1', role: 'agent' },
+                { tenantId, workspaceId: id, userId: 'agent_2', role: 'agent' },
+            ]);
+        }
     });
 
     // Requirement 1: Idempotent create
@@ -63,6 +64,7 @@ describe('Task Workflow API', () => {
             .post(`/v1/workspaces/${workspaceId}/tasks`)
             .set('X-Tenant-Id', tenantId)
             .set('X-Role', 'manager')
+            .set('X-User-Id', 'mgr_1')
             .send({ title: 'Test Task', priority: 'HIGH' });
 
         expect(res.status).toBe(201);
@@ -78,6 +80,7 @@ describe('Task Workflow API', () => {
             .post(`/v1/workspaces/${workspaceId}/tasks`)
             .set('X-Tenant-Id', tenantId)
             .set('X-Role', 'manager')
+            .set('X-User-Id', 'mgr_1')
             .set('Idempotency-Key', key)
             .send(payload);
 
@@ -87,6 +90,7 @@ describe('Task Workflow API', () => {
             .post(`/v1/workspaces/${workspaceId}/tasks`)
             .set('X-Tenant-Id', tenantId)
             .set('X-Role', 'manager')
+            .set('X-User-Id', 'mgr_1')
             .set('Idempotency-Key', key)
             .send(payload);
 
@@ -100,6 +104,7 @@ describe('Task Workflow API', () => {
             .post(`/v1/workspaces/${workspaceId}/tasks`)
             .set('X-Tenant-Id', tenantId)
             .set('X-Role', 'manager')
+            .set('X-User-Id', 'mgr_1')
             .send({ title: 'Transition Test' });
 
         const taskId = createRes.body.task_id;
@@ -110,6 +115,7 @@ describe('Task Workflow API', () => {
             .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/transition`)
             .set('X-Tenant-Id', tenantId)
             .set('X-Role', 'manager')
+            .set('X-User-Id', 'mgr_1')
             .set('If-Match-Version', version)
             .send({ to_state: 'DONE' });
 
@@ -122,6 +128,7 @@ describe('Task Workflow API', () => {
             .post(`/v1/workspaces/${workspaceId}/tasks`)
             .set('X-Tenant-Id', tenantId)
             .set('X-Role', 'manager')
+            .set('X-User-Id', 'mgr_1')
             .send({ title: 'Agent Test' });
 
         const taskId = createRes.body.task_id;
@@ -145,6 +152,7 @@ describe('Task Workflow API', () => {
             .post(`/v1/workspaces/${workspaceId}/tasks`)
             .set('X-Tenant-Id', tenantId)
             .set('X-Role', 'manager')
+            .set('X-User-Id', 'mgr_1')
             .send({ title: 'Concurrency Test' });
 
         const taskId = createRes.body.task_id;
@@ -155,16 +163,18 @@ describe('Task Workflow API', () => {
             .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/assign`)
             .set('X-Tenant-Id', tenantId)
             .set('X-Role', 'manager')
+            .set('X-User-Id', 'mgr_1')
             .set('If-Match-Version', version)
-            .send({ assignee_id: 'u_1' });
+            .send({ assignee_id: 'agent_1' });
 
         // Request 2: Assign with stale (old) version -> 409 Conflict
         const res2 = await request(app)
             .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/assign`)
             .set('X-Tenant-Id', tenantId)
             .set('X-Role', 'manager')
+            .set('X-User-Id', 'mgr_1')
             .set('If-Match-Version', version)
-            .send({ assignee_id: 'u_2' });
+            .send({ assignee_id: 'agent_2' });
 
         expect(res2.status).toBe(409);
     });
@@ -175,14 +185,15 @@ describe('Task Workflow API', () => {
             .post(`/v1/workspaces/${workspaceId}/tasks`)
             .set('X-Tenant-Id', tenantId)
             .set('X-Role', 'manager')
+            .set('X-User-Id', 'mgr_1')
             .send({ title: 'Outbox Test' });
 
         expect(createRes.status).toBe(201);
 
-        const eventsRes = await request(app).get('/v1/events');
+        const eventsRes = await request(app).get('/v1/events').set('X-Tenant-Id', tenantId);
         expect(eventsRes.status).toBe(200);
 
-        const events = eventsRes.body;
+        const events = eventsRes.body.data;
         const createdEvent = events.find(
             (e: any) => e.task_id === createRes.body.task_id && e.event_type === 'TaskCreated'
         );
@@ -195,6 +206,7 @@ describe('Task Workflow API', () => {
             .post(`/v1/workspaces/${workspaceId}/tasks`)
             .set('X-Tenant-Id', tenantId)
             .set('X-Role', 'manager')
+            .set('X-User-Id', 'mgr_1')
             .send({ title: 'Cancel Test' });
 
         const taskId = createRes.body.task_id;
@@ -204,6 +216,7 @@ describe('Task Workflow API', () => {
             .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/transition`)
             .set('X-Tenant-Id', tenantId)
             .set('X-Role', 'manager')
+            .set('X-User-Id', 'mgr_1')
             .set('If-Match-Version', version)
             .send({ to_state: 'CANCELLED' });
 
@@ -217,6 +230,7 @@ describe('Task Workflow API', () => {
             .post(`/v1/workspaces/${workspaceId}/tasks`)
             .set('X-Tenant-Id', tenantId)
             .set('X-Role', 'manager')
+            .set('X-User-Id', 'mgr_1')
             .send({ title: 'Agent Transition Test' });
 
         const taskId = createRes.body.task_id;
@@ -227,6 +241,7 @@ describe('Task Workflow API', () => {
             .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/assign`)
             .set('X-Tenant-Id', tenantId)
             .set('X-Role', 'manager')
+            .set('X-User-Id', 'mgr_1')
             .set('If-Match-Version', version)
             .send({ assignee_id: 'agent_1' });
 
@@ -245,4 +260,2563 @@ describe('Task Workflow API', () => {
         expect(transitionRes.status).toBe(200);
         expect(transitionRes.body.state).toBe('IN_PROGRESS');
     });
+
+    // Tenant-scoped, fingerprinted Idempotency-Key replay
+    describe('Idempotency', () => {
+        const createWithKey = (key: string, body: object, tenant = tenantId) => request(app)
+            .post(`/v1/workspaces/${workspaceId}/tasks`)
+            .set('X-Tenant-Id', tenant)
+            .set('X-User-Id', 'mgr_1')
+            .set('Idempotency-Key', key)
+            .send(body);
+
+        it('should reject a reused key with a different payload', async () => {
+            const first = await createWithKey('key-1', { title: 'A', priority: 'HIGH' });
+            expect(first.status).toBe(201);
+
+            // Field order does not matter
+            const replay = await createWithKey('key-1', { priority: 'HIGH', title: 'A' });
+            expect(replay.status).toBe(201);
+            expect(replay.headers['idempotent-replayed']).toBe('true');
+            expect(replay.body).toEqual(first.body);
+
+            const conflict = await createWithKey('key-1', { title: 'B' });
+            expect(conflict.status).toBe(422);
+            expect(await backend.tasks()).toHaveLength(1);
+        });
+
+        it('should scope keys by tenant', async () => {
+            await db.insert(workspaces).values({ id: workspaceId, tenantId: 'tenant_2', name: workspaceId }).onConflictDoNothing();
+            await db.insert(workspaceMembers).values({ tenantId: 'tenant_2', workspaceId, userId: 'mgr_1', role: 'manager' });
+
+            const mine = await createWithKey('shared', { title: 'A' });
+            const theirs = await createWithKey('shared', { title: 'A' }, 'tenant_2');
+
+            expect(theirs.status).toBe(201);
+            expect(theirs.body.task_id).not.toBe(mine.body.task_id);
+        });
+
+        it('should replay assign and transition with the stored status code', async () => {
+            const taskId = (await createWithKey('create', { title: 'A' })).body.task_id;
+
+            const assign = () => request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/assign`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '1')
+                .set('Idempotency-Key', 'assign-1')
+                .send({ assignee_id: 'agent_1' });
+
+            expect((await assign()).body.version).toBe(2);
+            const replayed = await assign();
+            expect(replayed.status).toBe(200);
+            expect(replayed.body.version).toBe(2);
+
+            // A stored failure is replayed as-is, even once the task has moved on
+            const transition = () => request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/transition`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '1')
+                .set('Idempotency-Key', 'transition-1')
+                .send({ to_state: 'CANCELLED' });
+
+            expect((await transition()).status).toBe(409);
+            await backend.updateTask(taskId, { version: 1 });
+            expect((await transition()).status).toBe(409);
+
+            const events = await backend.events({ taskId });
+            expect(events.map(e => e.eventType)).toEqual(['TaskCreated', 'TaskAssigned']);
+        });
+
+        it('should treat a different If-Match-Version as a different request', async () => {
+            const taskId = (await createWithKey('create', { title: 'A' })).body.task_id;
+            const assign = (version: string) => request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/assign`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', version)
+                .set('Idempotency-Key', 'assign-1')
+                .send({ assignee_id: 'agent_1' });
+
+            expect((await assign('1')).status).toBe(200);
+            expect((await assign('2')).status).toBe(422);
+        });
+
+        it('should expire keys and purge them', async () => {
+            await createWithKey('old', { title: 'A' });
+            const [record] = await db.select().from(idempotencyKeys);
+            expect(record.scope).toBe(`POST /v1/workspaces/${workspaceId}/tasks`);
+
+            const purger = new IdempotencyPurger({ clock: () => record.expiresAt - 1 });
+            expect(await purger.tick()).toEqual({ purged: 0 });
+
+            // Past the TTL the key is free again, even before the purge runs
+            await db.update(idempotencyKeys).set({ expiresAt: 1 });
+            const fresh = await createWithKey('old', { title: 'B' });
+            expect(fresh.status).toBe(201);
+            expect(await backend.tasks()).toHaveLength(2);
+
+            await db.update(idempotencyKeys).set({ expiresAt: 1 });
+            expect(await new IdempotencyPurger().tick()).toEqual({ purged: 1 });
+            expect(await db.select().from(idempotencyKeys)).toHaveLength(0);
+        });
+    });
+
+    // Outbox relay: webhook delivery with signing, retries and dead-lettering
+    describe('Outbox relay', () => {
+        const createWebhook = (body: object) => request(app)
+            .post('/v1/webhooks')
+            .set('X-Tenant-Id', tenantId)
+            .set('X-Role', 'manager')
+            .set('X-User-Id', 'mgr_1')
+            .send(body);
+
+        const createTask = (title: string) => request(app)
+            .post(`/v1/workspaces/${workspaceId}/tasks`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-Role', 'manager')
+            .set('X-User-Id', 'mgr_1')
+            .send({ title });
+
+        it('should only let managers register webhooks', async () => {
+            const res = await request(app)
+                .post('/v1/webhooks')
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'agent')
+                .send({ url: 'https://hooks.example.com/a' });
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should deliver events in order with a valid signature', async () => {
+            const hook = await createWebhook({ url: 'https://hooks.example.com/a' });
+            expect(hook.status).toBe(201);
+
+            const first = await createTask('First');
+            const second = await createTask('Second');
+
+            const received: { headers: Record<string, string>, body: string }[] = [];
+            const relay = new OutboxRelay({
+                clock: () => 1000,
+                send: async (_url, init) => {
+                    received.push(init);
+                    return { ok: true, status: 200 };
+                },
+            });
+
+            await relay.tick();
+
+            expect(received.map(r => JSON.parse(r.body).task_id)).toEqual([first.body.task_id, second.body.task_id]);
+            expect(received[0].headers['X-Webhook-Signature']).toBe(`sha256=${signPayload(hook.body.secret, 1000, received[0].body)}`);
+
+            // Nothing is redelivered on the next pass
+            await relay.tick();
+            expect(received).toHaveLength(2);
+        });
+
+        it('should not deliver events from other tenants or unsubscribed types', async () => {
+            await createWebhook({ url: 'https://hooks.example.com/a', event_types: ['TaskAssigned'] });
+
+            await createTask('Not subscribed');
+            await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks`)
+                .set('X-Tenant-Id', 'tenant_2')
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1')
+                .send({ title: 'Other tenant' });
+
+            const send = vi.fn(async () => ({ ok: true, status: 200 }));
+            await new OutboxRelay({ send }).tick();
+
+            expect(send).not.toHaveBeenCalled();
+        });
+
+        it('should back off exponentially and dead-letter after max attempts', async () => {
+            const hook = await createWebhook({ url: 'https://hooks.example.com/a' });
+            await createTask('Failing');
+
+            let now = 1000;
+            const send = vi.fn(async () => ({ ok: false, status: 503 }));
+            const relay = new OutboxRelay({ clock: () => now, send, maxAttempts: 3, baseDelaySeconds: 10 });
+
+            await relay.tick();
+            expect(send).toHaveBeenCalledTimes(1);
+
+            // Not due yet
+            now = 1009;
+            await relay.tick();
+            expect(send).toHaveBeenCalledTimes(1);
+
+            now = 1010;
+            await relay.tick();
+            now = 1030;
+            await relay.tick();
+            expect(send).toHaveBeenCalledTimes(3);
+
+            const deliveries = await request(app)
+                .get(`/v1/webhooks/${hook.body.webhook_id}/deliveries`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+
+            expect(deliveries.body[0].status).toBe('DEAD');
+            expect(deliveries.body[0].attempts).toBe(3);
+            expect(deliveries.body[0].last_error).toBe('HTTP 503');
+        });
+
+        it('should stop delivering to a deleted webhook', async () => {
+            const hook = await createWebhook({ url: 'https://hooks.example.com/a' });
+            await createTask('Failing');
+
+            let now = 1000;
+            const send = vi.fn(async () => ({ ok: false, status: 503 }));
+            const relay = new OutboxRelay({ clock: () => now, send, maxAttempts: 5, baseDelaySeconds: 10 });
+
+            await relay.tick();
+            expect(send).toHaveBeenCalledTimes(1);
+
+            const removed = await request(app)
+                .delete(`/v1/webhooks/${hook.body.webhook_id}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1');
+            expect(removed.status).toBe(204);
+
+            await createTask('After delete');
+            now = 2000;
+            await relay.tick();
+            await relay.tick();
+            expect(send).toHaveBeenCalledTimes(1);
+
+            const [delivery] = await db.select().from(webhookDeliveries);
+            expect(delivery).toMatchObject({ status: 'DEAD', attempts: 1, lastError: 'Webhook deleted' });
+        });
+
+        it('should count an endpoint that never answers as a failed attempt', async () => {
+            const hook = await createWebhook({ url: 'https://hooks.example.com/slow' });
+            await createTask('Slow');
+
+            // Only the abort signal ever settles the request
+            const send = vi.fn((_url: string, init: { signal: AbortSignal }) => new Promise<{ ok: boolean, status: number }>((_resolve, reject) => {
+                init.signal.addEventListener('abort', () => reject(init.signal.reason));
+            }));
+            const relay = new OutboxRelay({ clock: () => 1000, send, timeoutMs: 20 });
+
+            expect(await relay.tick()).toBe(1);
+
+            const deliveries = await request(app)
+                .get(`/v1/webhooks/${hook.body.webhook_id}/deliveries`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+
+            expect(deliveries.body[0]).toMatchObject({ status: 'PENDING', attempts: 1, last_error: 'Timed out after 20ms' });
+        });
+
+        it('should 404 deliveries of unknown or other tenants\' webhooks', async () => {
+            const hook = await createWebhook({ url: 'https://hooks.example.com/a' });
+            expect(hook.body.created_at).toEqual(expect.any(Number));
+
+            const unknown = await request(app)
+                .get('/v1/webhooks/nope/deliveries')
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+            expect(unknown.status).toBe(404);
+            expect(unknown.body.code).toBe('webhook_not_found');
+
+            const foreign = await request(app)
+                .get(`/v1/webhooks/${hook.body.webhook_id}/deliveries`)
+                .set('X-Tenant-Id', 'tenant_2')
+                .set('X-User-Id', 'mgr_1');
+            expect(foreign.status).toBe(404);
+        });
+    });
+
+    // Per-workspace workflow definitions
+    describe('Workflows', () => {
+        const reviewWorkflow = {
+            states: ['NEW', 'IN_PROGRESS', 'IN_REVIEW', 'DONE', 'CANCELLED'],
+            initial_state: 'NEW',
+            terminal_states: ['DONE', 'CANCELLED'],
+            transitions: [
+                { from: 'NEW', to: 'IN_PROGRESS', roles: ['agent'] },
+                { from: 'IN_PROGRESS', to: 'IN_REVIEW', roles: ['agent'] },
+                { from: 'IN_REVIEW', to: 'IN_PROGRESS', roles: ['manager'] },
+                { from: 'IN_REVIEW', to: 'DONE', roles: ['manager'] },
+                { from: 'NEW', to: 'CANCELLED', roles: ['manager'] },
+            ],
+        };
+
+        const putWorkflow = (body: object) => request(app)
+            .put(`/v1/workspaces/${workspaceId}/workflow`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-Role', 'manager')
+            .set('X-User-Id', 'mgr_1')
+            .send(body);
+
+        // Roles come from workspace membership: mgr_1 manages, agent_1 is an agent
+        const transition = (taskId: string, version: number, toState: string, userId: string) => request(app)
+            .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/transition`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', userId)
+            .set('If-Match-Version', String(version))
+            .send({ to_state: toState });
+
+        it('should fall back to the default workflow', async () => {
+            const res = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/workflow`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+
+            expect(res.status).toBe(200);
+            expect(res.body.is_default).toBe(true);
+            expect(res.body.states).toEqual(['NEW', 'IN_PROGRESS', 'DONE', 'CANCELLED']);
+        });
+
+        it('should reject structurally invalid workflows', async () => {
+            const res = await putWorkflow({
+                ...reviewWorkflow,
+                transitions: [...reviewWorkflow.transitions, { from: 'DONE', to: 'BLOCKED', roles: ['manager'] }],
+            });
+
+            expect(res.status).toBe(400);
+            expect(res.body.code).toBe('validation_failed');
+            const messages = res.body.errors.map((e: any) => e.message);
+            expect(messages).toContain("transition to unknown state 'BLOCKED'");
+            expect(messages).toContain("terminal state 'DONE' cannot have outgoing transitions");
+        });
+
+        it('should validate transitions against the stored workflow', async () => {
+            expect((await putWorkflow(reviewWorkflow)).status).toBe(200);
+
+            const createRes = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1')
+                .send({ title: 'Review Flow' });
+            const taskId = createRes.body.task_id;
+
+            const assignRes = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/assign`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '1')
+                .send({ assignee_id: 'agent_1' });
+
+            const started = await transition(taskId, assignRes.body.version, 'IN_PROGRESS', 'agent_1');
+            expect(started.status).toBe(200);
+
+            // Agent can no longer go straight to DONE
+            expect((await transition(taskId, started.body.version, 'DONE', 'agent_1')).status).toBe(409);
+
+            const review = await transition(taskId, started.body.version, 'IN_REVIEW', 'agent_1');
+            expect(review.status).toBe(200);
+
+            // Only a manager may approve
+            expect((await transition(taskId, review.body.version, 'DONE', 'agent_1')).status).toBe(409);
+            const done = await transition(taskId, review.body.version, 'DONE', 'mgr_1');
+            expect(done.status).toBe(200);
+            expect(done.body.state).toBe('DONE');
+        });
+
+        it('should reject unknown states and keep other workspaces on the default', async () => {
+            await putWorkflow(reviewWorkflow);
+
+            const createRes = await request(app)
+                .post('/v1/workspaces/ws_other/tasks')
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1')
+                .send({ title: 'Default Flow' });
+
+            const res = await request(app)
+                .post(`/v1/workspaces/ws_other/tasks/${createRes.body.task_id}/transition`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '1')
+                .send({ to_state: 'IN_REVIEW' });
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should refuse to remove states that tasks are in', async () => {
+            await putWorkflow(reviewWorkflow);
+            await backend.insertTasks([{
+                id: uuidv4(), tenantId, workspaceId, title: 'Stuck', state: 'IN_REVIEW',
+            }]);
+
+            const res = await request(app)
+                .delete(`/v1/workspaces/${workspaceId}/workflow`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1');
+
+            expect(res.status).toBe(409);
+        });
+    });
+
+    // Partial updates and soft deletes
+    describe('Update and delete', () => {
+        const createTask = async () => {
+            const res = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1')
+                .send({ title: 'Original', priority: 'LOW' });
+            return res.body.task_id as string;
+        };
+
+        it('should patch fields and record a before/after diff', async () => {
+            const taskId = await createTask();
+
+            const res = await request(app)
+                .patch(`/v1/workspaces/${workspaceId}/tasks/${taskId}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '1')
+                .send({ title: 'Renamed', priority: 'LOW' });
+
+            expect(res.status).toBe(200);
+            expect(res.body.version).toBe(2);
+
+            const getRes = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/tasks/${taskId}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+
+            expect(getRes.body.title).toBe('Renamed');
+            const updated = getRes.body.timeline.find((e: any) => e.event_type === 'TaskUpdated');
+            expect(updated.payload.changes).toEqual({ title: { before: 'Original', after: 'Renamed' } });
+        });
+
+        it('should reject stale versions and unknown fields', async () => {
+            const taskId = await createTask();
+
+            const stale = await request(app)
+                .patch(`/v1/workspaces/${workspaceId}/tasks/${taskId}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '7')
+                .send({ title: 'Late' });
+            expect(stale.status).toBe(409);
+
+            const unknown = await request(app)
+                .patch(`/v1/workspaces/${workspaceId}/tasks/${taskId}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '1')
+                .send({ state: 'DONE' });
+            expect(unknown.status).toBe(400);
+        });
+
+        it('should only let managers or the assignee update', async () => {
+            const taskId = await createTask();
+
+            const res = await request(app)
+                .patch(`/v1/workspaces/${workspaceId}/tasks/${taskId}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'agent')
+                .set('X-User-Id', 'agent_1')
+                .set('If-Match-Version', '1')
+                .send({ title: 'Not mine' });
+
+            expect(res.status).toBe(403);
+        });
+
+        it('should soft delete and hide the task unless asked', async () => {
+            const taskId = await createTask();
+
+            const del = await request(app)
+                .delete(`/v1/workspaces/${workspaceId}/tasks/${taskId}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '1');
+            expect(del.status).toBe(200);
+
+            const getRes = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/tasks/${taskId}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+            expect(getRes.status).toBe(404);
+
+            const listRes = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/tasks`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+            expect(listRes.body.data).toHaveLength(0);
+
+            const withDeleted = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/tasks/${taskId}?include_deleted=true`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+            expect(withDeleted.status).toBe(200);
+            expect(withDeleted.body.deleted_at).not.toBeNull();
+            expect(withDeleted.body.timeline.map((e: any) => e.event_type)).toContain('TaskDeleted');
+
+            // Deleted tasks can no longer be changed
+            const assignRes = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/assign`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '2')
+                .send({ assignee_id: 'agent_1' });
+            expect(assignRes.status).toBe(404);
+        });
+    });
+
+    // Filtering, search, sorting and cursor pagination
+    describe('Listing', () => {
+        const seed = async (rows: { title: string, priority?: string, state?: string, assigneeId?: string, createdAt?: number }[]) => {
+            for (const row of rows) {
+                await backend.insertTasks([{
+                    id: uuidv4(),
+                    tenantId,
+                    workspaceId,
+                    title: row.title,
+                    priority: (row.priority ?? 'MEDIUM') as any,
+                    state: row.state ?? 'NEW',
+                    assigneeId: row.assigneeId ?? null,
+                    createdAt: row.createdAt ?? 1000,
+                    updatedAt: row.createdAt ?? 1000,
+                }]);
+            }
+        };
+
+        const list = (query: string) => request(app)
+            .get(`/v1/workspaces/${workspaceId}/tasks?${query}`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', 'mgr_1');
+
+        it('should apply comma-separated filters and date ranges', async () => {
+            await seed([
+                { title: 'a', state: 'NEW', priority: 'HIGH', createdAt: 100 },
+                { title: 'b', state: 'IN_PROGRESS', priority: 'LOW', assigneeId: 'u_1', createdAt: 200 },
+                { title: 'c', state: 'DONE', priority: 'HIGH', assigneeId: 'u_2', createdAt: 300 },
+            ]);
+
+            const byState = await list('state=NEW,DONE');
+            expect(byState.body.data.map((t: any) => t.title).sort()).toEqual(['a', 'c']);
+
+            const byAssignee = await list('assignee_id=u_1,u_2&priority=HIGH');
+            expect(byAssignee.body.data.map((t: any) => t.title)).toEqual(['c']);
+
+            const byRange = await list('created_after=150&created_before=250');
+            expect(byRange.body.data.map((t: any) => t.title)).toEqual(['b']);
+        });
+
+        it('should search titles by word prefix', async () => {
+            await seed([{ title: 'Rotate database credentials' }, { title: 'Write release notes' }]);
+
+            const res = await list('q=datab');
+            expect(res.body.data.map((t: any) => t.title)).toEqual(['Rotate database credentials']);
+
+            // Quotes and FTS operators in user input are treated as text
+            expect((await list('q=' + encodeURIComponent('"notes OR'))).status).toBe(200);
+        });
+
+        it('should sort by priority', async () => {
+            await seed([{ title: 'low', priority: 'LOW' }, { title: 'high', priority: 'HIGH' }, { title: 'medium', priority: 'MEDIUM' }]);
+
+            const res = await list('sort=priority&order=desc');
+            expect(res.body.data.map((t: any) => t.title)).toEqual(['high', 'medium', 'low']);
+        });
+
+        it('should page through same-second tasks without gaps or duplicates', async () => {
+            await seed(Array.from({ length: 7 }, (_, i) => ({ title: `t${i}`, createdAt: 5000 })));
+
+            const seen: string[] = [];
+            let cursor: string | null = null;
+            do {
+                const res: any = await list(`limit=3${cursor ? `&cursor=${cursor}` : ''}`);
+                expect(res.status).toBe(200);
+                seen.push(...res.body.data.map((t: any) => t.task_id));
+                cursor = res.body.next_cursor;
+            } while (cursor);
+
+            expect(seen).toHaveLength(7);
+            expect(new Set(seen).size).toBe(7);
+        });
+
+        it('should reject oversized limits and foreign cursors', async () => {
+            expect((await list('limit=1000')).status).toBe(400);
+            expect((await list('cursor=not-a-cursor')).status).toBe(400);
+        });
+    });
+
+    // Comment threads on tasks
+    describe('Comments', () => {
+        const commentsUrl = (taskId: string) => `/v1/workspaces/${workspaceId}/tasks/${taskId}/comments`;
+
+        const createTask = async () => {
+            const res = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1')
+                .send({ title: 'Discussed' });
+            return res.body.task_id as string;
+        };
+
+        const comment = (taskId: string, userId: string, body: string) => request(app)
+            .post(commentsUrl(taskId))
+            .set('X-Tenant-Id', tenantId)
+            .set('X-Role', 'agent')
+            .set('X-User-Id', userId)
+            .send({ body });
+
+        it('should add comments, count them and emit CommentAdded', async () => {
+            const taskId = await createTask();
+
+            const res = await comment(taskId, 'agent_1', 'Looking into it');
+            expect(res.status).toBe(201);
+            expect(res.body.author_id).toBe('agent_1');
+
+            const getRes = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/tasks/${taskId}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+
+            expect(getRes.body.comment_count).toBe(1);
+            expect(getRes.body.timeline.map((e: any) => e.event_type)).toContain('CommentAdded');
+
+            const listRes = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/tasks`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+            expect(listRes.body.data[0].comment_count).toBe(1);
+        });
+
+        it('should isolate comments by tenant and workspace', async () => {
+            const taskId = await createTask();
+
+            const otherTenant = await request(app)
+                .post(commentsUrl(taskId))
+                .set('X-Tenant-Id', 'tenant_2')
+                .set('X-User-Id', 'agent_1')
+                .send({ body: 'Hi' });
+            expect(otherTenant.status).toBe(404);
+
+            const otherWorkspace = await request(app)
+                .get(`/v1/workspaces/ws_other/tasks/${taskId}/comments`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+            expect(otherWorkspace.status).toBe(404);
+        });
+
+        it('should only let the author edit', async () => {
+            const taskId = await createTask();
+            const created = await comment(taskId, 'agent_1', 'First draft');
+
+            const byOther = await request(app)
+                .patch(`${commentsUrl(taskId)}/${created.body.comment_id}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'agent_2')
+                .send({ body: 'Hijacked' });
+            expect(byOther.status).toBe(403);
+
+            const byAuthor = await request(app)
+                .patch(`${commentsUrl(taskId)}/${created.body.comment_id}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'agent_1')
+                .send({ body: 'Final' });
+            expect(byAuthor.status).toBe(200);
+            expect(byAuthor.body.body).toBe('Final');
+        });
+
+        it('should let managers delete and hide deleted comments', async () => {
+            const taskId = await createTask();
+            const created = await comment(taskId, 'agent_1', 'Off topic');
+
+            const del = await request(app)
+                .delete(`${commentsUrl(taskId)}/${created.body.comment_id}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1');
+            expect(del.status).toBe(204);
+
+            const listRes = await request(app).get(commentsUrl(taskId)).set('X-Tenant-Id', tenantId).set('X-User-Id', 'mgr_1');
+            expect(listRes.body.data).toHaveLength(0);
+        });
+
+        it('should paginate oldest first', async () => {
+            const taskId = await createTask();
+            for (let i = 0; i < 5; i++) {
+                await comment(taskId, 'agent_1', `c${i}`);
+            }
+
+            const first = await request(app).get(`${commentsUrl(taskId)}?limit=3`).set('X-Tenant-Id', tenantId).set('X-User-Id', 'mgr_1');
+            const second = await request(app)
+                .get(`${commentsUrl(taskId)}?limit=3&cursor=${first.body.next_cursor}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+
+            const bodies = [...first.body.data, ...second.body.data].map((c: any) => c.body);
+            expect(bodies.sort()).toEqual(['c0', 'c1', 'c2', 'c3', 'c4']);
+            expect(second.body.next_cursor).toBeNull();
+        });
+    });
+
+    // Bulk operations
+    describe('Bulk operations', () => {
+        const bulk = (body: object, userId = 'mgr_1') => request(app)
+            .post(`/v1/workspaces/${workspaceId}/tasks:bulk`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', userId)
+            .send(body);
+
+        const createTask = async (title: string) => {
+            const res = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1')
+                .send({ title });
+            return res.body.task_id as string;
+        };
+
+        it('should report one status per item in best-effort mode', async () => {
+            const a = await createTask('A');
+            const b = await createTask('B');
+
+            const res = await bulk({
+                mode: 'best_effort',
+                operations: [
+                    { op: 'assign', task_id: a, version: 1, assignee_id: 'agent_2' },
+                    { op: 'assign', task_id: b, version: 5, assignee_id: 'agent_2' },
+                    { op: 'transition', task_id: a, version: 2, to_state: 'DONE' },
+                    { op: 'transition', task_id: 'missing', version: 1, to_state: 'CANCELLED' },
+                    { op: 'create', title: 'C' },
+                ],
+            });
+
+            expect(res.status).toBe(200);
+            expect(res.body.results.map((r: any) => r.status)).toEqual([
+                'ok', 'version_conflict', 'invalid_transition', 'not_found', 'ok',
+            ]);
+            expect(res.body.results[0].version).toBe(2);
+
+            const aRes = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/tasks/${a}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+            expect(aRes.body.assignee_id).toBe('agent_2');
+        });
+
+        it('should roll everything back in atomic mode', async () => {
+            const a = await createTask('A');
+            const b = await createTask('B');
+
+            const res = await bulk({
+                mode: 'atomic',
+                operations: [
+                    { op: 'transition', task_id: a, version: 1, to_state: 'CANCELLED' },
+                    { op: 'transition', task_id: b, version: 9, to_state: 'CANCELLED' },
+                    { op: 'update', task_id: a, version: 2, title: 'Never' },
+                ],
+            });
+
+            expect(res.status).toBe(422);
+            expect(res.body.committed).toBe(false);
+            expect(res.body.results.map((r: any) => r.status)).toEqual(['rolled_back', 'version_conflict', 'skipped']);
+
+            const aRes = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/tasks/${a}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+            expect(aRes.body.state).toBe('NEW');
+            expect(aRes.body.version).toBe(1);
+        });
+
+        it('should chain operations on the same task within a batch', async () => {
+            const a = await createTask('A');
+
+            const res = await bulk({
+                mode: 'atomic',
+                operations: [
+                    { op: 'assign', task_id: a, version: 1, assignee_id: 'agent_2' },
+                    { op: 'transition', task_id: a, version: 2, to_state: 'CANCELLED' },
+                ],
+            });
+
+            expect(res.status).toBe(200);
+            expect(res.body.results[1]).toMatchObject({ status: 'ok', state: 'CANCELLED', version: 3 });
+        });
+
+        it('should enforce roles per item', async () => {
+            const a = await createTask('A');
+
+            const res = await bulk({
+                operations: [{ op: 'assign', task_id: a, version: 1, assignee_id: 'agent_2' }],
+            }, 'agent_1');
+
+            expect(res.body.results[0].status).toBe('forbidden');
+        });
+    });
+
+    // Due dates, SLA policies and the deadline scanner
+    describe('Deadlines', () => {
+        const createTask = async (body: object) => {
+            const res = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1')
+                .send(body);
+            return res.body.task_id as string;
+        };
+
+        const eventsOf = async (taskId: string) => {
+            const res = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/tasks/${taskId}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+            return res.body.timeline.map((e: any) => e.event_type) as string[];
+        };
+
+        it('should emit TaskOverdue once for open tasks past due', async () => {
+            const late = await createTask({ title: 'Late', due_at: 1000 });
+            const future = await createTask({ title: 'Future', due_at: 9000 });
+            const cancelled = await createTask({ title: 'Cancelled', due_at: 1000 });
+            await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/${cancelled}/transition`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '1')
+                .send({ to_state: 'CANCELLED' });
+
+            const scanner = new DeadlineScanner({ clock: () => 5000 });
+            expect(await scanner.tick()).toEqual({ overdue: 1, breached: 0 });
+            expect(await scanner.tick()).toEqual({ overdue: 0, breached: 0 });
+
+            expect(await eventsOf(late)).toContain('TaskOverdue');
+            const [overdue] = await backend.events({ taskId: late, eventType: 'TaskOverdue' });
+            expect(overdue.payload).toMatchObject({ dueAt: 1000, detectedAt: 5000, actorId: null, snapshot: { id: late, version: 1 } });
+            expect(await eventsOf(future)).not.toContain('TaskOverdue');
+            expect(await eventsOf(cancelled)).not.toContain('TaskOverdue');
+        });
+
+        it('should re-arm the overdue event when the due date moves', async () => {
+            const taskId = await createTask({ title: 'Slipping', due_at: 1000 });
+            const scanner = new DeadlineScanner({ clock: () => 5000 });
+            await scanner.tick();
+
+            await request(app)
+                .patch(`/v1/workspaces/${workspaceId}/tasks/${taskId}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '1')
+                .send({ due_at: 4000 });
+
+            expect((await scanner.tick()).overdue).toBe(1);
+        });
+
+        it('should emit SlaBreached per workspace priority policy', async () => {
+            const policy = await request(app)
+                .put(`/v1/workspaces/${workspaceId}/sla-policies/HIGH`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .set('X-User-Id', 'mgr_1')
+                .send({ resolve_within_seconds: 86400 });
+            expect(policy.status).toBe(200);
+
+            const high = await createTask({ title: 'Urgent', priority: 'HIGH' });
+            const low = await createTask({ title: 'Whenever', priority: 'LOW' });
+            const now = Math.floor(Date.now() / 1000);
+
+            expect((await new DeadlineScanner({ clock: () => now + 3600 }).tick()).breached).toBe(0);
+            expect((await new DeadlineScanner({ clock: () => now + 90000 }).tick()).breached).toBe(1);
+
+            expect(await eventsOf(high)).toContain('SlaBreached');
+            expect(await eventsOf(low)).not.toContain('SlaBreached');
+        });
+
+        it('should filter the list by overdue and due_before', async () => {
+            await createTask({ title: 'Past', due_at: 1000 });
+            await createTask({ title: 'Soon', due_at: 4102444800 });
+            await createTask({ title: 'Undated' });
+
+            const overdue = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/tasks?overdue=true`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+            expect(overdue.body.data.map((t: any) => t.title)).toEqual(['Past']);
+
+            const dueBefore = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/tasks?due_before=4102444800`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+            expect(dueBefore.body.data.map((t: any) => t.title).sort()).toEqual(['Past', 'Soon']);
+        });
+    });
+
+    // First-class workspaces and per-workspace roles
+    describe('Workspaces', () => {
+        const as = (userId: string, role = 'agent') => ({ 'X-Tenant-Id': tenantId, 'X-User-Id': userId, 'X-Role': role });
+
+        it('should create a workspace with its creator as manager', async () => {
+            const res = await request(app)
+                .post('/v1/workspaces')
+                .set(as('lead_1', 'manager'))
+                .send({ workspace_id: 'ws_new', name: 'New Team' });
+            expect(res.status).toBe(201);
+            expect(res.body).toMatchObject({ workspace_id: 'ws_new', name: 'New Team', archived: false, role: 'manager' });
+
+            const members = await request(app).get('/v1/workspaces/ws_new/members').set(as('lead_1'));
+            expect(members.body).toEqual([expect.objectContaining({ user_id: 'lead_1', role: 'manager' })]);
+
+            const mine = await request(app).get('/v1/workspaces').set(as('lead_1'));
+            expect(mine.body.map((w: any) => w.workspace_id)).toEqual(['ws_new']);
+        });
+
+        it('should reject tasks in unknown workspaces and from non-members', async () => {
+            const unknown = await request(app)
+                .post('/v1/workspaces/ws_missing/tasks')
+                .set(as('mgr_1', 'manager'))
+                .send({ title: 'Nowhere' });
+            expect(unknown.status).toBe(404);
+
+            const outsider = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks`)
+                .set(as('stranger', 'manager'))
+                .send({ title: 'Intruder' });
+            expect(outsider.status).toBe(403);
+        });
+
+        it('should use the membership role instead of the role header', async () => {
+            const res = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks`)
+                .set(as('agent_1', 'manager'))
+                .send({ title: 'Agent created' });
+            const taskId = res.body.task_id;
+
+            const assign = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/assign`)
+                .set(as('agent_1', 'manager'))
+                .set('If-Match-Version', '1')
+                .send({ assignee_id: 'agent_1' });
+            expect(assign.status).toBe(403);
+
+            // Promote agent_1 in this workspace only
+            await request(app)
+                .put(`/v1/workspaces/${workspaceId}/members/agent_1`)
+                .set(as('mgr_1'))
+                .send({ role: 'manager' });
+
+            const promoted = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/assign`)
+                .set(as('agent_1'))
+                .set('If-Match-Version', '1')
+                .send({ assignee_id: 'agent_2' });
+            expect(promoted.status).toBe(200);
+        });
+
+        it('should refuse assignees who are not workspace members', async () => {
+            const res = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks`)
+                .set(as('mgr_1'))
+                .send({ title: 'Outsourced' });
+
+            const assign = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/${res.body.task_id}/assign`)
+                .set(as('mgr_1'))
+                .set('If-Match-Version', '1')
+                .send({ assignee_id: 'stranger' });
+            expect(assign.status).toBe(400);
+        });
+
+        it('should block writes while archived', async () => {
+            const archive = await request(app)
+                .patch(`/v1/workspaces/${workspaceId}`)
+                .set(as('mgr_1'))
+                .send({ archived: true });
+            expect(archive.body.archived).toBe(true);
+
+            const create = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks`)
+                .set(as('mgr_1'))
+                .send({ title: 'Too late' });
+            expect(create.status).toBe(409);
+
+            const list = await request(app).get(`/v1/workspaces/${workspaceId}/tasks`).set(as('mgr_1'));
+            expect(list.status).toBe(200);
+
+            const unarchive = await request(app)
+                .patch(`/v1/workspaces/${workspaceId}`)
+                .set(as('mgr_1'))
+                .send({ archived: false });
+            expect(unarchive.status).toBe(200);
+        });
+
+        it('should keep at least one manager', async () => {
+            const res = await request(app)
+                .delete('/v1/workspaces/ws_other/members/mgr_1')
+                .set(as('mgr_1'));
+            expect(res.status).toBe(409);
+        });
+    });
+
+    // Workspace analytics
+    describe('Analytics', () => {
+        const base = 1_699_920_000; // A UTC midnight
+
+        const seedTask = async (id: string, createdAt: number, state: string, opts: { assigneeId?: string, priority?: 'LOW' | 'MEDIUM' | 'HIGH', ws?: string, path?: [string, number][] } = {}) => {
+            await backend.insertTasks([{
+                id, tenantId, workspaceId: opts.ws ?? workspaceId, title: id, state, createdAt, updatedAt: createdAt,
+                priority: opts.priority ?? 'MEDIUM', assigneeId: opts.assigneeId ?? null,
+            }]);
+            let from = 'NEW';
+            for (const [to, at] of opts.path ?? []) {
+                await backend.insertEvents([{ id: uuidv4(), taskId: id, eventType: 'TaskStateChanged', payload: { from, to }, createdAt: at }]);
+                from = to;
+            }
+        };
+
+        const analytics = (query: string, role = 'manager') => request(app)
+            .get(`/v1/workspaces/${workspaceId}/analytics?${query}`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', role === 'manager' ? 'mgr_1' : 'agent_1');
+
+        it('should aggregate distribution, throughput, durations and load', async () => {
+            await seedTask('t1', base, 'DONE', { assigneeId: 'agent_1', path: [['IN_PROGRESS', base + 100], ['DONE', base + 1000]] });
+            await seedTask('t2', base + 86_400, 'DONE', { assigneeId: 'agent_1', path: [['IN_PROGRESS', base + 86_450], ['DONE', base + 86_650]] });
+            await seedTask('t3', base, 'DONE', { assigneeId: 'agent_2', path: [['DONE', base + 4000]] });
+            await seedTask('t4', base + 86_400, 'NEW', { assigneeId: 'agent_2', priority: 'HIGH' });
+            await seedTask('t5', base, 'DONE', { ws: 'ws_other', assigneeId: 'agent_1', path: [['DONE', base + 10]] });
+
+            const res = await analytics(`from=${base}&to=${base + 2 * 86_400}`);
+            expect(res.status).toBe(200);
+            expect(res.body).toMatchObject({
+                total: 4,
+                by_state: { DONE: 3, NEW: 1 },
+                by_priority: { MEDIUM: 3, HIGH: 1 },
+                throughput: [
+                    { start: base, created: 2, completed: 2 },
+                    { start: base + 86_400, created: 2, completed: 1 },
+                ],
+                lead_time: { count: 3, median: 1000, p90: 4000 },
+                cycle_time: { count: 2, median: 200, p90: 900 },
+                assignees: [
+                    { assignee_id: 'agent_1', open: 0, completed: 2 },
+                    { assignee_id: 'agent_2', open: 1, completed: 1 },
+                ],
+            });
+
+            const weekly = await analytics(`from=${base}&to=${base + 2 * 86_400}&bucket=week`);
+            expect(weekly.body.throughput).toEqual([{ start: base - 86_400, created: 4, completed: 3 }]);
+        });
+
+        it('should count a task completed again after a reopen once, at its last completion', async () => {
+            await seedTask('t1', base, 'DONE', { assigneeId: 'agent_1', path: [['DONE', base + 100], ['NEW', base + 200], ['DONE', base + 86_500]] });
+
+            const res = await analytics(`from=${base}&to=${base + 2 * 86_400}`);
+            expect(res.body).toMatchObject({
+                throughput: [
+                    { start: base, created: 1, completed: 0 },
+                    { start: base + 86_400, created: 0, completed: 1 },
+                ],
+                lead_time: { count: 1, median: 86_500, p90: 86_500 },
+                assignees: [{ assignee_id: 'agent_1', open: 0, completed: 1 }],
+            });
+
+            // A window ending before the second completion still sees the first
+            const first = await analytics(`from=${base}&to=${base + 86_400}`);
+            expect(first.body).toMatchObject({
+                throughput: [{ start: base, created: 1, completed: 1 }],
+                lead_time: { count: 1, median: 100 },
+            });
+        });
+
+        it('should return empty metrics for a quiet range', async () => {
+            const res = await analytics(`from=${base}&to=${base + 86_400}`);
+            expect(res.body).toMatchObject({
+                total: 0,
+                throughput: [{ start: base, created: 0, completed: 0 }],
+                lead_time: { count: 0, median: null, p90: null },
+                assignees: [],
+            });
+        });
+
+        it('should validate the range and require a manager', async () => {
+            expect((await analytics(`from=${base}&to=${base}`)).status).toBe(400);
+            expect((await analytics(`from=${base}&to=${base + 400 * 86_400}`)).status).toBe(400);
+            expect((await analytics('bucket=month')).status).toBe(400);
+            expect((await analytics('', 'agent')).status).toBe(403);
+        });
+    });
+
+    // CSV / NDJSON import and export
+    describe('Import and export', () => {
+        const importTasks = (body: string | object, contentType: string, query = '') => request(app)
+            .post(`/v1/workspaces/${workspaceId}/tasks/import${query}`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', 'mgr_1')
+            .set('Content-Type', contentType)
+            .send(typeof body === 'string' ? body : JSON.stringify(body));
+
+        const exportTasks = (query: string) => request(app)
+            .get(`/v1/workspaces/${workspaceId}/tasks/export?${query}`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', 'agent_1')
+            .buffer(true)
+            .parse((res, cb) => {
+                let text = '';
+                res.on('data', (c: Buffer) => text += c.toString());
+                res.on('end', () => cb(null, text));
+            });
+
+        it('should import CSV rows with TaskCreated events', async () => {
+            const csv = 'title,priority,due_at\r\n"Quoted, title",HIGH,2000000000\r\nPlain,,\r\n';
+            const res = await importTasks(csv, 'text/csv');
+
+            expect(res.status).toBe(201);
+            expect(res.body).toMatchObject({ dry_run: false, total: 2, valid: 2, imported: 2, errors: [] });
+
+            const rows = await backend.tasks({ workspaceId });
+            expect(rows.map(r => [r.title, r.priority, r.dueAt, r.state]).sort()).toEqual([
+                ['Plain', 'MEDIUM', null, 'NEW'],
+                ['Quoted, title', 'HIGH', 2000000000, 'NEW'],
+            ]);
+
+            const events = await backend.events();
+            expect(events.map(e => e.eventType)).toEqual(['TaskCreated', 'TaskCreated']);
+        });
+
+        it('should report per-row errors and write nothing', async () => {
+            const ndjson = '{"title":"Ok"}\n{"title":""}\nnot json\n{"title":"Bad priority","priority":"URGENT"}\n';
+
+            const dry = await importTasks(ndjson, 'application/x-ndjson', '?dry_run=true');
+            expect(dry.status).toBe(200);
+            expect(dry.body).toMatchObject({ dry_run: true, total: 4, valid: 1 });
+            expect(dry.body.errors.map((e: any) => e.row)).toEqual([2, 3, 4]);
+
+            const real = await importTasks(ndjson, 'application/x-ndjson');
+            expect(real.status).toBe(422);
+            expect(real.body.imported).toBe(0);
+            expect(await backend.tasks()).toHaveLength(0);
+
+            // A clean dry run writes nothing either
+            expect((await importTasks([{ title: 'A' }], 'application/json', '?dry_run=true')).body.valid).toBe(1);
+            expect(await backend.tasks()).toHaveLength(0);
+        });
+
+        it('should accept JSON imports past the default body limit', async () => {
+            const rows = Array.from({ length: 2000 }, (_, i) => ({ title: `Imported task number ${i} with a long enough title`, priority: 'LOW' }));
+            expect(JSON.stringify(rows).length).toBeGreaterThan(100 * 1024);
+
+            const res = await importTasks(rows, 'application/json', '?dry_run=true');
+            expect(res.status).toBe(200);
+            expect(res.body).toMatchObject({ total: 2000, valid: 2000 });
+
+            // Everything else keeps the default limit
+            const big = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .set('Content-Type', 'application/json')
+                .send(JSON.stringify({ title: 'x', padding: 'y'.repeat(200 * 1024) }));
+            expect(big.status).toBe(413);
+        });
+
+        it('should reject malformed imports and non-managers', async () => {
+            expect((await importTasks('name\r\nx\r\n', 'text/csv')).status).toBe(400);
+            expect((await importTasks('title\r\n"open', 'text/csv')).status).toBe(400);
+            expect((await importTasks({ nope: true }, 'application/json')).status).toBe(400);
+
+            const byAgent = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/import`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'agent_1')
+                .send([{ title: 'A' }]);
+            expect(byAgent.status).toBe(403);
+        });
+
+        it('should export NDJSON and CSV with optional timelines', async () => {
+            await importTasks({ tasks: [{ title: 'First' }, { title: 'Line\nbreak, "quoted"' }] }, 'application/json');
+            await importTasks([{ title: 'Elsewhere' }], 'application/json');
+            const [elsewhere] = (await backend.tasks()).filter(t => t.title === 'Elsewhere');
+            await backend.updateTask(elsewhere.id, { workspaceId: 'ws_other' });
+
+            const ndjson = await exportTasks('format=ndjson&include_timeline=true');
+            expect(ndjson.status).toBe(200);
+            expect(ndjson.headers['content-type']).toContain('application/x-ndjson');
+            const lines = (ndjson.body as string).trim().split('\n').map(l => JSON.parse(l));
+            expect(lines.map(l => l.title).sort()).toEqual(['First', 'Line\nbreak, "quoted"']);
+            expect(lines[0].timeline.map((e: any) => e.event_type)).toEqual(['TaskCreated']);
+
+            const csv = await exportTasks('format=csv');
+            expect(csv.headers['content-type']).toContain('text/csv');
+            const records = parseCsv(csv.body as string);
+            expect(records[0]).toContain('task_id');
+            expect(records[0]).not.toContain('timeline');
+            expect(records).toHaveLength(3);
+            expect(records.map(r => r[records[0].indexOf('title')])).toContain('Line\nbreak, "quoted"');
+
+            expect((await exportTasks('format=xml')).status).toBe(400);
+        });
+    });
+
+    // Blocking relationships between tasks
+    describe('Dependencies', () => {
+        const createTask = async (title: string) => {
+            const res = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .send({ title });
+            return res.body.task_id as string;
+        };
+
+        const link = (taskId: string, blockerId: string, userId = 'mgr_1') => request(app)
+            .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/dependencies`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', userId)
+            .send({ blocker_id: blockerId });
+
+        const transition = (taskId: string, toState: string, version: number, userId = 'mgr_1') => request(app)
+            .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/transition`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', userId)
+            .set('If-Match-Version', String(version))
+            .send({ to_state: toState });
+
+        const assign = (taskId: string, version: number) => request(app)
+            .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/assign`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', 'mgr_1')
+            .set('If-Match-Version', String(version))
+            .send({ assignee_id: 'agent_1' });
+
+        it('should block starting a task until its blockers are finished', async () => {
+            const a = await createTask('A');
+            const b = await createTask('B');
+            expect((await link(b, a)).status).toBe(201);
+
+            await assign(b, 1);
+            const blocked = await transition(b, 'IN_PROGRESS', 2, 'agent_1');
+            expect(blocked.status).toBe(409);
+            expect(blocked.body.blockers).toEqual([a]);
+
+            // Cancelling the blocked task is always allowed
+            const c = await createTask('C');
+            await link(c, a);
+            expect((await transition(c, 'CANCELLED', 1)).status).toBe(200);
+
+            await assign(a, 1);
+            await transition(a, 'IN_PROGRESS', 2, 'agent_1');
+            expect((await transition(a, 'DONE', 3, 'agent_1')).status).toBe(200);
+
+            const unblocked = await backend.events({ eventType: 'UnblockedTask' });
+            expect(unblocked.map(e => e.taskId)).toEqual([b]);
+            expect(unblocked[0].payload).toMatchObject({ blockerId: a, blockerState: 'DONE', actorId: 'agent_1', snapshot: { id: b, version: 2 } });
+
+            expect((await transition(b, 'IN_PROGRESS', 2, 'agent_1')).status).toBe(200);
+        });
+
+        it('should gate every state but the initial and cancel states of a custom workflow', async () => {
+            await request(app)
+                .put(`/v1/workspaces/${workspaceId}/workflow`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .send({
+                    states: ['OPEN', 'COMPLETED', 'DROPPED'],
+                    initial_state: 'OPEN',
+                    terminal_states: ['COMPLETED', 'DROPPED'],
+                    cancel_states: ['DROPPED'],
+                    transitions: [
+                        { from: 'OPEN', to: 'COMPLETED', roles: ['manager'] },
+                        { from: 'OPEN', to: 'DROPPED', roles: ['manager'] },
+                    ],
+                })
+                .expect(200);
+
+            const a = await createTask('A');
+            const b = await createTask('B');
+            const c = await createTask('C');
+            await link(b, a);
+            await link(c, a);
+
+            const blocked = await transition(b, 'COMPLETED', 1);
+            expect(blocked.status).toBe(409);
+            expect(blocked.body.blockers).toEqual([a]);
+            expect((await transition(c, 'DROPPED', 1)).status).toBe(200);
+
+            expect((await transition(a, 'COMPLETED', 1)).status).toBe(200);
+            expect((await transition(b, 'COMPLETED', 1)).status).toBe(200);
+        });
+
+        it('should only unblock once every blocker is finished', async () => {
+            const a = await createTask('A');
+            const b = await createTask('B');
+            const c = await createTask('C');
+            await link(c, a);
+            await link(c, b);
+
+            await transition(a, 'CANCELLED', 1);
+            expect(await backend.events({ eventType: 'UnblockedTask' })).toHaveLength(0);
+
+            const deps = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/tasks/${c}/dependencies`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'agent_1');
+            expect(deps.body.blocked_by.map((d: any) => [d.task_id, d.finished])).toEqual([[a, true], [b, false]].sort());
+
+            await transition(b, 'CANCELLED', 1);
+            const unblocked = await backend.events({ eventType: 'UnblockedTask' });
+            expect(unblocked.map(e => e.taskId)).toEqual([c]);
+        });
+
+        it('should unblock dependents when their last open blocker is deleted', async () => {
+            const a = await createTask('A');
+            const b = await createTask('B');
+            const c = await createTask('C');
+            await link(b, a);
+            await link(c, a);
+            await link(c, b);
+
+            const remove = (taskId: string, version: number) => request(app)
+                .delete(`/v1/workspaces/${workspaceId}/tasks/${taskId}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', String(version));
+
+            expect((await remove(a, 1)).status).toBe(200);
+            const unblocked = await backend.events({ eventType: 'UnblockedTask' });
+            expect(unblocked.map(e => e.taskId)).toEqual([b]);
+            expect(unblocked[0].payload).toMatchObject({ blockerId: a, blockerState: 'NEW', blockerDeleted: true, actorId: 'mgr_1' });
+
+            // A blocker that already finished released its dependents back then
+            await transition(b, 'CANCELLED', 1);
+            expect((await backend.events({ eventType: 'UnblockedTask' })).map(e => e.taskId)).toEqual([b, c]);
+            expect((await remove(b, 2)).status).toBe(200);
+            expect(await backend.events({ eventType: 'UnblockedTask' })).toHaveLength(2);
+        });
+
+        it('should reject cycles, duplicates and tasks outside the workspace', async () => {
+            const a = await createTask('A');
+            const b = await createTask('B');
+            const c = await createTask('C');
+
+            await link(b, a);
+            await link(c, b);
+            expect((await link(a, c)).status).toBe(409);
+            expect((await link(b, a)).status).toBe(409);
+            expect((await link(a, a)).status).toBe(400);
+
+            const other = await request(app)
+                .post(`/v1/workspaces/ws_other/tasks`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .send({ title: 'Elsewhere' });
+            expect((await link(a, other.body.task_id)).status).toBe(404);
+
+            expect((await link(a, b, 'agent_1')).status).toBe(403);
+        });
+
+        it('should unlink dependencies', async () => {
+            const a = await createTask('A');
+            const b = await createTask('B');
+            await link(b, a);
+
+            const unlink = () => request(app)
+                .delete(`/v1/workspaces/${workspaceId}/tasks/${b}/dependencies/${a}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+
+            expect((await unlink()).status).toBe(204);
+            expect((await unlink()).status).toBe(404);
+
+            await assign(b, 1);
+            expect((await transition(b, 'IN_PROGRESS', 2, 'agent_1')).status).toBe(200);
+        });
+
+        it('should report blocked items in bulk transitions', async () => {
+            const a = await createTask('A');
+            const b = await createTask('B');
+            await link(b, a);
+
+            await assign(b, 1);
+
+            const bulk = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks:bulk`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'agent_1')
+                .send({ operations: [{ op: 'transition', task_id: b, version: 2, to_state: 'IN_PROGRESS' }] });
+            expect(bulk.body.results[0].status).toBe('blocked');
+        });
+    });
+
+    // Tenant changelog and consumer offsets
+    describe('Event feed', () => {
+        const feed = (query: string, headers: Record<string, string> = { 'X-Role': 'manager', 'X-User-Id': 'mgr_1' }) => request(app)
+            .get(`/v1/events?${query}`)
+            .set('X-Tenant-Id', tenantId)
+            .set(headers);
+
+        const createIn = async (ws: string, title: string, tenant = tenantId) => {
+            if (tenant !== tenantId) {
+                await db.insert(workspaces).values({ id: ws, tenantId: tenant, name: ws }).onConflictDoNothing();
+                await db.insert(workspaceMembers).values({ tenantId: tenant, workspaceId: ws, userId: 'mgr_1', role: 'manager' }).onConflictDoNothing();
+            }
+            const res = await request(app)
+                .post(`/v1/workspaces/${ws}/tasks`)
+                .set('X-Tenant-Id', tenant)
+                .set('X-User-Id', 'mgr_1')
+                .send({ title });
+            return res.body.task_id as string;
+        };
+
+        it('should page through the tenant changelog by seq', async () => {
+            const a = await createIn(workspaceId, 'A');
+            await createIn(workspaceId, 'B', 'tenant_2');
+            await createIn('ws_other', 'C');
+            await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/${a}/assign`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '1')
+                .send({ assignee_id: 'agent_1' });
+
+            const first = await feed('limit=2');
+            expect(first.status).toBe(200);
+            expect(first.body.data.map((e: any) => e.payload.title ?? e.event_type)).toEqual(['A', 'C']);
+            expect(first.body.data[0].seq).toBeLessThan(first.body.data[1].seq);
+
+            const second = await feed(`after_seq=${first.body.next_after_seq}`);
+            expect(second.body.data.map((e: any) => e.event_type)).toEqual(['TaskAssigned']);
+
+            const drained = await feed(`after_seq=${second.body.next_after_seq}`);
+            expect(drained.body).toEqual({ data: [], next_after_seq: second.body.next_after_seq });
+        });
+
+        it('should filter by event type, task and workspace', async () => {
+            const a = await createIn(workspaceId, 'A');
+            await createIn('ws_other', 'C');
+            await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/${a}/transition`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '1')
+                .send({ to_state: 'CANCELLED' });
+
+            expect((await feed('event_type=TaskStateChanged,TaskAssigned')).body.data).toHaveLength(1);
+            expect((await feed(`task_id=${a}`)).body.data).toHaveLength(2);
+            expect((await feed('workspace_id=ws_other')).body.data.map((e: any) => e.workspace_id)).toEqual(['ws_other']);
+        });
+
+        it('should limit non-managers to their workspaces', async () => {
+            await createIn(workspaceId, 'A');
+            await createIn('ws_other', 'C');
+            await db.delete(workspaceMembers).where(and(eq(workspaceMembers.workspaceId, 'ws_other'), eq(workspaceMembers.userId, 'agent_1')));
+
+            const res = await feed('', { 'X-User-Id': 'agent_1' });
+            expect(res.body.data.map((e: any) => e.workspace_id)).toEqual([workspaceId]);
+        });
+
+        it('should store named consumer offsets', async () => {
+            await createIn(workspaceId, 'A');
+            const seq = (await feed('')).body.next_after_seq;
+            const offsetUrl = '/v1/consumers/search-indexer/offset';
+
+            expect((await request(app).get(offsetUrl).set('X-Tenant-Id', tenantId)).status).toBe(404);
+
+            const put = await request(app)
+                .put(offsetUrl)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .send({ seq });
+            expect(put.status).toBe(200);
+
+            const get = await request(app).get(offsetUrl).set('X-Tenant-Id', tenantId);
+            expect(get.body).toMatchObject({ name: 'search-indexer', seq });
+
+            // Other tenants have their own offsets
+            expect((await request(app).get(offsetUrl).set('X-Tenant-Id', 'tenant_2')).status).toBe(404);
+
+            const beyond = await request(app)
+                .put(offsetUrl)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-Role', 'manager')
+                .send({ seq: seq + 100 });
+            expect(beyond.status).toBe(400);
+
+            const byAgent = await request(app).put(offsetUrl).set('X-Tenant-Id', tenantId).send({ seq: 0 });
+            expect(byAgent.status).toBe(403);
+        });
+    });
+
+    describe('Errors', () => {
+        const createTask = async () => {
+            const res = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .send({ title: 'Errors' });
+            return res.body.task_id as string;
+        };
+
+        it('should report version conflicts with the current version and state', async () => {
+            const taskId = await createTask();
+
+            const res = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/transition`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '7')
+                .send({ to_state: 'CANCELLED' });
+
+            expect(res.status).toBe(409);
+            expect(res.headers['content-type']).toMatch(/^application\/problem\+json/);
+            expect(res.body).toMatchObject({
+                type: '/problems/version_conflict',
+                title: 'Conflict',
+                status: 409,
+                code: 'version_conflict',
+                instance: `/v1/workspaces/${workspaceId}/tasks/${taskId}/transition`,
+                current_version: 1,
+                current_state: 'NEW',
+            });
+        });
+
+        it('should return task_not_found when transitioning a missing task', async () => {
+            const res = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/missing/transition`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '1')
+                .send({ to_state: 'IN_PROGRESS' });
+
+            expect(res.status).toBe(404);
+            expect(res.body.code).toBe('task_not_found');
+        });
+
+        it('should list validation issues by field', async () => {
+            const res = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .send({ title: '', priority: 'URGENT' });
+
+            expect(res.status).toBe(400);
+            expect(res.body.code).toBe('validation_failed');
+            expect(res.body.errors.map((e: any) => e.path).sort()).toEqual(['priority', 'title']);
+            expect(res.body.errors.every((e: any) => typeof e.message === 'string')).toBe(true);
+        });
+
+        it('should map malformed bodies, unknown routes and missing headers to stable codes', async () => {
+            const malformed = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .set('Content-Type', 'application/json')
+                .send('{"title":');
+            expect(malformed.status).toBe(400);
+            expect(malformed.body.code).toBe('malformed_body');
+
+            const unknown = await request(app).get('/workspaces').set('X-Tenant-Id', tenantId);
+            expect(unknown.status).toBe(404);
+            expect(unknown.body).toMatchObject({ code: 'route_not_found', method: 'GET' });
+
+            const taskId = await createTask();
+            const noVersion = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/transition`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .send({ to_state: 'IN_PROGRESS' });
+            expect(noVersion.status).toBe(400);
+            expect(noVersion.body.code).toBe('missing_version');
+
+            const notMember = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/tasks`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'stranger');
+            expect(notMember.status).toBe(403);
+            expect(notMember.body.code).toBe('forbidden');
+        });
+    });
+
+    describe('Templates', () => {
+        // Monday 2026-01-05 09:00 UTC
+        const monday = Date.UTC(2026, 0, 5, 9) / 1000;
+        const week = 7 * 24 * 60 * 60;
+
+        const createTemplate = async (body: object, userId = 'mgr_1') => {
+            return request(app)
+                .post(`/v1/workspaces/${workspaceId}/templates`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', userId)
+                .send(body);
+        };
+
+        // Pretend the template was created just before `at`
+        const scheduleAt = async (templateId: string, at: number) => {
+            await db.update(taskTemplates).set({ nextRunAt: at }).where(eq(taskTemplates.id, templateId));
+        };
+
+        const spawnedTasks = async () => {
+            return backend.tasks({ workspaceId });
+        };
+
+        it('should create a template and schedule its first run', async () => {
+            const res = await createTemplate({
+                title_pattern: 'Weekly report {year}-W{week}',
+                recurrence: '0 9 * * MON',
+                priority: 'HIGH',
+                assignee_id: 'agent_1',
+            });
+
+            expect(res.status).toBe(201);
+            expect(res.body).toMatchObject({
+                workspace_id: workspaceId,
+                recurrence: '0 9 * * MON',
+                priority: 'HIGH',
+                assignee_id: 'agent_1',
+                active: true,
+                last_run_at: null,
+            });
+            expect(res.body.next_run_at).toBeGreaterThan(Math.floor(Date.now() / 1000));
+            expect(new Date(res.body.next_run_at * 1000).getUTCDay()).toBe(1);
+
+            const list = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/templates`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'agent_1');
+            expect(list.body.map((t: any) => t.template_id)).toEqual([res.body.template_id]);
+        });
+
+        it('should reject invalid recurrences, placeholders and assignees', async () => {
+            const badCron = await createTemplate({ title_pattern: 'Audit', recurrence: '0 25 * * *' });
+            expect(badCron.status).toBe(400);
+            expect(badCron.body.code).toBe('validation_failed');
+            expect(badCron.body.errors).toEqual([{ path: 'recurrence', message: "Invalid hour value '25'" }]);
+
+            const never = await createTemplate({ title_pattern: 'Audit', recurrence: '0 0 30 2 *' });
+            expect(never.body.errors).toEqual([{ path: 'recurrence', message: 'Recurrence never runs' }]);
+
+            const placeholder = await createTemplate({ title_pattern: 'Audit {quarter}', recurrence: '@monthly' });
+            expect(placeholder.status).toBe(400);
+            expect(placeholder.body.errors[0].path).toBe('title_pattern');
+
+            const assignee = await createTemplate({ title_pattern: 'Audit', recurrence: '@monthly', assignee_id: 'stranger' });
+            expect(assignee.status).toBe(400);
+            expect(assignee.body.code).toBe('invalid_assignee');
+
+            const agent = await createTemplate({ title_pattern: 'Audit', recurrence: '@monthly' }, 'agent_1');
+            expect(agent.status).toBe(403);
+        });
+
+        it('should preview the next runs with their titles', async () => {
+            const { body: template } = await createTemplate({ title_pattern: 'Report {date}', recurrence: '0 9 * * MON' });
+            await scheduleAt(template.template_id, monday);
+
+            const res = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/templates/${template.template_id}/preview?count=3`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'agent_1');
+
+            expect(res.status).toBe(200);
+            expect(res.body.runs).toEqual([
+                { at: monday, title: 'Report 2026-01-05' },
+                { at: monday + week, title: 'Report 2026-01-12' },
+                { at: monday + 2 * week, title: 'Report 2026-01-19' },
+            ]);
+        });
+
+        it('should combine day-of-month and day-of-week like cron', async () => {
+            const preview = async (recurrence: string) => {
+                const { body: template } = await createTemplate({ title_pattern: 'Report {date}', recurrence });
+                await scheduleAt(template.template_id, monday);
+                const res = await request(app)
+                    .get(`/v1/workspaces/${workspaceId}/templates/${template.template_id}/preview?count=3`)
+                    .set('X-Tenant-Id', tenantId)
+                    .set('X-User-Id', 'agent_1');
+                return res.body.runs.map((r: any) => r.title);
+            };
+
+            // An explicit list in both fields runs on days matching either
+            expect(await preview('0 9 1,15 * MON')).toEqual(['Report 2026-01-05', 'Report 2026-01-12', 'Report 2026-01-15']);
+            // A step over `*` leaves day-of-month unrestricted, so both must match: odd-dated Mondays
+            expect(await preview('0 9 */2 * MON')).toEqual(['Report 2026-01-05', 'Report 2026-01-19', 'Report 2026-02-09']);
+        });
+
+        it('should spawn each run exactly once, even when the scheduler restarts mid-run', async () => {
+            const { body: template } = await createTemplate({
+                title_pattern: 'Weekly report W{week}',
+                recurrence: '0 9 * * MON',
+                assignee_id: 'agent_1',
+            });
+            await scheduleAt(template.template_id, monday);
+
+            const scheduler = new TemplateScheduler({ clock: () => monday + 30 });
+            expect(await scheduler.tick()).toEqual({ spawned: 1 });
+            expect(await scheduler.tick()).toEqual({ spawned: 0 });
+
+            const [task] = await spawnedTasks();
+            expect(task).toMatchObject({ title: 'Weekly report W02', state: 'NEW', assigneeId: 'agent_1' });
+
+            const stored = await db.select().from(taskTemplates).where(eq(taskTemplates.id, template.template_id)).get();
+            expect(stored).toMatchObject({ lastRunAt: monday, lastTaskId: task.id, nextRunAt: monday + week });
+
+            // A crash after creating the task but before advancing the template
+            await scheduleAt(template.template_id, monday);
+            expect(await new TemplateScheduler({ clock: () => monday + 60 }).tick()).toEqual({ spawned: 0 });
+            expect(await spawnedTasks()).toHaveLength(1);
+
+            expect(await new TemplateScheduler({ clock: () => monday + week }).tick()).toEqual({ spawned: 1 });
+            expect((await spawnedTasks()).map(t => t.title).sort()).toEqual(['Weekly report W02', 'Weekly report W03']);
+        });
+
+        it('should skip runs missed while down and drop an assignee who left', async () => {
+            const { body: template } = await createTemplate({ title_pattern: 'Report {date}', recurrence: '0 9 * * MON', assignee_id: 'agent_2' });
+            await scheduleAt(template.template_id, monday);
+            await db.delete(workspaceMembers).where(eq(workspaceMembers.userId, 'agent_2'));
+
+            const scheduler = new TemplateScheduler({ clock: () => monday + 3 * week + 60 });
+            expect(await scheduler.tick()).toEqual({ spawned: 1 });
+
+            const spawned = await spawnedTasks();
+            expect(spawned).toHaveLength(1);
+            expect(spawned[0]).toMatchObject({ title: 'Report 2026-01-26', assigneeId: null });
+        });
+
+        it('should skip runs while the workspace is at its open task quota', async () => {
+            const { body: template } = await createTemplate({ title_pattern: 'Report {date}', recurrence: '0 9 * * MON' });
+            await scheduleAt(template.template_id, monday);
+            await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .send({ title: 'Already open' });
+
+            const limits = { tenants: { [tenantId]: { rates: {}, quotas: { maxOpenTasksPerWorkspace: 1 } } } };
+            expect(await new TemplateScheduler({ clock: () => monday + 30, limits }).tick()).toEqual({ spawned: 0 });
+            expect(await spawnedTasks()).toHaveLength(1);
+
+            const stored = await db.select().from(taskTemplates).where(eq(taskTemplates.id, template.template_id)).get();
+            expect(stored).toMatchObject({ lastRunAt: monday, lastTaskId: null, nextRunAt: monday + week });
+        });
+
+        it('should not spawn paused templates and reschedule them on resume', async () => {
+            const { body: template } = await createTemplate({ title_pattern: 'Audit', recurrence: '@monthly' });
+            const patch = (body: object) => request(app)
+                .patch(`/v1/workspaces/${workspaceId}/templates/${template.template_id}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .send(body);
+
+            const paused = await patch({ active: false });
+            expect(paused.status).toBe(200);
+            expect(paused.body).toMatchObject({ active: false, next_run_at: null });
+            expect(await new TemplateScheduler({ clock: () => 4_000_000_000 }).tick()).toEqual({ spawned: 0 });
+
+            const resumed = await patch({ active: true, recurrence: '@daily' });
+            expect(resumed.body.recurrence).toBe('@daily');
+            expect(resumed.body.next_run_at % 86_400).toBe(0);
+
+            const removed = await request(app)
+                .delete(`/v1/workspaces/${workspaceId}/templates/${template.template_id}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+            expect(removed.status).toBe(204);
+
+            const missing = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/templates/${template.template_id}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+            expect(missing.body.code).toBe('template_not_found');
+        });
+    });
+
+    describe('History', () => {
+        const createTask = async (title = 'Original') => {
+            const res = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .send({ title });
+            return res.body.task_id as string;
+        };
+
+        const rename = (taskId: string, title: string, version: number) => request(app)
+            .patch(`/v1/workspaces/${workspaceId}/tasks/${taskId}`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', 'mgr_1')
+            .set('If-Match-Version', String(version))
+            .send({ title });
+
+        const getAsOf = (taskId: string, asOf: string, extra = '') => request(app)
+            .get(`/v1/workspaces/${workspaceId}/tasks/${taskId}?as_of=${encodeURIComponent(asOf)}${extra}`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', 'agent_1');
+
+        it('should record the acting user and full before/after snapshots in every event', async () => {
+            const taskId = await createTask();
+
+            await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/assign`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '1')
+                .send({ assignee_id: 'agent_1' });
+            await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/transition`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'agent_1')
+                .set('If-Match-Version', '2')
+                .send({ to_state: 'IN_PROGRESS' });
+            await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/comments`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'agent_1')
+                .send({ body: 'On it' });
+
+            const res = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/tasks/${taskId}/history`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'agent_1');
+
+            expect(res.status).toBe(200);
+            expect(res.body.data.map((e: any) => [e.event_type, e.actor_id, e.version])).toEqual([
+                ['TaskCreated', 'mgr_1', 1],
+                ['TaskAssigned', 'mgr_1', 2],
+                ['TaskStateChanged', 'agent_1', 3],
+                ['CommentAdded', 'agent_1', null],
+            ]);
+            expect(res.body.next_cursor).toBeNull();
+
+            const [created, assigned, moved, commented] = res.body.data.map((e: any) => e.payload);
+            expect(created.before).toBeNull();
+            expect(created.after).toMatchObject({ id: taskId, title: 'Original', state: 'NEW', assigneeId: null, version: 1 });
+            expect(assigned).toMatchObject({ assigneeId: 'agent_1', previousAssigneeId: null });
+            expect(assigned.before).toEqual(created.after);
+            expect(assigned.after).toMatchObject({ assigneeId: 'agent_1', version: 2 });
+            expect(moved).toMatchObject({ from: 'NEW', to: 'IN_PROGRESS', before: assigned.after });
+            expect(moved.after).toMatchObject({ state: 'IN_PROGRESS', assigneeId: 'agent_1', version: 3 });
+            // Events that leave the row as is carry the task as it stood
+            expect(commented).toMatchObject({ body: 'On it', snapshot: moved.after });
+        });
+
+        it('should page through the complete history in order', async () => {
+            const taskId = await createTask('v1');
+            for (let version = 1; version <= 5; version++) await rename(taskId, `v${version + 1}`, version);
+
+            const versions: number[] = [];
+            let cursor: string | null = null;
+            do {
+                const res: request.Response = await request(app)
+                    .get(`/v1/workspaces/${workspaceId}/tasks/${taskId}/history`)
+                    .query(cursor ? { limit: 2, cursor } : { limit: 2 })
+                    .set('X-Tenant-Id', tenantId)
+                    .set('X-User-Id', 'agent_1');
+                expect(res.status).toBe(200);
+                versions.push(...res.body.data.map((e: any) => e.version));
+                cursor = res.body.next_cursor;
+            } while (cursor);
+
+            expect(versions).toEqual([1, 2, 3, 4, 5, 6]);
+
+            const bad = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/tasks/${taskId}/history?cursor=nope`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'agent_1');
+            expect(bad.status).toBe(400);
+            expect(bad.body.code).toBe('invalid_cursor');
+        });
+
+        it('should rebuild a past state by version or by time', async () => {
+            const taskId = await createTask('A');
+            await rename(taskId, 'B', 1);
+            await rename(taskId, 'C', 2);
+
+            // Spread the events out: A at t0, B at t0 + 100, C at t0 + 200
+            const t0 = 1_800_000_000;
+            const events = await backend.events({ taskId });
+            for (const [i, event] of events.entries()) {
+                await backend.updateEvent(event.id, { createdAt: t0 + i * 100 });
+            }
+
+            const byVersion = await getAsOf(taskId, 'v2');
+            expect(byVersion.status).toBe(200);
+            expect(byVersion.body).toMatchObject({ task_id: taskId, title: 'B', version: 2 });
+            expect(byVersion.body.timeline.map((e: any) => e.event_type)).toEqual(['TaskUpdated', 'TaskCreated']);
+
+            expect((await getAsOf(taskId, String(t0 + 50))).body).toMatchObject({ title: 'A', version: 1 });
+            expect((await getAsOf(taskId, new Date((t0 + 150) * 1000).toISOString())).body).toMatchObject({ title: 'B', version: 2 });
+            expect((await getAsOf(taskId, String(t0 + 1000))).body).toMatchObject({ title: 'C', version: 3 });
+
+            const beforeCreation = await getAsOf(taskId, String(t0 - 1));
+            expect(beforeCreation.status).toBe(404);
+
+            const invalid = await getAsOf(taskId, 'yesterday');
+            expect(invalid.status).toBe(400);
+            expect(invalid.body.code).toBe('invalid_as_of');
+        });
+
+        it('should rebuild states of a deleted task and hide deleted states unless asked', async () => {
+            const taskId = await createTask('A');
+            await request(app)
+                .delete(`/v1/workspaces/${workspaceId}/tasks/${taskId}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '1');
+
+            expect((await getAsOf(taskId, 'v1')).body).toMatchObject({ title: 'A', deleted_at: null });
+            expect((await getAsOf(taskId, 'v2')).status).toBe(404);
+
+            const deleted = await getAsOf(taskId, 'v2', '&include_deleted=true');
+            expect(deleted.status).toBe(200);
+            expect(deleted.body.deleted_at).not.toBeNull();
+
+            const history = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/tasks/${taskId}/history?include_deleted=true`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+            expect(history.body.data.map((e: any) => e.event_type)).toEqual(['TaskCreated', 'TaskDeleted']);
+        });
+
+        it('should verify replayed history against the stored row', async () => {
+            const taskId = await createTask('A');
+            await rename(taskId, 'B', 1);
+            await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/comments`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'agent_1')
+                .send({ body: 'Looks good' });
+
+            const check = async () => {
+                const [row] = await taskStore().scan({ limit: 10 });
+                return TaskHistory.verify(await taskStore().events(taskId), row);
+            };
+            expect(await check()).toEqual([]);
+
+            // A write that bypassed the store
+            await backend.updateTask(taskId, { title: 'Tampered' });
+            expect(await check()).toEqual(['Replayed task differs from the stored row (title: "B" != "Tampered")']);
+        });
+
+        it('should replay events recorded before snapshots existed', async () => {
+            const taskId = uuidv4();
+            const row = { id: taskId, tenantId, workspaceId, title: 'Legacy', priority: 'LOW' as const, state: 'NEW', assigneeId: null, dueAt: null };
+            await backend.insertTasks([{ ...row, title: 'Renamed', assigneeId: 'agent_1', version: 3, createdAt: 1000, updatedAt: 3000 }]);
+            await backend.insertEvents([
+                { id: uuidv4(), taskId, eventType: 'TaskCreated', payload: { ...row, version: 1 }, createdAt: 1000 },
+                { id: uuidv4(), taskId, eventType: 'TaskAssigned', payload: { assigneeId: 'agent_1' }, createdAt: 2000 },
+                { id: uuidv4(), taskId, eventType: 'TaskUpdated', payload: { changes: { title: { before: 'Legacy', after: 'Renamed' } } }, createdAt: 3000 },
+            ]);
+
+            expect((await getAsOf(taskId, '2500')).body).toMatchObject({ title: 'Legacy', assignee_id: 'agent_1', version: 2 });
+
+            const [stored] = await taskStore().scan({ limit: 10 });
+            expect(TaskHistory.verify(await taskStore().events(taskId), stored)).toEqual([]);
+        });
+    });
+
+    describe('Assignment policies', () => {
+        const putPolicy = (body: object, userId = 'mgr_1') => request(app)
+            .put(`/v1/workspaces/${workspaceId}/assignment-policy`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', userId)
+            .send(body);
+
+        const createTask = (priority = 'MEDIUM') => request(app)
+            .post(`/v1/workspaces/${workspaceId}/tasks`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', 'mgr_1')
+            .send({ title: 'Incoming', priority });
+
+        const autoAssign = (taskId: string, version: number, userId = 'mgr_1') => request(app)
+            .post(`/v1/workspaces/${workspaceId}/tasks/${taskId}/auto-assign`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', userId)
+            .set('If-Match-Version', String(version));
+
+        const assigneeOf = async (taskId: string) => (await backend.task(taskId))!.assigneeId;
+
+        it('should assign new tasks round-robin and record the rule that picked', async () => {
+            const policy = await putPolicy({ rules: [{ name: 'everyone', strategy: 'round_robin', pool: ['agent_1', 'agent_2'] }] });
+            expect(policy.status).toBe(200);
+            expect(policy.body).toMatchObject({ auto_assign_on_create: true, version: 1 });
+
+            const created = [];
+            for (let i = 0; i < 3; i++) created.push(await createTask());
+
+            expect(created[0].status).toBe(201);
+            expect(created[0].body).toMatchObject({ state: 'NEW', version: 2 });
+            expect(await Promise.all(created.map(res => assigneeOf(res.body.task_id)))).toEqual(['agent_1', 'agent_2', 'agent_1']);
+
+            const events = await backend.events({ taskId: created[0].body.task_id });
+            expect(events.map(e => e.eventType)).toEqual(['TaskCreated', 'TaskAssigned']);
+            expect(events[1].payload).toMatchObject({
+                assigneeId: 'agent_1',
+                actorId: 'mgr_1',
+                version: 2,
+                rule: { name: 'everyone', strategy: 'round_robin' },
+            });
+
+            // Replacing the policy keeps the rotation going
+            expect((await putPolicy({ rules: [{ name: 'everyone', strategy: 'round_robin', pool: ['agent_1', 'agent_2'] }] })).body.version).toBe(2);
+            expect(await assigneeOf((await createTask()).body.task_id)).toBe('agent_2');
+        });
+
+        it('should auto-assign tasks from bulk creates, imports and templates the same way', async () => {
+            await putPolicy({ rules: [{ name: 'everyone', strategy: 'round_robin', pool: ['agent_1', 'agent_2'] }] });
+
+            const bulk = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks:bulk`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .send({ mode: 'atomic', operations: [{ op: 'create', title: 'A' }, { op: 'create', title: 'B' }] });
+            expect(bulk.body.results.map((r: any) => r.version)).toEqual([2, 2]);
+
+            const imported = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/import`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .send([{ title: 'C' }]);
+            expect(imported.status).toBe(201);
+
+            const template = await request(app)
+                .post(`/v1/workspaces/${workspaceId}/templates`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .send({ title_pattern: 'D', recurrence: '@daily' });
+            await db.update(taskTemplates).set({ nextRunAt: 1000 }).where(eq(taskTemplates.id, template.body.template_id));
+            expect(await new TemplateScheduler({ clock: () => 1060 }).tick()).toEqual({ spawned: 1 });
+
+            const tasks = await backend.tasks({ workspaceId });
+            const byTitle = Object.fromEntries(tasks.map(t => [t.title, t.assigneeId]));
+            expect(byTitle).toEqual({ A: 'agent_1', B: 'agent_2', C: 'agent_1', D: 'agent_2' });
+
+            for (const task of tasks) {
+                const events = await backend.events({ taskId: task.id });
+                expect(events.map(e => e.eventType)).toEqual(['TaskCreated', 'TaskAssigned']);
+                expect(events[1].payload).toMatchObject({ version: 2, rule: { name: 'everyone' } });
+            }
+        });
+
+        it('should pick the pool member with the fewest tasks in progress', async () => {
+            await putPolicy({ auto_assign_on_create: false, rules: [{ name: 'balanced', strategy: 'least_loaded', pool: ['agent_1', 'agent_2'] }] });
+
+            const busy = (await createTask()).body.task_id;
+            expect(await assigneeOf(busy)).toBeNull();
+
+            // Ties go to the member listed first
+            const first = await autoAssign(busy, 1);
+            expect(first.status).toBe(200);
+            expect(first.body).toMatchObject({ task_id: busy, version: 2, assignee_id: 'agent_1', rule: 'balanced' });
+
+            await request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/${busy}/transition`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'agent_1')
+                .set('If-Match-Version', '2')
+                .send({ to_state: 'IN_PROGRESS' });
+
+            const next = (await createTask()).body.task_id;
+            expect((await autoAssign(next, 1)).body.assignee_id).toBe('agent_2');
+        });
+
+        it('should use the first rule matching the task priority', async () => {
+            await putPolicy({
+                rules: [
+                    { name: 'urgent', when: { priority: ['HIGH'] }, strategy: 'round_robin', pool: ['mgr_1'] },
+                    { name: 'rest', strategy: 'round_robin', pool: ['agent_1', 'agent_2'] },
+                ],
+            });
+
+            expect(await assigneeOf((await createTask('HIGH')).body.task_id)).toBe('mgr_1');
+            expect(await assigneeOf((await createTask('LOW')).body.task_id)).toBe('agent_1');
+
+            const policy = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/assignment-policy`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'agent_1');
+            expect(policy.body.rules.map((r: any) => r.when)).toEqual([{ priority: ['HIGH'] }, {}]);
+        });
+
+        it('should skip users who left the workspace and refuse when nobody is left', async () => {
+            const taskId = (await createTask()).body.task_id;
+
+            const noPolicy = await autoAssign(taskId, 1);
+            expect(noPolicy.status).toBe(409);
+            expect(noPolicy.body.code).toBe('no_assignment_policy');
+
+            await putPolicy({ auto_assign_on_create: false, rules: [{ name: 'pair', strategy: 'round_robin', pool: ['agent_1', 'agent_2'] }] });
+            expect((await autoAssign(taskId, 1, 'agent_1')).status).toBe(403);
+
+            await db.delete(workspaceMembers).where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, 'agent_1')));
+            expect((await autoAssign(taskId, 1)).body.assignee_id).toBe('agent_2');
+
+            await db.delete(workspaceMembers).where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, 'agent_2')));
+            const nobody = await autoAssign(taskId, 2);
+            expect(nobody.status).toBe(409);
+            expect(nobody.body.code).toBe('no_eligible_assignee');
+        });
+
+        it('should validate policies and only let managers change them', async () => {
+            const rule = { name: 'r', strategy: 'round_robin', pool: ['agent_1'] };
+
+            expect((await putPolicy({ rules: [rule] }, 'agent_1')).status).toBe(403);
+
+            const stranger = await putPolicy({ rules: [{ ...rule, pool: ['agent_1', 'someone'] }] });
+            expect(stranger.status).toBe(400);
+            expect(stranger.body).toMatchObject({ code: 'invalid_assignee', user_ids: ['someone'] });
+
+            const duplicate = await putPolicy({ rules: [rule, rule] });
+            expect(duplicate.status).toBe(400);
+            expect(duplicate.body.code).toBe('validation_failed');
+
+            expect((await putPolicy({ rules: [] })).status).toBe(400);
+
+            expect((await putPolicy({ rules: [rule] })).status).toBe(200);
+            const removed = await request(app)
+                .delete(`/v1/workspaces/${workspaceId}/assignment-policy`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+            expect(removed.status).toBe(204);
+
+            // Without a policy new tasks stay unassigned
+            expect(await assigneeOf((await createTask()).body.task_id)).toBeNull();
+        });
+    });
+
+    describe('Unassign, release, handoff and reopen', () => {
+        const as = (userId: string) => ({
+            post: (path: string, version?: number) => {
+                const req = request(app).post(`/v1/workspaces/${workspaceId}/tasks${path}`).set('X-Tenant-Id', tenantId).set('X-User-Id', userId);
+                return version === undefined ? req : req.set('If-Match-Version', String(version));
+            },
+            get: (path: string) => request(app).get(`/v1/workspaces/${workspaceId}/tasks${path}`).set('X-Tenant-Id', tenantId).set('X-User-Id', userId),
+            delete: (path: string) => request(app).delete(`/v1/workspaces/${workspaceId}/tasks${path}`).set('X-Tenant-Id', tenantId).set('X-User-Id', userId),
+        });
+        const manager = as('mgr_1');
+        const assignee = as('agent_1');
+        const otherAgent = as('agent_2');
+
+        // A task assigned to agent_1, moved along to `state` (version 2 in NEW, 3 in IN_PROGRESS, 4 in DONE)
+        const taskIn = async (state: 'NEW' | 'IN_PROGRESS' | 'DONE') => {
+            const taskId = (await manager.post('').send({ title: 'Flow' })).body.task_id as string;
+            await manager.post(`/${taskId}/assign`, 1).send({ assignee_id: 'agent_1' });
+            if (state !== 'NEW') await assignee.post(`/${taskId}/transition`, 2).send({ to_state: 'IN_PROGRESS' });
+            if (state === 'DONE') await assignee.post(`/${taskId}/transition`, 3).send({ to_state: 'DONE' });
+            return taskId;
+        };
+
+        const lastEvent = async (taskId: string) => (await backend.events({ taskId })).at(-1)!;
+
+        it('should let only managers unassign, keeping the state', async () => {
+            const taskId = await taskIn('IN_PROGRESS');
+
+            expect((await assignee.post(`/${taskId}/unassign`, 3)).status).toBe(403);
+            expect((await otherAgent.post(`/${taskId}/unassign`, 3)).status).toBe(403);
+            expect((await manager.post(`/${taskId}/unassign`)).status).toBe(400);
+
+            const res = await manager.post(`/${taskId}/unassign`, 3);
+            expect(res.status).toBe(200);
+            expect(res.body).toEqual({ task_id: taskId, state: 'IN_PROGRESS', version: 4 });
+
+            const event = await lastEvent(taskId);
+            expect(event.eventType).toBe('TaskUnassigned');
+            expect(event.payload).toMatchObject({ previousAssigneeId: 'agent_1', actorId: 'mgr_1', after: { assigneeId: null, state: 'IN_PROGRESS' } });
+
+            const again = await manager.post(`/${taskId}/unassign`, 4);
+            expect(again.status).toBe(409);
+            expect(again.body.code).toBe('task_unassigned');
+        });
+
+        it('should let only the assigned agent release a task back to NEW', async () => {
+            const taskId = await taskIn('IN_PROGRESS');
+
+            expect((await manager.post(`/${taskId}/release`, 3)).status).toBe(403);
+            expect((await otherAgent.post(`/${taskId}/release`, 3)).status).toBe(403);
+
+            const res = await assignee.post(`/${taskId}/release`, 3);
+            expect(res.status).toBe(200);
+            expect(res.body).toEqual({ task_id: taskId, state: 'NEW', version: 4 });
+
+            const event = await lastEvent(taskId);
+            expect(event.eventType).toBe('TaskReleased');
+            expect(event.payload).toMatchObject({ previousAssigneeId: 'agent_1', from: 'IN_PROGRESS', to: 'NEW', actorId: 'agent_1' });
+
+            // No longer theirs to release
+            expect((await assignee.post(`/${taskId}/release`, 4)).status).toBe(403);
+
+            const done = await taskIn('DONE');
+            const terminal = await assignee.post(`/${done}/release`, 4);
+            expect(terminal.status).toBe(409);
+            expect(terminal.body.code).toBe('task_terminal');
+        });
+
+        it('should hand a task to another agent once a manager accepts', async () => {
+            const taskId = await taskIn('IN_PROGRESS');
+
+            expect((await otherAgent.post(`/${taskId}/handoff`).send({ to_user_id: 'agent_1' })).status).toBe(403);
+            expect((await manager.post(`/${taskId}/handoff`).send({ to_user_id: 'agent_2' })).status).toBe(403);
+            for (const target of ['mgr_1', 'agent_1', 'stranger']) {
+                const invalid = await assignee.post(`/${taskId}/handoff`).send({ to_user_id: target });
+                expect(invalid.status).toBe(400);
+                expect(invalid.body.code).toBe('invalid_assignee');
+            }
+
+            const requested = await assignee.post(`/${taskId}/handoff`).send({ to_user_id: 'agent_2', note: 'Out next week' });
+            expect(requested.status).toBe(201);
+            expect(requested.body).toMatchObject({ task_id: taskId, from_user_id: 'agent_1', to_user_id: 'agent_2', note: 'Out next week', status: 'PENDING' });
+            expect((await lastEvent(taskId)).eventType).toBe('TaskHandoffRequested');
+
+            const twice = await assignee.post(`/${taskId}/handoff`).send({ to_user_id: 'agent_2' });
+            expect(twice.status).toBe(409);
+            expect(twice.body.code).toBe('handoff_pending');
+
+            expect((await otherAgent.get(`/${taskId}/handoff`)).body.handoff_id).toBe(requested.body.handoff_id);
+
+            // Nothing changes until a manager accepts
+            expect((await otherAgent.post(`/${taskId}/handoff/accept`, 3)).status).toBe(403);
+            expect((await assignee.post(`/${taskId}/handoff/accept`, 3)).status).toBe(403);
+
+            const accepted = await manager.post(`/${taskId}/handoff/accept`, 3);
+            expect(accepted.status).toBe(200);
+            expect(accepted.body).toEqual({ task_id: taskId, state: 'IN_PROGRESS', version: 4 });
+
+            const event = await lastEvent(taskId);
+            expect(event.eventType).toBe('TaskHandedOff');
+            expect(event.payload).toMatchObject({
+                handoffId: requested.body.handoff_id, assigneeId: 'agent_2', previousAssigneeId: 'agent_1', actorId: 'mgr_1',
+            });
+
+            expect((await otherAgent.get(`/${taskId}/handoff`)).status).toBe(404);
+            const stored = await backend.handoff(requested.body.handoff_id);
+            expect(stored).toMatchObject({ status: 'ACCEPTED', resolvedBy: 'mgr_1' });
+
+            // The new assignee can carry on
+            expect((await otherAgent.post(`/${taskId}/transition`, 4).send({ to_state: 'DONE' })).status).toBe(200);
+        });
+
+        it('should let managers decline and the asking agent withdraw a handoff', async () => {
+            const taskId = await taskIn('NEW');
+
+            await assignee.post(`/${taskId}/handoff`).send({ to_user_id: 'agent_2' });
+            expect((await assignee.post(`/${taskId}/handoff/decline`)).status).toBe(403);
+
+            const declined = await manager.post(`/${taskId}/handoff/decline`);
+            expect(declined.status).toBe(200);
+            expect(declined.body).toMatchObject({ status: 'DECLINED', resolved_by: 'mgr_1' });
+            expect((await lastEvent(taskId)).eventType).toBe('TaskHandoffDeclined');
+
+            await assignee.post(`/${taskId}/handoff`).send({ to_user_id: 'agent_2' });
+            expect((await otherAgent.delete(`/${taskId}/handoff`)).status).toBe(403);
+            expect((await manager.delete(`/${taskId}/handoff`)).status).toBe(403);
+
+            const cancelled = await assignee.delete(`/${taskId}/handoff`);
+            expect(cancelled.status).toBe(200);
+            expect(cancelled.body).toMatchObject({ status: 'CANCELLED', resolved_by: null });
+            expect((await lastEvent(taskId)).eventType).toBe('TaskHandoffCancelled');
+
+            // The task never moved
+            expect((await manager.get(`/${taskId}`)).body).toMatchObject({ assignee_id: 'agent_1', version: 2 });
+        });
+
+        it('should refuse a handoff the asking agent no longer holds', async () => {
+            const taskId = await taskIn('NEW');
+            const first = await assignee.post(`/${taskId}/handoff`).send({ to_user_id: 'agent_2' });
+
+            await manager.post(`/${taskId}/assign`, 2).send({ assignee_id: 'agent_2' });
+
+            const stale = await manager.post(`/${taskId}/handoff/accept`, 3);
+            expect(stale.status).toBe(409);
+            expect(stale.body.code).toBe('handoff_stale');
+
+            // The new assignee's own request replaces the leftover one
+            const second = await otherAgent.post(`/${taskId}/handoff`).send({ to_user_id: 'agent_1' });
+            expect(second.status).toBe(201);
+            const old = await backend.handoff(first.body.handoff_id);
+            expect(old!.status).toBe('CANCELLED');
+        });
+
+        it('should reassign and close the handoff together or not at all', async () => {
+            const taskId = await taskIn('NEW');
+            await assignee.post(`/${taskId}/handoff`).send({ to_user_id: 'agent_2' });
+            const handoff = (await taskStore().findPendingHandoff(taskId))!;
+
+            // Declined by another manager after this one loaded it
+            await taskStore().resolveHandoff(handoff, 'DECLINED', 'mgr_1');
+            await expect(taskStore().acceptHandoff(handoff, 2, undefined, 'mgr_1')).rejects.toMatchObject({ code: 'handoff_resolved' });
+            expect((await manager.get(`/${taskId}`)).body).toMatchObject({ assignee_id: 'agent_1', version: 2 });
+        });
+
+        it('should let only managers reopen finished tasks', async () => {
+            const open = await taskIn('IN_PROGRESS');
+            const notTerminal = await manager.post(`/${open}/reopen`, 3);
+            expect(notTerminal.status).toBe(409);
+            expect(notTerminal.body.code).toBe('task_not_terminal');
+
+            const taskId = await taskIn('DONE');
+            expect((await assignee.post(`/${taskId}/reopen`, 4)).status).toBe(403);
+            expect((await otherAgent.post(`/${taskId}/reopen`, 4)).status).toBe(403);
+
+            const res = await manager.post(`/${taskId}/reopen`, 4);
+            expect(res.status).toBe(200);
+            expect(res.body).toEqual({ task_id: taskId, state: 'NEW', version: 5 });
+
+            const event = await lastEvent(taskId);
+            expect(event.eventType).toBe('TaskReopened');
+            expect(event.payload).toMatchObject({ from: 'DONE', to: 'NEW', actorId: 'mgr_1', after: { assigneeId: 'agent_1' } });
+
+            // Work starts over with the same assignee
+            expect((await assignee.post(`/${taskId}/transition`, 5).send({ to_state: 'IN_PROGRESS' })).status).toBe(200);
+
+            const [row] = await taskStore().scan({ limit: 10 }).then(rows => rows.filter(t => t.id === taskId));
+            expect(TaskHistory.verify(await taskStore().events(taskId), row)).toEqual([]);
+        });
+    });
+
+    describe('Labels and custom fields', () => {
+        const definitions = {
+            labels: ['infra', 'billing', 'urgent'],
+            fields: [
+                { key: 'customer', type: 'string' },
+                { key: 'estimate', type: 'number' },
+                { key: 'launch', type: 'date' },
+                { key: 'tier', type: 'enum', options: ['gold', 'silver'] },
+                { key: 'reviewer', type: 'user' },
+            ],
+        };
+
+        const putFields = (body: object, userId = 'mgr_1') => request(app)
+            .put(`/v1/workspaces/${workspaceId}/task-fields`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', userId)
+            .send(body);
+
+        const createTask = (body: object) => request(app)
+            .post(`/v1/workspaces/${workspaceId}/tasks`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', 'mgr_1')
+            .send({ title: 'Tagged', ...body });
+
+        const listTasks = (query: string) => request(app)
+            .get(`/v1/workspaces/${workspaceId}/tasks?${query}`)
+            .set('X-Tenant-Id', tenantId)
+            .set('X-User-Id', 'mgr_1');
+
+        it('should let only managers define labels and fields', async () => {
+            const empty = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/task-fields`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'agent_1');
+            expect(empty.status).toBe(200);
+            expect(empty.body).toEqual({ labels: [], fields: [], version: null, updated_at: null });
+
+            expect((await putFields(definitions, 'agent_1')).status).toBe(403);
+
+            const res = await putFields(definitions);
+            expect(res.status).toBe(200);
+            expect(res.body).toMatchObject({ labels: ['infra', 'billing', 'urgent'], version: 1 });
+            expect(res.body.fields[3]).toEqual({ key: 'tier', type: 'enum', options: ['gold', 'silver'] });
+
+            const invalid = await putFields({ fields: [{ key: 'tier', type: 'enum' }, { key: 'tier', type: 'string', options: ['x'] }] });
+            expect(invalid.status).toBe(400);
+            expect(invalid.body.code).toBe('validation_failed');
+        });
+
+        it('should validate labels and custom field values against the workspace definitions', async () => {
+            await putFields(definitions);
+
+            const created = await createTask({
+                labels: ['infra', 'urgent'],
+                custom_fields: { customer: 'acme', estimate: 3, launch: '2026-11-01', tier: 'gold', reviewer: 'agent_2' },
+            });
+            expect(created.status).toBe(201);
+
+            const task = await request(app)
+                .get(`/v1/workspaces/${workspaceId}/tasks/${created.body.task_id}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+            expect(task.body.labels).toEqual(['infra', 'urgent']);
+            expect(task.body.custom_fields).toEqual({ customer: 'acme', estimate: 3, launch: '2026-11-01', tier: 'gold', reviewer: 'agent_2' });
+
+            const invalid = [
+                { labels: ['unknown'] },
+                { labels: ['infra', 'infra'] },
+                { custom_fields: { tier: 'bronze' } },
+                { custom_fields: { estimate: 'three' } },
+                { custom_fields: { launch: 'next week' } },
+                { custom_fields: { reviewer: 'stranger' } },
+                { custom_fields: { color: 'red' } },
+            ];
+            for (const body of invalid) {
+                const res = await createTask(body);
+                expect(res.status).toBe(400);
+                expect(res.body.code).toBe('validation_failed');
+            }
+
+            // Without definitions a workspace takes neither labels nor custom fields
+            const other = await request(app)
+                .post('/v1/workspaces/ws_other/tasks')
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .send({ title: 'Elsewhere', labels: ['infra'] });
+            expect(other.status).toBe(400);
+        });
+
+        it('should replace labels and merge custom fields on update, recording the diff', async () => {
+            await putFields(definitions);
+            const created = await createTask({ labels: ['infra'], custom_fields: { customer: 'acme', tier: 'gold' } });
+            const taskId = created.body.task_id;
+
+            const res = await request(app)
+                .patch(`/v1/workspaces/${workspaceId}/tasks/${taskId}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '1')
+                .send({ labels: ['billing'], custom_fields: { tier: null, estimate: 5 } });
+            expect(res.status).toBe(200);
+            expect(res.body.version).toBe(2);
+
+            const row = await backend.task(taskId);
+            expect(row!.labels).toEqual(['billing']);
+            expect(row!.customFields).toEqual({ customer: 'acme', estimate: 5 });
+
+            const events = await backend.events({ taskId });
+            expect(events.map(e => e.eventType)).toEqual(['TaskCreated', 'TaskUpdated']);
+            expect(events[1].payload).toMatchObject({
+                changes: {
+                    labels: { before: ['infra'], after: ['billing'] },
+                    customFields: { before: { customer: 'acme', tier: 'gold' }, after: { customer: 'acme', estimate: 5 } },
+                },
+                after: { labels: ['billing'] },
+            });
+
+            const invalid = await request(app)
+                .patch(`/v1/workspaces/${workspaceId}/tasks/${taskId}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '2')
+                .send({ custom_fields: { tier: 'bronze' } });
+            expect(invalid.status).toBe(400);
+        });
+
+        it('should take labels and custom fields in bulk operations, validated up front', async () => {
+            await putFields(definitions);
+            const taskId = (await createTask({ labels: ['infra'], custom_fields: { customer: 'acme', tier: 'gold' } })).body.task_id;
+
+            const bulk = (operations: object[]) => request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks:bulk`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .send({ mode: 'atomic', operations });
+
+            const res = await bulk([
+                { op: 'create', title: 'Bulk', labels: ['urgent'], custom_fields: { estimate: 2 } },
+                { op: 'update', task_id: taskId, version: 1, labels: ['billing'], custom_fields: { tier: null, estimate: 5 } },
+            ]);
+            expect(res.status).toBe(200);
+
+            const created = await backend.task(res.body.results[0].task_id);
+            expect(created!.labels).toEqual(['urgent']);
+            expect(created!.customFields).toEqual({ estimate: 2 });
+            const updated = await backend.task(taskId);
+            expect(updated!.labels).toEqual(['billing']);
+            expect(updated!.customFields).toEqual({ customer: 'acme', estimate: 5 });
+
+            const invalid = await bulk([
+                { op: 'create', title: 'Fine' },
+                { op: 'create', title: 'Unknown label', labels: ['unknown'] },
+            ]);
+            expect(invalid.status).toBe(400);
+            expect(invalid.body.code).toBe('validation_failed');
+            expect(invalid.body.errors[0].path).toMatch(/^operations\.1\.labels/);
+            expect(await backend.tasks({ workspaceId })).toHaveLength(2);
+        });
+
+        it('should import labels and custom fields, reporting invalid values per row', async () => {
+            await putFields(definitions);
+
+            const importTasks = (body: string, contentType: string) => request(app)
+                .post(`/v1/workspaces/${workspaceId}/tasks/import`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .set('Content-Type', contentType)
+                .send(body);
+
+            const bad = await importTasks(JSON.stringify([
+                { title: 'Ok', labels: ['infra'] },
+                { title: 'Unknown label', labels: ['unknown'] },
+                { title: 'Bad tier', custom_fields: { tier: 'bronze' } },
+            ]), 'application/json');
+            expect(bad.status).toBe(422);
+            expect(bad.body).toMatchObject({ total: 3, valid: 1, imported: 0 });
+            expect(bad.body.errors.map((e: any) => e.row)).toEqual([2, 3]);
+
+            // CSV cells for labels and custom fields hold JSON
+            const csv = 'title,labels,custom_fields\r\nCsv,"[""infra"",""urgent""]","{""customer"":""acme"",""estimate"":3}"\r\n';
+            const res = await importTasks(csv, 'text/csv');
+            expect(res.status).toBe(201);
+
+            const [row] = await backend.tasks({ workspaceId });
+            expect(row.labels).toEqual(['infra', 'urgent']);
+            expect(row.customFields).toEqual({ customer: 'acme', estimate: 3 });
+        });
+
+        it('should filter the list by label and typed custom field values', async () => {
+            await putFields(definitions);
+            const a = (await createTask({ labels: ['infra'], custom_fields: { customer: 'acme', estimate: 3 } })).body.task_id;
+            const b = (await createTask({ labels: ['billing', 'urgent'], custom_fields: { customer: 'acme', estimate: 8 } })).body.task_id;
+            const c = (await createTask({ custom_fields: { customer: 'globex', estimate: 3 } })).body.task_id;
+
+            const ids = async (query: string) => (await listTasks(query)).body.data.map((t: any) => t.task_id).sort();
+
+            expect(await ids('label=infra')).toEqual([a]);
+            expect(await ids('label=infra,urgent')).toEqual([a, b].sort());
+            expect(await ids('cf.customer=acme')).toEqual([a, b].sort());
+            expect(await ids('cf.estimate=3')).toEqual([a, c].sort());
+            expect(await ids('cf.customer=acme&cf.estimate=3')).toEqual([a]);
+            expect(await ids('label=urgent&cf.estimate=3')).toEqual([]);
+
+            const unknown = await listTasks('cf.color=red');
+            expect(unknown.status).toBe(400);
+            const mistyped = await listTasks('cf.estimate=many');
+            expect(mistyped.status).toBe(400);
+        });
+
+        it('should refuse to drop labels, fields or enum options that tasks still use', async () => {
+            await putFields(definitions);
+            const taskId = (await createTask({ labels: ['infra'], custom_fields: { tier: 'gold' } })).body.task_id;
+
+            const label = await putFields({ ...definitions, labels: ['billing'] });
+            expect(label.status).toBe(409);
+            expect(label.body).toMatchObject({ code: 'labels_in_use', labels: ['infra'] });
+
+            const option = await putFields({ ...definitions, fields: [{ key: 'tier', type: 'enum', options: ['silver'] }] });
+            expect(option.status).toBe(409);
+            expect(option.body).toMatchObject({ code: 'fields_in_use', fields: ['tier'] });
+
+            // Unused labels, fields and options can go
+            const trimmed = await putFields({ labels: ['infra'], fields: [{ key: 'tier', type: 'enum', options: ['gold'] }] });
+            expect(trimmed.status).toBe(200);
+            expect(trimmed.body.version).toBe(2);
+
+            const remove = () => request(app)
+                .delete(`/v1/workspaces/${workspaceId}/task-fields`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1');
+            expect((await remove()).status).toBe(409);
+
+            await request(app)
+                .delete(`/v1/workspaces/${workspaceId}/tasks/${taskId}`)
+                .set('X-Tenant-Id', tenantId)
+                .set('X-User-Id', 'mgr_1')
+                .set('If-Match-Version', '1');
+            expect((await remove()).status).toBe(204);
+            expect((await remove()).status).toBe(404);
+        });
+    });
 });